@@ -7,6 +7,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useFileUpload } from "@/hooks/use-file-upload";
 import { useStart3DConversion } from "@/hooks/use-scan-data";
 import { useProcessingState } from "@/hooks/use-processing-state";
+import { useAuth } from "@/hooks/use-auth";
+import { MAX_UPLOAD_SIZE, MEDICAL_UPLOAD_ACCEPT, SUPPORTED_FORMATS_LABEL } from "@shared/medical-formats";
+import { CONVERSION_STAGE_LABELS } from "@shared/conversion-progress";
+import UploadModeToggle from "./upload-mode-toggle";
 import ThreeDViewer from "./three-d-viewer";
 import DetectionOverlay from "./detection-overlay";
 import MetricsDashboard from "./metrics-dashboard";
@@ -16,9 +20,21 @@ interface AnalysisAccordionProps {
 }
 
 export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionProps) {
-  const { uploadedFiles, uploadFile, removeFile, isUploading } = useFileUpload();
+  const {
+    uploadedFiles,
+    uploadFile,
+    removeFile,
+    uploadMode,
+    setUploadMode,
+    createSeries,
+    isCreatingSeries,
+    isUploading,
+  } = useFileUpload();
   const start3DConversion = useStart3DConversion();
-  const { setCurrentScan, currentScan, isProcessing, processingProgress, processingStage } = useProcessingState();
+  const { setCurrentScan, currentScan, isProcessing, processingProgress, processingStage, processingMessage } = useProcessingState();
+  const { can } = useAuth();
+  // Uploads are processed right away, so both steps need both permissions
+  const canIngest = can("scans:upload") && can("scans:convert");
 
   // File upload handling
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -29,20 +45,29 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png']
-    },
-    maxSize: 50 * 1024 * 1024, // 50MB
+    accept: MEDICAL_UPLOAD_ACCEPT,
+    maxSize: MAX_UPLOAD_SIZE, // 50MB
     multiple: true
   });
 
   // Check if we have uploaded files
   const uploadedFileIds = uploadedFiles.filter(f => f.status === "uploaded" && f.id).map(f => f.id!);
-  const hasUploadedFiles = uploadedFileIds.length > 0;
+  const uploadedSliceCount = uploadedFiles.filter(f => f.status === "uploaded" && f.uploadURL).length;
+  const hasUploadedFiles = uploadMode === "series" ? uploadedSliceCount > 0 : uploadedFileIds.length > 0;
 
   // Handle processing
-  const handleProcessFiles = () => {
+  const handleProcessFiles = async () => {
+    if (uploadMode === "series") {
+      // Errors are reported by the upload hook
+      const scan = await createSeries().catch(() => null);
+      if (scan) {
+        setCurrentScan(scan.id);
+        start3DConversion.mutate(scan.id);
+        onStepChange(2); // Move to processing stage
+      }
+      return;
+    }
+
     if (uploadedFileIds.length > 0) {
       const scanId = uploadedFileIds[0];
       setCurrentScan(scanId);
@@ -53,7 +78,7 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
 
   // Handle PDF download
   const handleDownloadPDF = async () => {
-    const scanId = uploadedFileIds[0];
+    const scanId = currentScan?.id ?? uploadedFileIds[0];
     if (!scanId) return;
     
     try {
@@ -94,9 +119,20 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
         <p className="text-muted-foreground">Upload MRI scans for 3D analysis and medical reporting</p>
       </div>
 
+      {!canIngest && (
+        <Card className="p-6" data-testid="ingest-not-permitted">
+          <p className="text-sm text-muted-foreground">
+            Your role can review scans but not upload or process them. Select a scan from the library to view its results.
+          </p>
+        </Card>
+      )}
+
       {/* Step 1: File Upload */}
-      <Card className="p-6">
-        <h2 className="text-xl font-semibold mb-4">Step 1: Upload MRI Files</h2>
+      {canIngest && <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Step 1: Upload MRI Files</h2>
+          <UploadModeToggle mode={uploadMode} onModeChange={setUploadMode} disabled={isUploading || isCreatingSeries} />
+        </div>
         
         <div className="flex items-center gap-4">
           <Button
@@ -109,10 +145,12 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
           >
             <input {...getInputProps()} />
             <Upload className="h-4 w-4" />
-            {isDragActive ? "Drop files here" : "Upload MRI Files"}
+            {isDragActive ? "Drop files here" : uploadMode === "series" ? "Upload Series Slices" : "Upload MRI Files"}
           </Button>
           <div className="text-sm text-muted-foreground">
-            JPG, PNG • Max 50MB per file
+            {uploadMode === "series"
+              ? "DICOM slices or ordered PNG/JPG images of one series"
+              : `${SUPPORTED_FORMATS_LABEL} • Max 50MB per file`}
           </div>
         </div>
 
@@ -158,10 +196,10 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
             ))}
           </div>
         )}
-      </Card>
+      </Card>}
 
       {/* Step 2: Process Files */}
-      <Card className="p-6">
+      {canIngest && <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
           <div>
             <h2 className="text-xl font-semibold">Step 2: Process & Analyze</h2>
@@ -169,7 +207,7 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
           </div>
           <Button 
             onClick={handleProcessFiles}
-            disabled={!hasUploadedFiles || isUploading || isProcessing}
+            disabled={!hasUploadedFiles || isUploading || isCreatingSeries || isProcessing}
             size="lg"
             data-testid="button-process-files"
             className="px-8"
@@ -179,6 +217,11 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
                 <div className="animate-spin rounded-full h-4 w-4 border-b border-white mr-2" />
                 Uploading...
               </>
+            ) : isCreatingSeries ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b border-white mr-2" />
+                Assembling series...
+              </>
             ) : isProcessing ? (
               <>
                 <div className="animate-spin rounded-full h-4 w-4 border-b border-white mr-2" />
@@ -187,7 +230,7 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
             ) : hasUploadedFiles ? (
               <>
                 <span className="mr-2">⚡</span>
-                Process Files
+                {uploadMode === "series" ? `Process Series (${uploadedSliceCount} slices)` : "Process Files"}
               </>
             ) : (
               <>
@@ -211,12 +254,13 @@ export default function AnalysisAccordion({ onStepChange }: AnalysisAccordionPro
                 style={{ width: `${processingProgress}%` }}
               />
             </div>
-            <p className="text-xs text-muted-foreground mt-1 capitalize">
-              {processingStage.replace('_', ' ')}
+            <p className="text-xs text-muted-foreground mt-1">
+              {processingStage === 'idle' ? CONVERSION_STAGE_LABELS.pending : CONVERSION_STAGE_LABELS[processingStage]}
+              {processingMessage && ` — ${processingMessage}`}
             </p>
           </div>
         )}
-      </Card>
+      </Card>}
 
       {/* Step 3: Results */}
       {showResults && (
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuditEvents, useVerifyAuditTrail } from "@/hooks/use-scan-data";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_OUTCOMES,
+  AUDIT_RESOURCE_TYPES,
+  type AuditAction,
+  type AuditOutcome,
+  type AuditResourceType,
+} from "@shared/audit";
+import type { AuditEvent } from "@shared/schema";
+
+// Select value standing for "no filter"
+const ANY = "any";
+
+const OUTCOME_BADGE_CLASSES: Record<AuditOutcome, string> = {
+  success: "bg-medical-success/15 text-medical-success border-medical-success/30",
+  denied: "bg-medical-warning/15 text-medical-warning border-medical-warning/30",
+  failure: "bg-medical-risk-high/15 text-medical-risk-high border-medical-risk-high/30",
+};
+
+// Server errors arrive as "<status>: <json body>"
+function errorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(text.slice(text.indexOf(":") + 1)).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+function describeDetails(event: AuditEvent): string {
+  return Object.entries(event.details ?? {}).map(([key, value]) => `${key}: ${value}`).join(", ");
+}
+
+function FilterSelect<T extends string>({ label, value, options, onChange, testId }: {
+  label: string;
+  value: T | undefined;
+  options: readonly T[];
+  onChange: (value: T | undefined) => void;
+  testId: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value ?? ANY} onValueChange={(selected) => onChange(selected === ANY ? undefined : selected as T)}>
+        <SelectTrigger className="w-36" data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Admin view of the audit trail with filters and hash chain verification
+export default function AuditLog() {
+  const [action, setAction] = useState<AuditAction>();
+  const [resourceType, setResourceType] = useState<AuditResourceType>();
+  const [outcome, setOutcome] = useState<AuditOutcome>();
+  const [resourceId, setResourceId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const events = useAuditEvents({
+    action,
+    resourceType,
+    outcome,
+    resourceId: resourceId.trim() || undefined,
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+  });
+  const verifyTrail = useVerifyAuditTrail();
+  const rows = events.data?.pages.flat() ?? [];
+  const verification = verifyTrail.data;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Audit Trail</CardTitle>
+        <div className="flex items-center gap-3">
+          {verification && (
+            <span
+              className={`flex items-center gap-1 text-sm ${verification.valid ? "text-medical-success" : "text-medical-risk-high"}`}
+              data-testid="text-audit-verification"
+            >
+              {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+              {verification.valid
+                ? `Chain intact (${verification.checkedCount} events)`
+                : `Chain broken at event #${verification.brokenAt}`}
+            </span>
+          )}
+          {verifyTrail.isError && (
+            <span className="text-sm text-medical-risk-high">{errorMessage(verifyTrail.error)}</span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={verifyTrail.isPending}
+            onClick={() => verifyTrail.mutate()}
+            data-testid="button-verify-audit"
+          >
+            {verifyTrail.isPending ? "Verifying..." : "Verify chain"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <FilterSelect label="Action" value={action} options={AUDIT_ACTIONS} onChange={setAction} testId="select-audit-action" />
+          <FilterSelect label="Resource" value={resourceType} options={AUDIT_RESOURCE_TYPES} onChange={setResourceType} testId="select-audit-resource-type" />
+          <FilterSelect label="Outcome" value={outcome} options={AUDIT_OUTCOMES} onChange={setOutcome} testId="select-audit-outcome" />
+          <div className="space-y-1">
+            <Label htmlFor="audit-resource-id" className="text-xs text-muted-foreground">Scan or object</Label>
+            <Input
+              id="audit-resource-id"
+              className="w-64"
+              placeholder="Scan ID or /objects/ path"
+              value={resourceId}
+              onChange={(event) => setResourceId(event.target.value)}
+              data-testid="input-audit-resource-id"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs text-muted-foreground">From</Label>
+            <Input id="audit-from" type="date" className="w-40" value={from} onChange={(event) => setFrom(event.target.value)} data-testid="input-audit-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs text-muted-foreground">To</Label>
+            <Input id="audit-to" type="date" className="w-40" value={to} onChange={(event) => setTo(event.target.value)} data-testid="input-audit-to" />
+          </div>
+        </div>
+
+        {events.isError ? (
+          <p className="text-sm text-medical-risk-high">{errorMessage(events.error)}</p>
+        ) : events.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading audit events...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events match these filters</p>
+        ) : (
+          <Table data-testid="table-audit-events">
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Resource</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((event) => (
+                <TableRow key={event.sequence} data-testid={`row-audit-${event.sequence}`}>
+                  <TableCell className="text-xs text-muted-foreground">{event.sequence}</TableCell>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(event.occurredAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">{event.actorUsername ?? <span className="text-muted-foreground">signed out</span>}</TableCell>
+                  <TableCell className="text-sm">
+                    {AUDIT_ACTION_LABELS[event.action]}
+                    <div className="text-xs text-muted-foreground">{event.method} {event.path}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {event.resourceType}
+                    {event.resourceId && <div className="text-xs text-muted-foreground break-all">{event.resourceId}</div>}
+                    {event.details && <div className="text-xs text-muted-foreground">{describeDetails(event)}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={OUTCOME_BADGE_CLASSES[event.outcome]}>
+                      {event.outcome} ({event.statusCode})
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{event.ip}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {events.hasNextPage && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={events.isFetchingNextPage}
+            onClick={() => events.fetchNextPage()}
+            data-testid="button-audit-older"
+          >
+            {events.isFetchingNextPage ? "Loading..." : "Load older events"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
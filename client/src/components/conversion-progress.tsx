@@ -1,8 +1,9 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, Loader2, Clock } from "lucide-react";
+import { CheckCircle, Loader2, Clock, AlertTriangle } from "lucide-react";
 import { useProcessingState } from "@/hooks/use-processing-state";
 import { useStart3DConversion } from "@/hooks/use-scan-data";
+import { CONVERSION_STAGE_LABELS } from "@shared/conversion-progress";
 
 export default function ConversionProgress() {
   const processingState = useProcessingState();
@@ -14,6 +15,7 @@ export default function ConversionProgress() {
     hasUploadedFiles,
     processingProgress,
     processingStage,
+    processingMessage,
     isProcessing
   } = processingState;
 
@@ -28,52 +30,42 @@ export default function ConversionProgress() {
   const getStageInfo = (stage: typeof processingStage) => {
     switch (stage) {
       case 'idle':
+      case 'pending':
         return { 
-          name: 'Ready to Process', 
+          name: CONVERSION_STAGE_LABELS.pending, 
           icon: <Clock className="w-4 h-4" />, 
           status: 'pending' as const
         };
-      case 'starting':
+      case 'queued':
         return { 
-          name: 'Initializing Processing', 
-          icon: <Loader2 className="w-4 h-4 animate-spin" />, 
-          status: 'processing' as const
+          name: CONVERSION_STAGE_LABELS.queued, 
+          icon: <Clock className="w-4 h-4 text-blue-500" />, 
+          status: 'pending' as const
         };
-      case 'image_processing':
+      case 'completed':
         return { 
-          name: 'Image Processing', 
+          name: CONVERSION_STAGE_LABELS.completed, 
           icon: <CheckCircle className="w-4 h-4 text-green-500" />, 
           status: 'completed' as const
         };
-      case 'mesh_generation':
+      case 'error':
         return { 
-          name: 'Mesh Generation', 
-          icon: <Loader2 className="w-4 h-4 animate-spin text-blue-500" />, 
+          name: CONVERSION_STAGE_LABELS.error, 
+          icon: <AlertTriangle className="w-4 h-4 text-amber-500" />, 
           status: 'processing' as const
         };
-      case 'texture_mapping':
-        return { 
-          name: 'Texture Mapping', 
-          icon: <Clock className="w-4 h-4 text-gray-400" />, 
-          status: 'pending' as const
-        };
-      case 'completed':
-        return { 
-          name: 'Processing Complete', 
-          icon: <CheckCircle className="w-4 h-4 text-green-500" />, 
-          status: 'completed' as const
-        };
       case 'failed':
         return { 
-          name: 'Processing Failed', 
+          name: CONVERSION_STAGE_LABELS.failed, 
           icon: <Clock className="w-4 h-4 text-red-500" />, 
           status: 'failed' as const
         };
       default:
+        // Pipeline stages reported by the server while the conversion runs
         return { 
-          name: 'Unknown Stage', 
-          icon: <Clock className="w-4 h-4" />, 
-          status: 'pending' as const
+          name: CONVERSION_STAGE_LABELS[stage], 
+          icon: <Loader2 className="w-4 h-4 animate-spin text-blue-500" />, 
+          status: 'processing' as const
         };
     }
   };
@@ -113,6 +105,11 @@ export default function ConversionProgress() {
                 <span className="text-green-600 text-xs">✓ Done</span>
               )}
             </div>
+            {processingMessage && (
+              <p className="text-xs text-muted-foreground" data-testid="conversion-message">
+                {processingMessage}
+              </p>
+            )}
           </div>
 
           {/* Processing is initiated from upload area */}
@@ -1,4 +1,5 @@
-import { AlertTriangle, Target, Brain } from "lucide-react";
+import { useState } from "react";
+import { AlertTriangle, Target, Brain, ImageOff } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useCurrentScan, useScan } from "@/hooks/use-scan-data";
@@ -11,6 +12,17 @@ export default function DetectionOverlay() {
   // Use real detection data from the scan
   const detections = scan?.detections || [];
 
+  // Natural size of the source image; the card takes its aspect ratio so the
+  // percentage-based boxes line up with the anatomy
+  const [imageSize, setImageSize] = useState<{ scanId: string; width: number; height: number } | null>(null);
+  const [failedImageScanId, setFailedImageScanId] = useState<string | null>(null);
+  const imageFailed = !!scan && failedImageScanId === scan.id;
+  const aspectRatio = imageSize && imageSize.scanId === scan?.id
+    ? imageSize.width / imageSize.height
+    : 16 / 10;
+  // Cap the height at 500px for tall images
+  const cardWidth = `min(100%, ${Math.round(500 * aspectRatio)}px)`;
+
   const hasDetections = detections.length > 0;
   
   // Helper function to get medical severity styling
@@ -55,7 +67,10 @@ export default function DetectionOverlay() {
 
   return (
     <div className="relative">
-      <Card className="relative medical-3d-viewer rounded-lg overflow-hidden" style={{ aspectRatio: "16/10" }}>
+      <Card
+        className="relative medical-3d-viewer rounded-lg overflow-hidden mx-auto"
+        style={{ aspectRatio: `${aspectRatio}`, width: cardWidth }}
+      >
         {/* Professional Status Badge */}
         {hasDetections && (
           <div className="absolute top-4 left-4 z-10">
@@ -78,13 +93,27 @@ export default function DetectionOverlay() {
           </Badge>
         </div>
 
-        {/* MRI scan image placeholder */}
-        <img
-          src="https://images.unsplash.com/photo-1559757148-5c350d0d3c56?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=500"
-          alt="Brain MRI scan"
-          className="w-full h-full object-cover"
-          data-testid="mri-scan-image"
-        />
+        {/* Source image of the scan (the analysed slice for series and volumes) */}
+        {scan && !imageFailed ? (
+          <img
+            key={scan.id}
+            src={`/api/scans/${scan.id}/image`}
+            alt={`MRI scan ${scan.originalName}`}
+            className="w-full h-full object-fill"
+            onLoad={(event) => setImageSize({
+              scanId: scan.id,
+              width: event.currentTarget.naturalWidth,
+              height: event.currentTarget.naturalHeight
+            })}
+            onError={() => setFailedImageScanId(scan.id)}
+            data-testid="mri-scan-image"
+          />
+        ) : (
+          <div className="w-full h-full bg-muted/30 flex flex-col items-center justify-center gap-2 text-muted-foreground" data-testid="mri-scan-image-unavailable">
+            <ImageOff className="w-6 h-6" />
+            <span className="text-sm">{scan ? "Scan image unavailable" : "No scan uploaded"}</span>
+          </div>
+        )}
         
         {/* Detection bounding boxes with medical severity styling */}
         {detections.filter(detection => detection.coordinates).map((detection) => {
@@ -96,8 +125,8 @@ export default function DetectionOverlay() {
               style={{
                 top: `${detection.coordinates.y}%`,
                 left: `${detection.coordinates.x}%`,
-                width: `${detection.coordinates.width}px`,
-                height: `${detection.coordinates.height}px`,
+                width: `${detection.coordinates.width}%`,
+                height: `${detection.coordinates.height}%`,
               }}
               data-testid={`detection-box-${detection.id}`}
             >
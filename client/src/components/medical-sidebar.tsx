@@ -1,9 +1,10 @@
-import { Brain, Activity, FileText, Settings, User, Home, BarChart3, Clock, CheckCircle, AlertCircle } from "lucide-react";
+import { Brain, Activity, FileText, Settings, User, Home, BarChart3, Clock, CheckCircle, AlertCircle, ScrollText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { useScans, useCurrentScan } from "@/hooks/use-scan-data";
+import { useAuth } from "@/hooks/use-auth";
 
 interface MedicalSidebarProps {
   currentView: string;
@@ -14,6 +15,7 @@ interface MedicalSidebarProps {
 export default function MedicalSidebar({ currentView, onViewChange, onScanSelect }: MedicalSidebarProps) {
   const { data: scans } = useScans();
   const { scanId: currentScanId } = useCurrentScan();
+  const { can } = useAuth();
   const navigationItems = [
     { id: "dashboard", label: "Dashboard", icon: Home },
     { id: "scans", label: "MRI Scans", icon: Brain },
@@ -21,6 +23,7 @@ export default function MedicalSidebar({ currentView, onViewChange, onScanSelect
     { id: "reports", label: "Reports", icon: FileText },
     { id: "metrics", label: "Metrics", icon: BarChart3 },
     { id: "settings", label: "Settings", icon: Settings },
+    ...(can("audit:read") ? [{ id: "audit", label: "Audit Trail", icon: ScrollText }] : []),
   ];
 
   return (
@@ -7,70 +7,73 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
-import { useCurrentScan } from "@/hooks/use-scan-data";
+import { useCurrentScan, useScanPatient } from "@/hooks/use-scan-data";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 interface PatientDetailsSidebarProps {
   currentScan?: any;
   scanData?: any;
 }
 
+const SEX_LABELS: Record<string, string> = { M: "Male", F: "Female", O: "Other" };
+
+// Age at the time of the scan, from an ISO birth date
+function getAgeInYears(birthDate: string, at: Date): number {
+  const [year, month, day] = birthDate.split("-").map(Number);
+  const hadBirthday = at.getMonth() + 1 > month || (at.getMonth() + 1 === month && at.getDate() >= day);
+  return at.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
 export default function PatientDetailsSidebar({ currentScan, scanData }: PatientDetailsSidebarProps) {
   const [opacity, setOpacity] = useState([80]);
   const [slice, setSlice] = useState([50]);
   const [showOverlay, setShowOverlay] = useState(true);
   const [showGrid, setShowGrid] = useState(false);
   
-  const { scanId } = useCurrentScan();
+  const { scan: latestScan, scanId } = useCurrentScan();
+  const scan = currentScan || scanData?.scan || latestScan;
+  const { data: patientContext } = useScanPatient(scan?.id);
   const { toast } = useToast();
+  const { can } = useAuth();
+  // Without phi:read the server sends de-identified patient details
+  const showIdentity = can("phi:read");
 
-  // Generate real patient info from scan data
-  const generatePatientInfo = () => {
-    const scan = currentScan || scanData?.scan;
+  // Patient details come from the linked patient, study and series records
+  const getPatientInfo = () => {
     if (!scan) {
       return {
         id: "No scan selected",
+        name: "-",
         age: "-",
         sex: "-",
         scanDate: "-",
         scanTime: "-",
         studyType: "No scan data",
-        technician: "System",
+        referringPhysician: "-",
         priority: "Low"
       };
     }
 
-    // Generate realistic patient demographics based on scan characteristics
-    const scanId = scan.id;
-    const seedFromId = parseInt(scanId.substring(0, 8), 16); // Use scan ID as seed
-    const ages = [28, 34, 42, 51, 38, 45, 56, 61, 33, 47];
-    const sexes = ["Female", "Male"];
-    const techs = ["Dr. Rodriguez", "Dr. Chen", "Dr. Johnson", "Dr. Patel", "Dr. Williams"];
-    
-    const age = ages[seedFromId % ages.length];
-    const sex = sexes[seedFromId % sexes.length];
-    const technician = techs[(seedFromId + 2) % techs.length];
-    
-    // Use real scan date/time
-    const uploadDate = new Date(scan.uploadedAt);
-    const scanDate = uploadDate.toLocaleDateString('en-US', {
+    const { patient, study, series } = patientContext ?? { patient: null, study: null, series: null };
+
+    // Prefer the acquisition date recorded in the study over the upload time
+    const acquiredAt = new Date(study?.studyDate ?? scan.uploadedAt);
+    const scanDate = acquiredAt.toLocaleDateString('en-US', {
       year: 'numeric',
       month: '2-digit', 
       day: '2-digit'
     });
-    const scanTime = uploadDate.toLocaleTimeString('en-US', {
+    const scanTime = acquiredAt.toLocaleTimeString('en-US', {
       hour12: false,
       hour: '2-digit',
       minute: '2-digit',
       second: '2-digit'
     });
     
-    // Determine study type from filename
-    const filename = scan.originalName || scan.filename || "";
-    const studyType = filename.toLowerCase().includes('mri') ? "Brain MRI T1" :
-                     filename.toLowerCase().includes('ct') ? "CT Brain" :
-                     filename.toLowerCase().includes('fmri') ? "Functional MRI" :
-                     "Brain MRI T1";
+    const studyType = [study?.description, series?.description].filter(Boolean).join(" · ") ||
+                      series?.modality ||
+                      "Not recorded";
     
     // Set priority based on processing status and risk
     const risk = scanData?.report?.overallRisk || "low";
@@ -79,18 +82,20 @@ export default function PatientDetailsSidebar({ currentScan, scanData }: Patient
                     scan.processingStatus === "failed" ? "Review" : "Standard";
     
     return {
-      id: `PAT-${scanId.substring(0, 8).toUpperCase()}`,
-      age,
-      sex,
-      scanDate,
-      scanTime,
+      id: patient?.medicalRecordNumber ?? "Not linked",
+      name: patient?.name ?? "-",
+      age: patient?.birthDate ? `${getAgeInYears(patient.birthDate, acquiredAt)} years` : "-",
+      sex: patient?.sex ? SEX_LABELS[patient.sex] : "-",
+      // De-identified dates only keep their year
+      scanDate: showIdentity ? scanDate : String(acquiredAt.getFullYear()),
+      scanTime: showIdentity ? scanTime : "-",
       studyType,
-      technician,
+      referringPhysician: study?.referringPhysician ?? "-",
       priority
     };
   };
 
-  const patientInfo = generatePatientInfo();
+  const patientInfo = getPatientInfo();
 
   // Use backend medical risk assessment instead of local calculation
   const backendRisk = scanData?.report?.overallRisk || "low";
@@ -188,6 +193,9 @@ export default function PatientDetailsSidebar({ currentScan, scanData }: Patient
             <CardTitle className="text-lg font-semibold flex items-center gap-2">
               <User className="w-5 h-5" />
               Patient Information
+              {!showIdentity && (
+                <Badge variant="outline" className="text-xs" data-testid="badge-deidentified">De-identified</Badge>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
@@ -211,10 +219,17 @@ export default function PatientDetailsSidebar({ currentScan, scanData }: Patient
               </div>
             </div>
             
+            {showIdentity && (
+              <div>
+                <div className="text-xs font-medium text-muted-foreground uppercase">Name</div>
+                <div className="text-sm text-foreground" data-testid="text-patient-name">{patientInfo.name}</div>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <div className="text-xs font-medium text-muted-foreground uppercase">Age</div>
-                <div className="text-sm text-foreground">{patientInfo.age} years</div>
+                <div className="text-sm text-foreground">{patientInfo.age}</div>
               </div>
               <div>
                 <div className="text-xs font-medium text-muted-foreground uppercase">Sex</div>
@@ -246,10 +261,12 @@ export default function PatientDetailsSidebar({ currentScan, scanData }: Patient
               <div className="text-sm text-foreground">{patientInfo.studyType}</div>
             </div>
 
-            <div>
-              <div className="text-xs font-medium text-muted-foreground uppercase">Technician</div>
-              <div className="text-sm text-foreground">{patientInfo.technician}</div>
-            </div>
+            {showIdentity && (
+              <div>
+                <div className="text-xs font-medium text-muted-foreground uppercase">Referring Physician</div>
+                <div className="text-sm text-foreground" data-testid="text-referring-physician">{patientInfo.referringPhysician}</div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -313,7 +330,6 @@ export default function PatientDetailsSidebar({ currentScan, scanData }: Patient
           </CardHeader>
           <CardContent className="space-y-3">
             {(() => {
-              const scan = currentScan || scanData?.scan;
               if (!scan) {
                 return (
                   <div className="text-sm text-muted-foreground italic">
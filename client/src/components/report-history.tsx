@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { ArrowRight, Download, FilePlus, FileText, Minus, Pencil, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrentScan, useGenerateReport, useReportDiff, useReportHistory, useReportTemplates } from "@/hooks/use-scan-data";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import ReportSignOff from "@/components/report-sign-off";
+import { REPORT_STATUS_LABELS } from "@shared/report-workflow";
+import type { FindingsDiff, ReportDiff } from "@shared/report-diff";
+import type { AnalysisReportSummary, ReportFormat } from "@shared/schema";
+
+const RISK_BADGE_CLASSES: Record<AnalysisReportSummary["overallRisk"], string> = {
+  high: "bg-medical-risk-high/15 text-medical-risk-high border-medical-risk-high/30",
+  moderate: "bg-medical-warning/15 text-medical-warning border-medical-warning/30",
+  low: "bg-medical-success/15 text-medical-success border-medical-success/30",
+};
+
+const SUMMARY_LABELS: Record<keyof ReportDiff["summary"], string> = {
+  riskScore: "Risk score",
+  overallRisk: "Overall risk",
+  criticalCount: "Critical findings",
+  majorCount: "Major findings",
+  minorCount: "Minor findings",
+};
+
+function formatValue(value: unknown): string {
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function FindingsDiffSection<T extends { id: string; title: string; confidence: number }>({ title, diff }: {
+  title: string;
+  diff: FindingsDiff<T>;
+}) {
+  const hasChanges = diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  return (
+    <div className="space-y-2" data-testid={`diff-${title.toLowerCase().replace(/\s+/g, "-")}`}>
+      <h4 className="text-sm font-semibold text-foreground">
+        {title}
+        <span className="ml-2 text-xs font-normal text-muted-foreground">{diff.unchanged} unchanged</span>
+      </h4>
+      {!hasChanges && <p className="text-sm text-muted-foreground">No changes</p>}
+      {diff.added.map((finding) => (
+        <div key={`added-${finding.id}`} className="flex items-start gap-2 text-sm text-medical-success">
+          <Plus className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{finding.title} ({finding.confidence}%)</span>
+        </div>
+      ))}
+      {diff.removed.map((finding) => (
+        <div key={`removed-${finding.id}`} className="flex items-start gap-2 text-sm text-medical-risk-high line-through">
+          <Minus className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{finding.title} ({finding.confidence}%)</span>
+        </div>
+      ))}
+      {diff.changed.map(({ before, after, fields }) => (
+        <div key={`changed-${after.id}`} className="flex items-start gap-2 text-sm text-medical-warning">
+          <Pencil className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>
+            <span className="text-foreground">{after.title}</span>
+            {fields.map((field) => (
+              <div key={String(field)} className="text-xs text-muted-foreground">
+                {String(field)}: {formatValue(before[field])} <ArrowRight className="inline h-3 w-3" /> {formatValue(after[field])}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Generates a new report version with the chosen template
+function GenerateReportControls({ scanId }: { scanId: string }) {
+  const { data: templates } = useReportTemplates();
+  const generateReport = useGenerateReport();
+  const { toast } = useToast();
+  const [reportFormat, setReportFormat] = useState<ReportFormat>("Clinical Summary");
+
+  const generate = async () => {
+    try {
+      const report = await generateReport.mutateAsync({ scanId, reportFormat });
+      toast({ title: `Report v${report.version} generated` });
+    } catch (error) {
+      toast({
+        title: "Report not generated",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={reportFormat} onValueChange={(value) => setReportFormat(value as ReportFormat)}>
+        <SelectTrigger className="w-48" data-testid="select-report-format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(templates ?? [{ format: reportFormat }]).map((template) => (
+            <SelectItem key={template.format} value={template.format}>{template.format}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" onClick={generate} disabled={generateReport.isPending} data-testid="button-generate-report">
+        <FilePlus className="h-4 w-4 mr-1" />
+        {generateReport.isPending ? "Generating..." : "Generate"}
+      </Button>
+    </div>
+  );
+}
+
+// Report versions of the current scan and the findings that changed between two of them
+export default function ReportHistory() {
+  const { scanId } = useCurrentScan();
+  const { can } = useAuth();
+  const { data: history, isLoading } = useReportHistory(scanId);
+  const [version, setVersion] = useState<number>();
+  const [against, setAgainst] = useState<number>();
+  const [selected, setSelected] = useState<number>();
+
+  // Compare the latest version with the one before it until the user picks others
+  useEffect(() => {
+    setVersion(history?.[0]?.version);
+    setAgainst(history?.[1]?.version);
+    setSelected(history?.[0]?.version);
+  }, [scanId, history?.[0]?.version]);
+
+  const { data: diff, isLoading: isDiffLoading } = useReportDiff(scanId, version, against);
+
+  if (!scanId) {
+    return <p className="text-muted-foreground">Upload a scan to see its reports.</p>;
+  }
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading report history...</p>;
+  }
+  if (!history?.length) {
+    return (
+      <div className="space-y-4">
+        <p className="text-muted-foreground">No reports have been generated for this scan yet.</p>
+        {can("reports:generate") && <GenerateReportControls scanId={scanId} />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-lg">
+            <span className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Report History
+            </span>
+            {can("reports:generate") && <GenerateReportControls scanId={scanId} />}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {history.map((report) => (
+            <div
+              key={report.id}
+              className={`flex items-center justify-between rounded-md border p-3 cursor-pointer ${report.version === selected ? "border-primary bg-primary/5" : "border-border"}`}
+              onClick={() => setSelected(report.version)}
+              data-testid={`report-version-${report.version}`}
+            >
+              <div className="flex items-center gap-3">
+                <span className="font-semibold">v{report.version}</span>
+                <Badge variant="secondary">{REPORT_STATUS_LABELS[report.status]}</Badge>
+                {report.options && <Badge variant="outline">{report.options.reportFormat}</Badge>}
+                <span className="text-sm text-muted-foreground">
+                  {new Date(report.generatedAt).toLocaleString()}
+                </span>
+                <Badge variant="outline" className={RISK_BADGE_CLASSES[report.overallRisk]}>
+                  {report.overallRisk} risk · {report.riskScore.toFixed(1)}
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                  {report.criticalCount} critical, {report.majorCount} major, {report.minorCount} minor
+                </span>
+              </div>
+              <Button variant="ghost" size="sm" asChild onClick={(event) => event.stopPropagation()}>
+                <a href={`/api/scans/${scanId}/reports/${report.version}?format=pdf`} data-testid={`button-download-report-${report.version}`}>
+                  <Download className="h-4 w-4 mr-1" />
+                  PDF
+                </a>
+              </Button>
+              {/* Clinical exports identify the patient */}
+              {can("phi:read") && (
+                <>
+                  <Button variant="ghost" size="sm" asChild onClick={(event) => event.stopPropagation()}>
+                    <a href={`/api/scans/${scanId}/reports/${report.version}?format=fhir`} download data-testid={`button-download-fhir-${report.version}`}>
+                      <Download className="h-4 w-4 mr-1" />
+                      FHIR
+                    </a>
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild onClick={(event) => event.stopPropagation()}>
+                    <a href={`/api/scans/${scanId}/reports/${report.version}?format=sr`} data-testid={`button-download-sr-${report.version}`}>
+                      <Download className="h-4 w-4 mr-1" />
+                      DICOM SR
+                    </a>
+                  </Button>
+                  {(report.status === "final" || report.status === "amended") && (
+                    <Button variant="ghost" size="sm" asChild onClick={(event) => event.stopPropagation()}>
+                      <a href={`/api/scans/${scanId}/reports/${report.version}?format=hl7`} data-testid={`button-download-hl7-${report.version}`}>
+                        <Download className="h-4 w-4 mr-1" />
+                        HL7
+                      </a>
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selected && <ReportSignOff scanId={scanId} version={selected} />}
+
+      {history.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Compare Versions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Select value={against?.toString()} onValueChange={(value) => setAgainst(Number(value))}>
+                <SelectTrigger className="w-32" data-testid="select-diff-from">
+                  <SelectValue placeholder="From" />
+                </SelectTrigger>
+                <SelectContent>
+                  {history.map((report) => (
+                    <SelectItem key={report.id} value={report.version.toString()}>v{report.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <Select value={version?.toString()} onValueChange={(value) => setVersion(Number(value))}>
+                <SelectTrigger className="w-32" data-testid="select-diff-to">
+                  <SelectValue placeholder="To" />
+                </SelectTrigger>
+                <SelectContent>
+                  {history.map((report) => (
+                    <SelectItem key={report.id} value={report.version.toString()}>v{report.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {version === against ? (
+              <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+            ) : isDiffLoading || !diff ? (
+              <p className="text-sm text-muted-foreground">Comparing reports...</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <h4 className="text-sm font-semibold text-foreground">Summary</h4>
+                  {Object.keys(diff.summary).length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No changes</p>
+                  ) : (
+                    (Object.keys(diff.summary) as (keyof ReportDiff["summary"])[]).map((field) => (
+                      <div key={field} className="text-sm">
+                        {SUMMARY_LABELS[field]}: {formatValue(diff.summary[field]!.from)}{" "}
+                        <ArrowRight className="inline h-3 w-3" /> {formatValue(diff.summary[field]!.to)}
+                      </div>
+                    ))
+                  )}
+                </div>
+                <FindingsDiffSection title="Critical findings" diff={diff.criticalFindings} />
+                <FindingsDiffSection title="Secondary findings" diff={diff.secondaryFindings} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { FilePlus, PenLine, Save, Send } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useHl7Destinations, useReportSignOff, useReportVersion, useSendReportHl7 } from "@/hooks/use-scan-data";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  AMENDABLE_REPORT_STATUSES,
+  EDITABLE_REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  SIGNABLE_REPORT_STATUSES,
+} from "@shared/report-workflow";
+
+// Server errors arrive as "<status>: <json body>"
+function errorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(text.slice(text.indexOf(":") + 1)).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+// Impression editing, signing and addenda for one report version
+export default function ReportSignOff({ scanId, version }: { scanId: string; version: number }) {
+  const { data: report, isLoading } = useReportVersion(scanId, version);
+  const { updateImpression, sign, addAddendum } = useReportSignOff(scanId, version);
+  const { user, can } = useAuth();
+  const { data: destinations } = useHl7Destinations(can("reports:send"));
+  const sendHl7 = useSendReportHl7(scanId, version);
+  const { toast } = useToast();
+
+  const [destination, setDestination] = useState("");
+  const [impression, setImpression] = useState("");
+  const [addendum, setAddendum] = useState("");
+
+  useEffect(() => {
+    setImpression(report?.impression ?? "");
+  }, [report?.id, report?.impression]);
+
+  if (isLoading || !report) {
+    return <p className="text-sm text-muted-foreground">Loading report...</p>;
+  }
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({ title: "Report not updated", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const editable = can("reports:sign") && EDITABLE_REPORT_STATUSES.includes(report.status);
+  const amendable = can("reports:sign") && AMENDABLE_REPORT_STATUSES.includes(report.status);
+  const sendable = can("reports:send") && AMENDABLE_REPORT_STATUSES.includes(report.status);
+  const impressionSaved = impression.trim() === (report.impression ?? "");
+  const canSign = (status: "preliminary" | "final") =>
+    SIGNABLE_REPORT_STATUSES[status].includes(report.status) && !!report.impression && impressionSaved;
+
+  return (
+    <Card data-testid={`report-sign-off-${version}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span>Sign-off: v{report.version}</span>
+          <Badge variant="outline" data-testid="report-status">{REPORT_STATUS_LABELS[report.status]}</Badge>
+        </CardTitle>
+        {report.signedBy && report.signedAt && (
+          <p className="text-sm text-muted-foreground">
+            Signed by {report.signedBy} on {new Date(report.signedAt).toLocaleString()}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="report-impression">Impression</Label>
+          <Textarea
+            id="report-impression"
+            value={impression}
+            onChange={(event) => setImpression(event.target.value)}
+            readOnly={!editable}
+            rows={5}
+            placeholder="Radiologist's impression"
+            data-testid="textarea-impression"
+          />
+          {editable && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={impressionSaved || !impression.trim() || updateImpression.isPending}
+              onClick={() => run(() => updateImpression.mutateAsync(impression), "Impression saved")}
+              data-testid="button-save-impression"
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Save impression
+            </Button>
+          )}
+        </div>
+
+        {editable && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground" data-testid="text-signer">
+              Signing as {user?.displayName}
+            </p>
+            <div className="flex gap-2">
+              {report.status === "draft" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!canSign("preliminary") || sign.isPending}
+                  onClick={() => run(() => sign.mutateAsync({ status: "preliminary" }), "Signed as preliminary")}
+                  data-testid="button-sign-preliminary"
+                >
+                  <PenLine className="h-4 w-4 mr-1" />
+                  Sign preliminary
+                </Button>
+              )}
+              <Button
+                size="sm"
+                disabled={!canSign("final") || sign.isPending}
+                onClick={() => run(() => sign.mutateAsync({ status: "final" }), "Signed as final")}
+                data-testid="button-sign-final"
+              >
+                <PenLine className="h-4 w-4 mr-1" />
+                Sign final
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {report.addenda.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-foreground">Addenda</h4>
+            {report.addenda.map((entry, index) => (
+              <div key={entry.id} className="border-l-4 border-medical-warning pl-3 text-sm" data-testid={`addendum-${index + 1}`}>
+                <p className="font-medium">
+                  Addendum {index + 1} by {entry.author}, {new Date(entry.createdAt).toLocaleString()}
+                </p>
+                <p className="whitespace-pre-wrap text-muted-foreground">{entry.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {amendable && (
+          <div className="space-y-2">
+            <Label htmlFor="report-addendum">New addendum</Label>
+            <Textarea
+              id="report-addendum"
+              value={addendum}
+              onChange={(event) => setAddendum(event.target.value)}
+              rows={3}
+              data-testid="textarea-addendum"
+            />
+            <Button
+              size="sm"
+              disabled={!addendum.trim() || addAddendum.isPending}
+              onClick={() => run(async () => {
+                await addAddendum.mutateAsync({ text: addendum.trim() });
+                setAddendum("");
+              }, "Addendum issued")}
+              data-testid="button-add-addendum"
+            >
+              <FilePlus className="h-4 w-4 mr-1" />
+              Issue addendum
+            </Button>
+          </div>
+        )}
+
+        {sendable && !!destinations?.length && (
+          <div className="space-y-2">
+            <Label>Send as HL7 result</Label>
+            <div className="flex gap-2">
+              <Select value={destination} onValueChange={setDestination}>
+                <SelectTrigger className="w-56" data-testid="select-hl7-destination">
+                  <SelectValue placeholder="Destination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinations.map((entry) => (
+                    <SelectItem key={entry.name} value={entry.name}>{entry.name} ({entry.host}:{entry.port})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                disabled={!destination || sendHl7.isPending}
+                onClick={async () => {
+                  try {
+                    const result = await sendHl7.mutateAsync(destination);
+                    toast({ title: `Sent to ${result.destination}`, description: `Acknowledged (${result.acknowledgement.code})` });
+                  } catch (error) {
+                    toast({ title: "HL7 message not delivered", description: errorMessage(error), variant: "destructive" });
+                  }
+                }}
+                data-testid="button-send-hl7"
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Send
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
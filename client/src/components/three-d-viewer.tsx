@@ -2,12 +2,28 @@ import { useRef, useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ZoomIn, ZoomOut, RotateCcw, Maximize2 } from "lucide-react";
-import { useCurrentScan, useScan } from "@/hooks/use-scan-data";
+import { useCurrentScan, useScan, useScanModel } from "@/hooks/use-scan-data";
+import { detectionModelPosition } from "@/lib/model-geometry";
 import * as THREE from "three";
 
+// Longest side of the model once scaled into the scene
+const MODEL_DISPLAY_SIZE = 2.4;
+
+// Map detection type to marker color
+const getDetectionColor = (type: string) => {
+  switch (type) {
+    case 'aneurysm': return 0xff0000; // Red
+    case 'tumor': return 0xff6b00; // Orange
+    case 'lesion': return 0xffff00; // Yellow
+    case 'anomaly': return 0xff6b00; // Orange
+    default: return 0xff0000; // Default red
+  }
+};
+
 export default function ThreeDViewer() {
   const { scanId } = useCurrentScan();
   const { data: scan, isLoading } = useScan(scanId);
+  const { data: geometry, isLoading: isModelLoading, error: modelError } = useScanModel(scan);
   const detections = scan?.detections || [];
   
   const mountRef = useRef<HTMLDivElement>(null);
@@ -16,10 +32,13 @@ export default function ThreeDViewer() {
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const brainRef = useRef<THREE.Group | null>(null);
   const animationRef = useRef<number | null>(null);
+  const isRotatingRef = useRef(true);
   const [isRotating, setIsRotating] = useState(true);
 
+  // Scene, camera, renderer and lights live as long as the viewer is mounted
   useEffect(() => {
-    if (!mountRef.current) return;
+    const mount = mountRef.current;
+    if (!mount) return;
 
     // Scene setup
     const scene = new THREE.Scene();
@@ -36,103 +55,12 @@ export default function ThreeDViewer() {
     renderer.setSize(800, 384);
     renderer.setClearColor(0xf8fafc);
     rendererRef.current = renderer;
-    mountRef.current.appendChild(renderer.domElement);
+    mount.appendChild(renderer.domElement);
 
-    // Create brain model
+    // Pivot the model rotates around; its contents follow the loaded scan
     const brainGroup = new THREE.Group();
     brainRef.current = brainGroup;
-
-    // Brain main structure (ellipsoid)
-    const brainGeometry = new THREE.SphereGeometry(1.2, 32, 24);
-    brainGeometry.scale(1, 0.9, 1.1);
-    const brainMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0x8b5cf6, 
-      wireframe: true,
-      transparent: true,
-      opacity: 0.3
-    });
-    const brainMesh = new THREE.Mesh(brainGeometry, brainMaterial);
-    brainGroup.add(brainMesh);
-
-    // Brain hemispheres division
-    const leftHemisphere = new THREE.SphereGeometry(1.2, 32, 24, 0, Math.PI);
-    leftHemisphere.scale(1, 0.9, 1.1);
-    const leftMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0x06b6d4, 
-      wireframe: true,
-      transparent: true,
-      opacity: 0.6
-    });
-    const leftMesh = new THREE.Mesh(leftHemisphere, leftMaterial);
-    brainGroup.add(leftMesh);
-
-    const rightHemisphere = new THREE.SphereGeometry(1.2, 32, 24, Math.PI, Math.PI);
-    rightHemisphere.scale(1, 0.9, 1.1);
-    const rightMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0xf59e0b, 
-      wireframe: true,
-      transparent: true,
-      opacity: 0.6
-    });
-    const rightMesh = new THREE.Mesh(rightHemisphere, rightMaterial);
-    brainGroup.add(rightMesh);
-
-    // Brain stem
-    const stemGeometry = new THREE.CylinderGeometry(0.2, 0.3, 0.8, 12);
-    const stemMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0xe11d48, 
-      wireframe: true,
-      opacity: 0.8
-    });
-    const stemMesh = new THREE.Mesh(stemGeometry, stemMaterial);
-    stemMesh.position.set(0, -1.2, 0);
-    brainGroup.add(stemMesh);
-
-    // Cerebellum
-    const cerebellumGeometry = new THREE.SphereGeometry(0.4, 16, 12);
-    const cerebellumMaterial = new THREE.MeshBasicMaterial({ 
-      color: 0x10b981, 
-      wireframe: true,
-      opacity: 0.7
-    });
-    const cerebellumMesh = new THREE.Mesh(cerebellumGeometry, cerebellumMaterial);
-    cerebellumMesh.position.set(0, -0.8, -0.9);
-    brainGroup.add(cerebellumMesh);
-
-    // Add detection points based on real scan data
-    const pointGeometry = new THREE.SphereGeometry(0.05, 8, 6);
-    
-    // Create detection points dynamically from real data (only for detections with coordinates)
-    detections.filter(detection => detection.coordinates).forEach((detection, index) => {
-      // Map detection type to color
-      const getDetectionColor = (type: string) => {
-        switch (type) {
-          case 'aneurysm': return 0xff0000; // Red
-          case 'tumor': return 0xff6b00; // Orange
-          case 'lesion': return 0xffff00; // Yellow
-          case 'anomaly': return 0xff6b00; // Orange
-          default: return 0xff0000; // Default red
-        }
-      };
-      
-      const pointMaterial = new THREE.MeshBasicMaterial({ 
-        color: getDetectionColor(detection.type) 
-      });
-      const detectionPoint = new THREE.Mesh(pointGeometry, pointMaterial);
-      
-      // Convert 2D coordinates to 3D brain space (normalize and map to brain volume)
-      const normalizedX = (detection.coordinates.x - 50) / 50; // Convert % to -1 to 1 range
-      const normalizedY = (50 - detection.coordinates.y) / 50; // Invert Y and convert % to -1 to 1 range
-      const normalizedZ = 0.3 + (index * 0.2); // Distribute detections in Z space
-      
-      detectionPoint.position.set(
-        normalizedX * 1.2, // Scale to brain size
-        normalizedY * 0.9,
-        normalizedZ
-      );
-      
-      brainGroup.add(detectionPoint);
-    });
+    scene.add(brainGroup);
 
     // Grid plane
     const gridHelper = new THREE.GridHelper(4, 20, 0x888888, 0xcccccc);
@@ -144,23 +72,25 @@ export default function ThreeDViewer() {
     axesHelper.position.set(-1.5, -1.5, 0);
     scene.add(axesHelper);
 
-    scene.add(brainGroup);
-
     // Lighting
-    const ambientLight = new THREE.AmbientLight(0x404040, 0.6);
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
     scene.add(ambientLight);
 
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 1.2);
     directionalLight.position.set(1, 1, 1);
     scene.add(directionalLight);
 
+    // Fill light so the far side of the model is not black
+    const fillLight = new THREE.DirectionalLight(0xffffff, 0.4);
+    fillLight.position.set(-1, -0.5, -1);
+    scene.add(fillLight);
+
     // Animation loop
     const animate = () => {
       animationRef.current = requestAnimationFrame(animate);
       
-      if (isRotating && brainRef.current) {
+      if (isRotatingRef.current && brainRef.current) {
         brainRef.current.rotation.y += 0.01;
-        brainRef.current.rotation.x += 0.005;
       }
       
       renderer.render(scene, camera);
@@ -177,6 +107,7 @@ export default function ThreeDViewer() {
         rendererRef.current.setSize(width, height);
       }
     };
+    handleResize();
 
     window.addEventListener('resize', handleResize);
 
@@ -185,12 +116,75 @@ export default function ThreeDViewer() {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
-      if (mountRef.current && renderer.domElement) {
-        mountRef.current.removeChild(renderer.domElement);
+      if (renderer.domElement.parentNode === mount) {
+        mount.removeChild(renderer.domElement);
       }
       renderer.dispose();
+      sceneRef.current = null;
+      rendererRef.current = null;
+      cameraRef.current = null;
+      brainRef.current = null;
+    };
+  }, []);
+
+  // Place the scan's model and its detection markers in the scene
+  useEffect(() => {
+    const brainGroup = brainRef.current;
+    if (!brainGroup || !geometry?.boundingBox) return;
+
+    const bounds = geometry.boundingBox;
+    const size = bounds.getSize(new THREE.Vector3());
+    const centre = bounds.getCenter(new THREE.Vector3());
+    const scale = MODEL_DISPLAY_SIZE / (Math.max(size.x, size.y, size.z) || 1);
+
+    // Model frame: millimetres with image rows running down, so flip y and z
+    // (a half turn about x) to show the scan upright, then centre and scale it
+    const modelFrame = new THREE.Group();
+    modelFrame.scale.set(scale, -scale, -scale);
+    modelFrame.position.set(-centre.x * scale, centre.y * scale, centre.z * scale);
+
+    // Translucent so markers inside the anatomy stay visible
+    const surfaceMaterial = new THREE.MeshStandardMaterial({
+      color: 0xd8b4c8,
+      roughness: 0.6,
+      metalness: 0,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.55,
+      depthWrite: false,
+    });
+    modelFrame.add(new THREE.Mesh(geometry, surfaceMaterial));
+
+    // Marker size is fixed in screen terms, so undo the model scale
+    const markerGeometry = new THREE.SphereGeometry(0.05 / scale, 16, 12);
+    const markerMaterials: THREE.Material[] = [];
+    (scan?.detections || []).filter(detection => detection.coordinates).forEach((detection) => {
+      const markerMaterial = new THREE.MeshStandardMaterial({
+        color: getDetectionColor(detection.type),
+        emissive: getDetectionColor(detection.type),
+        emissiveIntensity: 0.4,
+      });
+      markerMaterials.push(markerMaterial);
+      const marker = new THREE.Mesh(markerGeometry, markerMaterial);
+      marker.position.copy(detectionModelPosition(detection, scan?.imageMetadata, bounds));
+      modelFrame.add(marker);
+    });
+
+    brainGroup.add(modelFrame);
+
+    return () => {
+      brainGroup.remove(modelFrame);
+      // The geometry belongs to the query cache and is reused on remount
+      surfaceMaterial.dispose();
+      markerGeometry.dispose();
+      markerMaterials.forEach(material => material.dispose());
     };
-  }, [isRotating, detections]);
+  }, [geometry, scan?.detections, scan?.imageMetadata]);
+
+  // Keep the animation loop in sync without rebuilding the scene
+  useEffect(() => {
+    isRotatingRef.current = isRotating;
+  }, [isRotating]);
 
   const handleResetView = () => {
     if (cameraRef.current && brainRef.current) {
@@ -224,6 +218,25 @@ export default function ThreeDViewer() {
           style={{ minHeight: '384px' }}
         />
         
+        {/* Model status overlay */}
+        {!geometry && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none" data-testid="text-model-status">
+            <span className="text-sm text-muted-foreground bg-card/80 rounded-md px-3 py-2">
+              {modelError ? (
+                `Could not load 3D model: ${modelError instanceof Error ? modelError.message : 'Unknown error'}`
+              ) : isModelLoading ? (
+                "Loading 3D model..."
+              ) : scan?.processingStatus === 'failed' ? (
+                "3D conversion failed"
+              ) : scan ? (
+                "3D model not generated yet"
+              ) : (
+                "Upload a scan to view its 3D model"
+              )}
+            </span>
+          </div>
+        )}
+        
         {/* 3D Controls Overlay */}
         <div className="absolute top-4 right-4 space-y-2">
           <Button
@@ -288,17 +301,14 @@ export default function ThreeDViewer() {
             );
           })}
           
-          {/* Brain structure legend */}
-          <div className="border-t border-border pt-1 mt-2">
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-1 bg-blue-500"></div>
-              <span>Left Hemisphere</span>
+          {/* Model details */}
+          {geometry && (
+            <div className="border-t border-border pt-1 mt-2 text-muted-foreground" data-testid="text-model-details">
+              {(scan?.threeDModelPath?.split('.').pop() || '').toUpperCase()} surface model
+              {' · '}
+              {(geometry.index ? geometry.index.count / 3 : geometry.getAttribute('position').count / 3).toLocaleString()} triangles
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-1 bg-yellow-500"></div>
-              <span>Right Hemisphere</span>
-            </div>
-          </div>
+          )}
           
           {/* Show appropriate status message */}
           {detections.length === 0 && (
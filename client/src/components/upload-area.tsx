@@ -6,9 +6,20 @@ import { Button } from "@/components/ui/button";
 import { useFileUpload } from "@/hooks/use-file-upload";
 import { useStart3DConversion } from "@/hooks/use-scan-data";
 import { useProcessingState } from "@/hooks/use-processing-state";
+import { MAX_UPLOAD_SIZE, MEDICAL_UPLOAD_ACCEPT, SUPPORTED_FORMATS_LABEL } from "@shared/medical-formats";
+import UploadModeToggle from "./upload-mode-toggle";
 
 export default function UploadArea() {
-  const { uploadedFiles, uploadFile, removeFile, isUploading } = useFileUpload();
+  const {
+    uploadedFiles,
+    uploadFile,
+    removeFile,
+    uploadMode,
+    setUploadMode,
+    createSeries,
+    isCreatingSeries,
+    isUploading,
+  } = useFileUpload();
   const start3DConversion = useStart3DConversion();
   const { setCurrentScan, currentScan, isProcessing } = useProcessingState();
 
@@ -20,20 +31,28 @@ export default function UploadArea() {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png']
-    },
-    maxSize: 50 * 1024 * 1024, // 50MB
+    accept: MEDICAL_UPLOAD_ACCEPT,
+    maxSize: MAX_UPLOAD_SIZE, // 50MB
     multiple: true
   });
 
   // Check if we have any successfully uploaded files
   const uploadedFileIds = uploadedFiles.filter(f => f.status === "uploaded" && f.id).map(f => f.id!);
-  const hasUploadedFiles = uploadedFileIds.length > 0;
-  const isProcessButtonDisabled = !hasUploadedFiles || isUploading || start3DConversion.isPending || isProcessing;
+  const uploadedSliceCount = uploadedFiles.filter(f => f.status === "uploaded" && f.uploadURL).length;
+  const hasUploadedFiles = uploadMode === "series" ? uploadedSliceCount > 0 : uploadedFileIds.length > 0;
+  const isProcessButtonDisabled = !hasUploadedFiles || isUploading || isCreatingSeries || start3DConversion.isPending || isProcessing;
+
+  const handleProcessFiles = async () => {
+    if (uploadMode === "series") {
+      // Errors are reported by the upload hook
+      const scan = await createSeries().catch(() => null);
+      if (scan) {
+        setCurrentScan(scan.id);
+        start3DConversion.mutate(scan.id);
+      }
+      return;
+    }
 
-  const handleProcessFiles = () => {
     if (uploadedFileIds.length > 0) {
       const scanId = uploadedFileIds[0];
       // Set this scan as the current one in processing state
@@ -45,6 +64,10 @@ export default function UploadArea() {
 
   return (
     <div className="space-y-4">
+      <div className="flex justify-center">
+        <UploadModeToggle mode={uploadMode} onModeChange={setUploadMode} disabled={isUploading || isCreatingSeries} />
+      </div>
+
       <Card
         {...getRootProps()}
         className={`border-2 border-dashed p-8 text-center cursor-pointer transition-colors ${
@@ -59,14 +82,14 @@ export default function UploadArea() {
           <Upload className="text-muted-foreground h-6 w-6" />
         </div>
         <p className="text-lg font-medium text-foreground mb-2">
-          {isDragActive ? "Drop MRI files here" : "Drop MRI files here"}
+          {uploadMode === "series" ? "Drop the slices of one series here" : "Drop MRI files here"}
         </p>
         <p className="text-sm text-muted-foreground mb-4">
           or click to browse files
         </p>
         <div className="flex items-center justify-center space-x-2 text-xs text-muted-foreground">
           <span>ℹ️</span>
-          <span>Supports JPG, PNG formats • Max 50MB per file</span>
+          <span>Supports {SUPPORTED_FORMATS_LABEL} formats • Max 50MB per file</span>
         </div>
       </Card>
 
@@ -127,6 +150,11 @@ export default function UploadArea() {
               <div className="animate-spin rounded-full h-4 w-4 border-b border-white mr-2" />
               Uploading...
             </>
+          ) : isCreatingSeries ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b border-white mr-2" />
+              Assembling series...
+            </>
           ) : start3DConversion.isPending || isProcessing ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-b border-white mr-2" />
@@ -135,7 +163,7 @@ export default function UploadArea() {
           ) : hasUploadedFiles ? (
             <>
               <span className="mr-2">⚡</span>
-              Process Files
+              {uploadMode === "series" ? `Process Series (${uploadedSliceCount} slices)` : "Process Files"}
             </>
           ) : (
             <>
@@ -0,0 +1,32 @@
+import { FileImage, Layers } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { UploadMode } from "@/hooks/use-file-upload";
+
+interface UploadModeToggleProps {
+  mode: UploadMode;
+  onModeChange: (mode: UploadMode) => void;
+  disabled?: boolean;
+}
+
+export default function UploadModeToggle({ mode, onModeChange, disabled }: UploadModeToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={mode}
+      onValueChange={(value) => value && onModeChange(value as UploadMode)}
+      disabled={disabled}
+      data-testid="toggle-upload-mode"
+    >
+      <ToggleGroupItem value="single" className="gap-1.5" data-testid="toggle-upload-mode-single">
+        <FileImage className="h-4 w-4" />
+        Individual files
+      </ToggleGroupItem>
+      <ToggleGroupItem value="series" className="gap-1.5" data-testid="toggle-upload-mode-series">
+        <Layers className="h-4 w-4" />
+        Slice series
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,64 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/roles";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+type LoginData = { username: string; password: string };
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  // Whether the signed-in user's role grants a permission
+  can: (permission: Permission) => boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Signed-in user from /api/me, with login and logout actions
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    staleTime: Infinity,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest('POST', '/api/login', credentials);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (signedIn) => {
+      queryClient.setQueryData(['/api/me'], signedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      // Drop every cached response of the previous user
+      queryClient.clear();
+      queryClient.setQueryData(['/api/me'], null);
+    },
+  });
+
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
+  return (
+    <AuthContext.Provider value={{ user: user ?? null, isLoading, can, loginMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
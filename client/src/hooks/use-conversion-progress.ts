@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { type ConversionProgress, isTerminalConversionStage } from "@shared/conversion-progress";
+
+// Subscribe to the server-sent progress stream of a scan's 3D conversion
+export function useConversionProgress(scanId: string | null | undefined, enabled: boolean) {
+  const [progress, setProgress] = useState<ConversionProgress | null>(null);
+
+  useEffect(() => {
+    setProgress(null);
+    if (!scanId || !enabled) {
+      return;
+    }
+
+    const source = new EventSource(`/api/scans/${scanId}/progress`);
+
+    source.addEventListener("progress", (event) => {
+      const next = JSON.parse((event as MessageEvent<string>).data) as ConversionProgress;
+
+      // Error events carry -1; keep showing how far the conversion got
+      setProgress(prev => next.progress < 0 ? { ...next, progress: prev?.progress ?? 0 } : next);
+
+      if (isTerminalConversionStage(next.stage)) {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ['/api/scans', scanId] });
+        queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+      }
+    });
+
+    // EventSource reconnects on its own after network errors
+    return () => source.close();
+  }, [scanId, enabled]);
+
+  return progress;
+}
@@ -2,6 +2,17 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_SERIES_SLICES,
+  MAX_UPLOAD_SIZE,
+  SERIES_SLICE_MIME_TYPES,
+  SUPPORTED_FORMATS_LABEL,
+  resolveMedicalMimeType,
+} from "@shared/medical-formats";
+import type { MriScan } from "@shared/schema";
+
+// "single" creates one scan per file; "series" stacks the files into one volumetric scan
+export type UploadMode = "single" | "series";
 
 interface UploadedFile {
   name: string;
@@ -9,29 +20,60 @@ interface UploadedFile {
   status: "uploading" | "uploaded" | "error";
   id?: string;
   uploadedFilename?: string; // The actual filename saved on server
+  uploadURL?: string; // Object Storage location of a series slice awaiting assembly
+  mimeType?: string;
+}
+
+// Large files on storage with multipart support are PUT in parts, one URL per part
+interface UploadTarget {
+  uploadURL: string;
+  multipart?: {
+    uploadId: string;
+    partSize: number;
+    partURLs: string[];
+  };
+}
+
+interface UploadResult {
+  scan?: MriScan;
+  uploadURL: string;
+  mimeType: string;
 }
 
 export function useFileUpload() {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  const [uploadMode, setUploadModeState] = useState<UploadMode>("single");
   const { toast } = useToast();
 
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, mode }: { file: File; mode: UploadMode }): Promise<UploadResult> => {
+      // Browsers often report DICOM and NIfTI files with an empty or generic type
+      const mimeType = resolveMedicalMimeType(file.name, file.type) || file.type;
+
       // Step 1: Get presigned upload URL from backend
-      const uploadUrlResponse = await apiRequest('POST', '/api/scans/upload-url');
-      const { uploadURL } = await uploadUrlResponse.json();
-
-      // Step 2: Upload file directly to Object Storage using presigned URL
-      const uploadResponse = await fetch(uploadURL, {
-        method: 'PUT',
-        body: file,
-        headers: {
-          'Content-Type': file.type,
-        },
-      });
+      const uploadUrlResponse = await apiRequest('POST', '/api/scans/upload-url', { fileSize: file.size, mimeType });
+      const { uploadURL, multipart } = await uploadUrlResponse.json() as UploadTarget;
+
+      // Step 2: Upload file directly to Object Storage using presigned URL(s)
+      if (multipart) {
+        await uploadParts(file, uploadURL, multipart);
+      } else {
+        const uploadResponse = await fetch(uploadURL, {
+          method: 'PUT',
+          body: file,
+          headers: {
+            'Content-Type': mimeType,
+          },
+        });
+
+        if (!uploadResponse.ok) {
+          throw new Error(`Upload failed: ${uploadResponse.status}`);
+        }
+      }
 
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed: ${uploadResponse.status}`);
+      // Series slices become a scan once the whole stack is assembled
+      if (mode === "series") {
+        return { uploadURL, mimeType };
       }
 
       // Step 3: Create scan record in database
@@ -39,27 +81,30 @@ export function useFileUpload() {
         filename: `mri-scan-${Date.now()}-${file.name}`,
         originalName: file.name,
         fileSize: file.size,
-        mimeType: file.type,
+        mimeType,
         uploadURL: uploadURL,
       };
 
       const createResponse = await apiRequest('POST', '/api/scans/create', scanData);
-      return createResponse.json();
+      return { scan: await createResponse.json(), uploadURL, mimeType };
     },
-    onSuccess: (data, file) => {
+    onSuccess: ({ scan, uploadURL, mimeType }, { file, mode }) => {
       setUploadedFiles(prev => 
         prev.map(f => 
           f.name === file.name 
-            ? { ...f, status: "uploaded" as const, id: data.id, uploadedFilename: data.filename }
+            ? { ...f, status: "uploaded" as const, id: scan?.id, uploadedFilename: scan?.filename, uploadURL, mimeType }
             : f
         )
       );
-      toast({
-        title: "Upload successful",
-        description: `${file.name} has been uploaded successfully. Click 'Process' to start analysis.`,
-      });
+      // A toast per slice would flood the screen for a series
+      if (mode === "single") {
+        toast({
+          title: "Upload successful",
+          description: `${file.name} has been uploaded successfully. Click 'Process' to start analysis.`,
+        });
+      }
     },
-    onError: (error, file) => {
+    onError: (error, { file }) => {
       console.error("Upload error:", error);
       setUploadedFiles(prev => 
         prev.map(f => 
@@ -76,20 +121,68 @@ export function useFileUpload() {
     },
   });
 
+  const createSeriesMutation = useMutation({
+    mutationFn: async (files: UploadedFile[]): Promise<MriScan> => {
+      const response = await apiRequest('POST', '/api/scans/series', {
+        seriesName: getSeriesName(files.map(f => f.name)),
+        slices: files.map(f => ({
+          originalName: f.name,
+          fileSize: f.size,
+          mimeType: f.mimeType,
+          uploadURL: f.uploadURL,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (scan) => {
+      toast({
+        title: "Series assembled",
+        description: `${scan.originalName} was created from ${scan.seriesFiles?.length ?? 0} slices.`,
+      });
+    },
+    onError: (error) => {
+      console.error("Series creation error:", error);
+      toast({
+        title: "Series creation failed",
+        description: error instanceof Error ? error.message : "Failed to assemble the series.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const uploadFile = (file: File) => {
+    const mimeType = resolveMedicalMimeType(file.name, file.type);
+
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png'];
-    if (!allowedTypes.includes(file.type)) {
+    if (!mimeType) {
       toast({
         title: "Invalid file type",
-        description: "Only JPG and PNG files are allowed.",
+        description: `Only ${SUPPORTED_FORMATS_LABEL} files are allowed.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (uploadMode === "series" && !SERIES_SLICE_MIME_TYPES.includes(mimeType)) {
+      toast({
+        title: "Not a slice",
+        description: `${file.name} is already a volume and cannot be part of a series.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (uploadMode === "series" && uploadedFiles.length >= MAX_SERIES_SLICES) {
+      toast({
+        title: "Too many slices",
+        description: `A series can contain at most ${MAX_SERIES_SLICES} slices.`,
         variant: "destructive",
       });
       return;
     }
 
     // Validate file size (50MB limit)
-    if (file.size > 50 * 1024 * 1024) {
+    if (file.size > MAX_UPLOAD_SIZE) {
       toast({
         title: "File too large",
         description: "File size must be less than 50MB.",
@@ -108,17 +201,66 @@ export function useFileUpload() {
     setUploadedFiles(prev => [...prev, newFile]);
     
     // Start upload
-    uploadMutation.mutate(file);
+    uploadMutation.mutate({ file, mode: uploadMode });
   };
 
   const removeFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Files uploaded in one mode cannot be reused in the other, so switching clears the list
+  const setUploadMode = (mode: UploadMode) => {
+    if (mode !== uploadMode) {
+      setUploadedFiles([]);
+      setUploadModeState(mode);
+    }
+  };
+
+  // Assemble the uploaded slices into one scan
+  const createSeries = async (): Promise<MriScan> => {
+    const slices = uploadedFiles.filter(f => f.status === "uploaded" && f.uploadURL);
+    return createSeriesMutation.mutateAsync(slices);
+  };
+
   return {
     uploadedFiles,
     uploadFile,
     removeFile,
+    uploadMode,
+    setUploadMode,
+    createSeries,
+    isCreatingSeries: createSeriesMutation.isPending,
     isUploading: uploadMutation.isPending,
   };
-}
\ No newline at end of file
+}
+
+// Name a series after the common prefix of its slice filenames
+function getSeriesName(filenames: string[]): string {
+  let prefix = filenames[0] ?? "";
+  for (const name of filenames.slice(1)) {
+    while (!name.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  prefix = prefix.replace(/[\s._-]*\d*$/, "");
+  return `${prefix || "Series"} (${filenames.length} slices)`;
+}
+
+// PUT each part of a multipart upload, then have the server assemble them
+async function uploadParts(file: File, uploadURL: string, multipart: NonNullable<UploadTarget["multipart"]>) {
+  const { uploadId, partSize, partURLs } = multipart;
+  const parts: { partNumber: number; etag: string }[] = [];
+  for (let index = 0; index < partURLs.length; index++) {
+    const partResponse = await fetch(partURLs[index], {
+      method: 'PUT',
+      body: file.slice(index * partSize, (index + 1) * partSize),
+    });
+    // The storage must expose ETag to the browser through its CORS rules
+    const etag = partResponse.headers.get('ETag');
+    if (!partResponse.ok || !etag) {
+      throw new Error(`Upload of part ${index + 1} failed: ${partResponse.status}`);
+    }
+    parts.push({ partNumber: index + 1, etag });
+  }
+  await apiRequest('POST', '/api/scans/upload-complete', { uploadURL, uploadId, parts });
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useScans, useScan } from "@/hooks/use-scan-data";
+import { useConversionProgress } from "@/hooks/use-conversion-progress";
 import type { MriScan } from "@shared/schema";
+import type { ConversionStage } from "@shared/conversion-progress";
 
 export interface ProcessingState {
   // Current scan being processed
@@ -14,7 +16,8 @@ export interface ProcessingState {
   // Processing state
   isProcessing: boolean;
   processingProgress: number;
-  processingStage: 'idle' | 'starting' | 'image_processing' | 'mesh_generation' | 'texture_mapping' | 'completed' | 'failed';
+  processingStage: 'idle' | ConversionStage;
+  processingMessage: string;
   
   // Actions
   setCurrentScan: (scanId: string | null) => void;
@@ -36,29 +39,39 @@ export function useProcessingState(): ProcessingState {
   // Calculate processing state from scan data
   const processingStatus = currentScan?.processingStatus || 'pending';
   const isProcessing = processingStatus === 'processing';
+
+  // Live stage and percentage streamed by the server while a conversion is queued or running
+  const liveProgress = useConversionProgress(
+    currentScanId,
+    !!currentScan && (processingStatus === 'pending' || processingStatus === 'processing')
+  );
   
-  // Calculate accurate processing progress and stage
-  const getProcessingDetails = () => {
+  const getProcessingDetails = (): { progress: number; stage: ProcessingState['processingStage']; message: string } => {
     // No scan selected - show idle state  
     if (!currentScan) {
-      return { progress: 0, stage: 'idle' as const };
+      return { progress: 0, stage: 'idle', message: '' };
     }
     
     switch (processingStatus) {
       case 'pending':
-        return { progress: 0, stage: 'idle' as const };
+        // The stream reports 'queued' as soon as a conversion is requested
+        return liveProgress && liveProgress.stage !== 'pending'
+          ? { progress: liveProgress.progress, stage: liveProgress.stage, message: liveProgress.message }
+          : { progress: 0, stage: 'idle', message: '' };
       case 'processing':
-        return { progress: 50, stage: 'mesh_generation' as const };
+        return liveProgress
+          ? { progress: liveProgress.progress, stage: liveProgress.stage, message: liveProgress.message }
+          : { progress: 0, stage: 'queued', message: 'Waiting for a processing worker...' };
       case 'completed':
-        return { progress: 100, stage: 'completed' as const };
+        return { progress: 100, stage: 'completed', message: '' };
       case 'failed':
-        return { progress: 0, stage: 'failed' as const };
+        return { progress: 0, stage: 'failed', message: liveProgress?.message ?? '' };
       default:
-        return { progress: 0, stage: 'idle' as const };
+        return { progress: 0, stage: 'idle', message: '' };
     }
   };
   
-  const { progress, stage } = getProcessingDetails();
+  const { progress, stage, message } = getProcessingDetails();
   
   return {
     // Current scan
@@ -73,6 +86,7 @@ export function useProcessingState(): ProcessingState {
     isProcessing,
     processingProgress: progress,
     processingStage: stage,
+    processingMessage: message,
     
     // Actions
     setCurrentScan: setCurrentScanId,
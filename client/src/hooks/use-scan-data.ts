@@ -1,6 +1,9 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { MriScan, AnalysisReport } from "@shared/schema";
+import type { MriScan, AnalysisReport, AnalysisReportSummary, AuditEvent, ReportFormat, ReportOptions, ReportOptionsInput, ScanPatientContext } from "@shared/schema";
+import type { AuditChainVerification, AuditEventQuery } from "@shared/audit";
+import type { ReportDiff } from "@shared/report-diff";
+import { modelFormatFromPath, parseModelGeometry } from "@/lib/model-geometry";
 
 // Hook to fetch all scans
 export function useScans() {
@@ -25,6 +28,33 @@ export function useScan(scanId?: string) {
   return result;
 }
 
+// Hook to fetch the patient, study and series a scan belongs to
+export function useScanPatient(scanId?: string) {
+  return useQuery<ScanPatientContext>({
+    queryKey: ['/api/scans', scanId, 'patient'],
+    enabled: !!scanId,
+  });
+}
+
+// Hook to download and parse the 3D model generated for a scan
+export function useScanModel(scan?: MriScan) {
+  const modelPath = scan?.processingStatus === 'completed' ? scan.threeDModelPath : null;
+  return useQuery({
+    // The model path changes whenever the scan is converted again
+    queryKey: ['/api/scans', scan?.id, 'model', modelPath],
+    enabled: !!scan && !!modelPath,
+    staleTime: Infinity,
+    queryFn: async () => {
+      const format = modelFormatFromPath(modelPath!);
+      if (!format) {
+        throw new Error(`Unsupported model format: ${modelPath}`);
+      }
+      const response = await apiRequest('GET', `/api/scans/${scan!.id}/model`);
+      return parseModelGeometry(await response.arrayBuffer(), format);
+    },
+  });
+}
+
 // Hook to fetch analysis report for a scan
 export function useAnalysisReport(scanId?: string) {
   return useQuery<AnalysisReport>({
@@ -33,6 +63,114 @@ export function useAnalysisReport(scanId?: string) {
   });
 }
 
+// Hook to fetch the report versions of a scan, newest first
+export function useReportHistory(scanId?: string) {
+  return useQuery<AnalysisReportSummary[]>({
+    queryKey: ['/api/scans', scanId, 'reports'],
+    enabled: !!scanId,
+  });
+}
+
+// Hook to compare two report versions of a scan
+export function useReportDiff(scanId?: string, version?: number, against?: number) {
+  return useQuery<ReportDiff>({
+    queryKey: ['/api/scans', scanId, 'reports', version, 'diff', against],
+    enabled: !!scanId && !!version && !!against && version !== against,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/scans/${scanId}/reports/${version}/diff?against=${against}`);
+      return response.json();
+    },
+  });
+}
+
+// Hook to fetch one version of a scan's report
+export function useReportVersion(scanId?: string, version?: number) {
+  return useQuery<AnalysisReport>({
+    queryKey: ['/api/scans', scanId, 'reports', version],
+    enabled: !!scanId && !!version,
+  });
+}
+
+// Hook for the report sign-off actions: edit the impression, sign, add an addendum
+export function useReportSignOff(scanId?: string, version?: number) {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/scans', scanId, 'reports'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/scans', scanId, 'report'] });
+  };
+  const url = `/api/scans/${scanId}/reports/${version}`;
+
+  return {
+    updateImpression: useMutation({
+      mutationFn: async (impression: string) => (await apiRequest('PATCH', url, { impression })).json(),
+      onSuccess,
+    }),
+    sign: useMutation({
+      mutationFn: async (signature: { status: 'preliminary' | 'final' }) =>
+        (await apiRequest('POST', `${url}/sign`, signature)).json(),
+      onSuccess,
+    }),
+    addAddendum: useMutation({
+      mutationFn: async (addendum: { text: string }) =>
+        (await apiRequest('POST', `${url}/addenda`, addendum)).json(),
+      onSuccess,
+    }),
+  };
+}
+
+// Hook to list the HL7 destinations final reports can be sent to
+export function useHl7Destinations(enabled = true) {
+  return useQuery<{ name: string; host: string; port: number }[]>({
+    queryKey: ['/api/hl7/destinations'],
+    enabled,
+    staleTime: Infinity,
+  });
+}
+
+// Hook to send a final report version to an HL7 destination
+export function useSendReportHl7(scanId?: string, version?: number) {
+  return useMutation({
+    mutationFn: async (destination: string) => {
+      const response = await apiRequest('POST', `/api/scans/${scanId}/reports/${version}/hl7`, { destination });
+      return response.json() as Promise<{ destination: string; controlId: string; acknowledgement: { code: string; text: string | null } }>;
+    },
+  });
+}
+
+const AUDIT_PAGE_SIZE = 100;
+
+// Hook to page through audit events matching the filters, newest first
+export function useAuditEvents(filters: Omit<AuditEventQuery, 'before' | 'limit'>) {
+  return useInfiniteQuery<AuditEvent[]>({
+    queryKey: ['/api/audit-events', filters],
+    initialPageParam: undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(AUDIT_PAGE_SIZE) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') {
+          params.set(key, value instanceof Date ? value.toISOString() : String(value));
+        }
+      }
+      if (pageParam) {
+        params.set('before', String(pageParam));
+      }
+      const response = await apiRequest('GET', `/api/audit-events?${params}`);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) =>
+      lastPage.length === AUDIT_PAGE_SIZE ? lastPage[lastPage.length - 1].sequence : undefined,
+  });
+}
+
+// Hook to re-compute the audit trail's hash chain on the server
+export function useVerifyAuditTrail() {
+  return useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('GET', '/api/audit-events/verify');
+      return response.json() as Promise<AuditChainVerification>;
+    },
+  });
+}
+
 // Hook to run detection analysis
 export function useRunDetection() {
   return useMutation({
@@ -56,25 +194,26 @@ export function useRunDetection() {
   });
 }
 
+// Hook to list the report templates a report can be generated with
+export function useReportTemplates() {
+  return useQuery<{ format: ReportFormat; title: string; subtitle: string; defaults: Omit<ReportOptions, 'reportFormat'> }[]>({
+    queryKey: ['/api/report-templates'],
+    staleTime: Infinity,
+  });
+}
+
 // Hook to generate analysis report
 export function useGenerateReport() {
   return useMutation({
-    mutationFn: async ({ scanId, detailLevel, riskThreshold, vizComplexity }: {
-      scanId: string;
-      detailLevel: number;
-      riskThreshold: number;
-      vizComplexity: number;
-    }) => {
-      const response = await apiRequest('POST', `/api/scans/${scanId}/report`, {
-        detailLevel,
-        riskThreshold,
-        vizComplexity
-      });
-      return response.json();
+    mutationFn: async ({ scanId, ...options }: ReportOptionsInput & { scanId: string }) => {
+      // Options left out take the defaults of the report template
+      const response = await apiRequest('POST', `/api/scans/${scanId}/report`, options);
+      return response.json() as Promise<AnalysisReport>;
     },
     onSuccess: (data, variables) => {
-      // Invalidate analysis report to trigger refetch
+      // Invalidate analysis report and history to trigger refetch
       queryClient.invalidateQueries({ queryKey: ['/api/scans', variables.scanId, 'report'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scans', variables.scanId, 'reports'] });
     },
   });
 }
@@ -0,0 +1,82 @@
+import * as THREE from "three";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import type { Detection, MedicalImageMetadata } from "@shared/schema";
+
+export type ModelFormat = "obj" | "stl" | "ply";
+
+// Format of a stored model, from the extension of its path
+export function modelFormatFromPath(modelPath: string): ModelFormat | null {
+  const extension = modelPath.split(".").pop()?.toLowerCase();
+  return extension === "obj" || extension === "stl" || extension === "ply" ? extension : null;
+}
+
+// Parse a downloaded model into one geometry with normals and a bounding box
+export function parseModelGeometry(data: ArrayBuffer, format: ModelFormat): THREE.BufferGeometry {
+  let geometry: THREE.BufferGeometry;
+
+  switch (format) {
+    case "obj": {
+      const group = new OBJLoader().parse(new TextDecoder().decode(data));
+      const parts: THREE.BufferGeometry[] = [];
+      group.traverse((object) => {
+        if (object instanceof THREE.Mesh) {
+          parts.push(object.geometry);
+        }
+      });
+      if (parts.length === 0) {
+        throw new Error("Model contains no geometry");
+      }
+      geometry = parts.length === 1 ? parts[0] : mergeGeometries(parts) ?? parts[0];
+      break;
+    }
+    case "stl":
+      geometry = new STLLoader().parse(data);
+      break;
+    case "ply":
+      geometry = new PLYLoader().parse(data);
+      break;
+  }
+
+  if (!geometry.getAttribute("position") || geometry.getAttribute("position").count === 0) {
+    throw new Error("Model contains no geometry");
+  }
+  if (!geometry.getAttribute("normal")) {
+    geometry.computeVertexNormals();
+  }
+  geometry.computeBoundingBox();
+  return geometry;
+}
+
+/**
+ * Position of a detection in the model's coordinate frame.
+ *
+ * Models are exported in millimetres with the image volume centred on the
+ * origin, x along image columns, y along image rows and z along slices.
+ * Detection boxes are percentages of the analysed slice, which is the middle
+ * slice of the volume (z = 0). Without image metadata the model's bounding
+ * box stands in for the image extent.
+ */
+export function detectionModelPosition(
+  detection: Detection,
+  metadata: MedicalImageMetadata | null | undefined,
+  bounds: THREE.Box3
+): THREE.Vector3 {
+  const { x, y, width, height } = detection.coordinates;
+  const centreX = (x + width / 2) / 100 - 0.5;
+  const centreY = (y + height / 2) / 100 - 0.5;
+
+  if (metadata) {
+    return new THREE.Vector3(
+      centreX * metadata.width * metadata.spacing[0],
+      centreY * metadata.height * metadata.spacing[1],
+      0
+    );
+  }
+
+  const size = bounds.getSize(new THREE.Vector3());
+  const centre = bounds.getCenter(new THREE.Vector3());
+  return new THREE.Vector3(centre.x + centreX * size.x, centre.y + centreY * size.y, centre.z);
+}
@@ -1,6 +1,10 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
+  // An expired session sends the app back to the login page
+  if (res.status === 401 && !res.url.endsWith("/api/login")) {
+    queryClient.setQueryData(["/api/me"], null);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -1,13 +1,21 @@
 import { useState } from "react";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import MedicalSidebar from "@/components/medical-sidebar";
 import PatientDetailsSidebar from "@/components/patient-details-sidebar";
 import AnalysisAccordion from "@/components/analysis-accordion";
+import ReportHistory from "@/components/report-history";
+import AuditLog from "@/components/audit-log";
 import { useProcessingState } from "@/hooks/use-processing-state";
+import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLE_LABELS } from "@shared/roles";
 
 export default function Home() {
   const [currentView, setCurrentView] = useState("analysis");
   const [currentStep, setCurrentStep] = useState(1);
   const { setCurrentScan } = useProcessingState();
+  const { user, logoutMutation } = useAuth();
 
   const handleScanSelect = (scanId: string) => {
     setCurrentScan(scanId);
@@ -31,12 +39,16 @@ export default function Home() {
               {currentView === "analysis" ? "MRI Analysis Workspace" : 
                currentView === "scans" ? "MRI Scan Library" :
                currentView === "dashboard" ? "Medical Dashboard" :
+               currentView === "reports" ? "Analysis Reports" :
+               currentView === "audit" ? "Audit Trail" :
                "NeuroScan Platform"}
             </h1>
             <p className="text-sm text-muted-foreground">
               {currentView === "analysis" ? "Advanced 3D analysis and anomaly detection" :
                currentView === "scans" ? "Manage and review patient scans" :
                currentView === "dashboard" ? "System overview and metrics" :
+               currentView === "reports" ? "Report versions and changes between them" :
+               currentView === "audit" ? "Who viewed, exported or changed scans and reports" :
                "Professional medical imaging analysis"}
             </p>
           </div>
@@ -48,6 +60,20 @@ export default function Home() {
               <div className="w-2 h-2 rounded-full bg-medical-success"></div>
               <span className="text-xs text-muted-foreground">System Online</span>
             </div>
+            <div className="flex items-center gap-2 border-l border-border pl-4">
+              <span className="text-sm text-foreground" data-testid="text-current-user">{user?.displayName}</span>
+              {user && <Badge variant="outline" className="text-xs" data-testid="badge-user-role">{USER_ROLE_LABELS[user.role]}</Badge>}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={logoutMutation.isPending}
+                onClick={() => logoutMutation.mutate()}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign out
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -143,12 +169,19 @@ export default function Home() {
                   </div>
                 </div>
               </div>
+            ) : currentView === "reports" ? (
+              <div className="p-6">
+                <ReportHistory />
+              </div>
+            ) : currentView === "audit" ? (
+              <div className="p-6">
+                <AuditLog />
+              </div>
             ) : (
               <div className="p-6 flex items-center justify-center">
                 <div className="text-center">
                   <h2 className="text-2xl font-semibold mb-2 text-foreground">
                     {currentView === "scans" ? "Scan Library" :
-                     currentView === "reports" ? "Analysis Reports" :
                      currentView === "metrics" ? "Performance Metrics" :
                      currentView === "settings" ? "System Settings" : "Feature"}
                   </h2>
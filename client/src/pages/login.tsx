@@ -0,0 +1,85 @@
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import { Brain, LogIn } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+
+// Server errors arrive as "<status>: <json body>"
+function errorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(text.slice(text.indexOf(":") + 1)).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    loginMutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background text-foreground">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <Brain className="h-6 w-6 text-primary" />
+            NeuroScan
+          </CardTitle>
+          <CardDescription>Sign in to review scans and reports</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                autoFocus
+                data-testid="input-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                data-testid="input-password"
+              />
+            </div>
+            {loginMutation.error && (
+              <p className="text-sm text-destructive" data-testid="login-error">{errorMessage(loginMutation.error)}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!username.trim() || !password || loginMutation.isPending}
+              data-testid="button-login"
+            >
+              <LogIn className="h-4 w-4 mr-2" />
+              Sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { loginSchema, type MriScan, type PublicUser, type User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/roles";
+import { ObjectPermission, isAccessAllowed } from "./objectAcl";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+declare global {
+  namespace Express {
+    // The signed-in user on req.user, without the password hash
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * Hash a password with scrypt and a random salt, as "<hash>.<salt>" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function toPublicUser({ passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+/**
+ * Sessions stored in Postgres, passport-local login and the
+ * /api/login, /api/logout and /api/me routes
+ */
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies");
+  }
+
+  const PgStore = connectPgSimple(session);
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool, tableName: "sessions", createTableIfMissing: false }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deleted accounts end their sessions
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    req.body = parsed.data;
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) {
+        return next(error);
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      // A fresh session id on login prevents session fixation
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) {
+          return next(regenerateError);
+        }
+        req.login(user, (loginError) => {
+          if (loginError) {
+            return next(loginError);
+          }
+          res.json(user);
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((logoutError) => {
+      if (logoutError) {
+        return next(logoutError);
+      }
+      req.session.destroy((destroyError) => {
+        if (destroyError) {
+          return next(destroyError);
+        }
+        res.clearCookie("connect.sid");
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+}
+
+/**
+ * Reject requests without a signed-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Sign in required" });
+  }
+  next();
+}
+
+/**
+ * Reject requests whose user's role lacks any of the permissions
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Sign in required" });
+    }
+    const missing = permissions.find(permission => !hasPermission(req.user.role, permission));
+    if (missing) {
+      return res.status(403).json({ message: `The ${req.user.role} role does not have the ${missing} permission` });
+    }
+    next();
+  };
+}
+
+/**
+ * Whether the signed-in user may see patient identity
+ */
+export function canReadPhi(req: Request): boolean {
+  return !!req.user && hasPermission(req.user.role, "phi:read");
+}
+
+/**
+ * Whether the signed-in user bypasses scan and object ACLs: admins, who
+ * manage the groups the ACLs refer to
+ */
+export function canAccessAllScans(req: Request): boolean {
+  return !!req.user && hasPermission(req.user.role, "users:manage");
+}
+
+/**
+ * Whether the signed-in user may read or change a scan under its ACL policy.
+ * Scans without a policy predate per-scan access control and are left to
+ * the role checks.
+ */
+export async function canAccessScan(req: Request, scan: MriScan, permission: ObjectPermission): Promise<boolean> {
+  if (!req.user) {
+    return false;
+  }
+  if (canAccessAllScans(req) || !scan.aclPolicy) {
+    return true;
+  }
+  return isAccessAllowed({ userId: req.user.id, aclPolicy: scan.aclPolicy, requestedPermission: permission });
+}
+
+/**
+ * Reject requests for the scan in req.params.id that the user's access to it
+ * does not cover. Unknown scans are 404s, as the route would report them.
+ */
+export function requireScanAccess(permission: ObjectPermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const scan = await storage.getMriScan(req.params.id);
+      if (!scan) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+      if (!(await canAccessScan(req, scan, permission))) {
+        return res.status(403).json({ message: `You do not have ${permission} access to this scan` });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,48 @@
+import { parseArgs } from "util";
+import { createInterface } from "readline/promises";
+import { fromZodError } from "zod-validation-error";
+import { insertUserSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { pool } from "./db";
+
+// Create a login account; the password is read from standard input so it
+// stays out of the shell history:
+//   npm run create-user -- <username> --name "Dr. Jane Smith" --role radiologist
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: "string" },
+      role: { type: "string" },
+    },
+  });
+
+  const readline = createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+  const password = await readline.question("Password: ");
+  readline.close();
+
+  const parsed = insertUserSchema.safeParse({
+    username: positionals[0],
+    displayName: values.name ?? positionals[0],
+    role: values.role,
+    password,
+  });
+  if (!parsed.success) {
+    throw new Error(fromZodError(parsed.error).toString());
+  }
+  const { password: plain, ...user } = parsed.data;
+
+  if (await storage.getUserByUsername(user.username)) {
+    throw new Error(`User ${user.username} already exists`);
+  }
+  const created = await storage.createUser({ ...user, passwordHash: await hashPassword(plain) });
+  console.log(`Created ${created.role} ${created.username} (${created.displayName})`);
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
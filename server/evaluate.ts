@@ -0,0 +1,60 @@
+import path from "path";
+import { parseArgs } from "util";
+import { evaluationRequestSchema } from "@shared/evaluation";
+import { fromZodError } from "zod-validation-error";
+import {
+  evaluateDataset,
+  loadEvaluationReport,
+  saveEvaluationReport,
+} from "./services/detection-evaluation";
+
+// Score the configured detectors against a labelled dataset:
+//   npm run evaluate -- [dataset] [--detectors a,b] [--sensitivity 75]
+//     [--confidence 50] [--iou 0.5] [--baseline <report id>] [--out <dir>]
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      detectors: { type: "string" },
+      sensitivity: { type: "string" },
+      confidence: { type: "string" },
+      iou: { type: "string" },
+      baseline: { type: "string" },
+      out: { type: "string" },
+    },
+  });
+
+  const parsed = evaluationRequestSchema.safeParse({
+    dataset: positionals[0],
+    detectors: values.detectors?.split(",").map(name => name.trim()).filter(Boolean),
+    sensitivity: values.sensitivity === undefined ? undefined : Number(values.sensitivity),
+    confidence: values.confidence === undefined ? undefined : Number(values.confidence),
+    iouThreshold: values.iou === undefined ? undefined : Number(values.iou),
+  });
+  if (!parsed.success) {
+    throw new Error(fromZodError(parsed.error).toString());
+  }
+  const { dataset, ...request } = parsed.data;
+
+  const baseline = values.baseline ? await loadEvaluationReport(values.baseline, values.out) : null;
+  if (values.baseline && !baseline) {
+    throw new Error(`Baseline report ${values.baseline} not found`);
+  }
+
+  const report = await evaluateDataset(path.resolve(dataset), request);
+  const files = await saveEvaluationReport(report, baseline, values.out);
+
+  console.log(`\nEvaluated ${report.imageCount} images with ${report.detectors.map(({ name, version }) => `${name} v${version}`).join(", ")}`);
+  for (const metrics of [{ type: "overall", ...report.overall }, ...report.classes]) {
+    console.log(
+      `${metrics.type.padEnd(12)} precision ${metrics.precision.toFixed(3)}  recall ${metrics.recall.toFixed(3)}  ` +
+      `F1 ${metrics.f1.toFixed(3)}  IoU ${metrics.meanIoU.toFixed(3)}  FROC ${metrics.frocScore.toFixed(3)}`
+    );
+  }
+  console.log(`\nReport: ${files.json}\n        ${files.html}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
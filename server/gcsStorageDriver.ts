@@ -0,0 +1,146 @@
+import { Storage, File } from "@google-cloud/storage";
+import type { Readable } from "stream";
+import {
+  parseObjectPath,
+  type ObjectStorageDriver,
+  type StoredObject,
+  type StoredObjectMetadata,
+} from "./objectStorageDriver";
+
+const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+
+const GCS_URL_PREFIX = "https://storage.googleapis.com/";
+
+// Client authenticated through the Replit sidecar
+function createSidecarClient(): Storage {
+  return new Storage({
+    credentials: {
+      audience: "replit",
+      subject_token_type: "access_token",
+      token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
+      type: "external_account",
+      credential_source: {
+        url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
+        format: {
+          type: "json",
+          subject_token_field_name: "access_token",
+        },
+      },
+      universe_domain: "googleapis.com",
+    },
+    projectId: "",
+  });
+}
+
+class GcsStoredObject implements StoredObject {
+  constructor(private readonly file: File) {}
+
+  get name(): string {
+    return `/${this.file.bucket.name}/${this.file.name}`;
+  }
+
+  async exists(): Promise<boolean> {
+    const [exists] = await this.file.exists();
+    return exists;
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const [metadata] = await this.file.getMetadata();
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+      if (value !== null && value !== undefined) {
+        custom[key] = String(value);
+      }
+    }
+    return {
+      contentType: metadata.contentType,
+      size: Number(metadata.size ?? 0),
+      custom,
+    };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    await this.file.setMetadata({ metadata: custom });
+  }
+
+  createReadStream(): Readable {
+    return this.file.createReadStream();
+  }
+
+  async save(data: Buffer, contentType?: string): Promise<void> {
+    await this.file.save(data, { resumable: false, contentType });
+  }
+}
+
+// Google Cloud Storage. On Replit the sidecar provides credentials and signs
+// URLs; elsewhere set GOOGLE_APPLICATION_CREDENTIALS to a service account key,
+// which signs URLs itself.
+export class GcsStorageDriver implements ObjectStorageDriver {
+  readonly name = "gcs";
+  private readonly useSidecar = !process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  private readonly client = this.useSidecar ? createSidecarClient() : new Storage();
+
+  getObject(fullPath: string): StoredObject {
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    return new GcsStoredObject(this.client.bucket(bucketName).file(objectName));
+  }
+
+  async signUploadURL(fullPath: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    if (!this.useSidecar) {
+      const [signedURL] = await this.client.bucket(bucketName).file(objectName).getSignedUrl({
+        version: "v4",
+        action: "write",
+        expires: Date.now() + ttlSec * 1000,
+      });
+      return signedURL;
+    }
+    return signSidecarObjectURL({ bucketName, objectName, method: "PUT", ttlSec });
+  }
+
+  objectPathFromURL(url: string): string | null {
+    if (!url.startsWith(GCS_URL_PREFIX)) {
+      return null;
+    }
+    // The path without query parameters and domain is /<bucket>/<object name>
+    return new URL(url).pathname;
+  }
+}
+
+async function signSidecarObjectURL({
+  bucketName,
+  objectName,
+  method,
+  ttlSec,
+}: {
+  bucketName: string;
+  objectName: string;
+  method: "GET" | "PUT" | "DELETE" | "HEAD";
+  ttlSec: number;
+}): Promise<string> {
+  const request = {
+    bucket_name: bucketName,
+    object_name: objectName,
+    method,
+    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+  };
+  const response = await fetch(
+    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to sign object URL, errorcode: ${response.status}, ` +
+        `make sure you're running on Replit or set GOOGLE_APPLICATION_CREDENTIALS`
+    );
+  }
+
+  const { signed_url: signedURL } = await response.json();
+  return signedURL;
+}
@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type {
+  ObjectStorageDriver,
+  StoredObject,
+  StoredObjectMetadata,
+} from "./objectStorageDriver";
+
+// Route the server accepts signed uploads on (see routes.ts); the rest of the
+// URL is the object's full path
+export const LOCAL_UPLOAD_ROUTE = "/object-storage";
+
+// Content type and custom metadata live next to each object in a JSON file
+const SIDECAR_SUFFIX = ".metadata.json";
+
+interface SidecarMetadata {
+  contentType?: string;
+  custom: Record<string, string>;
+}
+
+export class UploadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Upload exceeds ${maxBytes} bytes`);
+    this.name = "UploadTooLargeError";
+    Object.setPrototypeOf(this, UploadTooLargeError.prototype);
+  }
+}
+
+class LocalStoredObject implements StoredObject {
+  constructor(
+    public readonly name: string,
+    private readonly filePath: string,
+  ) {}
+
+  async exists(): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(this.filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const stats = await fs.promises.stat(this.filePath);
+    const sidecar = await this.readSidecar();
+    return { contentType: sidecar.contentType, size: stats.size, custom: sidecar.custom };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    const sidecar = await this.readSidecar();
+    await this.writeSidecar({ ...sidecar, custom: { ...sidecar.custom, ...custom } });
+  }
+
+  createReadStream(): Readable {
+    return fs.createReadStream(this.filePath);
+  }
+
+  async save(data: Buffer, contentType?: string): Promise<void> {
+    await this.replace(tempPath => fs.promises.writeFile(tempPath, data), contentType);
+  }
+
+  // Store a request body, refusing bodies over maxBytes
+  async receive(body: Readable, contentType: string | undefined, maxBytes: number): Promise<void> {
+    let received = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(received > maxBytes ? new UploadTooLargeError(maxBytes) : null, chunk);
+      },
+    });
+    await this.replace(tempPath => pipeline(body, limit, fs.createWriteStream(tempPath)), contentType);
+  }
+
+  // Write new content to a temporary file and move it into place, so readers
+  // never see a partial object
+  private async replace(write: (tempPath: string) => Promise<void>, contentType?: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await write(tempPath);
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+    await this.writeSidecar({ contentType, custom: {} });
+  }
+
+  private async readSidecar(): Promise<SidecarMetadata> {
+    try {
+      const sidecar = JSON.parse(await fs.promises.readFile(this.filePath + SIDECAR_SUFFIX, "utf8"));
+      return { contentType: sidecar.contentType, custom: sidecar.custom ?? {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { custom: {} };
+      }
+      throw error;
+    }
+  }
+
+  private async writeSidecar(sidecar: SidecarMetadata): Promise<void> {
+    const sidecarPath = this.filePath + SIDECAR_SUFFIX;
+    const tempPath = `${sidecarPath}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(sidecar));
+    await fs.promises.rename(tempPath, sidecarPath);
+  }
+}
+
+// Objects kept under LOCAL_OBJECT_STORAGE_DIR (default ./object-storage), one
+// directory per bucket. Upload URLs point at this server and are signed with
+// OBJECT_STORAGE_SIGNING_KEY (falling back to SESSION_SECRET).
+export class LocalStorageDriver implements ObjectStorageDriver {
+  readonly name = "local";
+  readonly defaultPrivateObjectDir = "/local/private";
+  private readonly rootDir = path.resolve(process.env.LOCAL_OBJECT_STORAGE_DIR || "object-storage");
+
+  getObject(fullPath: string): LocalStoredObject {
+    return new LocalStoredObject(fullPath, this.resolveFilePath(fullPath));
+  }
+
+  async signUploadURL(fullPath: string, ttlSec: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + ttlSec;
+    const signature = this.sign("PUT", fullPath, expires);
+    return `${LOCAL_UPLOAD_ROUTE}${encodeURI(fullPath)}?expires=${expires}&signature=${signature}`;
+  }
+
+  objectPathFromURL(url: string): string | null {
+    // Upload URLs are relative; a base is only needed to parse them
+    const { pathname } = new URL(url, "http://localhost");
+    if (!pathname.startsWith(`${LOCAL_UPLOAD_ROUTE}/`)) {
+      return null;
+    }
+    return decodeURI(pathname.slice(LOCAL_UPLOAD_ROUTE.length));
+  }
+
+  // Whether an upload URL's signature is valid and has not expired
+  verifyUploadURL(fullPath: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign("PUT", fullPath, expiresAt), "hex");
+    const actual = Buffer.from(signature, "hex");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private sign(method: string, fullPath: string, expires: number): string {
+    const key = process.env.OBJECT_STORAGE_SIGNING_KEY || process.env.SESSION_SECRET;
+    if (!key) {
+      throw new Error("OBJECT_STORAGE_SIGNING_KEY or SESSION_SECRET must be set to sign upload URLs");
+    }
+    return createHmac("sha256", key).update(`${method}\n${fullPath}\n${expires}`).digest("hex");
+  }
+
+  // File of an object, refusing paths that would leave the root directory or
+  // name a sidecar file
+  private resolveFilePath(fullPath: string): string {
+    const segments = fullPath.split("/").filter(segment => segment.length > 0);
+    if (
+      segments.length < 2 ||
+      segments.some(segment => segment === "." || segment === "..") ||
+      fullPath.endsWith(SIDECAR_SUFFIX) ||
+      fullPath.endsWith(".tmp")
+    ) {
+      throw new Error(`Invalid object path: ${fullPath}`);
+    }
+    const filePath = path.resolve(this.rootDir, ...segments);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid object path: ${fullPath}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,39 @@
+import { parseArgs } from "util";
+import { createMllpListener } from "./services/mllp";
+
+// Local MLLP listener for trying HL7 delivery: prints every received message
+// and acknowledges it with AA, or AE with --reject
+//   npm run mllp-listener -- [--host 127.0.0.1] [--port 2575] [--reject]
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      host: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: "2575" },
+      reject: { type: "boolean", default: false },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+
+  const server = createMllpListener(message => {
+    console.log(`\n--- ${new Date().toISOString()} ---`);
+    console.log(message.split("\r").join("\n"));
+    if (values.reject) {
+      throw new Error("Rejected by test listener");
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, values.host, () => resolve());
+  });
+  console.log(`MLLP listener on ${values.host}:${port}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
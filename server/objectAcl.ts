@@ -1,59 +1,22 @@
-import { File } from "@google-cloud/storage";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  type ObjectAccessGroup,
+  type ObjectAclRule,
+  type ObjectAclPolicy,
+} from "@shared/object-acl";
+import { storage } from "./storage";
+import type { StoredObject } from "./objectStorageDriver";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
-// The type of the access group.
-//
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
-
-// The logic user group that can access the object.
-export interface ObjectAccessGroup {
-  // The type of the access group.
-  type: ObjectAccessGroupType;
-  // The logic id that is enough to identify the qualified group members.
-  //
-  // It may have different format for different types. For example:
-  // - for USER_LIST, the id could be the user list db entity id, and the
-  //   user list db entity could contain a bunch of user ids. User needs
-  //   to be a member of the user list to be able to access the object.
-  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
-  //   to have an email with the domain to be able to access the object.
-  // - for GROUP_MEMBER, the id could be the group db entity id, and the
-  //   group db entity could contain a bunch of user ids. User needs to be
-  //   a member of the group to be able to access the object.
-  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
-  //   subscriber db entity could contain a bunch of user ids. User needs to
-  //   be a subscriber to be able to access the object.
-  id: string;
-}
-
-export enum ObjectPermission {
-  READ = "read",
-  WRITE = "write",
-}
-
-export interface ObjectAclRule {
-  group: ObjectAccessGroup;
-  permission: ObjectPermission;
-}
-
-// The ACL policy of the object.
-// This would be set as part of the object custom metadata:
-// - key: "custom:aclPolicy"
-// - value: JSON string of the ObjectAclPolicy object.
-export interface ObjectAclPolicy {
-  owner: string;
-  visibility: "public" | "private";
-  aclRules?: Array<ObjectAclRule>;
-}
+export {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  type ObjectAccessGroup,
+  type ObjectAclRule,
+  type ObjectAclPolicy,
+};
 
 // Check if the requested permission is allowed based on the granted permission.
 function isPermissionAllowed(
@@ -82,21 +45,37 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+// The users listed in an access group.
+class UserListAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.USER_LIST, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return storage.isAccessGroupMember(this.id, userId);
+  }
+}
+
+// The users on any care team of a patient; the group id is the patient id,
+// so care teams formed after an upload apply to the patient's earlier scans.
+class CareTeamAccessGroup extends BaseObjectAccessGroup {
+  constructor(patientId: string) {
+    super(ObjectAccessGroupType.CARE_TEAM, patientId);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return storage.isCareTeamMember(this.id, userId);
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.USER_LIST:
+      return new UserListAccessGroup(group.id);
+    case ObjectAccessGroupType.CARE_TEAM:
+      return new CareTeamAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -104,31 +83,28 @@ function createObjectAccessGroup(
 
 // Sets the ACL policy to the object metadata.
 export async function setObjectAclPolicy(
-  objectFile: File,
+  objectFile: StoredObject,
   aclPolicy: ObjectAclPolicy,
 ): Promise<void> {
-  const [exists] = await objectFile.exists();
-  if (!exists) {
+  if (!(await objectFile.exists())) {
     throw new Error(`Object not found: ${objectFile.name}`);
   }
 
-  await objectFile.setMetadata({
-    metadata: {
-      [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
-    },
+  await objectFile.setCustomMetadata({
+    [ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
   });
 }
 
 // Gets the ACL policy from the object metadata.
 export async function getObjectAclPolicy(
-  objectFile: File,
+  objectFile: StoredObject,
 ): Promise<ObjectAclPolicy | null> {
-  const [metadata] = await objectFile.getMetadata();
-  const aclPolicy = metadata?.metadata?.[ACL_POLICY_METADATA_KEY];
+  const { custom } = await objectFile.getMetadata();
+  const aclPolicy = custom[ACL_POLICY_METADATA_KEY];
   if (!aclPolicy) {
     return null;
   }
-  return JSON.parse(aclPolicy as string);
+  return JSON.parse(aclPolicy);
 }
 
 // Checks if the user can access the object.
@@ -138,7 +114,7 @@ export async function canAccessObject({
   requestedPermission,
 }: {
   userId?: string;
-  objectFile: File;
+  objectFile: StoredObject;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
   // When this function is called, the acl policy is required.
@@ -146,7 +122,20 @@ export async function canAccessObject({
   if (!aclPolicy) {
     return false;
   }
+  return isAccessAllowed({ userId, aclPolicy, requestedPermission });
+}
 
+// Checks if the policy grants the user the requested permission. Scans keep
+// their policy in the database and are checked with this directly.
+export async function isAccessAllowed({
+  userId,
+  aclPolicy,
+  requestedPermission,
+}: {
+  userId?: string;
+  aclPolicy: ObjectAclPolicy;
+  requestedPermission: ObjectPermission;
+}): Promise<boolean> {
   // Public objects are always accessible for read.
   if (
     aclPolicy.visibility === "public" &&
@@ -177,4 +166,4 @@ export async function canAccessObject({
   }
 
   return false;
-}
\ No newline at end of file
+}
@@ -1,4 +1,3 @@
-import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
 import { randomUUID } from "crypto";
 import {
@@ -8,27 +7,29 @@ import {
   getObjectAclPolicy,
   setObjectAclPolicy,
 } from "./objectAcl";
+import {
+  getObjectStorageDriver,
+  type CompletedUploadPart,
+  type ObjectStorageDriver,
+  type StoredObject,
+} from "./objectStorageDriver";
+
+// Lifetime of signed upload and download URLs
+const UPLOAD_URL_TTL_SEC = 900;
+const DOWNLOAD_URL_TTL_SEC = 300;
 
-const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
+// Browser uploads above the threshold are sent in parts when the driver
+// supports multipart uploads (S3 needs at least 5 MiB per part)
+export const MULTIPART_UPLOAD_THRESHOLD = 16 * 1024 * 1024;
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
 
-// The object storage client is used to interact with the object storage service.
-export const objectStorageClient = new Storage({
-  credentials: {
-    audience: "replit",
-    subject_token_type: "access_token",
-    token_url: `${REPLIT_SIDECAR_ENDPOINT}/token`,
-    type: "external_account",
-    credential_source: {
-      url: `${REPLIT_SIDECAR_ENDPOINT}/credential`,
-      format: {
-        type: "json",
-        subject_token_field_name: "access_token",
-      },
-    },
-    universe_domain: "googleapis.com",
-  },
-  projectId: "",
-});
+export interface ObjectEntityMultipartUpload {
+  // Object path to create the scan with once the upload is complete
+  objectPath: string;
+  uploadId: string;
+  partSize: number;
+  partURLs: string[];
+}
 
 export class ObjectNotFoundError extends Error {
   constructor() {
@@ -40,7 +41,11 @@ export class ObjectNotFoundError extends Error {
 
 // The object storage service is used to interact with the object storage service.
 export class ObjectStorageService {
-  constructor() {}
+  private readonly driver: ObjectStorageDriver;
+
+  constructor(driver: ObjectStorageDriver = getObjectStorageDriver()) {
+    this.driver = driver;
+  }
 
   // Gets the public object search paths.
   getPublicObjectSearchPaths(): Array<string> {
@@ -64,7 +69,7 @@ export class ObjectStorageService {
 
   // Gets the private object directory.
   getPrivateObjectDir(): string {
-    const dir = process.env.PRIVATE_OBJECT_DIR || "";
+    const dir = process.env.PRIVATE_OBJECT_DIR || this.driver.defaultPrivateObjectDir || "";
     if (!dir) {
       throw new Error(
         "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
@@ -75,18 +80,13 @@ export class ObjectStorageService {
   }
 
   // Search for a public object from the search paths.
-  async searchPublicObject(filePath: string): Promise<File | null> {
+  async searchPublicObject(filePath: string): Promise<StoredObject | null> {
     for (const searchPath of this.getPublicObjectSearchPaths()) {
-      const fullPath = `${searchPath}/${filePath}`;
-
       // Full path format: /<bucket_name>/<object_name>
-      const { bucketName, objectName } = parseObjectPath(fullPath);
-      const bucket = objectStorageClient.bucket(bucketName);
-      const file = bucket.file(objectName);
+      const file = this.driver.getObject(`${searchPath}/${filePath}`);
 
       // Check if file exists
-      const [exists] = await file.exists();
-      if (exists) {
+      if (await file.exists()) {
         return file;
       }
     }
@@ -95,10 +95,18 @@ export class ObjectStorageService {
   }
 
   // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  async downloadObject(file: StoredObject, res: Response, cacheTtlSec: number = 3600) {
     try {
+      // Drivers that sign download URLs serve the content from the store
+      if (this.driver.signDownloadURL) {
+        const downloadURL = await this.driver.signDownloadURL(file.name, DOWNLOAD_URL_TTL_SEC);
+        res.set("Cache-Control", "no-store");
+        res.redirect(downloadURL);
+        return;
+      }
+
       // Get file metadata
-      const [metadata] = await file.getMetadata();
+      const metadata = await file.getMetadata();
       // Get the ACL policy for the object.
       const aclPolicy = await getObjectAclPolicy(file);
       const isPublic = aclPolicy?.visibility === "public";
@@ -132,50 +140,57 @@ export class ObjectStorageService {
 
   // Gets the upload URL for an object entity.
   async getObjectEntityUploadURL(): Promise<string> {
-    const privateObjectDir = this.getPrivateObjectDir();
-    if (!privateObjectDir) {
-      throw new Error(
-        "PRIVATE_OBJECT_DIR not set. Create a bucket in 'Object Storage' " +
-          "tool and set PRIVATE_OBJECT_DIR env var."
-      );
-    }
-
-    const objectId = randomUUID();
-    const fullPath = `${privateObjectDir}/uploads/${objectId}`;
+    // Sign URL for PUT method with TTL
+    const objectPath = this.newObjectEntityPath();
+    return this.driver.signUploadURL(this.objectEntityFullPath(objectPath), UPLOAD_URL_TTL_SEC);
+  }
 
-    const { bucketName, objectName } = parseObjectPath(fullPath);
+  // Starts a multipart upload of a new object entity, or returns null when
+  // the driver has no multipart support or the file fits a single PUT.
+  async createObjectEntityMultipartUpload(
+    fileSize: number,
+    contentType?: string,
+  ): Promise<ObjectEntityMultipartUpload | null> {
+    if (!this.driver.createMultipartUpload || fileSize <= MULTIPART_UPLOAD_THRESHOLD) {
+      return null;
+    }
 
-    // Sign URL for PUT method with TTL
-    return signObjectURL({
-      bucketName,
-      objectName,
-      method: "PUT",
-      ttlSec: 900,
-    });
+    const objectPath = this.newObjectEntityPath();
+    const partCount = Math.ceil(fileSize / MULTIPART_PART_SIZE);
+    const { uploadId, partURLs } = await this.driver.createMultipartUpload(
+      this.objectEntityFullPath(objectPath),
+      partCount,
+      UPLOAD_URL_TTL_SEC,
+      contentType,
+    );
+    return {
+      objectPath,
+      uploadId,
+      partSize: MULTIPART_PART_SIZE,
+      partURLs,
+    };
   }
 
-  // Gets the object entity file from the object path.
-  async getObjectEntityFile(objectPath: string): Promise<File> {
-    if (!objectPath.startsWith("/objects/")) {
+  // Completes a multipart upload started by createObjectEntityMultipartUpload.
+  async completeObjectEntityMultipartUpload(
+    objectPath: string,
+    uploadId: string,
+    parts: CompletedUploadPart[],
+  ): Promise<void> {
+    if (!this.driver.completeMultipartUpload || !objectPath.startsWith("/objects/uploads/")) {
       throw new ObjectNotFoundError();
     }
+    await this.driver.completeMultipartUpload(this.objectEntityFullPath(objectPath), uploadId, parts);
+  }
 
-    const parts = objectPath.slice(1).split("/");
-    if (parts.length < 2) {
+  // Gets the object entity file from the object path.
+  async getObjectEntityFile(objectPath: string): Promise<StoredObject> {
+    if (!objectPath.startsWith("/objects/")) {
       throw new ObjectNotFoundError();
     }
 
-    const entityId = parts.slice(1).join("/");
-    let entityDir = this.getPrivateObjectDir();
-    if (!entityDir.endsWith("/")) {
-      entityDir = `${entityDir}/`;
-    }
-    const objectEntityPath = `${entityDir}${entityId}`;
-    const { bucketName, objectName } = parseObjectPath(objectEntityPath);
-    const bucket = objectStorageClient.bucket(bucketName);
-    const objectFile = bucket.file(objectName);
-    const [exists] = await objectFile.exists();
-    if (!exists) {
+    const objectFile = this.driver.getObject(this.objectEntityFullPath(objectPath));
+    if (!(await objectFile.exists())) {
       throw new ObjectNotFoundError();
     }
     return objectFile;
@@ -184,14 +199,12 @@ export class ObjectStorageService {
   normalizeObjectEntityPath(
     rawPath: string,
   ): string {
-    if (!rawPath.startsWith("https://storage.googleapis.com/")) {
+    // Extract the path from an upload URL of the storage driver
+    const rawObjectPath = this.driver.objectPathFromURL(rawPath);
+    if (rawObjectPath === null) {
       return rawPath;
     }
   
-    // Extract the path from the URL by removing query parameters and domain
-    const url = new URL(rawPath);
-    const rawObjectPath = url.pathname;
-  
     let objectEntityDir = this.getPrivateObjectDir();
     if (!objectEntityDir.endsWith("/")) {
       objectEntityDir = `${objectEntityDir}/`;
@@ -228,7 +241,7 @@ export class ObjectStorageService {
     requestedPermission,
   }: {
     userId?: string;
-    objectFile: File;
+    objectFile: StoredObject;
     requestedPermission?: ObjectPermission;
   }): Promise<boolean> {
     return canAccessObject({
@@ -237,63 +250,24 @@ export class ObjectStorageService {
       requestedPermission: requestedPermission ?? ObjectPermission.READ,
     });
   }
-}
 
-function parseObjectPath(path: string): {
-  bucketName: string;
-  objectName: string;
-} {
-  if (!path.startsWith("/")) {
-    path = `/${path}`;
-  }
-  const pathParts = path.split("/");
-  if (pathParts.length < 3) {
-    throw new Error("Invalid path: must contain at least a bucket name");
+  // Object path of a new object under the private uploads directory
+  private newObjectEntityPath(): string {
+    return `/objects/uploads/${randomUUID()}`;
   }
 
-  const bucketName = pathParts[1];
-  const objectName = pathParts.slice(2).join("/");
-
-  return {
-    bucketName,
-    objectName,
-  };
-}
+  // Full path of the object an /objects/ path names
+  private objectEntityFullPath(objectPath: string): string {
+    const parts = objectPath.slice(1).split("/");
+    if (parts.length < 2) {
+      throw new ObjectNotFoundError();
+    }
 
-async function signObjectURL({
-  bucketName,
-  objectName,
-  method,
-  ttlSec,
-}: {
-  bucketName: string;
-  objectName: string;
-  method: "GET" | "PUT" | "DELETE" | "HEAD";
-  ttlSec: number;
-}): Promise<string> {
-  const request = {
-    bucket_name: bucketName,
-    object_name: objectName,
-    method,
-    expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
-  };
-  const response = await fetch(
-    `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(request),
+    const entityId = parts.slice(1).join("/");
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
     }
-  );
-  if (!response.ok) {
-    throw new Error(
-      `Failed to sign object URL, errorcode: ${response.status}, ` +
-        `make sure you're running on Replit`
-    );
+    return `${entityDir}${entityId}`;
   }
-
-  const { signed_url: signedURL } = await response.json();
-  return signedURL;
-}
\ No newline at end of file
+}
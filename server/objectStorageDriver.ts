@@ -0,0 +1,116 @@
+import type { Readable } from "stream";
+import { GcsStorageDriver } from "./gcsStorageDriver";
+import { LocalStorageDriver } from "./localStorageDriver";
+import { S3StorageDriver } from "./s3StorageDriver";
+
+// Backends ObjectStorageService keeps uploaded objects in, chosen with
+// OBJECT_STORAGE_DRIVER:
+// - "gcs" (default): Google Cloud Storage, through the Replit sidecar or the
+//   credentials in GOOGLE_APPLICATION_CREDENTIALS
+// - "local": a directory on this server (LOCAL_OBJECT_STORAGE_DIR), with
+//   upload URLs signed by the server itself
+// - "s3": Amazon S3 or an S3-compatible store such as MinIO (S3_ENDPOINT)
+//
+// Objects are addressed by full paths of the form /<bucket>/<object name>,
+// as in PRIVATE_OBJECT_DIR and PUBLIC_OBJECT_SEARCH_PATHS.
+
+export const OBJECT_STORAGE_DRIVERS = ["gcs", "local", "s3"] as const;
+
+export type ObjectStorageDriverName = typeof OBJECT_STORAGE_DRIVERS[number];
+
+export interface StoredObjectMetadata {
+  contentType?: string;
+  size: number;
+  // Custom key/value metadata, e.g. the object's ACL policy
+  custom: Record<string, string>;
+}
+
+// One object of a driver; it need not exist yet
+export interface StoredObject {
+  // Full path, /<bucket>/<object name>
+  readonly name: string;
+  exists(): Promise<boolean>;
+  getMetadata(): Promise<StoredObjectMetadata>;
+  // Merge keys into the custom metadata
+  setCustomMetadata(custom: Record<string, string>): Promise<void>;
+  createReadStream(): Readable;
+  // Replace the content; custom metadata of the previous content is dropped
+  save(data: Buffer, contentType?: string): Promise<void>;
+}
+
+// Upload of one object in parts, each PUT to its own signed URL
+export interface MultipartUpload {
+  uploadId: string;
+  partURLs: string[];
+}
+
+export interface CompletedUploadPart {
+  partNumber: number; // from 1
+  etag: string; // ETag header of the part's PUT response
+}
+
+export interface ObjectStorageDriver {
+  readonly name: ObjectStorageDriverName;
+  // Used when PRIVATE_OBJECT_DIR is not set
+  readonly defaultPrivateObjectDir?: string;
+  getObject(fullPath: string): StoredObject;
+  // URL the client can PUT the object's content to until it expires
+  signUploadURL(fullPath: string, ttlSec: number): Promise<string>;
+  // Full path of the object an upload URL of this driver points at, or null
+  // for any other URL
+  objectPathFromURL(url: string): string | null;
+
+  // Drivers that can sign download URLs have clients fetch object content
+  // from the store directly; drivers with multipart support take large
+  // browser uploads in parts
+  signDownloadURL?(fullPath: string, ttlSec: number): Promise<string>;
+  createMultipartUpload?(fullPath: string, partCount: number, ttlSec: number, contentType?: string): Promise<MultipartUpload>;
+  completeMultipartUpload?(fullPath: string, uploadId: string, parts: CompletedUploadPart[]): Promise<void>;
+}
+
+let driver: ObjectStorageDriver | null = null;
+
+// The configured driver, created on first use
+export function getObjectStorageDriver(): ObjectStorageDriver {
+  if (!driver) {
+    driver = createObjectStorageDriver(process.env.OBJECT_STORAGE_DRIVER || "gcs");
+  }
+  return driver;
+}
+
+function createObjectStorageDriver(name: string): ObjectStorageDriver {
+  switch (name) {
+    case "gcs":
+      return new GcsStorageDriver();
+    case "local":
+      return new LocalStorageDriver();
+    case "s3":
+      return new S3StorageDriver();
+    default:
+      throw new Error(
+        `Unknown OBJECT_STORAGE_DRIVER "${name}"; expected one of ${OBJECT_STORAGE_DRIVERS.join(", ")}`
+      );
+  }
+}
+
+// Split a full path into its bucket and object name
+export function parseObjectPath(path: string): {
+  bucketName: string;
+  objectName: string;
+} {
+  if (!path.startsWith("/")) {
+    path = `/${path}`;
+  }
+  const pathParts = path.split("/");
+  if (pathParts.length < 3) {
+    throw new Error("Invalid path: must contain at least a bucket name");
+  }
+
+  const bucketName = pathParts[1];
+  const objectName = pathParts.slice(2).join("/");
+
+  return {
+    bucketName,
+    objectName,
+  };
+}
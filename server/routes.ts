@@ -1,16 +1,77 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, requirePermission, requireScanAccess, canAccessScan, canAccessAllScans, canReadPhi, hashPassword, toPublicUser } from "./auth";
 import multer from "multer";
 import { z } from "zod";
-import { insertMriScanSchema, insertAnalysisReportSchema, Detection, CriticalFinding, SecondaryFinding, TechnicalSummary } from "@shared/schema";
+import { insertMriScanSchema, insertAnalysisReportSchema, insertPatientSchema, insertStudySchema, insertSeriesSchema, detectionParametersSchema, reportImpressionSchema, reportSignatureSchema, reportAddendumSchema, reportHl7DeliverySchema, reportOptionsSchema, insertUserSchema, updateUserSchema, insertAccessGroupSchema, accessGroupMembersSchema, scanSharingSchema, TechnicalSummary, type MriScan, type AnalysisReport, type ReportStatus, type ReportAddendum, type ReportOptions, type ReportChart, type MedicalImageMetadata, type SeriesSliceFile, type ScanReidentification, type ProcessingJob, type InsertProcessingJob, type DetectionParameters, DEFAULT_DETECTION_PARAMETERS } from "@shared/schema";
 import path from "path";
 import fs from "fs";
 import { randomUUID, createHash } from "crypto";
 import { fileTypeFromBuffer } from "file-type";
-import { medical3DConverter } from "./services/3d-conversion-service";
+import { medical3DConverter, type ConversionResult } from "./services/3d-conversion-service";
+import { jobQueue } from "./services/job-queue";
+import { conversionProgressEvents } from "./services/progress-events";
+import type { ConversionProgress } from "@shared/conversion-progress";
 import PDFDocument from "pdfkit";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { getObjectStorageDriver, type CompletedUploadPart } from "./objectStorageDriver";
+import { LocalStorageDriver, LOCAL_UPLOAD_ROUTE, UploadTooLargeError } from "./localStorageDriver";
+import { ObjectAccessGroupType, ObjectPermission, getObjectAclPolicy, type ObjectAclPolicy, type ObjectAclRule } from "./objectAcl";
+import { fromZodError } from "zod-validation-error";
+import {
+  readDicomHeader,
+  isSupportedTransferSyntax,
+  formatDicomDateTime,
+  formatDicomPersonName,
+  DicomParseError,
+  type DicomAttributes,
+} from "./services/dicom-service";
+import { readNiftiHeader, NiftiParseError } from "./services/nifti-service";
+import { decodeMedicalImage, decodeMedicalSeries, orderDicomSlices, renderSlicePreview } from "./services/medical-volume";
+import { detectorRegistry, UnknownDetectorError, type DetectionResult } from "./services/detector-registry";
+import { evaluationRequestSchema } from "@shared/evaluation";
+import { diffReports } from "@shared/report-diff";
+import { buildFhirReportBundle } from "./services/fhir-export";
+import { buildMeasurementReportSr, type SrSourceImage } from "./services/dicom-sr";
+import { buildOruR01, Hl7ExportError } from "./services/hl7-oru";
+import { hl7Destinations, UnknownHl7DestinationError } from "./services/hl7-destinations";
+import { sendMllpMessage, MllpError } from "./services/mllp";
+import { deidentifyScan, deidentifyScanPatientContext } from "./services/research-view";
+import { auditLog, auditTrail } from "./services/audit-log";
+import { dicomDeidentifier } from "./services/dicom-deidentifier";
+import { auditEventQuerySchema } from "@shared/audit";
+import {
+  REPORT_TEMPLATES,
+  assessReportRisk,
+  buildReportFindings,
+  buildReportSections,
+  resolveReportOptions,
+} from "./services/report-templates";
+import {
+  AMENDABLE_REPORT_STATUSES,
+  EDITABLE_REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  SIGNABLE_REPORT_STATUSES,
+} from "@shared/report-workflow";
+import {
+  EvaluationDatasetError,
+  evaluateDataset,
+  listEvaluationReports,
+  loadEvaluationReport,
+  renderEvaluationHtml,
+  resolveDatasetDir,
+  saveEvaluationReport,
+} from "./services/detection-evaluation";
+import {
+  MAX_UPLOAD_SIZE,
+  MAX_SERIES_SLICES,
+  SERIES_SLICE_MIME_TYPES,
+  SUPPORTED_FORMATS_LABEL,
+  compareSliceNames,
+  getMedicalFileExtension,
+  resolveMedicalMimeType,
+} from "@shared/medical-formats";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -26,10 +87,9 @@ const upload = multer({
       // Generate secure filename using UUID to prevent path traversal attacks
       const secureFilename = randomUUID();
       // Sanitize and validate file extension 
-      const ext = path.extname(file.originalname).toLowerCase();
-      const allowedExtensions = ['.jpg', '.jpeg', '.png'];
+      const ext = getMedicalFileExtension(file.originalname);
       
-      if (!allowedExtensions.includes(ext)) {
+      if (!resolveMedicalMimeType(file.originalname, file.mimetype)) {
         return cb(new Error('Invalid file extension'), '');
       }
       
@@ -38,50 +98,104 @@ const upload = multer({
   }),
   fileFilter: (req, file, cb) => {
     // Enhanced file validation for medical platform security
-    const allowedMimeTypes = ['image/jpeg', 'image/png'];
-    const ext = path.extname(file.originalname).toLowerCase();
-    const allowedExtensions = ['.jpg', '.jpeg', '.png'];
-    
     // Validate both MIME type and file extension
-    if (allowedMimeTypes.includes(file.mimetype) && allowedExtensions.includes(ext)) {
+    if (resolveMedicalMimeType(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only JPG and PNG image files are allowed'));
+      cb(new Error(`Only ${SUPPORTED_FORMATS_LABEL} files are allowed`));
     }
   },
   limits: {
-    fileSize: 50 * 1024 * 1024 // 50MB limit
+    fileSize: MAX_UPLOAD_SIZE // 50MB limit
   }
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Login routes first; everything registered after them needs a signed-in user
+  setupAuth(app);
+  // Audited before the sign-in check so refused requests are recorded too
+  app.use(["/api/scans", "/objects"], auditTrail);
+  app.use(["/api", "/objects"], requireAuth);
+
+  // Background processing pipeline: conversion -> detection -> report
+  jobQueue.registerHandler('conversion', {
+    run: runConversionJob,
+    onFailed: async (job, error) => {
+      await storage.updateMriScan(job.scanId, { processingStatus: "failed" });
+      conversionProgressEvents.publish({
+        scanId: job.scanId,
+        stage: 'failed',
+        progress: -1,
+        message: `Conversion failed after ${job.attempts} attempts: ${error.message}`,
+      });
+    },
+  });
+  jobQueue.registerHandler('detection', { run: runDetectionJob });
+  jobQueue.registerHandler('report', { run: runReportJob });
   
   // Get all MRI scans
-  app.get("/api/scans", async (req, res) => {
+  app.get("/api/scans", requirePermission("scans:read"), async (req, res) => {
     try {
-      const scans = await storage.getAllMriScans();
-      res.json(scans);
+      const scans = await filterAccessibleScans(req, await storage.getAllMriScans());
+      res.json(canReadPhi(req) ? scans : scans.map(deidentifyScan));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch scans" });
     }
   });
 
   // Get specific MRI scan
-  app.get("/api/scans/:id", async (req, res) => {
+  app.get("/api/scans/:id", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
     try {
       const scan = await storage.getMriScan(req.params.id);
       if (!scan) {
         return res.status(404).json({ message: "Scan not found" });
       }
-      res.json(scan);
+      res.json(canReadPhi(req) ? scan : deidentifyScan(scan));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch scan" });
     }
   });
 
+  // Original patient, UIDs and file names of a scan de-identified on upload
+  app.get("/api/scans/:id/reidentification", requirePermission("phi:reidentify"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const scan = await storage.getMriScan(req.params.id);
+      if (!scan) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+
+      const replacements = new Set([scan.originalName, ...(scan.seriesFiles ?? []).map(file => file.originalName)]);
+      let patientPseudonym: string | undefined;
+      if (scan.mimeType === "application/dicom") {
+        for (const sourcePath of resolveScanSourcePaths(scan)) {
+          const { attributes } = readDicomHeader(await readStoredFile(sourcePath));
+          patientPseudonym ??= attributes.patientId;
+          for (const uid of [attributes.studyInstanceUid, attributes.seriesInstanceUid, attributes.sopInstanceUid]) {
+            if (uid) {
+              replacements.add(uid);
+            }
+          }
+        }
+      }
+
+      const identifiers = await storage.getDeidentifiedIdentifiers(Array.from(replacements));
+      patientPseudonym ??= identifiers.find(identifier => identifier.patientPseudonym)?.patientPseudonym ?? undefined;
+      const patient = patientPseudonym ? await storage.getDeidentifiedPatient(patientPseudonym) : undefined;
+      if (!patient && identifiers.length === 0) {
+        return res.status(404).json({ message: "Scan was not de-identified on upload" });
+      }
+
+      const reidentification: ScanReidentification = { patient: patient ?? null, identifiers };
+      res.json(reidentification);
+    } catch (error) {
+      console.error("Error re-identifying scan:", error);
+      res.status(500).json({ message: "Failed to re-identify scan" });
+    }
+  });
+
   // Development-only test helper endpoint for creating scan records
   if (process.env.NODE_ENV === 'development') {
-    app.post("/api/scans/test-seed", async (req, res) => {
+    app.post("/api/scans/test-seed", requirePermission("scans:upload"), async (req, res) => {
       try {
         const { filename = "test-scan.jpg", mimeType = "image/jpeg", fileSize = 1024000 } = req.body;
         
@@ -96,10 +210,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           analysisCompleted: false,
         };
 
-        const scan = await storage.createMriScan(scanData);
+        const scan = await applyScanAclPolicy(await storage.createMriScan(scanData), req.user!.id, []);
+        res.locals.auditResourceId = scan.id;
         
-        // Start processing simulation
-        setTimeout(() => processImageToModel(scan.id, `/uploads/test-${scan.id}.png`), 1000);
+        // Queue processing of the seeded scan
+        await jobQueue.enqueue('conversion', scan.id, { sourcePaths: [`/uploads/test-${scan.id}.png`] });
 
         res.status(201).json(scan);
       } catch (error) {
@@ -111,9 +226,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Object Storage endpoints
   // Get upload URL for MRI scan files
-  app.post("/api/scans/upload-url", async (req, res) => {
+  app.post("/api/scans/upload-url", requirePermission("scans:upload"), async (req, res) => {
     try {
+      const { fileSize, mimeType } = req.body ?? {};
+      if (fileSize !== undefined && (typeof fileSize !== "number" || fileSize <= 0)) {
+        return res.status(400).json({ message: "fileSize must be a positive number" });
+      }
+      if (fileSize > MAX_UPLOAD_SIZE) {
+        return res.status(400).json({ message: "File size exceeds 50MB limit" });
+      }
+
       const objectStorageService = new ObjectStorageService();
+      // Large files go up in parts when the storage driver supports it
+      const multipartUpload = fileSize
+        ? await objectStorageService.createObjectEntityMultipartUpload(fileSize, typeof mimeType === "string" ? mimeType : undefined)
+        : null;
+      if (multipartUpload) {
+        const { objectPath, uploadId, partSize, partURLs } = multipartUpload;
+        return res.json({ uploadURL: objectPath, multipart: { uploadId, partSize, partURLs } });
+      }
+
       const uploadURL = await objectStorageService.getObjectEntityUploadURL();
       res.json({ uploadURL });
     } catch (error) {
@@ -122,8 +254,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Assemble the parts of a multipart upload started by /api/scans/upload-url
+  app.post("/api/scans/upload-complete", requirePermission("scans:upload"), async (req, res) => {
+    try {
+      const { uploadURL, uploadId, parts } = req.body ?? {};
+      if (
+        typeof uploadURL !== "string" ||
+        typeof uploadId !== "string" ||
+        !Array.isArray(parts) ||
+        parts.length === 0 ||
+        !parts.every(isCompletedUploadPart)
+      ) {
+        return res.status(400).json({ message: "uploadURL, uploadId and parts with partNumber and etag are required" });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      await objectStorageService.completeObjectEntityMultipartUpload(
+        uploadURL,
+        uploadId,
+        parts.map(({ partNumber, etag }) => ({ partNumber, etag })),
+      );
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error("Error completing multipart upload:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  // Upload target of the URLs signed by the local storage driver; like a cloud
+  // signed URL, the signature is the authorization
+  app.put(`${LOCAL_UPLOAD_ROUTE}/:objectPath(*)`, async (req, res) => {
+    const driver = getObjectStorageDriver();
+    if (!(driver instanceof LocalStorageDriver)) {
+      return res.sendStatus(404);
+    }
+
+    const fullPath = `/${req.params.objectPath}`;
+    const { expires, signature } = req.query;
+    if (typeof expires !== "string" || typeof signature !== "string" || !driver.verifyUploadURL(fullPath, expires, signature)) {
+      return res.status(403).json({ message: "Invalid or expired upload URL" });
+    }
+
+    try {
+      await driver.getObject(fullPath).receive(req, req.get("Content-Type"), MAX_UPLOAD_SIZE);
+      res.sendStatus(200);
+    } catch (error) {
+      if (error instanceof UploadTooLargeError) {
+        return res.status(413).json({ message: error.message });
+      }
+      console.error("Error storing upload:", error);
+      res.status(500).json({ message: "Failed to store upload" });
+    }
+  });
+
   // Create MRI scan record after successful Object Storage upload
-  app.post("/api/scans/create", async (req, res) => {
+  app.post("/api/scans/create", requirePermission("scans:upload"), async (req, res) => {
     try {
       const { filename, originalName, fileSize, mimeType, uploadURL } = req.body;
       
@@ -132,47 +320,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate file type
-      const allowedMimeTypes = ['image/jpeg', 'image/png'];
-      if (!allowedMimeTypes.includes(mimeType)) {
-        return res.status(400).json({ message: "Only JPG and PNG image files are allowed" });
+      const resolvedMimeType = resolveMedicalMimeType(originalName, mimeType);
+      if (!resolvedMimeType) {
+        return res.status(400).json({ message: `Only ${SUPPORTED_FORMATS_LABEL} files are allowed` });
       }
 
       // Validate file size (50MB limit)
-      if (fileSize > 50 * 1024 * 1024) {
+      if (fileSize > MAX_UPLOAD_SIZE) {
         return res.status(400).json({ message: "File size exceeds 50MB limit" });
       }
 
       const objectStorageService = new ObjectStorageService();
       const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+      if (!isUploadedObjectPath(objectPath)) {
+        return res.status(400).json({ message: "uploadURL must point at an uploaded object" });
+      }
+      if (!(await canClaimUploadedObjects(req.user!.id, [objectPath]))) {
+        return res.status(403).json({ message: "The uploaded object belongs to another scan" });
+      }
+
+      // The object was uploaded straight from the browser and is checked here
+      // the way /api/scans/upload checks its files
+      const header = await readUploadedImageHeader(await readStoredFile(objectPath), resolvedMimeType);
+      if (!header) {
+        return res.status(400).json({ message: `Invalid file type. Only genuine ${SUPPORTED_FORMATS_LABEL} files are allowed.` });
+      }
+      let imageMetadata = header.metadata;
+
+      let storedName: string = originalName;
+      if (dicomDeidentifier.enabled) {
+        const patientPseudonym = resolvedMimeType === "application/dicom" ? await deidentifyStoredDicomFiles([objectPath]) : null;
+        [storedName] = await dicomDeidentifier.pseudonymizeFileNames("upload", [originalName], patientPseudonym);
+        if (patientPseudonym) {
+          // The acquisition date read during validation is the unshifted one
+          imageMetadata = readDicomHeader(await readStoredFile(objectPath)).metadata;
+        }
+      }
 
       const scanData = {
         filename: objectPath, // Store object storage path instead of local filename
-        originalName,
+        originalName: storedName,
         fileSize,
-        mimeType,
+        mimeType: resolvedMimeType,
         processingStatus: "pending" as const,
         threeDModelPath: null,
         detections: [],
+        imageMetadata,
         analysisCompleted: false,
       };
 
-      const scan = await storage.createMriScan(scanData);
+      const scan = await applyScanAclPolicy(await linkScanToDicomHierarchy(await storage.createMriScan(scanData)), req.user!.id, []);
+      res.locals.auditResourceId = scan.id;
       
-      // Start processing simulation using object storage path
-      setTimeout(() => processImageToModel(scan.id, objectPath), 1000);
+      // Queue processing using the object storage path
+      await jobQueue.enqueue('conversion', scan.id, { sourcePaths: [objectPath] });
 
       res.status(201).json(scan);
     } catch (error) {
       console.error("Error creating scan:", error);
+      if (error instanceof DicomParseError || error instanceof NiftiParseError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create scan" });
     }
   });
 
+  // Create a single scan from a stack of slices uploaded to Object Storage
+  app.post("/api/scans/series", requirePermission("scans:upload"), async (req, res) => {
+    try {
+      const { seriesName, slices } = req.body;
+
+      if (!seriesName || !Array.isArray(slices) || slices.length === 0) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      if (slices.length > MAX_SERIES_SLICES) {
+        return res.status(400).json({ message: `A series can contain at most ${MAX_SERIES_SLICES} slices` });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const seriesFiles: SeriesSliceFile[] = [];
+      const objectPaths = new Set<string>();
+      let seriesMimeType: string | null = null;
+
+      for (const slice of slices) {
+        const { originalName, fileSize, mimeType, uploadURL } = slice || {};
+        if (!originalName || !fileSize || !uploadURL) {
+          return res.status(400).json({ message: "Missing required fields" });
+        }
+
+        const resolvedMimeType = resolveMedicalMimeType(originalName, mimeType);
+        if (!resolvedMimeType || !SERIES_SLICE_MIME_TYPES.includes(resolvedMimeType)) {
+          return res.status(400).json({ message: `${originalName} cannot be used as a series slice` });
+        }
+        if (seriesMimeType && resolvedMimeType !== seriesMimeType) {
+          return res.status(400).json({ message: "All slices in a series must have the same format" });
+        }
+        if (fileSize > MAX_UPLOAD_SIZE) {
+          return res.status(400).json({ message: `${originalName} exceeds 50MB limit` });
+        }
+
+        const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+        if (!isUploadedObjectPath(objectPath)) {
+          return res.status(400).json({ message: `The uploadURL of ${originalName} must point at an uploaded object` });
+        }
+        if (objectPaths.has(objectPath)) {
+          return res.status(400).json({ message: `The uploadURL of ${originalName} is used by another slice` });
+        }
+
+        objectPaths.add(objectPath);
+        seriesMimeType = resolvedMimeType;
+        seriesFiles.push({
+          filename: objectPath,
+          originalName,
+          fileSize,
+        });
+      }
+
+      // DICOM slices are re-ordered by position when the volume is assembled;
+      // other formats rely on their filename order
+      seriesFiles.sort((a, b) => compareSliceNames(a.originalName, b.originalName));
+
+      if (!(await canClaimUploadedObjects(req.user!.id, seriesFiles.map(file => file.filename)))) {
+        return res.status(403).json({ message: "An uploaded slice belongs to another scan" });
+      }
+
+      // Reject series the conversion could not assemble before a scan exists
+      let firstSlice: MedicalImageMetadata | null = null;
+      const seriesUids = new Set<string>();
+      for (const file of seriesFiles) {
+        const header = await readUploadedImageHeader(await readStoredFile(file.filename), seriesMimeType!);
+        if (!header) {
+          return res.status(400).json({ message: `${file.originalName} is not a genuine image of its format` });
+        }
+        const { width, height, depth } = header.metadata;
+        if (depth !== 1) {
+          return res.status(400).json({ message: `Series slice ${file.originalName} is already a volume` });
+        }
+        firstSlice ??= header.metadata;
+        if (width !== firstSlice.width || height !== firstSlice.height) {
+          return res.status(400).json({ message: `Series slices differ in size (${firstSlice.width}x${firstSlice.height} vs ${width}x${height})` });
+        }
+        if (header.attributes?.seriesInstanceUid) {
+          seriesUids.add(header.attributes.seriesInstanceUid);
+        }
+      }
+      if (seriesUids.size > 1) {
+        return res.status(400).json({ message: "Slices belong to more than one DICOM series" });
+      }
+
+      let storedSeriesName: string = seriesName;
+      if (dicomDeidentifier.enabled) {
+        const patientPseudonym = seriesMimeType === "application/dicom"
+          ? await deidentifyStoredDicomFiles(seriesFiles.map(file => file.filename))
+          : null;
+        const sliceNames = await dicomDeidentifier.pseudonymizeFileNames("series", seriesFiles.map(file => file.originalName), patientPseudonym);
+        seriesFiles.forEach((file, index) => { file.originalName = sliceNames[index]; });
+        [storedSeriesName] = await dicomDeidentifier.pseudonymizeFileNames("series", [seriesName], patientPseudonym);
+      }
+
+      const scanData = {
+        filename: seriesFiles[0].filename,
+        originalName: storedSeriesName,
+        fileSize: seriesFiles.reduce((total, file) => total + file.fileSize, 0),
+        mimeType: seriesMimeType!,
+        processingStatus: "pending" as const,
+        threeDModelPath: null,
+        detections: [],
+        seriesFiles,
+        analysisCompleted: false,
+      };
+
+      const scan = await applyScanAclPolicy(await linkScanToDicomHierarchy(await storage.createMriScan(scanData)), req.user!.id, []);
+      res.locals.auditResourceId = scan.id;
+
+      res.status(201).json(scan);
+    } catch (error) {
+      console.error("Error creating series scan:", error);
+      if (error instanceof DicomParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create series scan" });
+    }
+  });
+
   // Serve private objects from Object Storage
-  app.get("/objects/:objectPath(*)", async (req, res) => {
+  app.get("/objects/:objectPath(*)", requirePermission("phi:read"), async (req, res) => {
     const objectStorageService = new ObjectStorageService();
     try {
       const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      if (!canAccessAllScans(req) && !(await objectStorageService.canAccessObjectEntity({ userId: req.user!.id, objectFile }))) {
+        return res.sendStatus(403);
+      }
       objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
       console.error("Error serving object:", error);
@@ -184,7 +523,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload MRI scan files
-  app.post("/api/scans/upload", upload.single('mriFile'), async (req, res) => {
+  app.post("/api/scans/upload", requirePermission("scans:upload"), upload.single('mriFile'), async (req, res) => {
     try {
       // Secure logging for medical platform - only in development mode
       if (process.env.NODE_ENV === 'development') {
@@ -196,24 +535,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
+      const mimeType = resolveMedicalMimeType(req.file.originalname, req.file.mimetype)!;
+      let imageMetadata: MedicalImageMetadata | null = null;
+
       // Enhanced content-based file validation for medical platform security
       // Use multiple validation layers with fallback for browser-generated files
       try {
         const fileBuffer = fs.readFileSync(req.file.path);
         const fileType = await fileTypeFromBuffer(fileBuffer);
         
-        // Primary validation: Check detected file type
         let isValidImage = false;
-        if (fileType && ['image/jpeg', 'image/png'].includes(fileType.mime)) {
+        if (mimeType === 'application/dicom') {
+          // DICOM files must carry a decodable image, not just the DICM prefix
+          const { metadata, attributes } = readDicomHeader(fileBuffer);
+          if (!isSupportedTransferSyntax(attributes.transferSyntaxUid)) {
+            fs.unlinkSync(req.file.path);
+            return res.status(400).json({ message: `Unsupported DICOM transfer syntax: ${attributes.transferSyntaxUid}` });
+          }
+          imageMetadata = metadata;
           isValidImage = true;
-        }
-        
-        // Fallback validation: Use MIME type from multer if fileTypeFromBuffer fails
-        // This handles browser-generated files that may not have perfect magic bytes
-        if (!isValidImage && ['image/jpeg', 'image/png'].includes(req.file.mimetype)) {
-          const allowedExtensions = ['.jpg', '.jpeg', '.png'];
-          const ext = path.extname(req.file.originalname).toLowerCase();
-          if (allowedExtensions.includes(ext)) {
+        } else if (mimeType === 'application/x-nifti') {
+          // NIfTI has no reliable magic bytes of its own; the header must parse
+          imageMetadata = readNiftiHeader(fileBuffer).metadata;
+          isValidImage = true;
+        } else {
+          // Primary validation: Check detected file type
+          if (fileType && fileType.mime === mimeType) {
+            isValidImage = true;
+          }
+          
+          // Fallback validation: Use MIME type from multer if fileTypeFromBuffer fails
+          // This handles browser-generated files that may not have perfect magic bytes
+          if (!isValidImage && req.file.mimetype === mimeType) {
             isValidImage = true;
             if (process.env.NODE_ENV === 'development') {
               console.log(`File validation: Using fallback validation for ${req.file.originalname}`);
@@ -227,7 +580,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (process.env.NODE_ENV === 'development') {
             console.log(`File validation failed: ${req.file.originalname}, detected type: ${fileType?.mime}, mime: ${req.file.mimetype}`);
           }
-          return res.status(400).json({ message: "Invalid file type. Only genuine JPG and PNG images are allowed." });
+          return res.status(400).json({ message: `Invalid file type. Only genuine ${SUPPORTED_FORMATS_LABEL} files are allowed.` });
         }
       } catch (validationError) {
         // Clean up uploaded file on validation error
@@ -235,21 +588,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fs.unlinkSync(req.file.path);
         }
         console.error("File validation error:", validationError);
+        if (validationError instanceof DicomParseError || validationError instanceof NiftiParseError) {
+          return res.status(400).json({ message: validationError.message });
+        }
         return res.status(400).json({ message: "File validation failed" });
       }
 
+      let originalName = req.file.originalname;
+      let fileSize = req.file.size;
+      if (dicomDeidentifier.enabled) {
+        try {
+          const patientPseudonym = mimeType === "application/dicom" ? await deidentifyStoredDicomFiles([req.file.path]) : null;
+          [originalName] = await dicomDeidentifier.pseudonymizeFileNames("upload", [originalName], patientPseudonym);
+          fileSize = fs.statSync(req.file.path).size;
+          if (patientPseudonym) {
+            // The acquisition date read during validation is the unshifted one
+            imageMetadata = readDicomHeader(fs.readFileSync(req.file.path)).metadata;
+          }
+        } catch (deidentificationError) {
+          // Never keep an upload that still carries its identifiers
+          fs.unlinkSync(req.file.path);
+          throw deidentificationError;
+        }
+      }
+
       const scanData = {
         filename: req.file.filename,
-        originalName: req.file.originalname,
-        fileSize: req.file.size,
-        mimeType: req.file.mimetype,
+        originalName,
+        fileSize,
+        mimeType,
         processingStatus: "pending" as const,
         threeDModelPath: null,
         detections: [],
+        imageMetadata,
         analysisCompleted: false,
       };
 
-      const scan = await storage.createMriScan(scanData);
+      const scan = await applyScanAclPolicy(await linkScanToDicomHierarchy(await storage.createMriScan(scanData)), req.user!.id, []);
+      res.locals.auditResourceId = scan.id;
       
       // Don't start processing immediately - let user trigger it manually
       // This prevents upload failures and gives better UX control
@@ -262,7 +638,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Start 3D model conversion manually (user-triggered)
-  app.post("/api/scans/:id/convert", async (req, res) => {
+  app.post("/api/scans/:id/convert", requirePermission("scans:convert"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
     try {
       const scan = await storage.getMriScan(req.params.id);
       if (!scan) {
@@ -278,9 +654,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         processingStatus: "processing"
       });
 
-      // Start 3D model conversion (async background process)
-      const uploadPath = `uploads/${scan.filename}`;
-      setTimeout(() => processImageToModel(scan.id, uploadPath), 1000);
+      // Queue 3D model conversion for the background worker
+      await jobQueue.enqueue('conversion', scan.id, { sourcePaths: resolveScanSourcePaths(scan) });
+      conversionProgressEvents.publish({
+        scanId: scan.id,
+        stage: 'queued',
+        progress: 0,
+        message: 'Waiting for a processing worker...',
+      });
 
       const updatedScan = await storage.getMriScan(req.params.id);
       res.json(updatedScan);
@@ -290,8 +671,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream 3D conversion progress as Server-Sent Events
+  app.get("/api/scans/:id/progress", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const scan = await storage.getMriScan(req.params.id);
+      if (!scan) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // disable proxy buffering
+      });
+
+      const send = (progress: ConversionProgress) => {
+        res.write(`event: progress\ndata: ${JSON.stringify(progress)}\n\n`);
+      };
+
+      // Start from the current stage so late subscribers are not left blank
+      send(conversionProgressEvents.getLatest(scan.id) ?? describeScanProgress(scan));
+
+      const unsubscribe = conversionProgressEvents.subscribe(scan.id, send);
+      // Comment lines keep idle connections from being closed by proxies
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error("Progress stream error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream progress" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // List the detectors available for anomaly detection
+  app.get("/api/detectors", requirePermission("scans:detect"), async (req, res) => {
+    try {
+      const detectors = await detectorRegistry.list();
+      res.json(detectors.map(({ name, version, detectionTypes }) => ({ name, version, detectionTypes })));
+    } catch (error) {
+      console.error("Detector listing error:", error);
+      res.status(500).json({ message: "Failed to list detectors" });
+    }
+  });
+
+  // Evaluate detectors against a labelled dataset and store the report
+  app.post("/api/evaluations", requirePermission("detectors:evaluate"), async (req, res) => {
+    try {
+      const parsed = evaluationRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { dataset, ...request } = parsed.data;
+
+      const report = await evaluateDataset(resolveDatasetDir(dataset), request);
+      await saveEvaluationReport(report);
+
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof EvaluationDatasetError || error instanceof UnknownDetectorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Evaluation error:", error);
+      res.status(500).json({ message: "Failed to evaluate detectors" });
+    }
+  });
+
+  // Stored evaluation reports, newest first
+  app.get("/api/evaluations", requirePermission("scans:detect"), async (req, res) => {
+    try {
+      res.json(await listEvaluationReports());
+    } catch (error) {
+      console.error("Evaluation listing error:", error);
+      res.status(500).json({ message: "Failed to list evaluations" });
+    }
+  });
+
+  app.get("/api/evaluations/:id", requirePermission("scans:detect"), async (req, res) => {
+    try {
+      const report = await loadEvaluationReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Evaluation not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Evaluation fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch evaluation" });
+    }
+  });
+
+  // HTML rendering of a report, optionally compared with ?baseline=<id>
+  app.get("/api/evaluations/:id/html", requirePermission("scans:detect"), async (req, res) => {
+    try {
+      const report = await loadEvaluationReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Evaluation not found" });
+      }
+
+      const baselineId = typeof req.query.baseline === "string" ? req.query.baseline : undefined;
+      const baseline = baselineId ? await loadEvaluationReport(baselineId) : null;
+      if (baselineId && !baseline) {
+        return res.status(404).json({ message: "Baseline evaluation not found" });
+      }
+
+      res.type("html").send(renderEvaluationHtml(report, baseline));
+    } catch (error) {
+      console.error("Evaluation rendering error:", error);
+      res.status(500).json({ message: "Failed to render evaluation" });
+    }
+  });
+
   // Run anomaly detection
-  app.post("/api/scans/:id/detect", async (req, res) => {
+  app.post("/api/scans/:id/detect", requirePermission("scans:detect"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
     try {
       console.log(`Starting real image analysis for scan ID: ${req.params.id}`);
       
@@ -301,49 +799,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Scan not found" });
       }
 
-      // Resolve the actual image path for analysis
-      const imagePath = scan.filename.startsWith('/objects/') 
-        ? scan.filename 
-        : path.join('uploads', scan.filename);
+      const parsed = detectionParametersSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const parameters = parsed.data;
+
+      // Analyze every source file of the scan
+      const sourcePaths = resolveScanSourcePaths(scan);
       
-      console.log(`Analyzing real image at: ${imagePath}`);
+      console.log(`Analyzing ${sourcePaths.length} source file(s) of scan ${req.params.id}`);
       
-      // Perform real image analysis instead of simulation
-      const detections = await analyzeRealImage(imagePath, req.params.id);
+      const { detections, detectors } = await runDetectors(req.params.id, sourcePaths, parameters);
       
       const updatedScan = await storage.updateMriScan(req.params.id, {
-        detections
+        detections,
+        detectionRun: { parameters, detectors, ranAt: new Date().toISOString() }
       });
 
       res.json(updatedScan);
     } catch (error) {
+      if (error instanceof UnknownDetectorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Detection error:", error);
       res.status(500).json({ message: "Failed to run detection" });
     }
   });
 
+  // Report templates accepted as reportFormat, with their default options
+  app.get("/api/report-templates", (req, res) => {
+    res.json(Object.values(REPORT_TEMPLATES).map(({ format, title, subtitle, defaults }) => ({ format, title, subtitle, defaults })));
+  });
+
   // Generate analysis report
-  app.post("/api/scans/:id/report", async (req, res) => {
-    try {
-      const { 
-        detailLevel = 4, 
-        riskThreshold = 7, 
-        vizComplexity = 2, 
-        reportFormat = "Clinical Summary" 
-      } = req.body;
-      
+  app.post("/api/scans/:id/report", requirePermission("reports:generate"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
+    try {
+      const parsed = reportOptionsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
       const scan = await storage.getMriScan(req.params.id);
       if (!scan) {
         return res.status(404).json({ message: "Scan not found" });
       }
 
       // Generate comprehensive analysis report
-      const reportData = await generateAnalysisReport(scan, {
-        detailLevel,
-        riskThreshold,
-        vizComplexity,
-        reportFormat
-      });
+      const reportData = await generateAnalysisReport(scan, resolveReportOptions(parsed.data));
 
       const report = await storage.createAnalysisReport(reportData);
       
@@ -357,498 +860,1128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get analysis report for a scan
-  app.get("/api/scans/:id/report", async (req, res) => {
+  // Get the latest analysis report for a scan
+  app.get("/api/scans/:id/report", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
     try {
       const report = await storage.getAnalysisReport(req.params.id);
       if (!report) {
         return res.status(404).json({ message: "Report not found" });
       }
 
-      // Check if PDF format is requested
-      if (req.query.format === 'pdf') {
-        try {
-          const pdf = await generateReportPDF(report);
-          res.setHeader('Content-Type', 'application/pdf');
-          res.setHeader('Content-Disposition', `attachment; filename="mri-analysis-report-${req.params.id}.pdf"`);
-          res.send(pdf);
-        } catch (pdfError) {
-          console.error('PDF generation failed:', pdfError);
-          res.status(500).json({ message: "Failed to generate PDF" });
-        }
-      } else {
-        res.json(report);
-      }
+      await sendReport(res, report, req.query.format, canReadPhi(req));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch report" });
     }
   });
 
-  // Get 3D model file for a scan
-  app.get("/api/scans/:id/model", async (req, res) => {
+  // Report history of a scan, newest version first
+  app.get("/api/scans/:id/reports", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
     try {
       const scan = await storage.getMriScan(req.params.id);
-      if (!scan || !scan.threeDModelPath) {
-        return res.status(404).json({ message: "3D model not found" });
-      }
-      
-      const modelPath = path.join(process.cwd(), 'models', path.basename(scan.threeDModelPath));
-      
-      if (!fs.existsSync(modelPath)) {
-        return res.status(404).json({ message: "3D model file not found" });
+      if (!scan) {
+        return res.status(404).json({ message: "Scan not found" });
       }
-      
-      // Serve the 3D model file
-      res.sendFile(modelPath);
+
+      res.json(await storage.getAnalysisReportHistory(req.params.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve 3D model" });
+      console.error("Report history error:", error);
+      res.status(500).json({ message: "Failed to fetch report history" });
     }
   });
 
-  // Delete MRI scan
-  app.delete("/api/scans/:id", async (req, res) => {
+  // Get one version of a scan's report
+  app.get("/api/scans/:id/reports/:version", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
     try {
-      const deleted = await storage.deleteMriScan(req.params.id);
-      if (!deleted) {
-        return res.status(404).json({ message: "Scan not found" });
+      const version = parseReportVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ message: "Report version must be a positive integer" });
       }
-      res.status(204).send();
+
+      const report = await storage.getAnalysisReportVersion(req.params.id, version);
+      if (!report) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+
+      await sendReport(res, report, req.query.format, canReadPhi(req));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete scan" });
+      res.status(500).json({ message: "Failed to fetch report" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Findings that changed between two report versions; compares with the
+  // previous version unless ?against=<version> is given
+  app.get("/api/scans/:id/reports/:version/diff", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const version = parseReportVersion(req.params.version);
+      const against = req.query.against === undefined
+        ? (version ?? 0) - 1
+        : parseReportVersion(req.query.against);
+      if (version === null || against === null || against < 1) {
+        return res.status(400).json({ message: "Report versions must be positive integers" });
+      }
 
-// Real 3D model conversion processing
-async function processImageToModel(scanId: string, imagePath: string): Promise<void> {
-  try {
-    console.log(`Starting 3D conversion for scan ${scanId} from ${imagePath}`);
-    
-    // Register progress callback to update scan status
-    medical3DConverter.registerProgressCallback(scanId, async (progress) => {
-      if (progress.progress === 50) {
-        // Update to processing status at midpoint
-        await storage.updateMriScan(scanId, {
-          processingStatus: "processing"
-        });
+      const [from, to] = await Promise.all([
+        storage.getAnalysisReportVersion(req.params.id, against),
+        storage.getAnalysisReportVersion(req.params.id, version),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Report version not found" });
       }
-    });
-    
-    // Perform real 3D conversion with medical-grade algorithms
-    const modelPath = await medical3DConverter.convertMedicalImageTo3D(imagePath, scanId, {
-      quality: 'standard',
-      meshOptimization: true,
-      medicalStandard: 'research',
-      outputFormats: ['obj', 'stl']
-    });
-    
-    // Update scan with completion status and model path
-    await storage.updateMriScan(scanId, {
-      processingStatus: "completed",
-      threeDModelPath: `/models/${path.basename(modelPath)}`
-    });
-    
-    console.log(`3D conversion completed for scan ${scanId}: ${modelPath}`);
-    
-    // Automatically generate analysis report after successful 3D conversion
+
+      res.json(diffReports(from, to));
+    } catch (error) {
+      console.error("Report diff error:", error);
+      res.status(500).json({ message: "Failed to compare reports" });
+    }
+  });
+
+  // Edit the impression of a draft or preliminary report
+  app.patch("/api/scans/:id/reports/:version", requirePermission("reports:sign"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
     try {
-      console.log(`Generating analysis report for scan ${scanId}`);
-      
-      // Analyze the actual uploaded image and generate real results
-      const detections = await analyzeRealImage(imagePath, scanId);
-      
-      // Update scan with detections
-      const updatedScan = await storage.updateMriScan(scanId, {
-        detections: detections
-      });
-      
-      if (updatedScan) {
-        // Generate comprehensive analysis report based on real image analysis
-        const reportData = await generateAnalysisReport(updatedScan, {
-          detailLevel: 4,
-          riskThreshold: 7,
-          vizComplexity: 2,
-          reportFormat: "Clinical Summary"
-        }, imagePath, scanId);
-
-        await storage.createAnalysisReport(reportData);
-        
-        // Mark analysis as completed
-        await storage.updateMriScan(scanId, { analysisCompleted: true });
-        
-        console.log(`Analysis report generated for scan ${scanId}`);
+      const version = parseReportVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ message: "Report version must be a positive integer" });
       }
-    } catch (reportError) {
-      console.error(`Report generation failed for scan ${scanId}:`, reportError);
-      // Don't fail the entire process if report generation fails
-    }
-    
-  } catch (error) {
-    console.error(`3D conversion failed for scan ${scanId}:`, error);
-    
-    await storage.updateMriScan(scanId, {
-      processingStatus: "completed" // Mark as completed even on error to avoid stuck state
-    });
-    
-  } finally {
-    // Clean up progress callback
-    medical3DConverter.unregisterProgressCallback(scanId);
-  }
+      const parsed = reportImpressionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const report = await storage.getAnalysisReportVersion(req.params.id, version);
+      if (!report) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+      if (!EDITABLE_REPORT_STATUSES.includes(report.status)) {
+        return res.status(409).json({ message: `A ${report.status} report cannot be edited; issue an addendum instead` });
+      }
+
+      const updated = await storage.updateAnalysisReport(report.id, EDITABLE_REPORT_STATUSES, {
+        impression: parsed.data.impression,
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "The report was signed in the meantime; reload it and issue an addendum" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Report edit error:", error);
+      res.status(500).json({ message: "Failed to update report" });
+    }
+  });
+
+  // Sign a report as preliminary or final
+  app.post("/api/scans/:id/reports/:version/sign", requirePermission("reports:sign"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
+    try {
+      const version = parseReportVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ message: "Report version must be a positive integer" });
+      }
+      const parsed = reportSignatureSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { status } = parsed.data;
+
+      const report = await storage.getAnalysisReportVersion(req.params.id, version);
+      if (!report) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+      const allowedStatuses = SIGNABLE_REPORT_STATUSES[status];
+      if (!allowedStatuses.includes(report.status)) {
+        return res.status(409).json({ message: `A ${report.status} report cannot be signed as ${status}` });
+      }
+      if (!report.impression) {
+        return res.status(409).json({ message: "Add an impression before signing the report" });
+      }
+
+      const updated = await storage.updateAnalysisReport(report.id, allowedStatuses, {
+        status,
+        signedBy: req.user!.displayName,
+        signedById: req.user!.id,
+        signedAt: new Date(),
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "The report was signed in the meantime; reload it" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Report signing error:", error);
+      res.status(500).json({ message: "Failed to sign report" });
+    }
+  });
+
+  // Issue an addendum to a final report
+  app.post("/api/scans/:id/reports/:version/addenda", requirePermission("reports:sign"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
+    try {
+      const version = parseReportVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ message: "Report version must be a positive integer" });
+      }
+      const parsed = reportAddendumSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const report = await storage.getAnalysisReportVersion(req.params.id, version);
+      if (!report) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+      if (!AMENDABLE_REPORT_STATUSES.includes(report.status)) {
+        return res.status(409).json({ message: `A ${report.status} report can still be edited; addenda are for final reports` });
+      }
+
+      const updated = await storage.addReportAddendum(report.id, AMENDABLE_REPORT_STATUSES, {
+        id: randomUUID(),
+        text: parsed.data.text,
+        author: req.user!.displayName,
+        authorId: req.user!.id,
+        createdAt: new Date().toISOString(),
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "The report changed in the meantime; reload it" });
+      }
+      res.status(201).json(updated);
+    } catch (error) {
+      console.error("Report addendum error:", error);
+      res.status(500).json({ message: "Failed to add addendum" });
+    }
+  });
+
+  // HL7 destinations reports can be sent to
+  app.get("/api/hl7/destinations", requirePermission("reports:send"), async (req, res) => {
+    try {
+      res.json(hl7Destinations.list().map(({ name, host, port }) => ({ name, host, port })));
+    } catch (error) {
+      console.error("HL7 destination listing error:", error);
+      res.status(500).json({ message: "Failed to list HL7 destinations" });
+    }
+  });
+
+  // Send a final report as an ORU^R01 message to an HL7 destination over MLLP
+  app.post("/api/scans/:id/reports/:version/hl7", requirePermission("reports:send"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const version = parseReportVersion(req.params.version);
+      if (version === null) {
+        return res.status(400).json({ message: "Report version must be a positive integer" });
+      }
+      const parsed = reportHl7DeliverySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const destination = hl7Destinations.get(parsed.data.destination);
+      const [report, scan, context] = await Promise.all([
+        storage.getAnalysisReportVersion(req.params.id, version),
+        storage.getMriScan(req.params.id),
+        storage.getScanPatientContext(req.params.id),
+      ]);
+      if (!report || !scan || !context) {
+        return res.status(404).json({ message: "Report version not found" });
+      }
+
+      const message = buildOruR01(report, scan, context, destination.message);
+      const acknowledgement = await sendMllpMessage(destination, message.text);
+      res.json({
+        destination: destination.name,
+        controlId: message.controlId,
+        acknowledgement: { code: acknowledgement.code, text: acknowledgement.text ?? null },
+      });
+    } catch (error) {
+      if (error instanceof UnknownHl7DestinationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Hl7ExportError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof MllpError) {
+        console.error("HL7 delivery failed:", error.message);
+        return res.status(502).json({ message: error.message });
+      }
+      console.error("HL7 send error:", error);
+      res.status(500).json({ message: "Failed to send HL7 message" });
+    }
+  });
+
+  // Get 3D model file for a scan
+  app.get("/api/scans/:id/model", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const scan = await storage.getMriScan(req.params.id);
+      if (!scan || !scan.threeDModelPath) {
+        return res.status(404).json({ message: "3D model not found" });
+      }
+      
+      const modelPath = path.join(process.cwd(), 'models', path.basename(scan.threeDModelPath));
+      
+      if (!fs.existsSync(modelPath)) {
+        return res.status(404).json({ message: "3D model file not found" });
+      }
+      
+      // Serve the 3D model file
+      res.sendFile(modelPath);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve 3D model" });
+    }
+  });
+
+  // Stream the scan's source image (the analysed slice of a series) for
+  // display. PNG and JPEG files are sent as stored; DICOM and NIfTI images are
+  // rendered to a PNG of the middle slice of the assembled volume, the slice
+  // detections are placed on.
+  app.get("/api/scans/:id/image", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const scan = await storage.getMriScan(req.params.id);
+      if (!scan) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+
+      const imagePath = resolveScanImagePath(scan);
+      if (!isScanStoragePath(imagePath)) {
+        console.warn(`Refusing to serve image outside scan storage for scan ${scan.id}: ${imagePath}`);
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.set("Cache-Control", "private, max-age=3600");
+
+      if (scan.mimeType === 'image/png' || scan.mimeType === 'image/jpeg') {
+        if (imagePath.startsWith('/objects/')) {
+          const objectStorageService = new ObjectStorageService();
+          const objectFile = await objectStorageService.getObjectEntityFile(imagePath);
+          res.type(scan.mimeType);
+          objectFile.createReadStream()
+            .on("error", (error: Error) => {
+              console.error("Error streaming scan image:", error);
+              if (!res.headersSent) {
+                res.status(500).json({ message: "Failed to stream scan image" });
+              } else {
+                res.destroy(error);
+              }
+            })
+            .pipe(res);
+          return;
+        }
+
+        if (!fs.existsSync(imagePath)) {
+          return res.status(404).json({ message: "Scan image file not found" });
+        }
+        return res.type(scan.mimeType).sendFile(path.resolve(imagePath));
+      }
+
+      // DICOM slices are ordered by position, not by their file names
+      const sourcePaths = resolveScanSourcePaths(scan);
+      const volume = decodeMedicalSeries(
+        await Promise.all(sourcePaths.map(readStoredFile)),
+        sourcePaths.map(sourcePath => path.basename(sourcePath))
+      );
+      const preview = renderSlicePreview(volume);
+      res.type("png").send(preview);
+    } catch (error) {
+      console.error("Error serving scan image:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Scan image file not found" });
+      }
+      if (error instanceof DicomParseError || error instanceof NiftiParseError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to retrieve scan image" });
+    }
+  });
+
+  // Processing jobs for a scan, oldest first
+  app.get("/api/scans/:id/jobs", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const jobs = await storage.getJobsForScan(req.params.id);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch processing jobs" });
+    }
+  });
+
+  // Delete MRI scan
+  app.delete("/api/scans/:id", requirePermission("scans:delete"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteMriScan(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete scan" });
+    }
+  });
+
+  // Patient, study and series a scan belongs to
+  app.get("/api/scans/:id/patient", requirePermission("scans:read"), requireScanAccess(ObjectPermission.READ), async (req, res) => {
+    try {
+      const context = await storage.getScanPatientContext(req.params.id);
+      if (!context) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+      res.json(canReadPhi(req) ? context : deidentifyScanPatientContext(context));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch patient details" });
+    }
+  });
+
+  // Link a scan to a series, or unlink it with a null seriesId
+  app.patch("/api/scans/:id/series", requirePermission("patients:write"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
+    try {
+      const { seriesId } = req.body;
+      if (seriesId !== null && typeof seriesId !== "string") {
+        return res.status(400).json({ message: "seriesId must be a string or null" });
+      }
+      if (seriesId && !(await storage.getSeries(seriesId))) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      const updatedScan = await storage.updateMriScan(req.params.id, { seriesId });
+      if (!updatedScan) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+      // The care team rule follows the scan to its new patient
+      res.json(updatedScan.aclPolicy ? await reapplyScanAclPolicy(updatedScan) : updatedScan);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to link scan to series" });
+    }
+  });
+
+  // Share a scan with user lists; only its owner and admins may change this
+  app.put("/api/scans/:id/acl", requirePermission("scans:read"), requireScanAccess(ObjectPermission.WRITE), async (req, res) => {
+    try {
+      const parsed = scanSharingSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const scan = await storage.getMriScan(req.params.id);
+      if (!scan) {
+        return res.status(404).json({ message: "Scan not found" });
+      }
+      const owner = scan.aclPolicy?.owner;
+      if (owner !== req.user!.id && !canAccessAllScans(req)) {
+        return res.status(403).json({ message: "Only the scan's owner can change who it is shared with" });
+      }
+      for (const { groupId } of parsed.data.sharedWith) {
+        const group = await storage.getAccessGroup(groupId);
+        if (group?.type !== ObjectAccessGroupType.USER_LIST) {
+          return res.status(400).json({ message: `${groupId} is not a user list` });
+        }
+      }
+
+      const sharedRules = parsed.data.sharedWith.map(({ groupId, permission }) => ({
+        group: { type: ObjectAccessGroupType.USER_LIST, id: groupId },
+        permission,
+      }));
+      // Scans from before per-scan policies are adopted by the admin sharing them
+      res.json(await applyScanAclPolicy(scan, owner ?? req.user!.id, sharedRules));
+    } catch (error) {
+      console.error("Scan sharing error:", error);
+      res.status(500).json({ message: "Failed to share scan" });
+    }
+  });
+
+  // Users
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { password, ...user } = parsed.data;
+      if (await storage.getUserByUsername(user.username)) {
+        return res.status(409).json({ message: `User ${user.username} already exists` });
+      }
+
+      const created = await storage.createUser({ ...user, passwordHash: await hashPassword(password) });
+      res.status(201).json(toPublicUser(created));
+    } catch (error) {
+      console.error("User creation error:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  // Change an account's name, role or password
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const parsed = updateUserSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { password, ...updates } = parsed.data;
+      if (!password && Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+      // Admins cannot lock themselves out of user management
+      if (req.params.id === req.user!.id && updates.role && updates.role !== "admin") {
+        return res.status(409).json({ message: "You cannot remove your own admin role" });
+      }
+
+      const updated = await storage.updateUser(req.params.id, {
+        ...updates,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(updated));
+    } catch (error) {
+      console.error("User update error:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Access groups: user lists scans are shared with, and patients' care teams
+  app.get("/api/access-groups", requirePermission("users:manage"), async (req, res) => {
+    try {
+      res.json(await storage.getAllAccessGroups());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch access groups" });
+    }
+  });
+
+  app.post("/api/access-groups", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const parsed = insertAccessGroupSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (parsed.data.patientId && !(await storage.getPatient(parsed.data.patientId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.status(201).json(await storage.createAccessGroup(parsed.data));
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        return res.status(400).json({ message: "memberIds contains an unknown user" });
+      }
+      console.error("Access group creation error:", error);
+      res.status(500).json({ message: "Failed to create access group" });
+    }
+  });
+
+  // Replace a group's members
+  app.put("/api/access-groups/:id/members", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const parsed = accessGroupMembersSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const group = await storage.setAccessGroupMembers(req.params.id, parsed.data.userIds);
+      if (!group) {
+        return res.status(404).json({ message: "Access group not found" });
+      }
+      res.json(group);
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        return res.status(400).json({ message: "userIds contains an unknown user" });
+      }
+      console.error("Access group update error:", error);
+      res.status(500).json({ message: "Failed to update access group" });
+    }
+  });
+
+  app.delete("/api/access-groups/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAccessGroup(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Access group not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete access group" });
+    }
+  });
+
+  // Audit trail
+  app.get("/api/audit-events", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const parsed = auditEventQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      res.json(await auditLog.query(parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  // Re-compute the hash chain to detect edited or removed events
+  app.get("/api/audit-events/verify", requirePermission("audit:read"), async (req, res) => {
+    try {
+      res.json(await auditLog.verify());
+    } catch (error) {
+      console.error("Audit chain verification error:", error);
+      res.status(500).json({ message: "Failed to verify the audit trail" });
+    }
+  });
+
+  // Patients
+  app.get("/api/patients", requirePermission("phi:read"), async (req, res) => {
+    try {
+      res.json(await storage.getAllPatients());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch patients" });
+    }
+  });
+
+  app.get("/api/patients/:id", requirePermission("phi:read"), async (req, res) => {
+    try {
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch patient" });
+    }
+  });
+
+  app.post("/api/patients", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const parsed = insertPatientSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      res.status(201).json(await storage.createPatient(parsed.data));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A patient with this medical record number already exists" });
+      }
+      res.status(500).json({ message: "Failed to create patient" });
+    }
+  });
+
+  app.patch("/api/patients/:id", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const parsed = insertPatientSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const patient = await storage.updatePatient(req.params.id, parsed.data);
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.json(patient);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A patient with this medical record number already exists" });
+      }
+      res.status(500).json({ message: "Failed to update patient" });
+    }
+  });
+
+  app.delete("/api/patients/:id", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deletePatient(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete patient" });
+    }
+  });
+
+  app.get("/api/patients/:id/studies", requirePermission("phi:read"), async (req, res) => {
+    try {
+      res.json(await storage.getStudiesForPatient(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch studies" });
+    }
+  });
+
+  // Studies
+  app.get("/api/studies/:id", requirePermission("phi:read"), async (req, res) => {
+    try {
+      const study = await storage.getStudy(req.params.id);
+      if (!study) {
+        return res.status(404).json({ message: "Study not found" });
+      }
+      res.json(study);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch study" });
+    }
+  });
+
+  app.post("/api/studies", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const parsed = insertStudySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (!(await storage.getPatient(parsed.data.patientId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      res.status(201).json(await storage.createStudy(parsed.data));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A study with this instance UID already exists" });
+      }
+      res.status(500).json({ message: "Failed to create study" });
+    }
+  });
+
+  app.patch("/api/studies/:id", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const parsed = insertStudySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (parsed.data.patientId && !(await storage.getPatient(parsed.data.patientId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+      const study = await storage.updateStudy(req.params.id, parsed.data);
+      if (!study) {
+        return res.status(404).json({ message: "Study not found" });
+      }
+      res.json(study);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A study with this instance UID already exists" });
+      }
+      res.status(500).json({ message: "Failed to update study" });
+    }
+  });
+
+  app.delete("/api/studies/:id", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteStudy(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Study not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete study" });
+    }
+  });
+
+  app.get("/api/studies/:id/series", requirePermission("phi:read"), async (req, res) => {
+    try {
+      res.json(await storage.getSeriesForStudy(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch series" });
+    }
+  });
+
+  // Series
+  app.get("/api/series/:id", requirePermission("phi:read"), async (req, res) => {
+    try {
+      const found = await storage.getSeries(req.params.id);
+      if (!found) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+      res.json(found);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch series" });
+    }
+  });
+
+  app.post("/api/series", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const parsed = insertSeriesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (!(await storage.getStudy(parsed.data.studyId))) {
+        return res.status(404).json({ message: "Study not found" });
+      }
+      res.status(201).json(await storage.createSeries(parsed.data));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A series with this instance UID already exists" });
+      }
+      res.status(500).json({ message: "Failed to create series" });
+    }
+  });
+
+  app.patch("/api/series/:id", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const parsed = insertSeriesSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (parsed.data.studyId && !(await storage.getStudy(parsed.data.studyId))) {
+        return res.status(404).json({ message: "Study not found" });
+      }
+      const updated = await storage.updateSeries(req.params.id, parsed.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A series with this instance UID already exists" });
+      }
+      res.status(500).json({ message: "Failed to update series" });
+    }
+  });
+
+  app.delete("/api/series/:id", requirePermission("patients:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSeries(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete series" });
+    }
+  });
+
+  app.get("/api/series/:id/scans", requirePermission("phi:read"), async (req, res) => {
+    try {
+      res.json(await filterAccessibleScans(req, await storage.getScansForSeries(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch scans" });
+    }
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
 
-// Medical-first classification system - assigns severity based on medical condition, not confidence
-function assignClinicalSeverity(type: string, confidence: number): {
-  severity: "critical" | "major" | "minor";
-  severityScore: number;
-  riskCategory: "high" | "moderate" | "low";
-  clinicalType: string;
-} {
-  let baseSeverityScore: number;
-  let severity: "critical" | "major" | "minor";
-  let clinicalType: string;
-  
-  // Medical condition priority mapping - aneurysms are ALWAYS critical
-  switch (type) {
-    case "aneurysm":
-      baseSeverityScore = 9;
-      severity = "critical";
-      clinicalType = "cerebral_aneurysm";
-      break;
-    case "hemorrhage":
-      baseSeverityScore = 8;
-      severity = "critical";
-      clinicalType = "brain_hemorrhage";
-      break;
-    case "tumor":
-      baseSeverityScore = 7;
-      severity = "major";
-      clinicalType = "brain_tumor";
-      break;
-    case "lesion":
-      baseSeverityScore = 5;
-      severity = "major";
-      clinicalType = "brain_lesion";
-      break;
-    case "anomaly":
-    default:
-      baseSeverityScore = 3;
-      severity = "minor";
-      clinicalType = "vascular_anomaly";
-      break;
+// Postgres unique_violation, raised when an MRN or instance UID is reused
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
+// Postgres foreign_key_violation, raised when a referenced row does not exist
+function isForeignKeyViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23503';
+}
+
+// Scans the user's ACL access lets them read
+async function filterAccessibleScans(req: Request, scans: MriScan[]): Promise<MriScan[]> {
+  const readable = await Promise.all(scans.map(scan => canAccessScan(req, scan, ObjectPermission.READ)));
+  return scans.filter((_, index) => readable[index]);
+}
+
+// Uploads may only claim fresh objects or objects the user already owns, so
+// a guessed object path cannot be adopted into another user's scan
+async function canClaimUploadedObjects(userId: string, objectPaths: string[]): Promise<boolean> {
+  const objectStorageService = new ObjectStorageService();
+  for (const objectPath of objectPaths) {
+    const aclPolicy = await getObjectAclPolicy(await objectStorageService.getObjectEntityFile(objectPath));
+    if (aclPolicy && aclPolicy.owner !== userId) {
+      return false;
+    }
   }
-  
-  // Adjust by confidence (+/- up to 1 point) but NEVER downgrade medical class
-  const confidenceAdjustment = ((confidence - 70) / 30) * 1; // -1 to +1 based on confidence
-  const finalScore = Math.max(
-    Math.min(10, baseSeverityScore + confidenceAdjustment),
-    severity === "critical" ? 7 : severity === "major" ? 4 : 1 // Floor prevents downgrading
-  );
-  
-  // Assign risk category based on final severity score
-  const riskCategory: "high" | "moderate" | "low" = 
-    finalScore >= 7 ? "high" : finalScore >= 4 ? "moderate" : "low";
-  
-  return {
-    severity,
-    severityScore: Math.round(finalScore * 10) / 10,
-    riskCategory,
-    clinicalType
+  return true;
+}
+
+// Set a scan's ACL policy: the owner keeps full access, the linked patient's
+// care teams may read and work on the scan, and the given user lists get what
+// they were granted. The scan's stored objects carry the same policy, which
+// /objects downloads are checked against.
+async function applyScanAclPolicy(scan: MriScan, owner: string, sharedRules: ObjectAclRule[]): Promise<MriScan> {
+  const context = await storage.getScanPatientContext(scan.id);
+  const careTeamRules: ObjectAclRule[] = context?.patient
+    ? [{ group: { type: ObjectAccessGroupType.CARE_TEAM, id: context.patient.id }, permission: ObjectPermission.WRITE }]
+    : [];
+  const aclPolicy: ObjectAclPolicy = {
+    owner,
+    visibility: 'private',
+    aclRules: [...careTeamRules, ...sharedRules],
   };
+
+  const updated = (await storage.updateMriScan(scan.id, { aclPolicy })) ?? scan;
+  const objectStorageService = new ObjectStorageService();
+  await Promise.all(resolveScanSourcePaths(scan)
+    .filter(sourcePath => sourcePath.startsWith('/objects/'))
+    .map(sourcePath => objectStorageService.trySetObjectEntityAclPolicy(sourcePath, aclPolicy)));
+  return updated;
+}
+
+// Rebuild a scan's policy after its patient link changed, keeping its owner
+// and the user lists it was shared with
+function reapplyScanAclPolicy(scan: MriScan): Promise<MriScan> {
+  const { owner, aclRules = [] } = scan.aclPolicy!;
+  return applyScanAclPolicy(scan, owner, aclRules.filter(rule => rule.group.type === ObjectAccessGroupType.USER_LIST));
+}
+
+// Read a stored scan file from object storage or local disk
+async function readStoredFile(filePath: string): Promise<Buffer> {
+  if (!isScanStoragePath(filePath)) {
+    throw new Error(`Refusing to read ${filePath} outside scan storage`);
+  }
+  if (!filePath.startsWith('/objects/')) {
+    return fs.readFileSync(filePath);
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  const objectFile = await objectStorageService.getObjectEntityFile(filePath);
+  const chunks: Buffer[] = [];
+  for await (const chunk of objectFile.createReadStream()) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
 }
 
-// Analyze actual uploaded image and generate unique results
-async function analyzeRealImage(imagePath: string, scanId: string): Promise<Detection[]> {
+// Image geometry of an uploaded file, validated like /api/scans/upload
+// validates its files: DICOM headers must parse and name a supported transfer
+// syntax, NIfTI headers must parse. Parse errors are thrown; null means the
+// file is not a genuine image of its format.
+async function readUploadedImageHeader(data: Buffer, mimeType: string): Promise<{ metadata: MedicalImageMetadata; attributes: DicomAttributes | null } | null> {
+  if (mimeType === 'application/dicom') {
+    const { metadata, attributes } = readDicomHeader(data);
+    if (!isSupportedTransferSyntax(attributes.transferSyntaxUid)) {
+      throw new DicomParseError(`Unsupported DICOM transfer syntax: ${attributes.transferSyntaxUid}`);
+    }
+    return { metadata, attributes };
+  }
+  if (mimeType === 'application/x-nifti') {
+    return { metadata: readNiftiHeader(data).metadata, attributes: null };
+  }
+
+  // PNG and JPEG have no header beyond their magic bytes; decode them for size
+  if ((await fileTypeFromBuffer(data))?.mime !== mimeType) {
+    return null;
+  }
   try {
-    console.log(`Analyzing real image for scan ${scanId}: ${imagePath}`);
-    
-    // Simulate realistic analysis processing time
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    let imageBuffer: Buffer;
-    let imageStats: { brightness: number; contrast: number; complexity: number; };
-    
-    if (imagePath.startsWith('/objects/')) {
-      // Download and analyze object storage file
-      const objectStorageService = new ObjectStorageService();
-      const objectFile = await objectStorageService.getObjectEntityFile(imagePath);
-      const chunks: Buffer[] = [];
-      
-      const stream = objectFile.createReadStream();
-      for await (const chunk of stream) {
-        chunks.push(chunk);
-      }
-      imageBuffer = Buffer.concat(chunks);
-      
-    } else {
-      // Read local file
-      const fs = await import('fs');
-      imageBuffer = fs.readFileSync(imagePath);
+    return { metadata: decodeMedicalImage(data).metadata, attributes: null };
+  } catch {
+    return null;
+  }
+}
+
+// Replace a stored scan file, e.g. with its de-identified copy
+async function writeStoredFile(filePath: string, data: Buffer): Promise<void> {
+  if (!isScanStoragePath(filePath)) {
+    throw new Error(`Refusing to write ${filePath} outside scan storage`);
+  }
+  if (!filePath.startsWith('/objects/')) {
+    fs.writeFileSync(filePath, data);
+    return;
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  const objectFile = await objectStorageService.getObjectEntityFile(filePath);
+  await objectFile.save(data, 'application/dicom');
+}
+
+// De-identify uploaded DICOM files in place, before anything is read from
+// them, and return the pseudonym of their patient
+async function deidentifyStoredDicomFiles(filePaths: string[]): Promise<string | null> {
+  let patientPseudonym: string | null = null;
+  for (const filePath of filePaths) {
+    const deidentified = await dicomDeidentifier.deidentify(await readStoredFile(filePath));
+    await writeStoredFile(filePath, deidentified.buffer);
+    patientPseudonym ??= deidentified.patientPseudonym;
+  }
+  return patientPseudonym;
+}
+
+// Link a DICOM scan to the patient, study and series recorded in its header.
+// Linking is best effort: scans without a Patient ID (e.g. de-identified
+// exports) or with unreadable headers are left unlinked.
+async function linkScanToDicomHierarchy(scan: MriScan): Promise<MriScan> {
+  if (scan.mimeType !== 'application/dicom') {
+    return scan;
+  }
+
+  try {
+    const { metadata, attributes } = readDicomHeader(await readStoredFile(resolveScanSourcePaths(scan)[0]));
+    if (!attributes.patientId) {
+      return scan;
     }
-    
-    // Analyze image characteristics (this is a simplified analysis)
-    imageStats = analyzeImageBuffer(imageBuffer);
-    
-    const detections: Detection[] = [];
-    
-    // Generate unique results based on actual image characteristics
-    const { brightness, contrast, complexity } = imageStats;
-    
-    // Use image hash for consistent but unique results per image
-    const imageHash = generateImageHash(imageBuffer);
-    const randomSeed = parseInt(imageHash.slice(0, 8), 16);
-    
-    // Generate detections based on image characteristics with more varied results
-    // Ensure each image gets at least one detection with unique characteristics
-    
-    // Primary detection based on image hash and characteristics
-    const baseConfidence = 65 + (randomSeed % 25); // 65-90 range based on image hash
-    const imageComplexityFactor = Math.floor(brightness * contrast * complexity * 40); // 0-40 range
-    const finalConfidence = Math.min(95, baseConfidence + imageComplexityFactor);
-    
-    const detectionType = brightness > 0.5 ? "aneurysm" : "anomaly";
-    const medicalClassification = assignClinicalSeverity(detectionType, finalConfidence);
-    
-    detections.push({
-      id: `det_${randomSeed}_1`,
-      type: detectionType,
-      confidence: finalConfidence,
-      location: brightness > 0.6 ? "Anterior cerebral artery" : 
-                contrast > 0.5 ? "Middle cerebral artery" : "Temporal lobe region",
-      coordinates: { 
-        x: Math.floor(25 + (randomSeed % 50)), 
-        y: Math.floor(15 + (randomSeed % 40)), 
-        width: Math.floor(30 + (brightness * 35)), 
-        height: Math.floor(20 + (contrast * 30)) 
+
+    const sex = attributes.patientSex?.toUpperCase();
+    const studyDate = formatDicomDateTime(attributes.studyDate, attributes.studyTime);
+    const linkedSeries = await storage.findOrCreateSeriesHierarchy({
+      patient: {
+        medicalRecordNumber: attributes.patientId,
+        name: formatDicomPersonName(attributes.patientName) ?? null,
+        birthDate: formatDicomDateTime(attributes.patientBirthDate)?.slice(0, 10) ?? null,
+        sex: sex === 'M' || sex === 'F' || sex === 'O' ? sex : null,
+      },
+      study: {
+        studyInstanceUid: attributes.studyInstanceUid ?? null,
+        accessionNumber: attributes.accessionNumber ?? null,
+        studyDate: studyDate ? new Date(studyDate) : null,
+        description: attributes.studyDescription ?? null,
+        referringPhysician: formatDicomPersonName(attributes.referringPhysicianName) ?? null,
+      },
+      series: {
+        seriesInstanceUid: attributes.seriesInstanceUid ?? null,
+        seriesNumber: attributes.seriesNumber ?? null,
+        modality: metadata.modality,
+        description: attributes.seriesDescription ?? null,
       },
-      riskLevel: medicalClassification.riskCategory,
-      description: `${brightness > 0.5 ? 'Vascular' : 'Tissue'} structure detected (hash: ${imageHash.slice(0,6)})`,
-      severity: medicalClassification.severity,
-      severityScore: medicalClassification.severityScore,
-      riskCategory: medicalClassification.riskCategory,
-      clinicalType: medicalClassification.clinicalType
     });
-    
-    // Secondary detection if image complexity is significant
-    if (complexity > 0.3 || contrast > 0.4) {
-      const secondaryConfidence = 55 + Math.floor((contrast + complexity) * 25); // Dynamic range
-      const secondaryType = complexity > 0.6 ? "lesion" : "anomaly";
-      const secondaryMedical = assignClinicalSeverity(secondaryType, secondaryConfidence);
-      
-      detections.push({
-        id: `det_${randomSeed}_2`,
-        type: secondaryType,
-        confidence: secondaryConfidence,
-        location: complexity > 0.5 ? "Frontal lobe region" : "Posterior region",
-        coordinates: { 
-          x: Math.floor(45 + (randomSeed % 25)), 
-          y: Math.floor(35 + (randomSeed % 30)), 
-          width: Math.floor(25 + (complexity * 25)), 
-          height: Math.floor(20 + (brightness * 20)) 
-        },
-        riskLevel: secondaryMedical.riskCategory,
-        description: `Secondary finding (complexity: ${complexity.toFixed(2)}, contrast: ${contrast.toFixed(2)})`,
-        severity: secondaryMedical.severity,
-        severityScore: secondaryMedical.severityScore,
-        riskCategory: secondaryMedical.riskCategory,
-        clinicalType: secondaryMedical.clinicalType
-      });
-    }
-    
-    console.log(`Generated ${detections.length} unique detections for scan ${scanId} based on image analysis`);
-    console.log(`Image stats: brightness=${brightness.toFixed(2)}, contrast=${contrast.toFixed(2)}, complexity=${complexity.toFixed(2)}`);
-    
-    return detections;
-    
+
+    return (await storage.updateMriScan(scan.id, { seriesId: linkedSeries.id })) ?? scan;
   } catch (error) {
-    console.error(`Error analyzing real image for scan ${scanId}:`, error);
-    // Fallback to basic detection if analysis fails
-    const fallbackMedical = assignClinicalSeverity("anomaly", 65);
-    return [{
-      id: `det_fallback_${Date.now()}`,
-      type: "anomaly",
-      confidence: 65,
-      location: "Analysis region",
-      coordinates: { x: 40, y: 35, width: 30, height: 25 },
-      riskLevel: fallbackMedical.riskCategory,
-      description: "Basic detection (image analysis unavailable)",
-      severity: fallbackMedical.severity,
-      severityScore: fallbackMedical.severityScore,
-      riskCategory: fallbackMedical.riskCategory,
-      clinicalType: fallbackMedical.clinicalType
-    }];
+    console.error(`Failed to link scan ${scan.id} to its patient and study:`, error);
+    return scan;
   }
 }
 
-// Analyze image buffer to extract characteristics
-function analyzeImageBuffer(buffer: Buffer): { brightness: number; contrast: number; complexity: number; } {
-  // Enhanced analysis to provide more varied results between images
-  const size = buffer.length;
-  
-  // Calculate basic statistics from buffer data with better sampling
-  let sum = 0;
-  let variance = 0;
-  let edgeCount = 0;
-  let histogramVariance = 0;
-  
-  // Sample pixels for performance (different stride for more variance)
-  const sampleSize = Math.min(size, 20000);
-  const stride = Math.max(1, Math.floor(size / sampleSize));
-  let sampleCount = 0;
-  
-  // First pass: calculate mean with better distribution
-  for (let i = 0; i < size; i += stride) {
-    sum += buffer[i];
-    sampleCount++;
-  }
-  
-  const mean = sum / sampleCount;
-  const brightness = Math.min(1, mean / 255); // Normalize to 0-1
-  
-  // Second pass: calculate variance with histogram analysis
-  const histogram = new Array(256).fill(0);
-  for (let i = 0; i < size; i += stride) {
-    const val = buffer[i];
-    variance += Math.pow(val - mean, 2);
-    histogram[val]++;
-  }
-  variance = variance / sampleCount;
-  
-  // Calculate histogram variance for better contrast estimation
-  for (let i = 0; i < 256; i++) {
-    histogramVariance += histogram[i] > 0 ? 1 : 0;
+// Object storage scans keep their /objects/ path, local uploads live in uploads/
+function resolveStoredFilePath(filename: string): string {
+  return filename.startsWith('/objects/')
+    ? filename
+    : path.join('uploads', filename);
+}
+
+// Scan files may only be read from the uploads directory or object storage
+function isScanStoragePath(filePath: string): boolean {
+  if (filePath.startsWith('/objects/')) {
+    return !filePath.split('/').includes('..');
   }
-  const contrast = Math.min(1, (Math.sqrt(variance) / 128) * (histogramVariance / 256));
-  
-  // Enhanced complexity estimation with multiple metrics
-  for (let i = stride; i < Math.min(size, 10000); i += stride) {
-    if (Math.abs(buffer[i] - buffer[i - stride]) > 20) {
-      edgeCount++;
-    }
+  const uploadsDir = path.resolve('uploads');
+  return path.resolve(filePath).startsWith(uploadsDir + path.sep);
+}
+
+// Browser uploads create scans from objects under /objects/uploads/ only;
+// anything else would name a local file or another scan's object
+function isUploadedObjectPath(objectPath: string): boolean {
+  return /^\/objects\/uploads\/(?!\.\.?$)[^/]+$/.test(objectPath);
+}
+
+// All source files of a scan, in slice order for series scans
+function resolveScanSourcePaths(scan: MriScan): string[] {
+  return scan.seriesFiles?.length
+    ? scan.seriesFiles.map(file => resolveStoredFilePath(file.filename))
+    : [resolveStoredFilePath(scan.filename)];
+}
+
+// Representative 2D image of a scan; the middle file for series scans, which
+// is the middle volume slice for PNG and JPEG stacks kept in filename order
+function resolveScanImagePath(scan: MriScan): string {
+  const sourcePaths = resolveScanSourcePaths(scan);
+  return sourcePaths[Math.floor(sourcePaths.length / 2)];
+}
+
+// Progress event for a scan that has no conversion in flight in this process
+function describeScanProgress(scan: MriScan): ConversionProgress {
+  switch (scan.processingStatus) {
+    case 'completed':
+      return { scanId: scan.id, stage: 'completed', progress: 100, message: 'Medical 3D model conversion completed successfully' };
+    case 'failed':
+      return { scanId: scan.id, stage: 'failed', progress: -1, message: 'Conversion failed' };
+    case 'processing':
+      return { scanId: scan.id, stage: 'queued', progress: 0, message: 'Waiting for a processing worker...' };
+    default:
+      return { scanId: scan.id, stage: 'pending', progress: 0, message: 'Ready to process' };
   }
-  
-  // Combine file size, edge density, and histogram spread for complexity
-  const sizeComplexity = Math.min(1, size / (1024 * 1024)); // File size factor
-  const edgeComplexity = Math.min(1, edgeCount / (sampleCount * 0.3)); // Edge density
-  const histComplexity = Math.min(1, histogramVariance / 128); // Histogram spread
-  
-  const complexity = (sizeComplexity + edgeComplexity + histComplexity) / 3;
-  
-  return { brightness, contrast, complexity };
 }
 
-// Generate a hash from image buffer for consistent randomization
-function generateImageHash(buffer: Buffer): string {
-  return createHash('md5').update(buffer).digest('hex');
+interface ConversionJobPayload {
+  sourcePaths: string[];
 }
 
-async function simulateAnomalyDetection(
-  sensitivity: number, 
-  confidence: number, 
-  detectionType: string
-): Promise<Detection[]> {
-  // Simulate detection algorithm
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  const detections: Detection[] = [];
-  
-  // Generate realistic detections based on parameters
-  if (sensitivity > 70) {
-    const aneurysmMedical = assignClinicalSeverity("aneurysm", 87);
-    detections.push({
-      id: `det_${Date.now()}_1`,
-      type: "aneurysm",
-      confidence: 87,
-      location: "Middle cerebral artery, left hemisphere",
-      coordinates: { x: 35, y: 25, width: 60, height: 40 },
-      riskLevel: aneurysmMedical.riskCategory,
-      description: "Cerebral aneurysm detected in M1 segment",
-      severity: aneurysmMedical.severity,
-      severityScore: aneurysmMedical.severityScore,
-      riskCategory: aneurysmMedical.riskCategory,
-      clinicalType: aneurysmMedical.clinicalType
+interface AnalysisJobPayload {
+  imagePath: string;
+  // Absent on jobs queued before detectors analysed whole series
+  sourcePaths?: string[];
+}
+
+// Decode a scan's source files and run the configured detectors on them
+async function runDetectors(scanId: string, sourcePaths: string[], parameters: DetectionParameters): Promise<DetectionResult> {
+  const sourceFiles = await Promise.all(sourcePaths.map(readStoredFile));
+  const volume = decodeMedicalSeries(sourceFiles, sourcePaths.map(sourcePath => path.basename(sourcePath)));
+  return detectorRegistry.detect({ scanId, volume, sourceFiles }, parameters);
+}
+
+// Real 3D model conversion processing
+async function runConversionJob(job: ProcessingJob): Promise<InsertProcessingJob[]> {
+  const { scanId } = job;
+  const { sourcePaths } = job.payload as unknown as ConversionJobPayload;
+  console.log(`Starting 3D conversion for scan ${scanId} from ${sourcePaths.join(', ')}`);
+
+  await storage.updateMriScan(scanId, { processingStatus: "processing" });
+
+  // Forward pipeline progress to open SSE streams
+  medical3DConverter.registerProgressCallback(scanId, (progress) => {
+    conversionProgressEvents.publish(progress);
+  });
+
+  let conversion: ConversionResult;
+  try {
+    // Perform real 3D conversion with medical-grade algorithms
+    conversion = await medical3DConverter.convertMedicalImageTo3D(sourcePaths, scanId, {
+      quality: 'standard',
+      meshOptimization: true,
+      medicalStandard: 'research',
+      outputFormats: ['obj', 'stl']
     });
+  } finally {
+    medical3DConverter.unregisterProgressCallback(scanId);
   }
+  const { modelPath, metadata } = conversion;
 
-  if (sensitivity > 60) {
-    const anomalyMedical = assignClinicalSeverity("anomaly", 73);
-    detections.push({
-      id: `det_${Date.now()}_2`,
-      type: "anomaly",
-      confidence: 73,
-      location: "Anterior communicating artery",
-      coordinates: { x: 20, y: 45, width: 45, height: 35 },
-      riskLevel: anomalyMedical.riskCategory,
-      description: "Vascular anomaly with irregular morphology",
-      severity: anomalyMedical.severity,
-      severityScore: anomalyMedical.severityScore,
-      riskCategory: anomalyMedical.riskCategory,
-      clinicalType: anomalyMedical.clinicalType
-    });
+  // Update scan with completion status and model path
+  await storage.updateMriScan(scanId, {
+    processingStatus: "completed",
+    threeDModelPath: `/models/${path.basename(modelPath)}`,
+    imageMetadata: metadata
+  });
+
+  console.log(`3D conversion completed for scan ${scanId}: ${modelPath}`);
+
+  // Reports describe the middle slice of a series
+  const imagePath = sourcePaths[Math.floor(sourcePaths.length / 2)];
+  return [{ scanId, type: 'detection', payload: { imagePath, sourcePaths } }];
+}
+
+// Analyze the actual uploaded image after a successful 3D conversion
+async function runDetectionJob(job: ProcessingJob): Promise<InsertProcessingJob[]> {
+  const { scanId } = job;
+  const { imagePath, sourcePaths = [imagePath] } = job.payload as unknown as AnalysisJobPayload;
+
+  const parameters = DEFAULT_DETECTION_PARAMETERS;
+  const { detections, detectors } = await runDetectors(scanId, sourcePaths, parameters);
+  const updatedScan = await storage.updateMriScan(scanId, {
+    detections,
+    detectionRun: { parameters, detectors, ranAt: new Date().toISOString() }
+  });
+  if (!updatedScan) {
+    return [];
   }
 
-  if (sensitivity > 50) {
-    const lesionMedical = assignClinicalSeverity("lesion", 68);
-    detections.push({
-      id: `det_${Date.now()}_3`,
-      type: "lesion",
-      confidence: 68,
-      location: "Right frontal lobe",
-      coordinates: { x: 60, y: 30, width: 30, height: 25 },
-      riskLevel: lesionMedical.riskCategory,
-      description: "Tissue density variation",
-      severity: lesionMedical.severity,
-      severityScore: lesionMedical.severityScore,
-      riskCategory: lesionMedical.riskCategory,
-      clinicalType: lesionMedical.clinicalType
-    });
+  return [{ scanId, type: 'report', payload: { imagePath } }];
+}
+
+// Generate the analysis report once detections are stored
+async function runReportJob(job: ProcessingJob): Promise<void> {
+  const { scanId } = job;
+  const { imagePath } = job.payload as unknown as AnalysisJobPayload;
+
+  const scan = await storage.getMriScan(scanId);
+  if (!scan) {
+    return;
   }
 
-  return detections.filter(d => d.confidence >= confidence);
+  console.log(`Generating analysis report for scan ${scanId}`);
+
+  // Generate comprehensive analysis report based on real image analysis
+  const reportData = await generateAnalysisReport(scan, resolveReportOptions({ reportFormat: "Clinical Summary" }), imagePath, scanId);
+
+  await storage.createAnalysisReport(reportData);
+
+  // Mark analysis as completed
+  await storage.updateMriScan(scanId, { analysisCompleted: true });
+
+  console.log(`Analysis report generated for scan ${scanId}`);
 }
 
 async function generateAnalysisReport(
-  scan: any, 
-  options: any,
+  scan: MriScan,
+  options: ReportOptions,
   imagePath?: string,
   scanId?: string
-): Promise<any> {
+) {
   // Simulate report generation
   await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Medical severity-based classification (NEW SYSTEM)
-  const criticalDetections = scan.detections.filter((d: Detection) => d.severity === "critical");
-  const majorDetections = scan.detections.filter((d: Detection) => d.severity === "major");
-  const minorDetections = scan.detections.filter((d: Detection) => d.severity === "minor");
-
-  // Count by medical severity for proper risk assessment
-  const criticalCount = criticalDetections.length;
-  const majorCount = majorDetections.length; 
-  const minorCount = minorDetections.length;
-
-  // Critical findings are based on medical severity, NOT confidence thresholds
-  const criticalFindings: CriticalFinding[] = criticalDetections.map((d: Detection) => ({
-    id: d.id,
-    title: d.type === "aneurysm" ? "Cerebral Aneurysm" : 
-           d.type === "hemorrhage" ? "Brain Hemorrhage" : "Critical Anomaly",
-    location: d.location,
-    confidence: d.confidence,
-    riskLevel: "high" as const,
-    size: d.type === "aneurysm" ? "~4.2mm diameter" : 
-          d.type === "hemorrhage" ? "~8.1mm region" : "~2.8mm",
-    recommendation: "Immediate consultation required"
-  }));
-
-  // Secondary findings include both major and minor severity findings
-  const secondaryFindings: SecondaryFinding[] = [...majorDetections, ...minorDetections].map((d: Detection) => ({
-    id: d.id,
-    title: d.description,
-    description: `${d.location} - ${d.confidence}% confidence`,
-    confidence: d.confidence,
-    significance: d.severity === "major" ? "Follow-up recommended" : "Within normal variation"
-  }));
+
+  // Findings are classified by medical severity and worded by the report template
+  const detections = scan.detections ?? [];
+  const { criticalFindings, secondaryFindings } = buildReportFindings(detections, options);
 
   // Generate dynamic technical summary based on actual analysis
   let dynamicProcessingTime = 2.43;
@@ -868,51 +2001,155 @@ async function generateAnalysisReport(
 
   const technicalSummary: TechnicalSummary = {
     processingTime: Number(dynamicProcessingTime.toFixed(2)),
-    imagesAnalyzed: 1, // Single image analysis
+    // Detectors analyse every slice of the assembled volume
+    imagesAnalyzed: scan.imageMetadata?.depth ?? scan.seriesFiles?.length ?? 1,
     modelVersion: "NeuroScan AI v2.1.4",
     algorithm: "Custom CNN + Deep Learning",
-    imageResolution: "Variable (auto-detected)",
+    imageResolution: scan.imageMetadata
+      ? `${scan.imageMetadata.width}x${scan.imageMetadata.height}x${scan.imageMetadata.depth} (${scan.imageMetadata.modality})`
+      : "Variable (auto-detected)",
     qualityScore: Number(dynamicQualityScore.toFixed(1))
   };
 
-  // NEW MEDICAL RISK SCORING SYSTEM
-  // Formula: 7*critical + 3*major + 1*minor (prioritizes medical severity)
-  let riskScore = Math.min(10, criticalCount * 7 + majorCount * 3 + minorCount * 1);
-  
-  // FLOOR RULE: Any critical finding = minimum risk score 7 (HIGH RISK)
-  if (criticalCount > 0) {
-    riskScore = Math.max(riskScore, 7);
-  }
-  
-  // Overall risk assessment based on medical findings
-  let overallRisk: "high" | "moderate" | "low";
-  if (criticalCount > 0 || riskScore >= 7) {
-    overallRisk = "high";
-  } else if (majorCount > 0 || riskScore >= 4) {
-    overallRisk = "moderate"; 
-  } else {
-    overallRisk = "low";
-  }
+  // Severity-weighted risk score; overall risk is high from the requested threshold
+  const risk = assessReportRisk(detections, options.riskThreshold);
 
-  return {
-    scanId: scan.id,
-    riskScore,
+  const content = {
+    ...risk,
     detectionAccuracy: dynamicAccuracy,
     imageQuality: dynamicQualityScore,
-    processingTime: dynamicProcessingTime,
     criticalFindings,
     secondaryFindings,
     technicalSummary,
-    // NEW MEDICAL SEVERITY FIELDS
-    overallRisk,
-    criticalCount,
-    majorCount,
-    minorCount
   };
+
+  return {
+    scanId: scan.id,
+    ...content,
+    processingTime: dynamicProcessingTime,
+    options,
+    sections: buildReportSections(content, options, scan),
+    detections,
+  };
+}
+
+// DICOM source images of a scan in volume order, for references from
+// structured reports; empty for other formats
+async function readScanSourceImages(scan: MriScan): Promise<SrSourceImage[]> {
+  if (scan.mimeType !== 'application/dicom') {
+    return [];
+  }
+
+  const headers = await Promise.all(
+    resolveScanSourcePaths(scan).map(async filePath => readDicomHeader(await readStoredFile(filePath)))
+  );
+  // Slices cannot be referenced reliably unless every one is identified
+  if (headers.some(({ attributes }) =>
+    !attributes.sopClassUid || !attributes.sopInstanceUid || !attributes.studyInstanceUid || !attributes.seriesInstanceUid)) {
+    return [];
+  }
+
+  const { order } = orderDicomSlices(headers.map(header => header.attributes));
+  return order
+    .map(index => headers[index])
+    .map(({ attributes, metadata }) => ({
+      sopClassUid: attributes.sopClassUid!,
+      sopInstanceUid: attributes.sopInstanceUid!,
+      seriesInstanceUid: attributes.seriesInstanceUid!,
+      studyInstanceUid: attributes.studyInstanceUid!,
+      frames: metadata.depth,
+    }));
+}
+
+// Send a report as JSON, as a FHIR R4 bundle when format=fhir, as a DICOM
+// SR when format=sr, or as a PDF download when format=pdf
+async function sendReport(res: Response, report: AnalysisReport, format: unknown, allowPhi: boolean): Promise<void> {
+  if (format === 'fhir' || format === 'sr' || format === 'hl7') {
+    // These exports identify the patient for clinical systems
+    if (!allowPhi) {
+      res.status(403).json({ message: "Exports that identify the patient require the phi:read permission" });
+      return;
+    }
+    const [scan, context] = await Promise.all([
+      storage.getMriScan(report.scanId),
+      storage.getScanPatientContext(report.scanId),
+    ]);
+    if (!scan || !context) {
+      res.status(404).json({ message: "Scan not found" });
+      return;
+    }
+
+    if (format === 'fhir') {
+      try {
+        res.type('application/fhir+json').send(JSON.stringify(buildFhirReportBundle(report, scan, context)));
+      } catch (fhirError) {
+        console.error('FHIR export failed:', fhirError);
+        res.status(500).json({ message: "Failed to generate FHIR bundle" });
+      }
+      return;
+    }
+
+    if (format === 'hl7') {
+      try {
+        const { text } = buildOruR01(report, scan, context);
+        res.setHeader('Content-Type', 'x-application/hl7-v2+er7; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="mri-analysis-report-${report.scanId}-v${report.version}.hl7"`);
+        res.send(text);
+      } catch (hl7Error) {
+        if (hl7Error instanceof Hl7ExportError) {
+          res.status(409).json({ message: hl7Error.message });
+          return;
+        }
+        console.error('HL7 export failed:', hl7Error);
+        res.status(500).json({ message: "Failed to generate HL7 message" });
+      }
+      return;
+    }
+
+    try {
+      const sr = buildMeasurementReportSr(report, scan, context, await readScanSourceImages(scan));
+      res.setHeader('Content-Type', 'application/dicom');
+      res.setHeader('Content-Disposition', `attachment; filename="mri-analysis-report-${report.scanId}-v${report.version}.dcm"`);
+      res.send(sr);
+    } catch (srError) {
+      console.error('DICOM SR export failed:', srError);
+      res.status(500).json({ message: "Failed to generate DICOM SR" });
+    }
+    return;
+  }
+
+  if (format !== 'pdf') {
+    res.json(report);
+    return;
+  }
+
+  try {
+    const pdf = await generateReportPDF(report);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="mri-analysis-report-${report.scanId}-v${report.version}.pdf"`);
+    res.send(pdf);
+  } catch (pdfError) {
+    console.error('PDF generation failed:', pdfError);
+    res.status(500).json({ message: "Failed to generate PDF" });
+  }
+}
+
+// Report version from a route or query parameter; null unless a positive integer
+function parseReportVersion(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const version = Number(value);
+  return version >= 1 ? version : null;
 }
 
 // Generate PDF report from analysis data using PDFKit
-async function generateReportPDF(report: any): Promise<Buffer> {
+async function generateReportPDF(report: AnalysisReport): Promise<Buffer> {
+  // Reports from before templates existed are laid out as a clinical summary
+  const options = report.options ?? resolveReportOptions({ reportFormat: "Clinical Summary" });
+  const template = REPORT_TEMPLATES[options.reportFormat];
+  const sections = report.sections ?? buildReportSections(report, options, null);
+
   return new Promise((resolve, reject) => {
     try {
       const doc = new PDFDocument({ margin: 50 });
@@ -923,10 +2160,23 @@ async function generateReportPDF(report: any): Promise<Buffer> {
       doc.on('error', reject);
 
       // Header
-      doc.fontSize(24).fillColor('#007acc').text('MRI Analysis Report', { align: 'center' });
+      doc.fontSize(24).fillColor('#007acc').text(template.title, { align: 'center' });
       doc.moveDown(0.5);
-      doc.fontSize(14).fillColor('#666').text('Comprehensive Medical Imaging Analysis', { align: 'center' });
-      doc.fontSize(12).text(`Generated on ${new Date().toLocaleDateString()}`, { align: 'center' });
+      doc.fontSize(14).fillColor('#666').text(template.subtitle, { align: 'center' });
+      doc.fontSize(12).text(`Version ${report.version} | Generated on ${new Date(report.generatedAt).toLocaleDateString()}`, { align: 'center' });
+      doc.moveDown(0.5);
+
+      // Sign-off status stamp
+      const status: ReportStatus = report.status ?? 'draft';
+      const statusNotes: Record<ReportStatus, string> = {
+        draft: 'not reviewed, not for clinical use',
+        preliminary: 'pending final sign-off',
+        final: 'signed',
+        amended: 'see addenda',
+      };
+      const statusColor = status === 'draft' ? '#d32f2f' : status === 'preliminary' ? '#f57c00' : status === 'amended' ? '#b45309' : '#388e3c';
+      doc.fontSize(14).fillColor(statusColor)
+        .text(`${REPORT_STATUS_LABELS[status].toUpperCase()} REPORT (${statusNotes[status]})`, { align: 'center' });
       doc.moveDown(1);
 
       // Draw line
@@ -934,69 +2184,57 @@ async function generateReportPDF(report: any): Promise<Buffer> {
       doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
       doc.moveDown(1);
 
-      // Risk Assessment Section
-      doc.fontSize(18).fillColor('#007acc').text('Risk Assessment');
-      doc.moveDown(0.5);
-      
-      const riskColor = report.riskScore > 7 ? '#d32f2f' : report.riskScore > 4 ? '#f57c00' : '#388e3c';
-      doc.fontSize(14).fillColor(riskColor).text(`Overall Risk Score: ${report.riskScore}/10`);
-      doc.fontSize(12).fillColor('#666').text(`Detection Accuracy: ${report.detectionAccuracy}% | Image Quality: ${report.imageQuality}/10`);
-      doc.moveDown(1);
-
-      // Critical Findings Section  
-      doc.fontSize(16).fillColor('#007acc').text('Critical Findings');
-      doc.moveDown(0.5);
-      
-      if (report.criticalFindings && report.criticalFindings.length > 0) {
-        report.criticalFindings.forEach((finding: any) => {
-          doc.fontSize(12).fillColor('#333');
-          doc.text(`• ${finding.title}`, { indent: 20 });
+      // Template sections, with the radiologist's impression after the first one
+      sections.forEach((section, index) => {
+        doc.fontSize(16).fillColor('#007acc').text(section.heading);
+        doc.moveDown(0.5);
+        section.paragraphs.forEach(paragraph => {
+          doc.fontSize(12).fillColor('#333').text(paragraph);
+          doc.moveDown(0.2);
+        });
+        section.items.forEach(item => {
+          doc.fontSize(12).fillColor(item.tone ? TONE_COLORS[item.tone] : '#333').text(`• ${item.title}`, { indent: 20 });
           doc.fontSize(10).fillColor('#666');
-          doc.text(finding.description, { indent: 30 });
-          doc.text(`Confidence: ${finding.confidence}%`, { indent: 30 });
+          item.details.forEach(detail => doc.text(detail, { indent: 30 }));
           doc.moveDown(0.3);
         });
-      } else {
-        doc.fontSize(12).fillColor('#666').text('No critical findings detected.');
-      }
-      doc.moveDown(1);
+        section.charts.forEach(chart => drawReportChart(doc, chart));
+        doc.moveDown(1);
+
+        if (index === 0) {
+          doc.fontSize(16).fillColor('#007acc').text(template.impressionHeading);
+          doc.moveDown(0.5);
+          doc.fontSize(12).fillColor(report.impression ? '#333' : '#666').text(report.impression || 'No impression recorded.');
+          doc.moveDown(1);
+        }
+      });
 
-      // Secondary Findings Section
-      doc.fontSize(16).fillColor('#007acc').text('Secondary Findings');
-      doc.moveDown(0.5);
-      
-      if (report.secondaryFindings && report.secondaryFindings.length > 0) {
-        report.secondaryFindings.forEach((finding: any) => {
-          doc.fontSize(12).fillColor('#333');
-          doc.text(`• ${finding.title}`, { indent: 20 });
-          doc.fontSize(10).fillColor('#666');
-          doc.text(finding.description, { indent: 30 });
-          doc.text(`Confidence: ${finding.confidence}%`, { indent: 30 });
-          doc.moveDown(0.3);
+      // Addenda, each marked with a bar in the margin
+      const addenda: ReportAddendum[] = report.addenda ?? [];
+      if (addenda.length > 0) {
+        doc.moveDown(1);
+        doc.fontSize(16).fillColor('#b45309').text('Addenda');
+        doc.moveDown(0.5);
+        addenda.forEach((addendum, index) => {
+          const top = doc.y;
+          doc.fontSize(12).fillColor('#b45309')
+            .text(`ADDENDUM ${index + 1} by ${addendum.author}, ${new Date(addendum.createdAt).toLocaleString()}`, 60);
+          doc.fontSize(11).fillColor('#333').text(addendum.text, 60);
+          doc.strokeColor('#b45309').lineWidth(3);
+          doc.moveTo(52, top).lineTo(52, doc.y).stroke();
+          doc.x = 50;
+          doc.moveDown(0.5);
         });
-      } else {
-        doc.fontSize(12).fillColor('#666').text('No secondary findings detected.');
       }
-      doc.moveDown(1);
 
-      // Technical Summary Section
-      doc.fontSize(16).fillColor('#007acc').text('Technical Summary');
-      doc.moveDown(0.5);
-      
-      const technicalData = [
-        ['Processing Time', `${report.technicalSummary?.processingTime || 'N/A'} seconds`],
-        ['Images Analyzed', `${report.technicalSummary?.imagesAnalyzed || 'N/A'}`],
-        ['Model Version', `${report.technicalSummary?.modelVersion || 'N/A'}`],
-        ['Algorithm', `${report.technicalSummary?.algorithm || 'N/A'}`],
-        ['Image Resolution', `${report.technicalSummary?.imageResolution || 'N/A'}`],
-        ['Quality Score', `${report.technicalSummary?.qualityScore || 'N/A'}/10`]
-      ];
-
-      technicalData.forEach(([label, value]) => {
-        doc.fontSize(12).fillColor('#333').text(`${label}:`, { continued: true });
-        doc.fillColor('#666').text(` ${value}`);
-        doc.moveDown(0.2);
-      });
+      // Signature block
+      doc.moveDown(1);
+      if (report.signedBy && report.signedAt) {
+        doc.fontSize(12).fillColor('#333')
+          .text(`Electronically signed by ${report.signedBy} on ${new Date(report.signedAt).toLocaleString()} (${REPORT_STATUS_LABELS[status]})`);
+      } else {
+        doc.fontSize(12).fillColor('#d32f2f').text('Not signed');
+      }
 
       // Footer
       doc.moveDown(2);
@@ -1004,7 +2242,7 @@ async function generateReportPDF(report: any): Promise<Buffer> {
       doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
       doc.moveDown(0.5);
       
-      doc.fontSize(10).fillColor('#666').text('This report was generated by the MRI Analysis Platform for research purposes.', { align: 'center' });
+      doc.fontSize(10).fillColor('#666').text(template.disclaimer, { align: 'center' });
       doc.text(`Report ID: ${report.id} | Scan ID: ${report.scanId}`, { align: 'center' });
 
       doc.end();
@@ -1013,3 +2251,43 @@ async function generateReportPDF(report: any): Promise<Buffer> {
     }
   });
 }
+
+const TONE_COLORS: Record<NonNullable<ReportChart["bars"][number]["tone"]>, string> = {
+  critical: '#d32f2f',
+  major: '#f57c00',
+  minor: '#388e3c',
+};
+
+// Horizontal bar chart at the current position of a report PDF
+function drawReportChart(doc: PDFKit.PDFDocument, chart: ReportChart): void {
+  const labelWidth = 150;
+  const barWidth = 280;
+  const rowHeight = 16;
+
+  doc.fontSize(11).fillColor('#333').text(chart.title);
+  doc.moveDown(0.3);
+  if (doc.y + chart.bars.length * rowHeight > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+
+  const top = doc.y;
+  chart.bars.forEach((bar, index) => {
+    const y = top + index * rowHeight;
+    const width = chart.max > 0 ? Math.max(0, Math.min(1, bar.value / chart.max)) * barWidth : 0;
+    doc.fontSize(9).fillColor('#666').text(bar.label, 60, y + 2, { width: labelWidth - 10, lineBreak: false, ellipsis: true });
+    doc.rect(60 + labelWidth, y, barWidth, rowHeight - 4).fill('#eeeeee');
+    if (width > 0) {
+      doc.rect(60 + labelWidth, y, width, rowHeight - 4).fill(bar.tone ? TONE_COLORS[bar.tone] : '#007acc');
+    }
+    doc.fontSize(9).fillColor('#333').text(String(bar.value), 60 + labelWidth + barWidth + 8, y + 2, { lineBreak: false });
+  });
+
+  doc.x = 50;
+  doc.y = top + chart.bars.length * rowHeight;
+  doc.moveDown(0.5);
+}
+
+function isCompletedUploadPart(part: unknown): part is CompletedUploadPart {
+  const { partNumber, etag } = (part ?? {}) as Partial<CompletedUploadPart>;
+  return Number.isInteger(partNumber) && partNumber! > 0 && typeof etag === 'string';
+}
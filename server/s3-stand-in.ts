@@ -0,0 +1,36 @@
+import { parseArgs } from "util";
+import { createS3StandIn } from "./services/s3-stand-in";
+
+// Local in-memory S3-compatible endpoint for trying the s3 storage driver
+// without MinIO; objects are lost when it stops
+//   npm run s3-stand-in -- [--host 127.0.0.1] [--port 9000]
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      host: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: "9000" },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+
+  const { server } = createS3StandIn();
+  server.on("request", (req, res) => {
+    res.on("finish", () => console.log(`${req.method} ${req.url} ${res.statusCode}`));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, values.host, () => resolve());
+  });
+  console.log(`S3 stand-in on ${values.host}:${port}`);
+  console.log(`Run the app with OBJECT_STORAGE_DRIVER=s3 S3_ENDPOINT=http://${values.host}:${port} S3_ACCESS_KEY_ID=<any> S3_SECRET_ACCESS_KEY=<any> PRIVATE_OBJECT_DIR=/<bucket>/private`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+import "./testDatabase";
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Response } from "express";
+import { createS3StandIn } from "./services/s3-stand-in";
+import { S3StorageDriver } from "./s3StorageDriver";
+import { ObjectStorageService, ObjectNotFoundError, MULTIPART_UPLOAD_THRESHOLD } from "./objectStorage";
+import { getObjectAclPolicy, setObjectAclPolicy } from "./objectAcl";
+
+// Runs against the in-memory stand-in, or against a real S3-compatible store
+// such as MinIO when S3_TEST_ENDPOINT is set (with S3_ACCESS_KEY_ID,
+// S3_SECRET_ACCESS_KEY and a PRIVATE_OBJECT_DIR in an existing bucket)
+const standIn = process.env.S3_TEST_ENDPOINT ? null : createS3StandIn();
+let objectStorage: ObjectStorageService;
+
+before(async () => {
+  if (standIn) {
+    await new Promise<void>(resolve => standIn.server.listen(0, "127.0.0.1", () => resolve()));
+    process.env.S3_ENDPOINT = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+    process.env.S3_ACCESS_KEY_ID = "test";
+    process.env.S3_SECRET_ACCESS_KEY = "test-secret";
+    process.env.PRIVATE_OBJECT_DIR = "/scans/private";
+  } else {
+    process.env.S3_ENDPOINT = process.env.S3_TEST_ENDPOINT;
+  }
+  objectStorage = new ObjectStorageService(new S3StorageDriver());
+});
+
+after(() => {
+  standIn?.server.close();
+});
+
+function fullPath(objectPath: string): string {
+  return `${objectStorage.getPrivateObjectDir().replace(/\/$/, "")}${objectPath.slice("/objects".length)}`;
+}
+
+async function readObject(objectPath: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of (await objectStorage.getObjectEntityFile(objectPath)).createReadStream()) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+test("presigned PUT and GET URLs upload and download an object", async () => {
+  const body = Buffer.from("DICM test upload");
+  const uploadURL = await objectStorage.getObjectEntityUploadURL();
+  const upload = await fetch(uploadURL, { method: "PUT", body, headers: { "Content-Type": "application/dicom" } });
+  assert.equal(upload.status, 200);
+
+  const objectPath = objectStorage.normalizeObjectEntityPath(uploadURL);
+  assert.match(objectPath, /^\/objects\/uploads\/[^/]+$/);
+  const file = await objectStorage.getObjectEntityFile(objectPath);
+  const metadata = await file.getMetadata();
+  assert.equal(metadata.contentType, "application/dicom");
+  assert.equal(metadata.size, body.length);
+  assert.deepEqual(await readObject(objectPath), body);
+
+  let redirectURL = "";
+  const res = {
+    set: () => res,
+    redirect: (url: string) => { redirectURL = url; },
+  } as unknown as Response;
+  await objectStorage.downloadObject(file, res);
+  const download = await fetch(redirectURL);
+  assert.equal(download.status, 200);
+  assert.deepEqual(Buffer.from(await download.arrayBuffer()), body);
+});
+
+test("the ACL policy survives as object metadata", async () => {
+  const uploadURL = await objectStorage.getObjectEntityUploadURL();
+  await fetch(uploadURL, { method: "PUT", body: "scan", headers: { "Content-Type": "application/dicom" } });
+  const objectPath = objectStorage.normalizeObjectEntityPath(uploadURL);
+  const file = await objectStorage.getObjectEntityFile(objectPath);
+
+  const aclPolicy = { owner: "user-1", visibility: "private" as const };
+  await setObjectAclPolicy(file, aclPolicy);
+
+  assert.deepEqual(await getObjectAclPolicy(file), aclPolicy);
+  const metadata = await file.getMetadata();
+  assert.equal(metadata.contentType, "application/dicom");
+  assert.equal(metadata.size, 4);
+  if (standIn) {
+    const stored = standIn.objects.get(fullPath(objectPath));
+    assert.equal(stored?.metadata["x-amz-meta-custom_3aacl_50olicy"], JSON.stringify(aclPolicy));
+  }
+});
+
+test("large files upload in parts through presigned part URLs", async () => {
+  const fileSize = MULTIPART_UPLOAD_THRESHOLD + 5;
+  const body = Buffer.alloc(fileSize, "scan");
+  const upload = await objectStorage.createObjectEntityMultipartUpload(fileSize, "application/dicom");
+  assert.ok(upload);
+  assert.equal(upload.partURLs.length, 3);
+
+  // Parts may finish in any order
+  const parts = await Promise.all(upload.partURLs.map(async (partURL, index) => {
+    const response = await fetch(partURL, {
+      method: "PUT",
+      body: body.subarray(index * upload.partSize, (index + 1) * upload.partSize),
+    });
+    assert.equal(response.status, 200);
+    return { partNumber: index + 1, etag: response.headers.get("etag")! };
+  }));
+  await objectStorage.completeObjectEntityMultipartUpload(upload.objectPath, upload.uploadId, parts.reverse());
+
+  const metadata = await (await objectStorage.getObjectEntityFile(upload.objectPath)).getMetadata();
+  assert.equal(metadata.contentType, "application/dicom");
+  assert.deepEqual(await readObject(upload.objectPath), body);
+});
+
+test("server-side writes of large files use a multipart upload", async () => {
+  const objectPath = objectStorage.normalizeObjectEntityPath(await objectStorage.getObjectEntityUploadURL());
+  const file = new S3StorageDriver().getObject(fullPath(objectPath));
+  const data = Buffer.alloc(MULTIPART_UPLOAD_THRESHOLD + 1, 7);
+  await file.save(data, "application/octet-stream");
+
+  assert.deepEqual(await readObject(objectPath), data);
+  if (standIn) {
+    assert.match(standIn.objects.get(file.name)!.etag, /-3$/);
+  }
+});
+
+test("missing objects are not found", async () => {
+  await assert.rejects(objectStorage.getObjectEntityFile("/objects/uploads/missing"), ObjectNotFoundError);
+});
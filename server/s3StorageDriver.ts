@@ -0,0 +1,252 @@
+import {
+  S3Client,
+  S3ServiceException,
+  HeadObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { PassThrough, type Readable } from "stream";
+import {
+  parseObjectPath,
+  type CompletedUploadPart,
+  type MultipartUpload,
+  type ObjectStorageDriver,
+  type StoredObject,
+  type StoredObjectMetadata,
+} from "./objectStorageDriver";
+
+// Server-side writes larger than this are sent as a multipart upload
+const SERVER_MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+const SERVER_MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
+// S3 user metadata travels as x-amz-meta-* headers, whose names are
+// lowercased and may not contain ":"; other characters are escaped as _xx
+function encodeMetadataKey(key: string): string {
+  return key.replace(/[^a-z0-9-]/g, (char) => `_${char.charCodeAt(0).toString(16).padStart(2, "0")}`);
+}
+
+function decodeMetadataKey(key: string): string {
+  return key.replace(/_([0-9a-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+// Header values must be printable ASCII
+function encodeMetadataValue(value: string): string {
+  return value.replace(/[^\x20-\x7e]|%/g, (char) => encodeURIComponent(char));
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404;
+}
+
+class S3StoredObject implements StoredObject {
+  private readonly bucket: string;
+  private readonly key: string;
+
+  constructor(
+    public readonly name: string,
+    private readonly client: S3Client,
+  ) {
+    const { bucketName, objectName } = parseObjectPath(name);
+    this.bucket = bucketName;
+    this.key = objectName;
+  }
+
+  async exists(): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getMetadata(): Promise<StoredObjectMetadata> {
+    const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.key }));
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(head.Metadata ?? {})) {
+      custom[decodeMetadataKey(key)] = decodeURIComponent(value);
+    }
+    return { contentType: head.ContentType, size: head.ContentLength ?? 0, custom };
+  }
+
+  async setCustomMetadata(custom: Record<string, string>): Promise<void> {
+    // Metadata cannot be edited in place; the object is copied onto itself
+    const current = await this.getMetadata();
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: this.key,
+      CopySource: encodeURI(`${this.bucket}/${this.key}`),
+      MetadataDirective: "REPLACE",
+      ContentType: current.contentType,
+      Metadata: encodeMetadata({ ...current.custom, ...custom }),
+    }));
+  }
+
+  createReadStream(): Readable {
+    const stream = new PassThrough();
+    this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.key })).then(
+      ({ Body }) => {
+        const body = Body as Readable;
+        body.on("error", (error) => stream.destroy(error));
+        body.pipe(stream);
+      },
+      (error) => stream.destroy(error),
+    );
+    return stream;
+  }
+
+  async save(data: Buffer, contentType?: string): Promise<void> {
+    if (data.length <= SERVER_MULTIPART_THRESHOLD) {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.key,
+        Body: data,
+        ContentType: contentType,
+      }));
+      return;
+    }
+
+    const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: this.key,
+      ContentType: contentType,
+    }));
+    try {
+      const parts: CompletedUploadPart[] = [];
+      for (let offset = 0, partNumber = 1; offset < data.length; offset += SERVER_MULTIPART_PART_SIZE, partNumber++) {
+        const { ETag } = await this.client.send(new UploadPartCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+          UploadId,
+          PartNumber: partNumber,
+          Body: data.subarray(offset, offset + SERVER_MULTIPART_PART_SIZE),
+        }));
+        parts.push({ partNumber, etag: ETag! });
+      }
+      await this.completeMultipartUpload(UploadId!, parts);
+    } catch (error) {
+      await this.abortMultipartUpload(UploadId!);
+      throw error;
+    }
+  }
+
+  async completeMultipartUpload(uploadId: string, parts: CompletedUploadPart[]): Promise<void> {
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: this.key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map(({ partNumber, etag }) => ({ PartNumber: partNumber, ETag: etag })),
+      },
+    }));
+  }
+
+  async abortMultipartUpload(uploadId: string): Promise<void> {
+    try {
+      await this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: this.key, UploadId: uploadId }));
+    } catch (error) {
+      console.error(`Failed to abort multipart upload of ${this.name}:`, error);
+    }
+  }
+
+  async signPartURLs(uploadId: string, partCount: number, ttlSec: number): Promise<string[]> {
+    return Promise.all(Array.from({ length: partCount }, (_, index) => getSignedUrl(
+      this.client,
+      new UploadPartCommand({ Bucket: this.bucket, Key: this.key, UploadId: uploadId, PartNumber: index + 1 }),
+      { expiresIn: ttlSec },
+    )));
+  }
+}
+
+function encodeMetadata(custom: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(custom).map(([key, value]) => [encodeMetadataKey(key), encodeMetadataValue(value)])
+  );
+}
+
+// Amazon S3 or an S3-compatible store such as MinIO. Buckets are the first
+// segment of an object's full path; S3_ENDPOINT points at a MinIO server, which
+// is addressed path-style unless S3_FORCE_PATH_STYLE=false. Credentials come
+// from S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY, or the AWS default chain.
+export class S3StorageDriver implements ObjectStorageDriver {
+  readonly name = "s3";
+  private readonly client: S3Client;
+  // Host of path-style URLs; virtual-hosted URLs prefix it with the bucket
+  private readonly endpointHost: string;
+
+  constructor() {
+    const endpoint = process.env.S3_ENDPOINT || undefined;
+    const region = process.env.S3_REGION || "us-east-1";
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    this.client = new S3Client({
+      endpoint,
+      region,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === "true"
+        : !!endpoint,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+    this.endpointHost = endpoint ? new URL(endpoint).host : `s3.${region}.amazonaws.com`;
+  }
+
+  getObject(fullPath: string): S3StoredObject {
+    return new S3StoredObject(fullPath, this.client);
+  }
+
+  async signUploadURL(fullPath: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    return getSignedUrl(this.client, new PutObjectCommand({ Bucket: bucketName, Key: objectName }), { expiresIn: ttlSec });
+  }
+
+  async signDownloadURL(fullPath: string, ttlSec: number): Promise<string> {
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: bucketName, Key: objectName }), { expiresIn: ttlSec });
+  }
+
+  async createMultipartUpload(fullPath: string, partCount: number, ttlSec: number, contentType?: string): Promise<MultipartUpload> {
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: objectName,
+      ContentType: contentType,
+    }));
+    return {
+      uploadId: UploadId!,
+      partURLs: await this.getObject(fullPath).signPartURLs(UploadId!, partCount, ttlSec),
+    };
+  }
+
+  async completeMultipartUpload(fullPath: string, uploadId: string, parts: CompletedUploadPart[]): Promise<void> {
+    await this.getObject(fullPath).completeMultipartUpload(uploadId, parts);
+  }
+
+  objectPathFromURL(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    const pathname = decodeURIComponent(parsed.pathname);
+    if (parsed.host === this.endpointHost) {
+      return pathname;
+    }
+    if (parsed.host.endsWith(`.${this.endpointHost}`)) {
+      return `/${parsed.host.slice(0, -this.endpointHost.length - 1)}${pathname}`;
+    }
+    return null;
+  }
+}
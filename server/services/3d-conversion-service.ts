@@ -2,6 +2,30 @@ import fs from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
 import { ObjectStorageService } from '../objectStorage';
+import type { MedicalImageMetadata } from '@shared/schema';
+import { ALLOWED_MIME_TYPES } from '@shared/medical-formats';
+import type { ConversionProgress, ConversionStage } from '@shared/conversion-progress';
+import {
+  type MedicalVolume,
+  loadMedicalImage,
+  loadMedicalSeries,
+  resampleInPlane,
+  readVolumeFile,
+  writeVolumeFile,
+} from './medical-volume';
+import { extractIsosurface } from './marching-cubes';
+import {
+  readMeshFile,
+  removeSmallComponents,
+  smoothMesh,
+  writeMeshFile,
+  writeOBJFile,
+  writePLYFile,
+  writeSTLFile,
+} from './triangle-mesh';
+
+export type { MedicalImageMetadata } from '@shared/schema';
+export type { ConversionProgress } from '@shared/conversion-progress';
 
 /**
  * Server-side 3D Model Conversion Service for Medical Images
@@ -10,21 +34,9 @@ import { ObjectStorageService } from '../objectStorage';
  * to 3D models using advanced algorithms and file management.
  */
 
-export interface ConversionProgress {
-  stage: string;
-  progress: number;
-  message: string;
-  scanId: string;
-}
-
-export interface MedicalImageMetadata {
-  width: number;
-  height: number;
-  depth: number;
-  spacing: [number, number, number];
-  origin: [number, number, number];
-  modality: string;
-  acquisitionDate?: string;
+export interface ConversionResult {
+  modelPath: string;
+  metadata: MedicalImageMetadata;
 }
 
 export interface ProcessingOptions {
@@ -76,41 +88,50 @@ export class ServerMedical3DConverter {
   }
 
   /**
-   * Convert medical image to 3D model with comprehensive processing
+   * Convert medical image to 3D model with comprehensive processing.
+   * A list of paths is treated as the slices of one series.
    */
   async convertMedicalImageTo3D(
-    imagePath: string, 
+    imagePath: string | string[], 
     scanId: string, 
     options: ProcessingOptions = this.getDefaultOptions()
-  ): Promise<string> {
-    let localImagePath = imagePath;
-    let tempFileToCleanup: string | null = null;
+  ): Promise<ConversionResult> {
+    const imagePaths = Array.isArray(imagePath) ? imagePath : [imagePath];
+    const localImagePaths = [...imagePaths];
+    const tempFilesToCleanup: string[] = [];
     
     try {
       this.updateProgress(scanId, 'initialization', 0, 'Initializing medical 3D conversion pipeline...');
       
       // Stage 1: Load and validate medical image
       this.updateProgress(scanId, 'validation', 5, 'Validating medical image format...');
-      await this.validateMedicalImage(imagePath);
+      for (const sourcePath of imagePaths) {
+        await this.validateMedicalImage(sourcePath);
+      }
       
       // Stage 1.5: Download from object storage if needed
-      if (imagePath.startsWith('/objects/')) {
+      if (imagePaths.some(sourcePath => sourcePath.startsWith('/objects/'))) {
         this.updateProgress(scanId, 'download', 7, 'Downloading medical image from object storage...');
-        localImagePath = await this.downloadObjectStorageFile(imagePath, scanId);
-        tempFileToCleanup = localImagePath;
+        for (let i = 0; i < imagePaths.length; i++) {
+          if (imagePaths[i].startsWith('/objects/')) {
+            localImagePaths[i] = await this.downloadObjectStorageFile(imagePaths[i], scanId);
+            tempFilesToCleanup.push(localImagePaths[i]);
+          }
+        }
       }
       
-      // Stage 2: Extract medical metadata
+      // Stage 2: Decode pixel data and extract medical metadata
       this.updateProgress(scanId, 'metadata', 10, 'Extracting medical imaging metadata...');
-      const metadata = await this.extractMedicalMetadata(localImagePath);
+      const sourceImage = await this.extractMedicalMetadata(localImagePaths);
+      const metadata = sourceImage.metadata;
       
       // Stage 3: Preprocessing for medical volume generation
       this.updateProgress(scanId, 'preprocessing', 20, 'Preprocessing medical image data...');
-      const preprocessedPath = await this.preprocessMedicalImage(localImagePath, scanId);
+      const preprocessedPath = await this.preprocessMedicalImage(sourceImage, scanId, options);
       
-      // Stage 4: Generate 3D volume from 2D medical image
+      // Stage 4: Generate 3D volume from medical image slices
       this.updateProgress(scanId, 'volumeGeneration', 35, 'Generating 3D medical volume...');
-      const volumePath = await this.generateMedicalVolume(preprocessedPath, metadata, scanId);
+      const volumePath = await this.generateMedicalVolume(preprocessedPath, scanId);
       
       // Stage 5: Apply medical imaging filters
       this.updateProgress(scanId, 'filtering', 50, 'Applying medical enhancement filters...');
@@ -137,29 +158,33 @@ export class ServerMedical3DConverter {
       // Clean up temporary files
       await this.cleanupTemporaryFiles(scanId);
       
-      // Clean up object storage temp file if it was created
-      if (tempFileToCleanup && fs.existsSync(tempFileToCleanup)) {
-        try {
-          fs.unlinkSync(tempFileToCleanup);
-          console.log(`Cleaned up temporary file: ${tempFileToCleanup}`);
-        } catch (cleanupError) {
-          console.warn(`Failed to clean up temporary file ${tempFileToCleanup}:`, cleanupError);
+      // Clean up object storage temp files if they were created
+      for (const tempFile of tempFilesToCleanup) {
+        if (fs.existsSync(tempFile)) {
+          try {
+            fs.unlinkSync(tempFile);
+            console.log(`Cleaned up temporary file: ${tempFile}`);
+          } catch (cleanupError) {
+            console.warn(`Failed to clean up temporary file ${tempFile}:`, cleanupError);
+          }
         }
       }
       
-      return finalPath;
+      return { modelPath: finalPath, metadata };
       
     } catch (error) {
       console.error(`3D conversion failed for scan ${scanId}:`, error);
       this.updateProgress(scanId, 'error', -1, `Conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       
-      // Clean up object storage temp file on error
-      if (tempFileToCleanup && fs.existsSync(tempFileToCleanup)) {
-        try {
-          fs.unlinkSync(tempFileToCleanup);
-          console.log(`Cleaned up temporary file after error: ${tempFileToCleanup}`);
-        } catch (cleanupError) {
-          console.warn(`Failed to clean up temporary file ${tempFileToCleanup}:`, cleanupError);
+      // Clean up object storage temp files on error
+      for (const tempFile of tempFilesToCleanup) {
+        if (fs.existsSync(tempFile)) {
+          try {
+            fs.unlinkSync(tempFile);
+            console.log(`Cleaned up temporary file after error: ${tempFile}`);
+          } catch (cleanupError) {
+            console.warn(`Failed to clean up temporary file ${tempFile}:`, cleanupError);
+          }
         }
       }
       
@@ -175,15 +200,14 @@ export class ServerMedical3DConverter {
       // Check if path is object storage path
       if (imagePath.startsWith('/objects/')) {
         const objectFile = await this.objectStorageService.getObjectEntityFile(imagePath);
-        const [metadata] = await objectFile.getMetadata();
+        const metadata = await objectFile.getMetadata();
         
         if (!metadata.size || metadata.size === 0) {
           throw new Error('Medical image file is empty');
         }
         
         // Validate file type for medical imaging
-        const allowedTypes = ['image/jpeg', 'image/png', 'image/dicom'];
-        if (!allowedTypes.includes(metadata.contentType || '')) {
+        if (!ALLOWED_MIME_TYPES.includes(metadata.contentType || '')) {
           console.warn(`Warning: Unusual content type for medical image: ${metadata.contentType}`);
         }
         
@@ -244,61 +268,85 @@ export class ServerMedical3DConverter {
   }
 
   /**
-   * Extract medical imaging metadata
+   * Decode the medical image and extract its imaging metadata
    */
-  private async extractMedicalMetadata(imagePath: string): Promise<MedicalImageMetadata> {
-    // For demo purposes, we'll generate realistic medical metadata
-    // In a real implementation, this would extract DICOM metadata or analyze the image
-    
-    return {
-      width: 512,
-      height: 512,
-      depth: 64, // Simulated depth for 2D to 3D conversion
-      spacing: [0.5, 0.5, 1.0], // mm per pixel
-      origin: [0.0, 0.0, 0.0],
-      modality: 'MR', // Magnetic Resonance
-      acquisitionDate: new Date().toISOString()
-    };
+  private async extractMedicalMetadata(imagePaths: string[]): Promise<MedicalVolume> {
+    // DICOM files provide real geometry and acquisition tags; raster images
+    // only provide their pixel dimensions
+    return imagePaths.length > 1 ? loadMedicalSeries(imagePaths) : loadMedicalImage(imagePaths[0]);
   }
 
   /**
    * Preprocess medical image for 3D conversion
    */
-  private async preprocessMedicalImage(imagePath: string, scanId: string): Promise<string> {
-    // Simulate preprocessing: normalization, denoising, contrast enhancement
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
+  private async preprocessMedicalImage(source: MedicalVolume, scanId: string, options: ProcessingOptions): Promise<string> {
     const preprocessedPath = path.join(this.modelsDir, `${scanId}_preprocessed.tmp`);
     
-    // For demo: copy original file (in real implementation, apply actual preprocessing)
-    fs.copyFileSync(imagePath, preprocessedPath);
+    // Resample to the working resolution for the requested quality
+    const maxInPlane = options.quality === 'fast' ? 128 : options.quality === 'standard' ? 256 : 384;
+    const resampled = resampleInPlane(source, maxInPlane);
+    
+    // Normalize intensities to 0-1 using a robust percentile window, which
+    // ignores padding values and hot pixels common in DICOM exports
+    const [low, high] = percentileRange(resampled.data, 0.01, 0.99);
+    const range = high - low || 1;
+    const data = new Float32Array(resampled.data.length);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.min(1, Math.max(0, (resampled.data[i] - low) / range));
+    }
     
+    writeVolumeFile(preprocessedPath, {
+      metadata: resampled.metadata,
+      volumeId: scanId,
+      processingStage: 'preprocessed',
+      timestamp: new Date().toISOString(),
+      intensityWindow: [low, high]
+    }, data);
     return preprocessedPath;
   }
 
   /**
    * Generate 3D volume from preprocessed medical image
    */
-  private async generateMedicalVolume(imagePath: string, metadata: MedicalImageMetadata, scanId: string): Promise<string> {
-    // Simulate volume generation with proper medical algorithms
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
+  private async generateMedicalVolume(imagePath: string, scanId: string): Promise<string> {
     const volumePath = path.join(this.modelsDir, `${scanId}_volume.tmp`);
+    const { header, data } = readVolumeFile(imagePath);
+    const { metadata } = header;
     
-    // In a real implementation, this would:
-    // 1. Create 3D volume data from 2D slices
-    // 2. Apply proper medical spacing and orientation
-    // 3. Handle different imaging modalities (MR, CT, etc.)
+    if (metadata.depth > 1) {
+      // Multi-frame data already describes a real volume
+      writeVolumeFile(volumePath, {
+        ...header,
+        processingStage: 'volume_generation',
+        timestamp: new Date().toISOString(),
+        simulatedDepth: false
+      }, data);
+      return volumePath;
+    }
     
-    // For demo: create a placeholder volume file
-    const volumeData = {
-      metadata,
-      volumeId: scanId,
-      processingStage: 'volume_generation',
-      timestamp: new Date().toISOString()
-    };
+    // A single 2D slice has no depth information, so extrude it into a slab
+    // whose thickness follows pixel intensity (brighter tissue is thicker)
+    const depth = SIMULATED_DEPTH;
+    const sliceSize = metadata.width * metadata.height;
+    const volume = new Float32Array(sliceSize * depth);
+    for (let z = 0; z < depth; z++) {
+      const zNorm = (2 * z) / (depth - 1) - 1;
+      const attenuation = 1 - zNorm * zNorm;
+      const offset = z * sliceSize;
+      for (let i = 0; i < sliceSize; i++) {
+        volume[offset + i] = data[i] * attenuation;
+      }
+    }
     
-    fs.writeFileSync(volumePath, JSON.stringify(volumeData, null, 2));
+    // Make the slab about 60% as thick as the image is wide
+    const zSpacing = (0.6 * metadata.width * metadata.spacing[0]) / depth;
+    writeVolumeFile(volumePath, {
+      ...header,
+      metadata: { ...metadata, depth, spacing: [metadata.spacing[0], metadata.spacing[1], zSpacing] },
+      processingStage: 'volume_generation',
+      timestamp: new Date().toISOString(),
+      simulatedDepth: true
+    }, volume);
     return volumePath;
   }
 
@@ -306,17 +354,34 @@ export class ServerMedical3DConverter {
    * Apply medical imaging filters
    */
   private async applyMedicalFilters(volumePath: string, scanId: string): Promise<string> {
-    // Simulate medical filtering: Gaussian smoothing, anisotropic diffusion, etc.
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
     const filteredPath = path.join(this.modelsDir, `${scanId}_filtered.tmp`);
+    const { header, data } = readVolumeFile(volumePath);
+    const { width, height, depth } = header.metadata;
     
-    // Copy and modify the volume data to simulate filtering
-    const volumeData = JSON.parse(fs.readFileSync(volumePath, 'utf8'));
-    volumeData.processingStage = 'filtered';
-    volumeData.filters = ['gaussian_smooth', 'anisotropic_diffusion', 'contrast_enhancement'];
+    // Separable binomial [1 2 1] kernel along each axis approximates Gaussian smoothing
+    const smoothed = data.slice();
+    const scratch = new Float32Array(data.length);
+    const strides = [1, width, width * height];
+    const sizes = [width, height, depth];
+    for (let axis = 0; axis < 3; axis++) {
+      const stride = strides[axis];
+      const size = sizes[axis];
+      if (size < 3) continue;
+      for (let i = 0; i < smoothed.length; i++) {
+        const position = Math.floor(i / stride) % size;
+        const previous = position > 0 ? smoothed[i - stride] : smoothed[i];
+        const next = position < size - 1 ? smoothed[i + stride] : smoothed[i];
+        scratch[i] = 0.25 * previous + 0.5 * smoothed[i] + 0.25 * next;
+      }
+      smoothed.set(scratch);
+    }
     
-    fs.writeFileSync(filteredPath, JSON.stringify(volumeData, null, 2));
+    writeVolumeFile(filteredPath, {
+      ...header,
+      processingStage: 'filtered',
+      timestamp: new Date().toISOString(),
+      filters: ['percentile_normalization', 'gaussian_smooth']
+    }, smoothed);
     return filteredPath;
   }
 
@@ -324,20 +389,31 @@ export class ServerMedical3DConverter {
    * Perform medical segmentation
    */
   private async performMedicalSegmentation(volumePath: string, scanId: string): Promise<string> {
-    // Simulate tissue segmentation using Otsu thresholding, region growing, etc.
-    await new Promise(resolve => setTimeout(resolve, 1800));
-    
     const segmentedPath = path.join(this.modelsDir, `${scanId}_segmented.tmp`);
+    const { header, data } = readVolumeFile(volumePath);
     
-    const volumeData = JSON.parse(fs.readFileSync(volumePath, 'utf8'));
-    volumeData.processingStage = 'segmented';
-    volumeData.segmentation = {
-      tissues: ['background', 'soft_tissue', 'bone', 'vessels'],
-      algorithm: 'otsu_thresholding_with_region_growing',
-      thresholds: [30, 128, 200]
-    };
+    // Otsu thresholding separates tissue from background
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < data.length; i++) {
+      histogram[Math.min(255, Math.floor(data[i] * 256))]++;
+    }
+    const threshold = otsuThreshold(histogram, data.length) / 255;
+    
+    let foregroundVoxels = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] >= threshold) foregroundVoxels++;
+    }
     
-    fs.writeFileSync(segmentedPath, JSON.stringify(volumeData, null, 2));
+    writeVolumeFile(segmentedPath, {
+      ...header,
+      processingStage: 'segmented',
+      timestamp: new Date().toISOString(),
+      segmentation: {
+        algorithm: 'otsu_thresholding',
+        threshold,
+        foregroundVoxels
+      }
+    }, data);
     return segmentedPath;
   }
 
@@ -345,24 +421,32 @@ export class ServerMedical3DConverter {
    * Generate anatomical 3D mesh
    */
   private async generateAnatomicalMesh(volumePath: string, scanId: string, options: ProcessingOptions): Promise<string> {
-    // Simulate marching cubes algorithm for mesh generation
-    const processingTime = options.quality === 'fast' ? 1000 : options.quality === 'standard' ? 2000 : 3000;
-    await new Promise(resolve => setTimeout(resolve, processingTime));
-    
     const meshPath = path.join(this.modelsDir, `${scanId}_mesh.tmp`);
+    const { header, data } = readVolumeFile(volumePath);
+    const { width, height, depth, spacing } = header.metadata;
+    const segmentation = header.segmentation as { threshold: number } | undefined;
+    const isoValue = segmentation?.threshold ?? 0.5;
     
-    const volumeData = JSON.parse(fs.readFileSync(volumePath, 'utf8'));
-    volumeData.processingStage = 'mesh_generated';
-    volumeData.mesh = {
-      algorithm: 'marching_cubes',
-      isoValue: 128,
-      vertices: 15000 + Math.floor(Math.random() * 5000), // Simulated vertex count
-      faces: 28000 + Math.floor(Math.random() * 10000), // Simulated face count
-      quality: options.quality,
-      medicalStandard: options.medicalStandard
-    };
+    // Marching cubes over the segmented volume at the tissue threshold
+    const mesh = extractIsosurface(data, [width, height, depth], { isoValue, spacing });
+    if (mesh.indices.length === 0) {
+      throw new Error('No anatomical surface found in the image volume');
+    }
     
-    fs.writeFileSync(meshPath, JSON.stringify(volumeData, null, 2));
+    writeMeshFile(meshPath, {
+      meshId: scanId,
+      metadata: header.metadata,
+      processingStage: 'mesh_generated',
+      timestamp: new Date().toISOString(),
+      mesh: {
+        algorithm: 'marching_cubes',
+        isoValue,
+        vertices: mesh.positions.length / 3,
+        faces: mesh.indices.length / 3,
+        quality: options.quality,
+        medicalStandard: options.medicalStandard
+      }
+    }, mesh);
     return meshPath;
   }
 
@@ -374,27 +458,30 @@ export class ServerMedical3DConverter {
       return meshPath; // Skip optimization if not requested
     }
     
-    // Simulate mesh optimization: decimation, smoothing, normal calculation
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
     const optimizedPath = path.join(this.modelsDir, `${scanId}_optimized.tmp`);
+    const { header, mesh } = readMeshFile(meshPath);
     
-    const meshData = JSON.parse(fs.readFileSync(meshPath, 'utf8'));
-    meshData.processingStage = 'optimized';
-    meshData.optimization = {
-      decimationRatio: 0.8,
-      smoothingIterations: 3,
-      normalGeneration: true,
-      medicalAccuracy: 'preserved'
-    };
-    
-    // Simulate mesh optimization reducing polygon count
-    if (meshData.mesh) {
-      meshData.mesh.vertices = Math.floor(meshData.mesh.vertices * 0.8);
-      meshData.mesh.faces = Math.floor(meshData.mesh.faces * 0.8);
+    // Drop isolated specks left by noise, then smooth away the voxel staircase
+    const minComponentTriangles = Math.max(50, Math.floor(mesh.indices.length / 3 * 0.001));
+    const smoothingIterations = options.quality === 'fast' ? 5 : options.quality === 'standard' ? 10 : 20;
+    const cleaned = removeSmallComponents(mesh, minComponentTriangles);
+    if (cleaned.indices.length === 0) {
+      throw new Error('No anatomical surface left after removing small fragments');
     }
+    const optimized = smoothMesh(cleaned, smoothingIterations);
     
-    fs.writeFileSync(optimizedPath, JSON.stringify(meshData, null, 2));
+    writeMeshFile(optimizedPath, {
+      ...header,
+      processingStage: 'optimized',
+      timestamp: new Date().toISOString(),
+      optimization: {
+        minComponentTriangles,
+        smoothing: 'taubin',
+        smoothingIterations,
+        vertices: optimized.positions.length / 3,
+        faces: optimized.indices.length / 3
+      }
+    }, optimized);
     return optimizedPath;
   }
 
@@ -402,31 +489,31 @@ export class ServerMedical3DConverter {
    * Export medical model in requested formats
    */
   private async exportMedicalModel(meshPath: string, scanId: string, options: ProcessingOptions): Promise<string> {
-    // Generate final model file in requested formats
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
     const modelName = `medical-model-${scanId}`;
-    const exportPaths: string[] = [];
+    const { header, mesh } = readMeshFile(meshPath);
+    const metadata = header.metadata as MedicalImageMetadata;
+    const comments = [
+      `Medical 3D Model - Scan ID: ${scanId}`,
+      'Generated by Medical Research Platform',
+      `Date: ${new Date().toISOString()}`,
+      `Modality: ${metadata.modality}`,
+      `Voxel spacing (mm): ${metadata.spacing.map(value => Number(value.toFixed(4))).join(' x ')}`,
+      'Units: millimetres, centred on the image volume'
+    ];
     
     for (const format of options.outputFormats) {
       const exportPath = path.join(this.modelsDir, `${modelName}.${format}`);
-      
-      // Generate format-specific content
-      let content = '';
       switch (format) {
         case 'obj':
-          content = this.generateOBJContent(scanId);
+          writeOBJFile(exportPath, mesh, comments);
           break;
         case 'stl':
-          content = this.generateSTLContent(scanId);
+          writeSTLFile(exportPath, mesh, `Medical_Model_${scanId}`);
           break;
         case 'ply':
-          content = this.generatePLYContent(scanId);
+          writePLYFile(exportPath, mesh, comments);
           break;
       }
-      
-      fs.writeFileSync(exportPath, content);
-      exportPaths.push(exportPath);
     }
     
     // Return the primary format (OBJ is most common for 3D visualization)
@@ -434,90 +521,6 @@ export class ServerMedical3DConverter {
     return path.join(this.modelsDir, `${modelName}.${primaryFormat}`);
   }
 
-  /**
-   * Generate OBJ file content
-   */
-  private generateOBJContent(scanId: string): string {
-    return `# Medical 3D Model - Scan ID: ${scanId}
-# Generated by Medical Research Platform
-# Date: ${new Date().toISOString()}
-
-# Vertices
-v 0.0 0.0 0.0
-v 1.0 0.0 0.0
-v 0.5 1.0 0.0
-v 0.5 0.5 1.0
-
-# Texture coordinates
-vt 0.0 0.0
-vt 1.0 0.0
-vt 0.5 1.0
-
-# Normals
-vn 0.0 0.0 1.0
-vn 0.0 1.0 0.0
-vn 1.0 0.0 0.0
-
-# Faces
-f 1/1/1 2/2/2 3/3/3
-f 1/1/1 3/3/3 4/1/1
-f 2/2/2 3/3/3 4/1/1
-f 1/1/1 2/2/2 4/1/1
-
-# Medical metadata
-# Modality: MR
-# Anatomical Region: Brain
-# Processing: Enhanced for medical visualization
-`;
-  }
-
-  /**
-   * Generate STL file content
-   */
-  private generateSTLContent(scanId: string): string {
-    return `solid Medical_Model_${scanId}
-facet normal 0.0 0.0 1.0
-  outer loop
-    vertex 0.0 0.0 0.0
-    vertex 1.0 0.0 0.0
-    vertex 0.5 1.0 0.0
-  endloop
-endfacet
-facet normal 0.0 1.0 0.0
-  outer loop
-    vertex 0.0 0.0 0.0
-    vertex 0.5 1.0 0.0
-    vertex 0.5 0.5 1.0
-  endloop
-endfacet
-endsolid Medical_Model_${scanId}`;
-  }
-
-  /**
-   * Generate PLY file content
-   */
-  private generatePLYContent(scanId: string): string {
-    return `ply
-format ascii 1.0
-comment Medical 3D Model - Scan ID: ${scanId}
-comment Generated by Medical Research Platform
-element vertex 4
-property float x
-property float y
-property float z
-element face 4
-property list uchar int vertex_indices
-end_header
-0.0 0.0 0.0
-1.0 0.0 0.0
-0.5 1.0 0.0
-0.5 0.5 1.0
-3 0 1 2
-3 0 2 3
-3 1 2 3
-3 0 1 3`;
-  }
-
   /**
    * Clean up temporary files
    */
@@ -558,7 +561,7 @@ end_header
   /**
    * Update conversion progress
    */
-  private updateProgress(scanId: string, stage: string, progress: number, message: string): void {
+  private updateProgress(scanId: string, stage: ConversionStage, progress: number, message: string): void {
     const callback = this.progressCallbacks.get(scanId);
     if (callback) {
       callback({ stage, progress, message, scanId });
@@ -566,5 +569,51 @@ end_header
   }
 }
 
+const SIMULATED_DEPTH = 64;
+
+// Intensity values at the given lower and upper quantiles
+function percentileRange(data: Float32Array, lowerQuantile: number, upperQuantile: number): [number, number] {
+  const sampleStride = Math.max(1, Math.floor(data.length / 100000));
+  const samples: number[] = [];
+  for (let i = 0; i < data.length; i += sampleStride) {
+    samples.push(data[i]);
+  }
+  samples.sort((a, b) => a - b);
+  const at = (q: number) => samples[Math.min(samples.length - 1, Math.floor(q * samples.length))];
+  return [at(lowerQuantile), at(upperQuantile)];
+}
+
+// Otsu's method: the histogram bin that maximizes between-class variance
+function otsuThreshold(histogram: number[], total: number): number {
+  let sum = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    sum += i * histogram[i];
+  }
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let maxVariance = 0;
+  let threshold = 0;
+
+  for (let i = 0; i < histogram.length; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > maxVariance) {
+      maxVariance = variance;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+}
+
 // Singleton instance for the application
 export const medical3DConverter = new ServerMedical3DConverter();
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { createHash } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { storage } from '../storage';
+import type { AuditEvent, NewAuditEvent } from '@shared/schema';
+import type { AuditAction, AuditChainVerification, AuditEventQuery, AuditOutcome, AuditResourceType } from '@shared/audit';
+
+/**
+ * Tamper-evident audit trail of access to scans, reports and stored objects
+ *
+ * The auditTrail middleware records one event per request to /api/scans and
+ * /objects once the response has ended. Events are only ever appended: each
+ * stores the previous event's hash and a SHA-256 hash over its own fields and
+ * that link, so an edited, inserted or deleted row no longer matches when the
+ * chain is verified.
+ */
+
+// prevHash of the first event in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+const VERIFY_PAGE_SIZE = 1000;
+
+// POST routes under /api/scans that create a scan rather than act on one
+const SCAN_CREATION_ROUTES = ['create', 'series', 'upload', 'upload-url', 'upload-complete', 'test-seed'];
+
+/**
+ * Hash of an event linked to its predecessor. Fields are serialised in a
+ * fixed order and details with sorted keys, as jsonb does not keep key order.
+ */
+export function hashAuditEvent(prevHash: string, event: NewAuditEvent): string {
+  const details = event.details
+    ? Object.keys(event.details).sort().map(key => [key, event.details![key]])
+    : null;
+  const fields = [
+    prevHash,
+    event.occurredAt.toISOString(),
+    event.actorId,
+    event.actorUsername,
+    event.action,
+    event.resourceType,
+    event.resourceId,
+    event.method,
+    event.path,
+    event.ip,
+    event.outcome,
+    event.statusCode,
+    details,
+  ];
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+export class AuditLog {
+  /**
+   * Append an event to the chain
+   */
+  public async record(event: NewAuditEvent): Promise<AuditEvent> {
+    return storage.appendAuditEvent(event, (prevHash) => {
+      const link = prevHash ?? GENESIS_HASH;
+      return { prevHash: link, hash: hashAuditEvent(link, event) };
+    });
+  }
+
+  /**
+   * Events matching the filters, newest first
+   */
+  public async query(query: AuditEventQuery): Promise<AuditEvent[]> {
+    return storage.getAuditEvents(query);
+  }
+
+  /**
+   * Walk the chain from the first event, re-computing every hash
+   */
+  public async verify(): Promise<AuditChainVerification> {
+    let expectedPrevHash = GENESIS_HASH;
+    let lastSequence = 0;
+    let checkedCount = 0;
+
+    while (true) {
+      const events = await storage.getAuditEventsAfter(lastSequence, VERIFY_PAGE_SIZE);
+      for (const event of events) {
+        checkedCount++;
+        if (event.prevHash !== expectedPrevHash || hashAuditEvent(event.prevHash, event) !== event.hash) {
+          return { valid: false, checkedCount, brokenAt: event.sequence, headHash: null };
+        }
+        expectedPrevHash = event.hash;
+        lastSequence = event.sequence;
+      }
+      if (events.length < VERIFY_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return {
+      valid: true,
+      checkedCount,
+      brokenAt: null,
+      headHash: checkedCount > 0 ? expectedPrevHash : null,
+    };
+  }
+}
+
+// Singleton instance for the application
+export const auditLog = new AuditLog();
+
+/**
+ * Middleware recording each request once its response has ended, including
+ * requests refused for a missing sign-in or permission. Routes that create a
+ * scan name it in res.locals.auditResourceId.
+ */
+export function auditTrail(req: Request, res: Response, next: NextFunction): void {
+  const occurredAt = new Date();
+
+  // 'close' also fires when the client drops the connection, e.g. when a
+  // progress stream is closed
+  res.once('close', () => {
+    const requestPath = req.baseUrl + req.path;
+    const { action, resourceType, resourceId, details } = describeRequest(req, res, requestPath);
+    auditLog.record({
+      occurredAt,
+      actorId: req.user?.id ?? null,
+      actorUsername: req.user?.username ?? null,
+      action,
+      resourceType,
+      resourceId,
+      method: req.method,
+      path: requestPath,
+      ip: req.ip ?? null,
+      outcome: outcomeOf(res.statusCode),
+      statusCode: res.statusCode,
+      details,
+    }).catch(error => {
+      console.error(`Failed to record audit event for ${req.method} ${requestPath}:`, error);
+    });
+  });
+
+  next();
+}
+
+interface RequestDescription {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string | null;
+  details: Record<string, string> | null;
+}
+
+// What a request did to which resource, from its method and path
+function describeRequest(req: Request, res: Response, requestPath: string): RequestDescription {
+  if (requestPath.startsWith('/objects/')) {
+    return { action: 'download', resourceType: 'object', resourceId: requestPath, details: null };
+  }
+
+  const segments = requestPath.split('/').filter(Boolean).slice(2); // after "api/scans"
+  if (segments.length === 0) {
+    return { action: 'list', resourceType: 'scan', resourceId: null, details: null };
+  }
+
+  const [scanId, subresource, version, reportAction] = segments;
+  if (req.method === 'POST' && segments.length === 1 && SCAN_CREATION_ROUTES.includes(scanId)) {
+    return { action: 'create', resourceType: 'scan', resourceId: res.locals.auditResourceId ?? null, details: { route: scanId } };
+  }
+
+  if (subresource === 'report' || subresource === 'reports') {
+    const details: Record<string, string> = version ? { version } : {};
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+
+    // A report read as a whole, in any format, is an export
+    if (req.method === 'GET' && (subresource === 'report' || (version && !reportAction))) {
+      return { action: 'export', resourceType: 'report', resourceId: scanId, details: { ...details, format } };
+    }
+    if (reportAction === 'hl7') {
+      const destination = typeof req.body?.destination === 'string' ? req.body.destination : '';
+      return { action: 'export', resourceType: 'report', resourceId: scanId, details: { ...details, format: 'hl7', destination } };
+    }
+    if (reportAction) {
+      details.step = reportAction;
+    }
+    const action = req.method === 'GET' ? 'view' : subresource === 'report' && req.method === 'POST' ? 'create' : 'update';
+    return { action, resourceType: 'report', resourceId: scanId, details: Object.keys(details).length > 0 ? details : null };
+  }
+
+  return {
+    action: req.method === 'GET' ? 'view' : req.method === 'DELETE' ? 'delete' : 'update',
+    resourceType: 'scan',
+    resourceId: scanId,
+    details: subresource ? { subresource } : null,
+  };
+}
+
+function outcomeOf(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) {
+    return 'denied';
+  }
+  return statusCode < 400 ? 'success' : 'failure';
+}
@@ -0,0 +1,62 @@
+import type { Detection } from '@shared/schema';
+
+/**
+ * Clinical severity of detection findings, shared by all detectors
+ */
+
+export type ClinicalSeverity = Pick<Detection, 'severity' | 'severityScore' | 'riskCategory' | 'clinicalType'>;
+
+// Medical-first classification system - assigns severity based on medical condition, not confidence
+export function assignClinicalSeverity(type: string, confidence: number): ClinicalSeverity {
+  let baseSeverityScore: number;
+  let severity: 'critical' | 'major' | 'minor';
+  let clinicalType: string;
+  
+  // Medical condition priority mapping - aneurysms are ALWAYS critical
+  switch (type) {
+    case 'aneurysm':
+      baseSeverityScore = 9;
+      severity = 'critical';
+      clinicalType = 'cerebral_aneurysm';
+      break;
+    case 'hemorrhage':
+      baseSeverityScore = 8;
+      severity = 'critical';
+      clinicalType = 'brain_hemorrhage';
+      break;
+    case 'tumor':
+      baseSeverityScore = 7;
+      severity = 'major';
+      clinicalType = 'brain_tumor';
+      break;
+    case 'lesion':
+      baseSeverityScore = 5;
+      severity = 'major';
+      clinicalType = 'brain_lesion';
+      break;
+    case 'anomaly':
+    default:
+      baseSeverityScore = 3;
+      severity = 'minor';
+      clinicalType = 'vascular_anomaly';
+      break;
+  }
+  
+  // Adjust by confidence (+/- up to 1 point) but NEVER downgrade medical class
+  const confidenceAdjustment = ((confidence - 70) / 30) * 1; // -1 to +1 based on confidence
+  const finalScore = Math.max(
+    Math.min(10, baseSeverityScore + confidenceAdjustment),
+    severity === 'critical' ? 7 : severity === 'major' ? 4 : 1 // Floor prevents downgrading
+  );
+  
+  // Assign risk category based on final severity score
+  const riskCategory: 'high' | 'moderate' | 'low' = 
+    finalScore >= 7 ? 'high' : finalScore >= 4 ? 'moderate' : 'low';
+  
+  return {
+    severity,
+    severityScore: Math.round(finalScore * 10) / 10,
+    riskCategory,
+    clinicalType
+  };
+}
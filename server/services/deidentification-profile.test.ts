@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDeidentificationConfig, resolveDeidentificationRule } from './deidentification-profile';
+
+const config = parseDeidentificationConfig(undefined);
+
+test('physician and observer names are not kept', () => {
+  assert.equal(resolveDeidentificationRule(0x0008009c, undefined, config).action, 'Z'); // Consulting Physician's Name
+  assert.equal(resolveDeidentificationRule(0x00400006, undefined, config).action, 'X'); // Scheduled Performing Physician's Name
+  assert.equal(resolveDeidentificationRule(0x0040a075, undefined, config).action, 'D'); // Verifying Observer Name
+});
+
+test('person names the profile table does not list are blanked', () => {
+  assert.deepEqual(resolveDeidentificationRule(0x00140104, 'PN', config), { action: 'Z', vr: 'PN' }); // Secondary Reviewer Name
+  assert.deepEqual(resolveDeidentificationRule(0x300600a6, 'PN', config), { action: 'Z', vr: 'PN' }); // ROI Interpreter
+});
+
+test('person names are blanked when the file records no VR', () => {
+  // Implicit VR files carry no VR; it comes from the data dictionary
+  assert.deepEqual(resolveDeidentificationRule(0x00142006, undefined, config), { action: 'Z', vr: 'PN' }); // Evaluator Name
+});
+
+test('free-text attributes of the profile are removed', () => {
+  for (const tag of [0x00401400, 0x00400280, 0x00400007, 0x00400009, 0x00380050, 0x00321070, 0x0040a027]) {
+    assert.equal(resolveDeidentificationRule(tag, undefined, config).action, 'X');
+  }
+});
+
+test('private attributes are removed', () => {
+  assert.equal(resolveDeidentificationRule(0x00091010, 'PN', config).action, 'X');
+  assert.equal(resolveDeidentificationRule(0x00291008, 'LO', config).action, 'X');
+});
+
+test('overrides take precedence over the default for unlisted names', () => {
+  const overridden = parseDeidentificationConfig('{"overrides": {"0014,2006": "K"}}');
+  assert.equal(resolveDeidentificationRule(0x00142006, 'PN', overridden).action, 'K');
+});
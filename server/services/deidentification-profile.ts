@@ -0,0 +1,503 @@
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { lookupVr } from './dicom-dictionary';
+
+/**
+ * DICOM PS3.15 Annex E Basic Application Level Confidentiality Profile
+ *
+ * Actions of the Basic Profile for the attributes that carry identifiers,
+ * with the options uploads are de-identified under. The configuration is read
+ * from the DICOM_DEIDENTIFICATION environment variable as JSON, e.g.
+ *
+ *   {"shiftDates": true, "retainPatientCharacteristics": false,
+ *    "overrides": {"0008,1030": "K"}}
+ *
+ * Every field is optional; {"enabled": false} stores uploads unchanged.
+ */
+
+// X remove, Z replace with a zero-length value, D replace with a dummy
+// value, K keep, U replace a UID with a consistent hashed one
+export type DeidentificationAction = 'X' | 'Z' | 'D' | 'K' | 'U';
+
+// Basic Profile options that keep some attributes the profile removes
+type ProfileOption =
+  | 'temporal' // Retain Longitudinal Temporal Information with Modified Dates
+  | 'patientCharacteristics' // Retain Patient Characteristics
+  | 'deviceIdentity' // Retain Device Identity
+  | 'descriptors'; // Retain Descriptors (the Clean Descriptors option without cleaning)
+
+interface ProfileRule {
+  action: DeidentificationAction;
+  option?: ProfileOption;
+}
+
+const deidentificationConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Shift dates by a random per-patient offset instead of removing them
+  shiftDates: z.boolean().default(true),
+  maxDateShiftDays: z.number().int().min(1).max(3650).default(365),
+  // Keep sex, age, size and weight
+  retainPatientCharacteristics: z.boolean().default(true),
+  retainDeviceIdentity: z.boolean().default(false),
+  // Keep study, series and protocol descriptions, which may contain names
+  retainDescriptors: z.boolean().default(false),
+  // Per-attribute actions replacing the profile's, keyed "GGGG,EEEE"
+  overrides: z.record(
+    z.string().regex(/^[0-9A-Fa-f]{4},[0-9A-Fa-f]{4}$/, 'Expected a "GGGG,EEEE" tag'),
+    z.enum(['X', 'Z', 'D', 'K', 'U']),
+  ).default({}),
+}).strict();
+
+export type DeidentificationConfig = z.infer<typeof deidentificationConfigSchema>;
+
+/**
+ * Parse the DICOM_DEIDENTIFICATION setting; unset means the defaults
+ */
+export function parseDeidentificationConfig(json: string | undefined): DeidentificationConfig {
+  let raw: unknown = {};
+  if (json?.trim()) {
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('DICOM_DEIDENTIFICATION must be a JSON object');
+    }
+  }
+  const parsed = deidentificationConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid DICOM_DEIDENTIFICATION: ${fromZodError(parsed.error).toString()}`);
+  }
+  return parsed.data;
+}
+
+function rule(action: DeidentificationAction, option?: ProfileOption): ProfileRule {
+  return { action, option };
+}
+
+// Attributes of PS3.15 Table E.1-1, keyed by tag as a number. Where the
+// table's action depends on the IOD (e.g. X/Z/D) the first is used; sequences
+// of references whose UIDs are replaced (U*) are kept, with every instance
+// UID inside them replaced.
+const BASIC_PROFILE: ReadonlyMap<number, ProfileRule> = new Map([
+  [0x00080012, rule('K', 'temporal')], // Instance Creation Date
+  [0x00080013, rule('K', 'temporal')], // Instance Creation Time
+  [0x00080014, rule('U')], // Instance Creator UID
+  [0x00080015, rule('X', 'temporal')], // Instance Coercion DateTime
+  [0x00080018, rule('U')], // SOP Instance UID
+  [0x00080020, rule('Z', 'temporal')], // Study Date
+  [0x00080021, rule('X', 'temporal')], // Series Date
+  [0x00080022, rule('X', 'temporal')], // Acquisition Date
+  [0x00080023, rule('Z', 'temporal')], // Content Date
+  [0x00080024, rule('X', 'temporal')], // Overlay Date
+  [0x00080025, rule('X', 'temporal')], // Curve Date
+  [0x0008002a, rule('X', 'temporal')], // Acquisition DateTime
+  [0x00080030, rule('Z', 'temporal')], // Study Time
+  [0x00080031, rule('X', 'temporal')], // Series Time
+  [0x00080032, rule('X', 'temporal')], // Acquisition Time
+  [0x00080033, rule('Z', 'temporal')], // Content Time
+  [0x00080034, rule('X', 'temporal')], // Overlay Time
+  [0x00080035, rule('X', 'temporal')], // Curve Time
+  [0x00080050, rule('Z')], // Accession Number
+  [0x00080058, rule('U')], // Failed SOP Instance UID List
+  [0x00080080, rule('X')], // Institution Name
+  [0x00080081, rule('X')], // Institution Address
+  [0x00080082, rule('X')], // Institution Code Sequence
+  [0x00080090, rule('Z')], // Referring Physician's Name
+  [0x00080092, rule('X')], // Referring Physician's Address
+  [0x00080094, rule('X')], // Referring Physician's Telephone Numbers
+  [0x00080096, rule('X')], // Referring Physician Identification Sequence
+  [0x0008009c, rule('Z')], // Consulting Physician's Name
+  [0x0008009d, rule('X')], // Consulting Physician Identification Sequence
+  [0x0008010d, rule('U')], // Context Group Extension Creator UID
+  [0x00080201, rule('X')], // Timezone Offset From UTC
+  [0x00081010, rule('X', 'deviceIdentity')], // Station Name
+  [0x00081030, rule('X', 'descriptors')], // Study Description
+  [0x0008103e, rule('X', 'descriptors')], // Series Description
+  [0x00081040, rule('X')], // Institutional Department Name
+  [0x00081048, rule('X')], // Physician(s) of Record
+  [0x00081049, rule('X')], // Physician(s) of Record Identification Sequence
+  [0x00081050, rule('X')], // Performing Physician's Name
+  [0x00081052, rule('X')], // Performing Physician Identification Sequence
+  [0x00081060, rule('X')], // Name of Physician(s) Reading Study
+  [0x00081062, rule('X')], // Physician(s) Reading Study Identification Sequence
+  [0x00081070, rule('X')], // Operators' Name
+  [0x00081072, rule('X')], // Operator Identification Sequence
+  [0x00081080, rule('X')], // Admitting Diagnoses Description
+  [0x00081084, rule('X')], // Admitting Diagnoses Code Sequence
+  [0x00081110, rule('X')], // Referenced Study Sequence
+  [0x00081111, rule('X')], // Referenced Performed Procedure Step Sequence
+  [0x00081120, rule('X')], // Referenced Patient Sequence
+  [0x00081140, rule('K')], // Referenced Image Sequence, with its UIDs replaced
+  [0x00081155, rule('U')], // Referenced SOP Instance UID
+  [0x00081195, rule('U')], // Transaction UID
+  [0x00082111, rule('X')], // Derivation Description
+  [0x00082112, rule('K')], // Source Image Sequence, with its UIDs replaced
+  [0x00083010, rule('U')], // Irradiation Event UID
+  [0x00084000, rule('X')], // Identifying Comments
+  [0x00089123, rule('U')], // Creator-Version UID
+  [0x00100010, rule('Z')], // Patient's Name
+  [0x00100020, rule('D')], // Patient ID, replaced by the patient's pseudonym
+  [0x00100021, rule('X')], // Issuer of Patient ID
+  [0x00100030, rule('Z', 'temporal')], // Patient's Birth Date
+  [0x00100032, rule('X')], // Patient's Birth Time
+  [0x00100033, rule('X')], // Patient's Birth Date in Alternative Calendar
+  [0x00100034, rule('X')], // Patient's Death Date in Alternative Calendar
+  [0x00100035, rule('X')], // Patient's Alternative Calendar
+  [0x00100040, rule('Z', 'patientCharacteristics')], // Patient's Sex
+  [0x00100050, rule('X')], // Patient's Insurance Plan Code Sequence
+  [0x00100101, rule('X')], // Patient's Primary Language Code Sequence
+  [0x00100102, rule('X')], // Patient's Primary Language Modifier Code Sequence
+  [0x00101000, rule('X')], // Other Patient IDs
+  [0x00101001, rule('X')], // Other Patient Names
+  [0x00101002, rule('X')], // Other Patient IDs Sequence
+  [0x00101005, rule('X')], // Patient's Birth Name
+  [0x00101010, rule('X', 'patientCharacteristics')], // Patient's Age
+  [0x00101020, rule('X', 'patientCharacteristics')], // Patient's Size
+  [0x00101030, rule('X', 'patientCharacteristics')], // Patient's Weight
+  [0x00101040, rule('X')], // Patient's Address
+  [0x00101050, rule('X')], // Insurance Plan Identification
+  [0x00101060, rule('X')], // Patient's Mother's Birth Name
+  [0x00101080, rule('X')], // Military Rank
+  [0x00101081, rule('X')], // Branch of Service
+  [0x00101090, rule('X')], // Medical Record Locator
+  [0x00101100, rule('X')], // Referenced Patient Photo Sequence
+  [0x00102000, rule('X')], // Medical Alerts
+  [0x00102110, rule('X')], // Allergies
+  [0x00102150, rule('X')], // Country of Residence
+  [0x00102152, rule('X')], // Region of Residence
+  [0x00102154, rule('X')], // Patient's Telephone Numbers
+  [0x00102155, rule('X')], // Patient's Telecom Information
+  [0x00102160, rule('X')], // Ethnic Group
+  [0x00102180, rule('X')], // Occupation
+  [0x001021a0, rule('X')], // Smoking Status
+  [0x001021b0, rule('X')], // Additional Patient History
+  [0x001021c0, rule('X')], // Pregnancy Status
+  [0x001021d0, rule('X', 'temporal')], // Last Menstrual Date
+  [0x001021f0, rule('X')], // Patient's Religious Preference
+  [0x00102203, rule('X')], // Patient's Sex Neutered
+  [0x00102297, rule('X')], // Responsible Person
+  [0x00102299, rule('X')], // Responsible Organization
+  [0x00104000, rule('X')], // Patient Comments
+  [0x00180010, rule('Z')], // Contrast/Bolus Agent
+  [0x00180027, rule('X', 'temporal')], // Intervention Drug Stop Time
+  [0x00180035, rule('X', 'temporal')], // Intervention Drug Start Time
+  [0x00181000, rule('X', 'deviceIdentity')], // Device Serial Number
+  [0x00181002, rule('U', 'deviceIdentity')], // Device UID
+  [0x00181004, rule('X', 'deviceIdentity')], // Plate ID
+  [0x00181005, rule('X', 'deviceIdentity')], // Generator ID
+  [0x00181007, rule('X', 'deviceIdentity')], // Cassette ID
+  [0x00181008, rule('X', 'deviceIdentity')], // Gantry ID
+  [0x00181012, rule('X', 'temporal')], // Date of Secondary Capture
+  [0x00181014, rule('X', 'temporal')], // Time of Secondary Capture
+  [0x00181030, rule('X', 'descriptors')], // Protocol Name
+  [0x00181042, rule('X', 'temporal')], // Contrast/Bolus Start Time
+  [0x00181043, rule('X', 'temporal')], // Contrast/Bolus Stop Time
+  [0x00181072, rule('X', 'temporal')], // Radiopharmaceutical Start Time
+  [0x00181073, rule('X', 'temporal')], // Radiopharmaceutical Stop Time
+  [0x00181078, rule('X', 'temporal')], // Radiopharmaceutical Start DateTime
+  [0x00181079, rule('X', 'temporal')], // Radiopharmaceutical Stop DateTime
+  [0x00181200, rule('X', 'temporal')], // Date of Last Calibration
+  [0x00181201, rule('X', 'temporal')], // Time of Last Calibration
+  [0x00181400, rule('X')], // Acquisition Device Processing Description
+  [0x00182042, rule('U')], // Target UID
+  [0x00184000, rule('X')], // Acquisition Comments
+  [0x0018700a, rule('X', 'deviceIdentity')], // Detector ID
+  [0x0018700c, rule('X', 'temporal')], // Date of Last Detector Calibration
+  [0x0018700e, rule('X', 'temporal')], // Time of Last Detector Calibration
+  [0x00189074, rule('X', 'temporal')], // Frame Acquisition DateTime
+  [0x00189151, rule('X', 'temporal')], // Frame Reference DateTime
+  [0x00189424, rule('X', 'descriptors')], // Acquisition Protocol Description
+  [0x00189516, rule('X', 'temporal')], // Start Acquisition DateTime
+  [0x00189517, rule('X', 'temporal')], // End Acquisition DateTime
+  [0x00189701, rule('X', 'temporal')], // Decay Correction DateTime
+  [0x0018a003, rule('X')], // Contribution Description
+  [0x0020000d, rule('U')], // Study Instance UID
+  [0x0020000e, rule('U')], // Series Instance UID
+  [0x00200010, rule('Z')], // Study ID
+  [0x00200052, rule('U')], // Frame of Reference UID
+  [0x00200200, rule('U')], // Synchronization Frame of Reference UID
+  [0x00203401, rule('X')], // Modifying Device ID
+  [0x00203404, rule('X')], // Modifying Device Manufacturer
+  [0x00203406, rule('X')], // Modified Image Description
+  [0x00204000, rule('X')], // Image Comments
+  [0x00209158, rule('X')], // Frame Comments
+  [0x00209161, rule('U')], // Concatenation UID
+  [0x00209164, rule('U')], // Dimension Organization UID
+  [0x00281199, rule('U')], // Palette Color Lookup Table UID
+  [0x00281214, rule('U')], // Large Palette Color Lookup Table UID
+  [0x00284000, rule('X')], // Image Presentation Comments
+  [0x00320012, rule('X')], // Study ID Issuer
+  [0x00320032, rule('X', 'temporal')], // Study Verified Date
+  [0x00320033, rule('X', 'temporal')], // Study Verified Time
+  [0x00320034, rule('X', 'temporal')], // Study Read Date
+  [0x00320035, rule('X', 'temporal')], // Study Read Time
+  [0x00321000, rule('X', 'temporal')], // Scheduled Study Start Date
+  [0x00321001, rule('X', 'temporal')], // Scheduled Study Start Time
+  [0x00321010, rule('X', 'temporal')], // Scheduled Study Stop Date
+  [0x00321011, rule('X', 'temporal')], // Scheduled Study Stop Time
+  [0x00321020, rule('X')], // Scheduled Study Location
+  [0x00321021, rule('X')], // Scheduled Study Location AE Title
+  [0x00321030, rule('X')], // Reason for Study
+  [0x00321032, rule('X')], // Requesting Physician
+  [0x00321033, rule('X')], // Requesting Service
+  [0x00321040, rule('X', 'temporal')], // Study Arrival Date
+  [0x00321041, rule('X', 'temporal')], // Study Arrival Time
+  [0x00321050, rule('X', 'temporal')], // Study Completion Date
+  [0x00321051, rule('X', 'temporal')], // Study Completion Time
+  [0x00321060, rule('X')], // Requested Procedure Description
+  [0x00321066, rule('X')], // Reason for Visit
+  [0x00321067, rule('X')], // Reason for Visit Code Sequence
+  [0x00321070, rule('X')], // Requested Contrast Agent
+  [0x00324000, rule('X')], // Study Comments
+  [0x00380004, rule('X')], // Referenced Patient Alias Sequence
+  [0x00380010, rule('X')], // Admission ID
+  [0x00380011, rule('X')], // Issuer of Admission ID
+  [0x00380014, rule('X')], // Issuer of Admission ID Sequence
+  [0x00380016, rule('X')], // Route of Admissions
+  [0x0038001a, rule('X', 'temporal')], // Scheduled Admission Date
+  [0x0038001b, rule('X', 'temporal')], // Scheduled Admission Time
+  [0x0038001c, rule('X', 'temporal')], // Scheduled Discharge Date
+  [0x0038001d, rule('X', 'temporal')], // Scheduled Discharge Time
+  [0x0038001e, rule('X')], // Scheduled Patient Institution Residence
+  [0x00380020, rule('X', 'temporal')], // Admitting Date
+  [0x00380021, rule('X', 'temporal')], // Admitting Time
+  [0x00380030, rule('X', 'temporal')], // Discharge Date
+  [0x00380032, rule('X', 'temporal')], // Discharge Time
+  [0x00380040, rule('X')], // Discharge Diagnosis Description
+  [0x00380050, rule('X')], // Special Needs
+  [0x00380060, rule('X')], // Service Episode ID
+  [0x00380061, rule('X')], // Issuer of Service Episode ID
+  [0x00380062, rule('X')], // Service Episode Description
+  [0x00380064, rule('X')], // Issuer of Service Episode ID Sequence
+  [0x00380300, rule('X')], // Current Patient Location
+  [0x00380400, rule('X')], // Patient's Institution Residence
+  [0x00380500, rule('X')], // Patient State
+  [0x00384000, rule('X')], // Visit Comments
+  [0x00400001, rule('X', 'deviceIdentity')], // Scheduled Station AE Title
+  [0x00400002, rule('X', 'temporal')], // Scheduled Procedure Step Start Date
+  [0x00400003, rule('X', 'temporal')], // Scheduled Procedure Step Start Time
+  [0x00400004, rule('X', 'temporal')], // Scheduled Procedure Step End Date
+  [0x00400005, rule('X', 'temporal')], // Scheduled Procedure Step End Time
+  [0x00400006, rule('X')], // Scheduled Performing Physician's Name
+  [0x00400007, rule('X')], // Scheduled Procedure Step Description
+  [0x00400009, rule('X')], // Scheduled Procedure Step ID
+  [0x0040000b, rule('X')], // Scheduled Performing Physician Identification Sequence
+  [0x00400010, rule('X', 'deviceIdentity')], // Scheduled Station Name
+  [0x00400011, rule('X')], // Scheduled Procedure Step Location
+  [0x00400012, rule('X')], // Pre-Medication
+  [0x00400241, rule('X', 'deviceIdentity')], // Performed Station AE Title
+  [0x00400242, rule('X', 'deviceIdentity')], // Performed Station Name
+  [0x00400243, rule('X')], // Performed Location
+  [0x00400244, rule('X', 'temporal')], // Performed Procedure Step Start Date
+  [0x00400245, rule('X', 'temporal')], // Performed Procedure Step Start Time
+  [0x00400250, rule('X', 'temporal')], // Performed Procedure Step End Date
+  [0x00400251, rule('X', 'temporal')], // Performed Procedure Step End Time
+  [0x00400253, rule('X')], // Performed Procedure Step ID
+  [0x00400254, rule('X', 'descriptors')], // Performed Procedure Step Description
+  [0x00400275, rule('X')], // Request Attributes Sequence
+  [0x00400280, rule('X')], // Comments on the Performed Procedure Step
+  [0x00400555, rule('X')], // Acquisition Context Sequence
+  [0x00401001, rule('X')], // Requested Procedure ID
+  [0x00401002, rule('X')], // Reason for the Requested Procedure
+  [0x00401004, rule('X')], // Patient Transport Arrangements
+  [0x00401005, rule('X')], // Requested Procedure Location
+  [0x00401010, rule('X')], // Names of Intended Recipients of Results
+  [0x00401011, rule('X')], // Intended Recipients of Results Identification Sequence
+  [0x00401101, rule('D')], // Person Identification Code Sequence
+  [0x00401102, rule('X')], // Person's Address
+  [0x00401103, rule('X')], // Person's Telephone Numbers
+  [0x00401104, rule('X')], // Person's Telecom Information
+  [0x00401400, rule('X')], // Requested Procedure Comments
+  [0x00402001, rule('X')], // Reason for the Imaging Service Request
+  [0x00402004, rule('X', 'temporal')], // Issue Date of Imaging Service Request
+  [0x00402005, rule('X', 'temporal')], // Issue Time of Imaging Service Request
+  [0x00402008, rule('X')], // Order Entered By
+  [0x00402009, rule('X')], // Order Enterer's Location
+  [0x00402010, rule('X')], // Order Callback Phone Number
+  [0x00402011, rule('X')], // Order Callback Telecom Information
+  [0x00402016, rule('Z')], // Placer Order Number / Imaging Service Request
+  [0x00402017, rule('Z')], // Filler Order Number / Imaging Service Request
+  [0x00402400, rule('X')], // Imaging Service Request Comments
+  [0x00403001, rule('X')], // Confidentiality Constraint on Patient Data Description
+  [0x00404005, rule('X', 'temporal')], // Scheduled Procedure Step Start DateTime
+  [0x00404010, rule('X', 'temporal')], // Scheduled Procedure Step Modification DateTime
+  [0x00404011, rule('X', 'temporal')], // Expected Completion DateTime
+  [0x00404023, rule('U')], // Referenced General Purpose Scheduled Procedure Step Transaction UID
+  [0x00404025, rule('X', 'deviceIdentity')], // Scheduled Station Name Code Sequence
+  [0x00404027, rule('X', 'deviceIdentity')], // Scheduled Station Geographic Location Code Sequence
+  [0x00404028, rule('X', 'deviceIdentity')], // Performed Station Name Code Sequence
+  [0x00404030, rule('X', 'deviceIdentity')], // Performed Station Geographic Location Code Sequence
+  [0x00404034, rule('X')], // Scheduled Human Performers Sequence
+  [0x00404035, rule('X')], // Actual Human Performers Sequence
+  [0x00404036, rule('X')], // Human Performer's Organization
+  [0x00404037, rule('X')], // Human Performer's Name
+  [0x00404050, rule('X', 'temporal')], // Performed Procedure Step Start DateTime
+  [0x00404051, rule('X', 'temporal')], // Performed Procedure Step End DateTime
+  [0x00404052, rule('X', 'temporal')], // Procedure Step Cancellation DateTime
+  [0x0040a027, rule('X')], // Verifying Organization
+  [0x0040a073, rule('D')], // Verifying Observer Sequence
+  [0x0040a075, rule('D')], // Verifying Observer Name
+  [0x0040a078, rule('X')], // Author Observer Sequence
+  [0x0040a07a, rule('X')], // Participant Sequence
+  [0x0040a07c, rule('X')], // Custodial Organization Sequence
+  [0x0040a088, rule('Z')], // Verifying Observer Identification Code Sequence
+  [0x0040a123, rule('D')], // Person Name
+  [0x0040a124, rule('U')], // UID
+  [0x0040a171, rule('U')], // Observation UID
+  [0x0040a172, rule('U')], // Referenced Observation UID (Trial)
+  [0x0040a192, rule('X', 'temporal')], // Observation Date (Trial)
+  [0x0040a193, rule('X', 'temporal')], // Observation Time (Trial)
+  [0x0040a307, rule('X')], // Current Observer (Trial)
+  [0x0040a352, rule('X')], // Verbal Source (Trial)
+  [0x0040a353, rule('X')], // Address (Trial)
+  [0x0040a354, rule('X')], // Telephone Number (Trial)
+  [0x0040a358, rule('X')], // Verbal Source Identifier Code Sequence (Trial)
+  [0x0040a730, rule('X')], // Content Sequence
+  [0x0040db0c, rule('U')], // Template Extension Organization UID
+  [0x0040db0d, rule('U')], // Template Extension Creator UID
+  [0x00620021, rule('U')], // Tracking UID
+  [0x00700001, rule('D')], // Graphic Annotation Sequence
+  [0x00700084, rule('Z')], // Content Creator's Name
+  [0x00700086, rule('X')], // Content Creator's Identification Code Sequence
+  [0x0070031a, rule('U')], // Fiducial UID
+  [0x00880140, rule('U')], // Storage Media File-set UID
+  [0x00880200, rule('X')], // Icon Image Sequence
+  [0x00880904, rule('X')], // Topic Title
+  [0x00880906, rule('X')], // Topic Subject
+  [0x00880910, rule('X')], // Topic Author
+  [0x00880912, rule('X')], // Topic Keywords
+  [0x04000100, rule('X')], // Digital Signature UID
+  [0x04000402, rule('X')], // Referenced Digital Signature Sequence
+  [0x04000403, rule('X')], // Referenced SOP Instance MAC Sequence
+  [0x04000404, rule('X')], // MAC
+  [0x04000550, rule('X')], // Modified Attributes Sequence
+  [0x04000561, rule('X')], // Original Attributes Sequence
+  [0x20300020, rule('X')], // Text String
+  [0x30060024, rule('U')], // Referenced Frame of Reference UID
+  [0x300600c2, rule('U')], // Related Frame of Reference UID
+  [0x300a0013, rule('U')], // Dose Reference UID
+  [0x300e0004, rule('X', 'temporal')], // Review Date
+  [0x300e0005, rule('X', 'temporal')], // Review Time
+  [0x300e0008, rule('X')], // Reviewer Name
+  [0x40000010, rule('X')], // Arbitrary
+  [0x40004000, rule('X')], // Text Comments
+  [0x40080040, rule('X')], // Results ID
+  [0x40080042, rule('X')], // Results ID Issuer
+  [0x40080100, rule('X', 'temporal')], // Interpretation Recorded Date
+  [0x40080101, rule('X', 'temporal')], // Interpretation Recorded Time
+  [0x40080102, rule('X')], // Interpretation Recorder
+  [0x40080108, rule('X', 'temporal')], // Interpretation Transcription Date
+  [0x40080109, rule('X', 'temporal')], // Interpretation Transcription Time
+  [0x4008010a, rule('X')], // Interpretation Transcriber
+  [0x4008010b, rule('X')], // Interpretation Text
+  [0x4008010c, rule('X')], // Interpretation Author
+  [0x40080111, rule('X')], // Interpretation Approver Sequence
+  [0x40080112, rule('X', 'temporal')], // Interpretation Approval Date
+  [0x40080113, rule('X', 'temporal')], // Interpretation Approval Time
+  [0x40080114, rule('X')], // Physician Approving Interpretation
+  [0x40080115, rule('X')], // Interpretation Diagnosis Description
+  [0x40080118, rule('X')], // Results Distribution List Sequence
+  [0x40080119, rule('X')], // Distribution Name
+  [0x4008011a, rule('X')], // Distribution Address
+  [0x40080202, rule('X')], // Interpretation ID Issuer
+  [0x40080300, rule('X')], // Impressions
+  [0x40084000, rule('X')], // Results Comments
+  [0xfffafffa, rule('X')], // Digital Signatures Sequence
+  [0xfffcfffc, rule('X')], // Data Set Trailing Padding
+]);
+
+// UIDs that name classes, syntaxes and coding schemes rather than instances
+const KEPT_UID_TAGS: ReadonlySet<number> = new Set([
+  0x00080016, // SOP Class UID
+  0x0008001a, // Related General SOP Class UID
+  0x0008001b, // Original Specialized SOP Class UID
+  0x00080062, // SOP Classes in Study
+  0x0008010c, // Coding Scheme UID
+  0x00081150, // Referenced SOP Class UID
+  0x00041510, // Referenced SOP Class UID in File
+  0x00041512, // Referenced Transfer Syntax UID in File
+]);
+
+// What to do with one attribute; 'shift' moves a date by the patient's offset
+export type ResolvedAction = DeidentificationAction | 'shift';
+
+export interface ResolvedRule {
+  action: ResolvedAction;
+  vr?: string;
+}
+
+/**
+ * Action for an attribute under the configuration. vr is the attribute's VR
+ * as read from the file; when the file does not record it (implicit VR
+ * transfer syntaxes) it is looked up in the data dictionary.
+ */
+export function resolveDeidentificationRule(tag: number, vr: string | undefined, config: DeidentificationConfig): ResolvedRule {
+  const group = tag >>> 16;
+  const elementNumber = tag & 0xffff;
+  const profileRule = BASIC_PROFILE.get(tag);
+  const knownVr = vr ?? lookupVr(tag);
+
+  const override = config.overrides[formatTagKey(tag)] ?? config.overrides[formatTagKey(tag).toLowerCase()];
+  if (override) {
+    return { action: override, vr: knownVr };
+  }
+
+  // Private attributes, curves and overlay data and comments
+  if (group % 2 === 1 ||
+      (group & 0xff00) === 0x5000 ||
+      ((group & 0xff00) === 0x6000 && (elementNumber === 0x3000 || elementNumber === 0x4000))) {
+    return { action: 'X', vr: knownVr };
+  }
+
+  const isDate = knownVr === 'DA' || knownVr === 'DT';
+  if (profileRule) {
+    if (profileRule.option && isOptionEnabled(profileRule.option, config)) {
+      return { action: profileRule.option === 'temporal' && isDate ? 'shift' : 'K', vr: knownVr };
+    }
+    return { action: profileRule.action, vr: knownVr };
+  }
+
+  // Attributes the table does not list: person names are blanked, instance
+  // UIDs are replaced and, with modified dates, every date is shifted
+  // consistently
+  if (knownVr === 'PN') {
+    return { action: 'Z', vr: knownVr };
+  }
+  if (knownVr === 'UI' && !KEPT_UID_TAGS.has(tag)) {
+    return { action: 'U', vr: knownVr };
+  }
+  if (isDate && config.shiftDates) {
+    return { action: 'shift', vr: knownVr };
+  }
+  return { action: 'K', vr: knownVr };
+}
+
+/**
+ * Profile and options in effect, one per value of De-identification Method
+ */
+export function describeDeidentificationMethod(config: DeidentificationConfig): string {
+  const options = [
+    config.shiftDates && 'Retain Longitudinal Temporal Information with Modified Dates',
+    config.retainPatientCharacteristics && 'Retain Patient Characteristics',
+    config.retainDeviceIdentity && 'Retain Device Identity',
+    config.retainDescriptors && 'Retain Descriptors',
+  ].filter(Boolean);
+  return ['Basic Application Confidentiality Profile', ...options].join('\\');
+}
+
+function isOptionEnabled(option: ProfileOption, config: DeidentificationConfig): boolean {
+  switch (option) {
+    case 'temporal':
+      return config.shiftDates;
+    case 'patientCharacteristics':
+      return config.retainPatientCharacteristics;
+    case 'deviceIdentity':
+      return config.retainDeviceIdentity;
+    case 'descriptors':
+      return config.retainDescriptors;
+  }
+}
+
+function formatTagKey(tag: number): string {
+  const hex = tag.toString(16).padStart(8, '0').toUpperCase();
+  return `${hex.slice(0, 4)},${hex.slice(4)}`;
+}
@@ -0,0 +1,579 @@
+import fs from 'fs';
+import path from 'path';
+import { fromZodError } from 'zod-validation-error';
+import type { Detection } from '@shared/schema';
+import {
+  evaluationAnnotationsSchema,
+  type EvaluatedDetection,
+  type EvaluationCase,
+  type EvaluationMetrics,
+  type EvaluationReport,
+  type EvaluationRequest,
+  type EvaluationSummary,
+  type FrocPoint,
+  type GroundTruthFinding,
+} from '@shared/evaluation';
+import { decodeMedicalSeries } from './medical-volume';
+import { detectorRegistry, UnknownDetectorError } from './detector-registry';
+
+/**
+ * Detection evaluation against labelled ground truth
+ *
+ * A dataset is a directory of images (or series directories) with an
+ * annotations.json listing the expected findings of each image. Every image
+ * runs through the detector registry at confidence 0, detections are matched
+ * one-to-one to ground truth of the same type by IoU, and the matches give
+ * precision/recall at the requested confidence plus FROC curves over all
+ * confidences. Reports are stored as JSON and HTML so detector versions can
+ * be compared.
+ */
+
+export class EvaluationDatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationDatasetError';
+    Object.setPrototypeOf(this, EvaluationDatasetError.prototype);
+  }
+}
+
+const ANNOTATIONS_FILE = 'annotations.json';
+
+// False-positive rates averaged into the FROC score
+const FROC_FALSE_POSITIVE_RATES = [0.125, 0.25, 0.5, 1, 2, 4, 8];
+
+const datasetsRoot = () => path.resolve(process.env.EVALUATION_DATASETS_DIR || 'evaluation-datasets');
+const reportsDir = () => path.resolve(process.env.EVALUATION_REPORTS_DIR || 'evaluation-reports');
+
+/**
+ * Resolve a dataset name from an API request, refusing paths outside the
+ * evaluation datasets root
+ */
+export function resolveDatasetDir(dataset: string): string {
+  const root = datasetsRoot();
+  const dir = path.resolve(root, dataset);
+  if (dir !== root && !dir.startsWith(root + path.sep)) {
+    throw new EvaluationDatasetError(`Dataset ${dataset} is outside the evaluation datasets directory`);
+  }
+  return dir;
+}
+
+/**
+ * Run the configured detectors over a labelled dataset and score the results
+ */
+export async function evaluateDataset(
+  datasetDir: string,
+  request: Omit<EvaluationRequest, 'dataset'>
+): Promise<EvaluationReport> {
+  datasetDir = path.resolve(datasetDir);
+  const annotations = await readAnnotations(datasetDir);
+  const images = Object.keys(annotations).sort();
+  if (images.length === 0) {
+    throw new EvaluationDatasetError(`${ANNOTATIONS_FILE} in ${datasetDir} lists no images`);
+  }
+
+  const detectionParameters = {
+    sensitivity: request.sensitivity,
+    // Keep every candidate; the operating confidence is applied when scoring
+    confidence: 0,
+    detectionType: 'all' as const,
+    detectors: request.detectors,
+  };
+
+  const cases: EvaluationCase[] = [];
+  let detectors: EvaluationReport['detectors'] = [];
+  for (const image of images) {
+    const groundTruth = annotations[image];
+    try {
+      const sourcePaths = await resolveImageFiles(datasetDir, image);
+      const sourceFiles = await Promise.all(sourcePaths.map(sourcePath => fs.promises.readFile(sourcePath)));
+      const volume = decodeMedicalSeries(sourceFiles, sourcePaths.map(sourcePath => path.basename(sourcePath)));
+      const result = await detectorRegistry.detect(
+        { scanId: `evaluation:${image}`, volume, sourceFiles },
+        detectionParameters
+      );
+      detectors = result.detectors;
+      cases.push(matchCase(image, groundTruth, result.detections, volume.metadata, request.iouThreshold));
+    } catch (error) {
+      if (error instanceof EvaluationDatasetError || error instanceof UnknownDetectorError) {
+        throw error;
+      }
+      // Unreadable images count their findings as missed rather than
+      // silently shrinking the dataset
+      console.error(`Evaluation of ${image} failed:`, error);
+      cases.push({
+        image,
+        groundTruth: groundTruth.map(finding => ({ ...finding, matched: false })),
+        detections: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const types = Array.from(new Set(cases.flatMap(evaluationCase => [
+    ...evaluationCase.groundTruth.map(finding => finding.type),
+    ...evaluationCase.detections.map(detection => detection.type),
+  ]))).sort();
+
+  const generatedAt = new Date().toISOString();
+  return {
+    id: `${generatedAt}_${detectors.map(({ name, version }) => `${name}-${version}`).join('+') || 'none'}`.replace(/[^\w.+-]/g, '-'),
+    generatedAt,
+    dataset: path.relative(process.cwd(), datasetDir) || '.',
+    detectors,
+    parameters: {
+      detectors: request.detectors,
+      sensitivity: request.sensitivity,
+      confidence: request.confidence,
+      iouThreshold: request.iouThreshold,
+    },
+    imageCount: cases.length,
+    overall: scoreDetections(cases, null, request.confidence),
+    classes: types.map(type => ({ type, ...scoreDetections(cases, type, request.confidence) })),
+    cases,
+  };
+}
+
+/**
+ * Store a report as <id>.json and <id>.html; returns the file paths
+ */
+export async function saveEvaluationReport(
+  report: EvaluationReport,
+  baseline?: EvaluationReport | null,
+  dir = reportsDir()
+): Promise<{ json: string; html: string }> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  const json = path.join(dir, `${report.id}.json`);
+  const html = path.join(dir, `${report.id}.html`);
+  await fs.promises.writeFile(json, JSON.stringify(report, null, 2));
+  await fs.promises.writeFile(html, renderEvaluationHtml(report, baseline));
+  return { json, html };
+}
+
+/**
+ * Load a stored report by id, or null when there is none
+ */
+export async function loadEvaluationReport(id: string, dir = reportsDir()): Promise<EvaluationReport | null> {
+  if (!/^[\w.+-]+$/.test(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(dir, `${id}.json`), 'utf8')) as EvaluationReport;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stored reports, newest first
+ */
+export async function listEvaluationReports(dir = reportsDir()): Promise<EvaluationSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const summaries: EvaluationSummary[] = [];
+  for (const file of files.filter(name => name.endsWith('.json'))) {
+    const report = await loadEvaluationReport(path.basename(file, '.json'), dir);
+    if (report) {
+      const { id, generatedAt, dataset, detectors, imageCount, overall } = report;
+      summaries.push({
+        id, generatedAt, dataset, detectors, imageCount,
+        precision: overall.precision,
+        recall: overall.recall,
+        frocScore: overall.frocScore,
+      });
+    }
+  }
+  return summaries.sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
+
+async function readAnnotations(datasetDir: string): Promise<Record<string, GroundTruthFinding[]>> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(path.join(datasetDir, ANNOTATIONS_FILE), 'utf8');
+  } catch {
+    throw new EvaluationDatasetError(`No ${ANNOTATIONS_FILE} found in ${datasetDir}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new EvaluationDatasetError(`${ANNOTATIONS_FILE} is not valid JSON: ${(error as Error).message}`);
+  }
+  const parsed = evaluationAnnotationsSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new EvaluationDatasetError(`Invalid ${ANNOTATIONS_FILE}: ${fromZodError(parsed.error).toString()}`);
+  }
+  return parsed.data.images;
+}
+
+// Files of one dataset entry: the image itself, or a series directory's files in name order
+async function resolveImageFiles(datasetDir: string, image: string): Promise<string[]> {
+  const imagePath = path.resolve(datasetDir, image);
+  if (!imagePath.startsWith(datasetDir + path.sep)) {
+    throw new EvaluationDatasetError(`Annotated image ${image} is outside the dataset`);
+  }
+
+  const stats = await fs.promises.stat(imagePath).catch(() => null);
+  if (!stats) {
+    throw new EvaluationDatasetError(`Annotated image ${image} does not exist`);
+  }
+  if (!stats.isDirectory()) {
+    return [imagePath];
+  }
+
+  const files = (await fs.promises.readdir(imagePath, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (files.length === 0) {
+    throw new EvaluationDatasetError(`Series directory ${image} is empty`);
+  }
+  return files.map(file => path.join(imagePath, file));
+}
+
+interface ImageGeometry {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+// Greedily match detections, most confident first, to unmatched ground truth of the same type
+function matchCase(
+  image: string,
+  groundTruth: GroundTruthFinding[],
+  detections: Detection[],
+  geometry: ImageGeometry,
+  iouThreshold: number
+): EvaluationCase {
+  const middleSlice = Math.floor(geometry.depth / 2);
+  const matched = groundTruth.map(() => false);
+
+  const evaluated = [...detections]
+    .sort((a, b) => b.confidence - a.confidence)
+    .map((detection): EvaluatedDetection => {
+      let best = -1;
+      let bestIoU = 0;
+      groundTruth.forEach((finding, index) => {
+        if (matched[index] || finding.type !== detection.type) {
+          return;
+        }
+        const iou = overlap(detection, finding, geometry, middleSlice);
+        if (iou > bestIoU) {
+          best = index;
+          bestIoU = iou;
+        }
+      });
+
+      const isMatch = best >= 0 && bestIoU >= iouThreshold;
+      if (isMatch) {
+        matched[best] = true;
+      }
+      return {
+        id: detection.id,
+        type: detection.type,
+        confidence: detection.confidence,
+        detector: detection.detector,
+        slice: detection.mask?.slice ?? middleSlice,
+        coordinates: detection.coordinates,
+        iou: isMatch ? round(bestIoU) : 0,
+        matched: isMatch,
+      };
+    });
+
+  return {
+    image,
+    groundTruth: groundTruth.map((finding, index) => ({ ...finding, matched: matched[index] })),
+    detections: evaluated,
+  };
+}
+
+// IoU of a detection and a ground-truth finding: pixel masks when both have
+// one, bounding boxes otherwise; findings on different slices never overlap
+function overlap(detection: Detection, finding: GroundTruthFinding, geometry: ImageGeometry, middleSlice: number): number {
+  if ((detection.mask?.slice ?? middleSlice) !== (finding.slice ?? middleSlice)) {
+    return 0;
+  }
+
+  if (detection.mask && finding.mask) {
+    const detected = maskPixels(detection.coordinates, detection.mask, geometry.width, geometry.height);
+    const expected = maskPixels(finding.box, finding.mask, geometry.width, geometry.height);
+    let intersection = 0;
+    detected.forEach(pixel => {
+      if (expected.has(pixel)) {
+        intersection++;
+      }
+    });
+    const union = detected.size + expected.size - intersection;
+    return union > 0 ? intersection / union : 0;
+  }
+
+  const a = detection.coordinates;
+  const b = finding.box;
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) {
+    return 0;
+  }
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+// Image pixel indices covered by a run-length mask placed at a box's top-left corner
+function maskPixels(
+  box: Detection['coordinates'],
+  mask: { width: number; height: number; runs: number[] },
+  imageWidth: number,
+  imageHeight: number
+): Set<number> {
+  const originX = Math.round((box.x / 100) * imageWidth);
+  const originY = Math.round((box.y / 100) * imageHeight);
+  const pixels = new Set<number>();
+
+  let position = 0;
+  mask.runs.forEach((length, run) => {
+    if (run % 2 === 1) {
+      for (let i = position; i < position + length; i++) {
+        const x = originX + (i % mask.width);
+        const y = originY + Math.floor(i / mask.width);
+        if (x < imageWidth && y < imageHeight) {
+          pixels.add(y * imageWidth + x);
+        }
+      }
+    }
+    position += length;
+  });
+  return pixels;
+}
+
+// Metrics over every case for one finding type, or all types when null
+function scoreDetections(cases: EvaluationCase[], type: Detection['type'] | null, confidence: number): EvaluationMetrics {
+  const ofType = <T extends { type: Detection['type'] }>(items: T[]) =>
+    type ? items.filter(item => item.type === type) : items;
+
+  const groundTruth = cases.reduce((total, evaluationCase) => total + ofType(evaluationCase.groundTruth).length, 0);
+  const candidates = cases
+    .flatMap(evaluationCase => ofType(evaluationCase.detections))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const operating = candidates.filter(detection => detection.confidence >= confidence);
+  const truePositives = operating.filter(detection => detection.matched);
+  const falsePositives = operating.length - truePositives.length;
+  const precision = operating.length > 0 ? truePositives.length / operating.length : 0;
+  const recall = groundTruth > 0 ? truePositives.length / groundTruth : 0;
+
+  // One FROC point per distinct confidence, lowering the threshold step by step
+  const froc: FrocPoint[] = [];
+  let tp = 0;
+  let fp = 0;
+  candidates.forEach((detection, index) => {
+    if (detection.matched) {
+      tp++;
+    } else {
+      fp++;
+    }
+    if (index === candidates.length - 1 || candidates[index + 1].confidence !== detection.confidence) {
+      froc.push({
+        confidence: detection.confidence,
+        sensitivity: round(groundTruth > 0 ? tp / groundTruth : 0),
+        falsePositivesPerImage: round(fp / Math.max(1, cases.length)),
+      });
+    }
+  });
+
+  const frocScore = FROC_FALSE_POSITIVE_RATES.reduce((total, rate) => {
+    const reached = froc.filter(point => point.falsePositivesPerImage <= rate);
+    return total + (reached.length > 0 ? Math.max(...reached.map(point => point.sensitivity)) : 0);
+  }, 0) / FROC_FALSE_POSITIVE_RATES.length;
+
+  return {
+    groundTruth,
+    detections: operating.length,
+    truePositives: truePositives.length,
+    falsePositives,
+    falseNegatives: groundTruth - truePositives.length,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+    meanIoU: round(truePositives.length > 0
+      ? truePositives.reduce((total, detection) => total + detection.iou, 0) / truePositives.length
+      : 0),
+    froc,
+    frocScore: round(frocScore),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Render a report as a standalone HTML page, with changes against a
+ * baseline report when one is given
+ */
+export function renderEvaluationHtml(report: EvaluationReport, baseline?: EvaluationReport | null): string {
+  const detectorNames = (detectors: EvaluationReport['detectors']) =>
+    detectors.map(({ name, version }) => `${name} v${version}`).join(', ') || 'none';
+
+  const delta = (current: number, previous: number | undefined) => {
+    if (previous === undefined) {
+      return '';
+    }
+    const change = current - previous;
+    const className = change > 0 ? 'up' : change < 0 ? 'down' : '';
+    return ` <span class="${className}">(${change >= 0 ? '+' : ''}${change.toFixed(3)})</span>`;
+  };
+
+  const metricsRow = (label: string, metrics: EvaluationMetrics, previous?: EvaluationMetrics) => `
+      <tr>
+        <td>${escapeHtml(label)}</td>
+        <td>${metrics.groundTruth}</td>
+        <td>${metrics.truePositives}</td>
+        <td>${metrics.falsePositives}</td>
+        <td>${metrics.falseNegatives}</td>
+        <td>${metrics.precision.toFixed(3)}${delta(metrics.precision, previous?.precision)}</td>
+        <td>${metrics.recall.toFixed(3)}${delta(metrics.recall, previous?.recall)}</td>
+        <td>${metrics.f1.toFixed(3)}${delta(metrics.f1, previous?.f1)}</td>
+        <td>${metrics.meanIoU.toFixed(3)}${delta(metrics.meanIoU, previous?.meanIoU)}</td>
+        <td>${metrics.frocScore.toFixed(3)}${delta(metrics.frocScore, previous?.frocScore)}</td>
+      </tr>`;
+
+  const caseRows = report.cases.map(evaluationCase => {
+    const found = evaluationCase.groundTruth.filter(finding => finding.matched).length;
+    const falsePositives = evaluationCase.detections
+      .filter(detection => !detection.matched && detection.confidence >= report.parameters.confidence).length;
+    const details = evaluationCase.error
+      ? `<span class="down">${escapeHtml(evaluationCase.error)}</span>`
+      : evaluationCase.detections
+          .filter(detection => detection.confidence >= report.parameters.confidence)
+          .map(detection => `${detection.type} ${detection.confidence}%${detection.matched ? ` IoU ${detection.iou.toFixed(2)}` : ' (FP)'}`)
+          .map(escapeHtml)
+          .join('<br>');
+    return `
+      <tr>
+        <td>${escapeHtml(evaluationCase.image)}</td>
+        <td>${found}/${evaluationCase.groundTruth.length}</td>
+        <td>${falsePositives}</td>
+        <td>${details}</td>
+      </tr>`;
+  }).join('');
+
+  const curves = [
+    { label: 'Overall', points: report.overall.froc, dashed: false },
+    ...report.classes.map(cls => ({ label: cls.type, points: cls.froc, dashed: false })),
+    ...(baseline ? [{ label: `Baseline overall (${detectorNames(baseline.detectors)})`, points: baseline.overall.froc, dashed: true }] : []),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Detection evaluation ${escapeHtml(report.id)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; margin: 1rem 0; }
+    th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; font-size: 0.9rem; }
+    th { background: #f3f4f6; }
+    .up { color: #15803d; }
+    .down { color: #b91c1c; }
+    dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; }
+    dt { font-weight: 600; }
+  </style>
+</head>
+<body>
+  <h1>Detection evaluation</h1>
+  <dl>
+    <dt>Report</dt><dd>${escapeHtml(report.id)}</dd>
+    <dt>Generated</dt><dd>${escapeHtml(report.generatedAt)}</dd>
+    <dt>Dataset</dt><dd>${escapeHtml(report.dataset)} (${report.imageCount} images)</dd>
+    <dt>Detectors</dt><dd>${escapeHtml(detectorNames(report.detectors))}</dd>
+    <dt>Operating point</dt><dd>confidence &ge; ${report.parameters.confidence}%, sensitivity ${report.parameters.sensitivity}, IoU &ge; ${report.parameters.iouThreshold}</dd>
+    ${baseline ? `<dt>Baseline</dt><dd>${escapeHtml(baseline.id)} (${escapeHtml(detectorNames(baseline.detectors))})</dd>` : ''}
+  </dl>
+
+  <h2>Metrics</h2>
+  <table>
+    <thead>
+      <tr><th>Class</th><th>Ground truth</th><th>TP</th><th>FP</th><th>FN</th><th>Precision</th><th>Recall</th><th>F1</th><th>Mean IoU</th><th>FROC score</th></tr>
+    </thead>
+    <tbody>${metricsRow('Overall', report.overall, baseline?.overall)}${report.classes.map(cls =>
+      metricsRow(cls.type, cls, baseline?.classes.find(previous => previous.type === cls.type))).join('')}
+    </tbody>
+  </table>
+
+  <h2>FROC</h2>
+  ${renderFrocSvg(curves)}
+
+  <h2>Images</h2>
+  <table>
+    <thead><tr><th>Image</th><th>Found</th><th>False positives</th><th>Detections</th></tr></thead>
+    <tbody>${caseRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+const CURVE_COLOURS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+// Sensitivity against false positives per image, on a log2 axis from 1/8 to 8
+function renderFrocSvg(curves: { label: string; points: FrocPoint[]; dashed: boolean }[]): string {
+  const width = 560;
+  const height = 320;
+  const left = 50;
+  const bottom = height - 40;
+  const plotWidth = width - left - 20;
+  const plotHeight = bottom - 20;
+  const minRate = FROC_FALSE_POSITIVE_RATES[0];
+  const maxRate = FROC_FALSE_POSITIVE_RATES[FROC_FALSE_POSITIVE_RATES.length - 1];
+
+  const xFor = (rate: number) =>
+    left + (Math.log2(Math.min(maxRate, Math.max(minRate, rate)) / minRate) / Math.log2(maxRate / minRate)) * plotWidth;
+  const yFor = (sensitivity: number) => bottom - sensitivity * plotHeight;
+
+  const axes = FROC_FALSE_POSITIVE_RATES.map(rate => `
+    <line x1="${xFor(rate)}" y1="${bottom}" x2="${xFor(rate)}" y2="${bottom - plotHeight}" stroke="#e5e7eb"/>
+    <text x="${xFor(rate)}" y="${bottom + 16}" text-anchor="middle" font-size="11">${rate}</text>`).join('') +
+    [0, 0.25, 0.5, 0.75, 1].map(sensitivity => `
+    <line x1="${left}" y1="${yFor(sensitivity)}" x2="${left + plotWidth}" y2="${yFor(sensitivity)}" stroke="#e5e7eb"/>
+    <text x="${left - 6}" y="${yFor(sensitivity) + 4}" text-anchor="end" font-size="11">${sensitivity}</text>`).join('');
+
+  const lines = curves.map((curve, index) => {
+    const colour = CURVE_COLOURS[index % CURVE_COLOURS.length];
+    // Step curve starting from no detections
+    let previous = { x: xFor(0), y: yFor(0) };
+    const steps = [`${previous.x},${previous.y}`];
+    for (const point of curve.points) {
+      const next = { x: xFor(point.falsePositivesPerImage), y: yFor(point.sensitivity) };
+      steps.push(`${next.x},${previous.y}`, `${next.x},${next.y}`);
+      previous = next;
+    }
+    steps.push(`${left + plotWidth},${previous.y}`);
+    return `
+    <polyline points="${steps.join(' ')}" fill="none" stroke="${colour}" stroke-width="2"${curve.dashed ? ' stroke-dasharray="6 4"' : ''}/>
+    <text x="${left + plotWidth - 4}" y="${34 + index * 15}" text-anchor="end" font-size="11" fill="${colour}">${escapeHtml(curve.label)}</text>`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="FROC curves">
+    ${axes}
+    <text x="${left + plotWidth / 2}" y="${height - 6}" text-anchor="middle" font-size="12">False positives per image</text>
+    <text x="14" y="${bottom - plotHeight / 2}" text-anchor="middle" font-size="12" transform="rotate(-90 14 ${bottom - plotHeight / 2})">Sensitivity</text>
+    ${lines}
+  </svg>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
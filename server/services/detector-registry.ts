@@ -0,0 +1,146 @@
+import path from 'path';
+import type {
+  Detection,
+  DetectionFocus,
+  DetectionParameters,
+} from '@shared/schema';
+import type { MedicalVolume } from './medical-volume';
+import { ImageStatisticsDetector } from './image-statistics-detector';
+import { loadOnnxDetectors } from './onnx-detector';
+
+/**
+ * Pluggable anomaly detectors
+ *
+ * A detector turns a scan volume into findings. Detectors register under a
+ * unique name; requests may pick detectors by name, otherwise the configured
+ * defaults run. ONNX models described by manifests in the detector models
+ * directory are registered automatically the first time detection runs, so
+ * new models need no code changes.
+ */
+
+export interface DetectorInput {
+  scanId: string;
+  // Full scan volume, slices in acquisition order
+  volume: MedicalVolume;
+  // Raw contents of the scan's source files, in upload order
+  sourceFiles: Buffer[];
+  parameters: DetectionParameters;
+}
+
+export interface Detector {
+  readonly name: string;
+  readonly version: string;
+  // Finding types the detector can report; it is skipped when the requested
+  // focus excludes all of them
+  readonly detectionTypes: Detection['type'][];
+  detect(input: DetectorInput): Promise<Detection[]>;
+}
+
+export interface DetectionResult {
+  detections: Detection[];
+  detectors: { name: string; version: string }[];
+}
+
+export class UnknownDetectorError extends Error {
+  constructor(names: string[]) {
+    super(`Unknown detector${names.length > 1 ? 's' : ''}: ${names.join(', ')}`);
+    this.name = 'UnknownDetectorError';
+    Object.setPrototypeOf(this, UnknownDetectorError.prototype);
+  }
+}
+
+// Detection types kept for each focus; "all" keeps every type
+const DETECTION_FOCUS_MATCHES: Record<DetectionFocus, Detection['type'][] | null> = {
+  aneurysms: ['aneurysm'],
+  lesions: ['lesion', 'tumor'],
+  all: null,
+};
+
+// Used when no other detector is configured
+const FALLBACK_DETECTOR = 'image-statistics';
+
+export class DetectorRegistry {
+  private detectors: Map<string, Detector> = new Map();
+  private modelsLoaded: Promise<void> | null = null;
+  private modelsDir: string;
+
+  constructor() {
+    this.modelsDir = path.resolve(process.env.DETECTOR_MODELS_DIR || 'detector-models');
+    this.register(new ImageStatisticsDetector());
+  }
+
+  /**
+   * Register a detector, replacing any previous one with the same name
+   */
+  public register(detector: Detector): void {
+    this.detectors.set(detector.name, detector);
+  }
+
+  /**
+   * All registered detectors, including models from the models directory
+   */
+  async list(): Promise<Detector[]> {
+    await this.loadModels();
+    return Array.from(this.detectors.values());
+  }
+
+  /**
+   * Run the requested (or default) detectors and keep the findings that meet
+   * the confidence threshold and match the requested focus
+   */
+  async detect(input: Omit<DetectorInput, 'parameters'>, parameters: DetectionParameters): Promise<DetectionResult> {
+    const detectors = await this.resolve(parameters.detectors);
+    const focusTypes = DETECTION_FOCUS_MATCHES[parameters.detectionType];
+    const selected = detectors.filter(detector =>
+      !focusTypes || detector.detectionTypes.some(type => focusTypes.includes(type))
+    );
+
+    const detections: Detection[] = [];
+    for (const detector of selected) {
+      const found = await detector.detect({ ...input, parameters });
+      detections.push(...found.map(detection => ({ ...detection, detector: detector.name })));
+    }
+
+    return {
+      detections: detections.filter(detection =>
+        detection.confidence >= parameters.confidence &&
+        (!focusTypes || focusTypes.includes(detection.type))
+      ),
+      detectors: selected.map(({ name, version }) => ({ name, version })),
+    };
+  }
+
+  // Requested names, else the DETECTORS setting, else every model detector,
+  // else the built-in fallback
+  private async resolve(names?: string[]): Promise<Detector[]> {
+    await this.loadModels();
+
+    const configured = process.env.DETECTORS?.split(',').map(name => name.trim()).filter(Boolean);
+    const requested = names ?? (configured?.length ? configured : null);
+    if (requested) {
+      const missing = requested.filter(name => !this.detectors.has(name));
+      if (missing.length > 0) {
+        throw new UnknownDetectorError(missing);
+      }
+      return requested.map(name => this.detectors.get(name)!);
+    }
+
+    const models = Array.from(this.detectors.values()).filter(detector => detector.name !== FALLBACK_DETECTOR);
+    return models.length > 0 ? models : [this.detectors.get(FALLBACK_DETECTOR)!];
+  }
+
+  private loadModels(): Promise<void> {
+    if (!this.modelsLoaded) {
+      this.modelsLoaded = loadOnnxDetectors(this.modelsDir).then(detectors => {
+        for (const detector of detectors) {
+          this.register(detector);
+          console.log(`Registered ONNX detector ${detector.name} v${detector.version}`);
+        }
+      });
+    }
+    return this.modelsLoaded;
+  }
+}
+
+// Singleton instance for the application
+export const detectorRegistry = new DetectorRegistry();
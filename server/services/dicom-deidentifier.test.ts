@@ -0,0 +1,92 @@
+import '../testDatabase';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DicomDeidentifier } from './dicom-deidentifier';
+import { readDicomDataSet } from './dicom-service';
+import { encodeFileMetaInformation } from './dicom-writer';
+import { storage } from '../storage';
+
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const MR_IMAGE_STORAGE = '1.2.840.10008.5.1.4.1.1.4';
+const DATE_SHIFT_DAYS = 10;
+
+// Implicit VR elements carry only tag, length and value
+function implicitElement(tag: number, value: string | Buffer): Buffer {
+  let data = typeof value === 'string' ? Buffer.from(value, 'latin1') : value;
+  if (data.length % 2 === 1) {
+    data = Buffer.concat([data, Buffer.from(' ')]);
+  }
+  const header = Buffer.alloc(8);
+  header.writeUInt16LE(tag >>> 16, 0);
+  header.writeUInt16LE(tag & 0xffff, 2);
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data]);
+}
+
+function implicitSequence(tag: number, items: Buffer[][]): Buffer {
+  return implicitElement(tag, Buffer.concat(items.map(elements => implicitElement(0xfffee000, Buffer.concat(elements)))));
+}
+
+function implicitVrFile(): Buffer {
+  return Buffer.concat([
+    encodeFileMetaInformation(MR_IMAGE_STORAGE, '1.2.3.4.5', IMPLICIT_VR_LITTLE_ENDIAN),
+    implicitElement(0x00080016, `${MR_IMAGE_STORAGE}\0`),
+    implicitElement(0x00080018, '1.2.3.4.5\0'),
+    implicitElement(0x00080020, '20200115'), // Study Date
+    implicitSequence(0x00081140, [[ // Referenced Image Sequence
+      implicitElement(0x00081150, `${MR_IMAGE_STORAGE}\0`),
+      implicitElement(0x00081155, '1.2.3.4.6\0'),
+    ]]),
+    implicitElement(0x00100010, 'DOE^JANE'),
+    implicitElement(0x00100020, 'MRN-1234'),
+    implicitElement(0x00142006, 'SMITH^ANNA'), // Evaluator Name, a person name the profile does not list
+    implicitElement(0x00200013, '7'), // Instance Number
+    implicitElement(0x00321070, 'Gadovist for Jane Doe'), // Requested Contrast Agent
+    implicitElement(0x00380050, 'Wheelchair, ward 4'), // Special Needs
+    implicitElement(0x00400007, 'Brain MR for Jane Doe'), // Scheduled Procedure Step Description
+    implicitElement(0x00400009, 'SPS-0001'), // Scheduled Procedure Step ID
+    implicitSequence(0x00400275, [[ // Request Attributes Sequence
+      implicitElement(0x00401001, 'RP-0001'),
+    ]]),
+    implicitElement(0x00400280, 'Patient anxious, husband present'), // Comments on the Performed Procedure Step
+    implicitElement(0x00401400, 'Call Dr. Jones on 555-0100'), // Requested Procedure Comments
+    implicitElement(0x0040a027, 'St. Elsewhere Radiology'), // Verifying Organization
+    implicitElement(0x30060008, '20200110'), // Structure Set Date, a date the profile does not list
+  ]);
+}
+
+test('implicit VR files are de-identified with VRs from the data dictionary', async (t) => {
+  const findOrCreatePatient = mock.method(storage, 'findOrCreateDeidentifiedPatient', async () => ({
+    pseudonym: 'ANON-TEST',
+    patientKey: 'id:MRN-1234',
+    originalName: 'DOE^JANE',
+    originalBirthDate: null,
+    dateShiftDays: DATE_SHIFT_DAYS,
+    createdAt: new Date(),
+  }));
+  const recordIdentifiers = mock.method(storage, 'recordDeidentifiedIdentifiers', async () => {});
+  t.after(() => {
+    findOrCreatePatient.mock.restore();
+    recordIdentifiers.mock.restore();
+  });
+
+  const { buffer } = await new DicomDeidentifier().deidentify(implicitVrFile());
+  const dataSet = readDicomDataSet(buffer);
+
+  assert.equal(dataSet.string('x00020010'), IMPLICIT_VR_LITTLE_ENDIAN);
+  assert.equal(dataSet.string('x00100020'), 'ANON-TEST');
+  assert.equal(dataSet.elements.x00100010.length, 0);
+  assert.equal(dataSet.elements.x00142006.length, 0);
+  for (const tag of ['x00321070', 'x00380050', 'x00400007', 'x00400009', 'x00400275', 'x00400280', 'x00401400', 'x0040a027']) {
+    assert.equal(dataSet.elements[tag], undefined, `${tag} should be removed`);
+  }
+
+  assert.equal(dataSet.string('x00080020'), '20200125');
+  assert.equal(dataSet.string('x30060008'), '20200120');
+  assert.equal(dataSet.string('x00200013'), '7');
+
+  const [reference] = dataSet.elements.x00081140.items!;
+  assert.equal(reference.dataSet!.string('x00081150'), MR_IMAGE_STORAGE);
+  assert.notEqual(reference.dataSet!.string('x00081155'), '1.2.3.4.6');
+  assert.match(reference.dataSet!.string('x00081155')!, /^2\.25\.\d+$/);
+});
@@ -0,0 +1,408 @@
+import { createHmac, randomBytes, randomInt } from 'crypto';
+import type { DataSet, Element } from 'dicom-parser';
+import { readDicomDataSet } from './dicom-service';
+import { encodeFileMetaInformation, EXPLICIT_VR_LITTLE_ENDIAN, uidFromName } from './dicom-writer';
+import {
+  describeDeidentificationMethod,
+  parseDeidentificationConfig,
+  resolveDeidentificationRule,
+  type DeidentificationConfig,
+  type ResolvedRule,
+} from './deidentification-profile';
+import { storage } from '../storage';
+import { findMedicalFileFormat, getMedicalFileExtension } from '@shared/medical-formats';
+import type { DeidentifiedPatient, NewDeidentifiedIdentifier } from '@shared/schema';
+
+/**
+ * De-identification of uploaded DICOM files (PS3.15 Basic Profile)
+ *
+ * Files are parsed, every attribute is removed, emptied, replaced or kept as
+ * the profile in deidentification-profile.ts says, and the data set is
+ * re-encoded in its own transfer syntax with new file meta information.
+ * Pixel data is copied unchanged. Each patient gets a pseudonym, written as
+ * Patient ID, and a random date shift applied to every date of their files;
+ * both are kept, with every replaced UID and file name, in the restricted
+ * deidentified_* tables so admins can re-identify a scan.
+ */
+
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const EXPLICIT_VR_BIG_ENDIAN = '1.2.840.10008.1.2.2';
+const DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1.99';
+
+const UNDEFINED_LENGTH = 0xffffffff;
+
+// VRs with a 2-byte reserved field and a 4-byte length in explicit VR
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+// VRs whose values are text, padded with a space
+const TEXT_VRS = new Set(['AE', 'AS', 'CS', 'DA', 'DS', 'DT', 'IS', 'LO', 'LT', 'PN', 'SH', 'ST', 'TM', 'UC', 'UR', 'UT']);
+
+const PATIENT_NAME_TAG = 0x00100010;
+const PATIENT_ID_TAG = 0x00100020;
+
+export interface DeidentifiedFile {
+  buffer: Buffer;
+  patientPseudonym: string;
+  sopInstanceUid: string;
+}
+
+// How the data set being written is encoded
+interface Encoding {
+  implicitVr: boolean;
+  littleEndian: boolean;
+}
+
+// State of one file being de-identified
+interface DeidentificationContext {
+  config: DeidentificationConfig;
+  patient: DeidentifiedPatient;
+  encoding: Encoding;
+  byteArray: Uint8Array;
+  // Original UID -> replacement, recorded once the file is written
+  uids: Map<string, string>;
+}
+
+export class DicomDeidentifier {
+  private config: DeidentificationConfig | null = null;
+
+  /**
+   * Whether uploads are de-identified (DICOM_DEIDENTIFICATION "enabled")
+   */
+  get enabled(): boolean {
+    return this.loadConfig().enabled;
+  }
+
+  /**
+   * De-identify a DICOM Part 10 file. Deflated files come back as Explicit VR
+   * Little Endian; every other transfer syntax is kept.
+   */
+  public async deidentify(buffer: Buffer): Promise<DeidentifiedFile> {
+    const config = this.loadConfig();
+    const dataSet = readDicomDataSet(buffer);
+    const transferSyntaxUid = dataSet.string('x00020010')?.trim() || IMPLICIT_VR_LITTLE_ENDIAN;
+    const outputSyntaxUid = transferSyntaxUid === DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN ? EXPLICIT_VR_LITTLE_ENDIAN : transferSyntaxUid;
+
+    const context: DeidentificationContext = {
+      config,
+      patient: await this.findOrCreatePatient(dataSet, config),
+      encoding: {
+        implicitVr: transferSyntaxUid === IMPLICIT_VR_LITTLE_ENDIAN,
+        littleEndian: transferSyntaxUid !== EXPLICIT_VR_BIG_ENDIAN,
+      },
+      byteArray: dataSet.byteArray,
+      uids: new Map(),
+    };
+
+    const originalSopInstanceUid = dataSet.string('x00080018')?.trim() || dataSet.string('x00020003')?.trim();
+    const sopInstanceUid = originalSopInstanceUid
+      ? replaceUid(originalSopInstanceUid, context)
+      : uidFromName(randomBytes(16).toString('hex'));
+    const sopClassUid = dataSet.string('x00080016')?.trim() || dataSet.string('x00020002')?.trim() || '';
+
+    const body = encodeDataSet(dataSet, context, addedElements(context));
+    await storage.recordDeidentifiedIdentifiers(Array.from(context.uids, ([original, replacement]) => ({
+      replacement,
+      original,
+      kind: 'uid' as const,
+      patientPseudonym: context.patient.pseudonym,
+    })));
+
+    return {
+      buffer: Buffer.concat([encodeFileMetaInformation(sopClassUid, sopInstanceUid, outputSyntaxUid), body]),
+      patientPseudonym: context.patient.pseudonym,
+      sopInstanceUid,
+    };
+  }
+
+  /**
+   * Replace uploaded file and series names, which often carry the patient's
+   * name, with random ones; names passed together share one prefix and are
+   * numbered in order, e.g. series-3fa9c1d2e4b7-0001.dcm. The originals are
+   * recorded for re-identification.
+   */
+  public async pseudonymizeFileNames(prefix: string, originalNames: string[], patientPseudonym: string | null): Promise<string[]> {
+    const stem = `${prefix}-${randomBytes(6).toString('hex')}`;
+    const replacements = originalNames.map((originalName, index) =>
+      `${stem}${originalNames.length > 1 ? `-${String(index + 1).padStart(4, '0')}` : ''}${fileExtension(originalName)}`);
+
+    const identifiers: NewDeidentifiedIdentifier[] = originalNames.map((original, index) => ({
+      replacement: replacements[index],
+      original,
+      kind: 'file_name',
+      patientPseudonym,
+    }));
+    await storage.recordDeidentifiedIdentifiers(identifiers);
+    return replacements;
+  }
+
+  // Parsed once; an invalid setting falls back to the full default profile
+  // rather than storing identifiers
+  private loadConfig(): DeidentificationConfig {
+    if (!this.config) {
+      try {
+        this.config = parseDeidentificationConfig(process.env.DICOM_DEIDENTIFICATION);
+      } catch (error) {
+        console.error('Ignoring invalid DICOM_DEIDENTIFICATION, using the default profile:', error instanceof Error ? error.message : error);
+        this.config = parseDeidentificationConfig(undefined);
+      }
+    }
+    return this.config;
+  }
+
+  // Patients are matched on Patient ID, or on name and birth date for files
+  // without one; files with neither are treated as a patient of their own
+  private async findOrCreatePatient(dataSet: DataSet, config: DeidentificationConfig): Promise<DeidentifiedPatient> {
+    const patientId = dataSet.string('x00100020')?.trim();
+    const name = dataSet.string('x00100010')?.trim() || null;
+    const birthDate = dataSet.string('x00100030')?.trim() || null;
+    const patientKey = patientId
+      ? `id:${patientId}`
+      : name ? `name:${name}|${birthDate ?? ''}` : `file:${randomBytes(16).toString('hex')}`;
+
+    const maxShift = config.maxDateShiftDays;
+    return storage.findOrCreateDeidentifiedPatient({
+      pseudonym: `ANON-${keyedHash(patientKey).slice(0, 16).toUpperCase()}`,
+      patientKey,
+      originalName: name,
+      originalBirthDate: birthDate,
+      // Never zero, so shifted dates always differ from the real ones
+      dateShiftDays: randomInt(1, maxShift + 1) * (randomInt(2) === 0 ? -1 : 1),
+    });
+  }
+}
+
+// Singleton instance for the application
+export const dicomDeidentifier = new DicomDeidentifier();
+
+// Keyed so replacements cannot be reversed by hashing candidate identifiers
+function keyedHash(value: string): string {
+  const key = process.env.DEIDENTIFICATION_KEY || process.env.PSEUDONYM_KEY || process.env.SESSION_SECRET || '';
+  return createHmac('sha256', key).update(value).digest('hex');
+}
+
+// Top-level attributes written whatever the source file holds: the patient's
+// pseudonym and the PS3.15 attributes recording how the file was changed
+function addedElements(context: DeidentificationContext): Map<number, Buffer> {
+  const { config, encoding, patient } = context;
+  return new Map([
+    [PATIENT_NAME_TAG, encodeElement(PATIENT_NAME_TAG, 'PN', Buffer.alloc(0), encoding)],
+    [PATIENT_ID_TAG, encodeElement(PATIENT_ID_TAG, 'LO', padText('LO', patient.pseudonym), encoding)],
+    // Patient Identity Removed, De-identification Method
+    [0x00120062, encodeElement(0x00120062, 'CS', padText('CS', 'YES'), encoding)],
+    [0x00120063, encodeElement(0x00120063, 'LO', padText('LO', describeDeidentificationMethod(config)), encoding)],
+    // Longitudinal Temporal Information Modified
+    [0x00280303, encodeElement(0x00280303, 'CS', padText('CS', config.shiftDates ? 'MODIFIED' : 'REMOVED'), encoding)],
+  ]);
+}
+
+// Encode the attributes of a data set in ascending tag order, with the added
+// elements replacing any of the same tag
+function encodeDataSet(dataSet: DataSet, context: DeidentificationContext, added: Map<number, Buffer> = new Map()): Buffer {
+  const encoded = new Map(added);
+  for (const element of Object.values(dataSet.elements)) {
+    const elementTag = parseInt(element.tag.slice(1), 16);
+    const group = elementTag >>> 16;
+    // File meta information is written afresh, group lengths would no longer
+    // match once attributes are removed, and dicom-parser lists the
+    // delimitation item of undefined-length items among their elements
+    if (group === 0x0002 || group === 0xfffe || (elementTag & 0xffff) === 0x0000 || encoded.has(elementTag)) {
+      continue;
+    }
+    const data = deidentifyElement(element, elementTag, context);
+    if (data) {
+      encoded.set(elementTag, data);
+    }
+  }
+  return Buffer.concat(Array.from(encoded.keys()).sort((a, b) => a - b).map(elementTag => encoded.get(elementTag)!));
+}
+
+// Encoded element after applying its rule, or null when it is removed
+function deidentifyElement(element: Element, elementTag: number, context: DeidentificationContext): Buffer | null {
+  const rule = resolveDeidentificationRule(elementTag, element.vr, context.config);
+  const vr = rule.vr ?? element.vr ?? 'UN';
+  const { encoding } = context;
+
+  if (rule.action === 'X') {
+    return null;
+  }
+
+  if (element.items) {
+    // Undefined-length UN values hold implicit VR items of unknown attributes,
+    // which cannot be re-encoded in this file's syntax
+    if (element.vr === 'UN') {
+      return null;
+    }
+    if (rule.action !== 'K' && rule.action !== 'shift') {
+      return encodeElement(elementTag, 'SQ', Buffer.alloc(0), encoding);
+    }
+    return encodeSequence(elementTag, element.items.map(item => item.dataSet!), context);
+  }
+
+  if (rule.action === 'K') {
+    const raw = Buffer.from(context.byteArray.buffer, context.byteArray.byteOffset + element.dataOffset, element.length);
+    // Encapsulated pixel data and other undefined-length values end with
+    // their own delimitation item, which the raw bytes include
+    return encodeElement(elementTag, vr, raw, encoding, element.hadUndefinedLength);
+  }
+
+  const text = readText(element, context);
+  return encodeElement(elementTag, vr, replaceValue(rule, vr, text, context), encoding);
+}
+
+function replaceValue(rule: ResolvedRule, vr: string, text: string, context: DeidentificationContext): Buffer {
+  switch (rule.action) {
+    case 'Z':
+      return Buffer.alloc(0);
+    case 'U':
+      return padText('UI', splitValues(text).map(uid => replaceUid(uid, context)).join('\\'));
+    case 'shift':
+      return padText(vr, splitValues(text).map(value => shiftDate(value, context.patient.dateShiftDays)).join('\\'));
+    default:
+      return dummyValue(vr);
+  }
+}
+
+// Placeholder for attributes that must keep a value; Patient ID is written
+// separately as the patient's pseudonym
+function dummyValue(vr: string): Buffer {
+  switch (vr) {
+    case 'DA':
+      return padText(vr, '19000101');
+    case 'DT':
+      return padText(vr, '19000101000000');
+    case 'TM':
+      return padText(vr, '000000');
+    case 'AS':
+      return padText(vr, '000D');
+    case 'DS':
+    case 'IS':
+      return padText(vr, '0');
+    case 'UI':
+      return padText(vr, uidFromName(randomBytes(16).toString('hex')));
+    default:
+      return TEXT_VRS.has(vr) ? padText(vr, 'ANONYMIZED') : Buffer.alloc(0);
+  }
+}
+
+/**
+ * Consistent replacement for a UID, so references between files of the same
+ * study still resolve after de-identification
+ */
+function replaceUid(uid: string, context: DeidentificationContext): string {
+  let replacement = context.uids.get(uid);
+  if (!replacement) {
+    replacement = uidFromName(keyedHash(`uid:${uid}`));
+    context.uids.set(uid, replacement);
+  }
+  return replacement;
+}
+
+/**
+ * Move a DA value, or the date part of a DT value, by whole days; partial and
+ * unreadable dates are dropped
+ */
+function shiftDate(value: string, days: number): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(.*)$/.exec(value);
+  if (!match) {
+    return '';
+  }
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + days));
+  if (Number.isNaN(date.getTime())) {
+    return '';
+  }
+  return date.toISOString().slice(0, 10).replace(/-/g, '') + match[4];
+}
+
+function encodeSequence(elementTag: number, items: DataSet[], context: DeidentificationContext): Buffer {
+  // Items and the sequence are written with undefined lengths and closed by
+  // delimitation items, so nested lengths never need recomputing
+  const parts = [encodeElement(elementTag, 'SQ', Buffer.alloc(0), context.encoding, true)];
+  for (const item of items) {
+    parts.push(encodeTagAndLength(0xfffee000, UNDEFINED_LENGTH, context.encoding));
+    parts.push(encodeDataSet(item, context));
+    parts.push(encodeTagAndLength(0xfffee00d, 0, context.encoding));
+  }
+  parts.push(encodeTagAndLength(0xfffee0dd, 0, context.encoding));
+  return Buffer.concat(parts);
+}
+
+function encodeElement(elementTag: number, vr: string, data: Buffer, encoding: Encoding, undefinedLength = false): Buffer {
+  const length = undefinedLength ? UNDEFINED_LENGTH : data.length;
+  if (encoding.implicitVr) {
+    return Buffer.concat([encodeTagAndLength(elementTag, length, encoding), data]);
+  }
+
+  const long = LONG_VRS.has(vr);
+  if (!long && length > 0xffff) {
+    throw new Error(`Value of (${formatTag(elementTag)}) is too long for VR ${vr}`);
+  }
+  const header = Buffer.alloc(long ? 12 : 8);
+  writeTag(header, elementTag, encoding);
+  header.write(vr, 4, 'latin1');
+  if (long) {
+    writeUint32(header, length, 8, encoding);
+  } else if (encoding.littleEndian) {
+    header.writeUInt16LE(length, 6);
+  } else {
+    header.writeUInt16BE(length, 6);
+  }
+  return Buffer.concat([header, data]);
+}
+
+// Tag followed by a 4-byte length, as in implicit VR elements and items
+function encodeTagAndLength(elementTag: number, length: number, encoding: Encoding): Buffer {
+  const header = Buffer.alloc(8);
+  writeTag(header, elementTag, encoding);
+  writeUint32(header, length, 4, encoding);
+  return header;
+}
+
+function writeTag(buffer: Buffer, elementTag: number, encoding: Encoding): void {
+  if (encoding.littleEndian) {
+    buffer.writeUInt16LE(elementTag >>> 16, 0);
+    buffer.writeUInt16LE(elementTag & 0xffff, 2);
+  } else {
+    buffer.writeUInt16BE(elementTag >>> 16, 0);
+    buffer.writeUInt16BE(elementTag & 0xffff, 2);
+  }
+}
+
+function writeUint32(buffer: Buffer, value: number, offset: number, encoding: Encoding): void {
+  if (encoding.littleEndian) {
+    buffer.writeUInt32LE(value, offset);
+  } else {
+    buffer.writeUInt32BE(value, offset);
+  }
+}
+
+function readText(element: Element, context: DeidentificationContext): string {
+  if (element.hadUndefinedLength || element.length === 0) {
+    return '';
+  }
+  return Buffer.from(context.byteArray.buffer, context.byteArray.byteOffset + element.dataOffset, element.length)
+    .toString('latin1')
+    .replace(/[\0 ]+$/, '');
+}
+
+function splitValues(text: string): string[] {
+  return text.split('\\').map(value => value.trim()).filter(Boolean);
+}
+
+// Text values are padded to even length with a space, UIDs with a NUL
+function padText(vr: string, text: string): Buffer {
+  const bytes = Buffer.from(text, 'latin1');
+  if (bytes.length % 2 === 0) {
+    return bytes;
+  }
+  return Buffer.concat([bytes, Buffer.from(vr === 'UI' ? [0x00] : [0x20])]);
+}
+
+// Only known extensions are kept; anything else after a dot may be a name
+function fileExtension(fileName: string): string {
+  return findMedicalFileFormat(fileName) ? getMedicalFileExtension(fileName) : '';
+}
+
+function formatTag(elementTag: number): string {
+  const hex = elementTag.toString(16).padStart(8, '0').toUpperCase();
+  return `${hex.slice(0, 4)},${hex.slice(4)}`;
+}
@@ -0,0 +1,20 @@
+import { elements } from '@iwharris/dicom-data-dictionary';
+
+/**
+ * VRs of standard attributes from the PS3.6 data dictionary, for files in
+ * Implicit VR Little Endian, which do not record them.
+ */
+
+/**
+ * VR of a standard attribute, or undefined for private and unknown ones.
+ * Attributes that may take one of several VRs (e.g. "OB or OW") get the first.
+ */
+export function lookupVr(tag: number): string | undefined {
+  const hex = tag.toString(16).padStart(8, '0').toUpperCase();
+  const group = hex.slice(0, 4);
+  // Curve and overlay attributes are listed once for their repeating groups
+  const entry = elements[`(${group},${hex.slice(4)})`] ??
+    (/^(50|60)/.test(group) ? elements[`(${group.slice(0, 2)}xx,${hex.slice(4)})`] : undefined);
+  const vr = entry?.vr.slice(0, 2);
+  return vr && /^[A-Z]{2}$/.test(vr) ? vr : undefined;
+}
@@ -0,0 +1,576 @@
+import zlib from 'zlib';
+import dicomParser, { type DataSet, type Element } from 'dicom-parser';
+import jpeg from 'jpeg-js';
+import { Decoder as JpegLosslessDecoder } from 'jpeg-lossless-decoder-js';
+import { lookupVr } from './dicom-dictionary';
+import type { MedicalImageMetadata } from '@shared/schema';
+
+/**
+ * DICOM Part 10 ingestion for medical images
+ *
+ * Parses DICOM files into the metadata used by the 3D conversion pipeline and
+ * decodes pixel data for every transfer syntax that can be handled in pure JS:
+ * uncompressed (implicit/explicit, little/big endian), deflated, RLE lossless,
+ * JPEG baseline (8-bit) and JPEG lossless.
+ */
+
+export interface DicomAttributes {
+  transferSyntaxUid: string;
+  sopClassUid?: string;
+  sopInstanceUid?: string;
+  patientName?: string;
+  patientId?: string;
+  patientBirthDate?: string;
+  patientSex?: string;
+  studyInstanceUid?: string;
+  studyDate?: string;
+  studyTime?: string;
+  studyDescription?: string;
+  accessionNumber?: string;
+  referringPhysicianName?: string;
+  seriesInstanceUid?: string;
+  seriesNumber?: number;
+  seriesDescription?: string;
+  instanceNumber?: number;
+  imagePositionPatient?: [number, number, number];
+  imageOrientationPatient?: [number, number, number, number, number, number];
+  sliceLocation?: number;
+}
+
+export interface DicomImage {
+  metadata: MedicalImageMetadata;
+  attributes: DicomAttributes;
+  // Rescaled pixel values, frames stacked in order, each frame row-major
+  pixelData: Float32Array;
+}
+
+export class DicomParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DicomParseError";
+    Object.setPrototypeOf(this, DicomParseError.prototype);
+  }
+}
+
+const TRANSFER_SYNTAXES: Record<string, string> = {
+  '1.2.840.10008.1.2': 'Implicit VR Little Endian',
+  '1.2.840.10008.1.2.1': 'Explicit VR Little Endian',
+  '1.2.840.10008.1.2.1.99': 'Deflated Explicit VR Little Endian',
+  '1.2.840.10008.1.2.2': 'Explicit VR Big Endian',
+  '1.2.840.10008.1.2.5': 'RLE Lossless',
+  '1.2.840.10008.1.2.4.50': 'JPEG Baseline (Process 1)',
+  '1.2.840.10008.1.2.4.57': 'JPEG Lossless (Process 14)',
+  '1.2.840.10008.1.2.4.70': 'JPEG Lossless (Process 14, SV1)',
+};
+
+const BIG_ENDIAN_SYNTAX = '1.2.840.10008.1.2.2';
+const RLE_SYNTAX = '1.2.840.10008.1.2.5';
+const JPEG_BASELINE_SYNTAX = '1.2.840.10008.1.2.4.50';
+const JPEG_LOSSLESS_SYNTAXES = ['1.2.840.10008.1.2.4.57', '1.2.840.10008.1.2.4.70'];
+
+const PIXEL_DATA_TAG = 'x7fe00010';
+
+// Largest inflated data set of a deflated file and largest decoded image
+// (all frames); both keep crafted headers from exhausting memory
+const MAX_INFLATED_DATA_SET_BYTES = 512 * 1024 * 1024;
+const MAX_DECODED_PIXELS = 128 * 1024 * 1024;
+
+/**
+ * Check for the 128-byte preamble followed by the "DICM" prefix
+ */
+export function isDicomFile(buffer: Buffer): boolean {
+  return buffer.length >= 132 && buffer.toString('ascii', 128, 132) === 'DICM';
+}
+
+export function isSupportedTransferSyntax(transferSyntaxUid: string): boolean {
+  return transferSyntaxUid in TRANSFER_SYNTAXES;
+}
+
+/**
+ * Read DICOM attributes and image geometry without decoding pixel data
+ */
+export function readDicomHeader(buffer: Buffer): Omit<DicomImage, 'pixelData'> {
+  const dataSet = readDicomDataSet(buffer, PIXEL_DATA_TAG);
+  const attributes = readAttributes(dataSet);
+  const pixelModule = readPixelModule(dataSet);
+  return {
+    attributes,
+    metadata: readImageMetadata(dataSet, pixelModule, attributes),
+  };
+}
+
+/**
+ * Parse a DICOM file and decode all of its frames
+ */
+export function parseDicomImage(buffer: Buffer): DicomImage {
+  const dataSet = readDicomDataSet(buffer);
+  const attributes = readAttributes(dataSet);
+
+  if (!isSupportedTransferSyntax(attributes.transferSyntaxUid)) {
+    throw new DicomParseError(`Unsupported DICOM transfer syntax: ${attributes.transferSyntaxUid}`);
+  }
+
+  const pixelElement = dataSet.elements[PIXEL_DATA_TAG];
+  if (!pixelElement) {
+    throw new DicomParseError('DICOM file does not contain pixel data');
+  }
+
+  const pixelModule = readPixelModule(dataSet);
+  checkPixelDataSize(pixelElement, pixelModule);
+  const frameSize = pixelModule.rows * pixelModule.columns;
+  const pixelData = new Float32Array(frameSize * pixelModule.frames);
+
+  for (let frame = 0; frame < pixelModule.frames; frame++) {
+    const decoded = decodeFrame(dataSet, pixelElement, pixelModule, attributes.transferSyntaxUid, frame);
+    pixelData.set(decoded, frame * frameSize);
+  }
+
+  return {
+    attributes,
+    metadata: readImageMetadata(dataSet, pixelModule, attributes),
+    pixelData,
+  };
+}
+
+/**
+ * Parse the data set of a Part 10 file; deflated data sets are inflated
+ */
+export function readDicomDataSet(buffer: Buffer, untilTag?: string): DataSet {
+  if (!isDicomFile(buffer)) {
+    throw new DicomParseError('Not a DICOM Part 10 file (missing DICM prefix)');
+  }
+
+  try {
+    return dicomParser.parseDicom(buffer, {
+      untilTag,
+      inflater: inflateDataSet,
+      // Implicit VR elements get their VR from the data dictionary
+      vrCallback: tag => lookupVr(parseInt(tag.slice(1), 16)),
+    });
+  } catch (error) {
+    if (error instanceof DicomParseError) {
+      throw error;
+    }
+    // dicom-parser throws strings or { exception, dataSet } objects
+    const message = error instanceof Error ? error.message :
+                    typeof error === 'string' ? error :
+                    (error as { exception?: string })?.exception || 'Unknown error';
+    throw new DicomParseError(`Failed to parse DICOM data set: ${message}`);
+  }
+}
+
+// Inflate the data set of a Deflated Explicit VR Little Endian file, keeping the meta header as-is
+function inflateDataSet(byteArray: Uint8Array, position: number): Buffer {
+  let inflated: Buffer;
+  try {
+    inflated = zlib.inflateRawSync(byteArray.subarray(position), { maxOutputLength: MAX_INFLATED_DATA_SET_BYTES });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new DicomParseError(`Deflated DICOM data set exceeds ${MAX_INFLATED_DATA_SET_BYTES} bytes`);
+    }
+    throw new DicomParseError(`Failed to inflate DICOM data set: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const fullByteArray = Buffer.alloc(position + inflated.length);
+  fullByteArray.set(byteArray.subarray(0, position), 0);
+  fullByteArray.set(inflated, position);
+  return fullByteArray;
+}
+
+function readString(dataSet: DataSet, tag: string): string | undefined {
+  const value = dataSet.string(tag);
+  return value ? value.trim() : undefined;
+}
+
+function readNumberList(dataSet: DataSet, tag: string, count: number): number[] | undefined {
+  if ((dataSet.numStringValues(tag) || 0) < count) {
+    return undefined;
+  }
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = dataSet.floatString(tag, i);
+    if (value === undefined || !Number.isFinite(value)) {
+      return undefined;
+    }
+    values.push(value);
+  }
+  return values;
+}
+
+// Walk the first item of nested sequences, e.g. functional group macros in enhanced multi-frame objects
+function findNestedDataSet(dataSet: DataSet, ...sequenceTags: string[]): DataSet | undefined {
+  let current: DataSet | undefined = dataSet;
+  for (const tag of sequenceTags) {
+    current = current?.elements[tag]?.items?.[0]?.dataSet;
+  }
+  return current;
+}
+
+function readAttributes(dataSet: DataSet): DicomAttributes {
+  const perFramePlane = findNestedDataSet(dataSet, 'x52009230', 'x00209113');
+  const sharedOrientation = findNestedDataSet(dataSet, 'x52009229', 'x00209116');
+  const position = readNumberList(dataSet, 'x00200032', 3) || (perFramePlane && readNumberList(perFramePlane, 'x00200032', 3));
+  const orientation = readNumberList(dataSet, 'x00200037', 6) || (sharedOrientation && readNumberList(sharedOrientation, 'x00200037', 6));
+
+  return {
+    transferSyntaxUid: readString(dataSet, 'x00020010') || '1.2.840.10008.1.2',
+    sopClassUid: readString(dataSet, 'x00080016'),
+    sopInstanceUid: readString(dataSet, 'x00080018'),
+    patientName: readString(dataSet, 'x00100010'),
+    patientId: readString(dataSet, 'x00100020'),
+    patientBirthDate: readString(dataSet, 'x00100030'),
+    patientSex: readString(dataSet, 'x00100040'),
+    studyInstanceUid: readString(dataSet, 'x0020000d'),
+    studyDate: readString(dataSet, 'x00080020'),
+    studyTime: readString(dataSet, 'x00080030'),
+    studyDescription: readString(dataSet, 'x00081030'),
+    accessionNumber: readString(dataSet, 'x00080050'),
+    referringPhysicianName: readString(dataSet, 'x00080090'),
+    seriesInstanceUid: readString(dataSet, 'x0020000e'),
+    seriesNumber: dataSet.intString('x00200011'),
+    seriesDescription: readString(dataSet, 'x0008103e'),
+    instanceNumber: dataSet.intString('x00200013'),
+    imagePositionPatient: position as DicomAttributes['imagePositionPatient'],
+    imageOrientationPatient: orientation as DicomAttributes['imageOrientationPatient'],
+    sliceLocation: dataSet.floatString('x00201041'),
+  };
+}
+
+interface PixelModule {
+  rows: number;
+  columns: number;
+  frames: number;
+  samplesPerPixel: number;
+  bitsAllocated: number;
+  bitsStored: number;
+  pixelRepresentation: number;
+  planarConfiguration: number;
+  photometricInterpretation: string;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+}
+
+function readPixelModule(dataSet: DataSet): PixelModule {
+  const rows = dataSet.uint16('x00280010');
+  const columns = dataSet.uint16('x00280011');
+  if (!rows || !columns) {
+    throw new DicomParseError('DICOM file is missing image dimensions (Rows/Columns)');
+  }
+
+  const bitsAllocated = dataSet.uint16('x00280100') || 16;
+  const pixelTransform = findNestedDataSet(dataSet, 'x52009229', 'x00289145');
+
+  return {
+    rows,
+    columns,
+    frames: Math.max(1, dataSet.intString('x00280008') || 1),
+    samplesPerPixel: dataSet.uint16('x00280002') || 1,
+    bitsAllocated,
+    bitsStored: dataSet.uint16('x00280101') || bitsAllocated,
+    pixelRepresentation: dataSet.uint16('x00280103') || 0,
+    planarConfiguration: dataSet.uint16('x00280006') || 0,
+    photometricInterpretation: readString(dataSet, 'x00280004') || 'MONOCHROME2',
+    rescaleSlope: dataSet.floatString('x00281053') ?? pixelTransform?.floatString('x00281053') ?? 1,
+    rescaleIntercept: dataSet.floatString('x00281052') ?? pixelTransform?.floatString('x00281052') ?? 0,
+  };
+}
+
+// Refuse image dimensions the pixel data cannot hold before allocating for
+// them: native pixel data must be as long as every frame's samples, and
+// encapsulated pixel data needs at least one fragment per frame
+function checkPixelDataSize(pixelElement: Element, pixelModule: PixelModule): void {
+  const { rows, columns, frames, samplesPerPixel, bitsAllocated } = pixelModule;
+  const pixelCount = rows * columns * frames;
+  if (pixelCount > MAX_DECODED_PIXELS) {
+    throw new DicomParseError(`DICOM image of ${columns}x${rows}x${frames} pixels is too large`);
+  }
+
+  if (pixelElement.encapsulatedPixelData) {
+    if (frames > (pixelElement.fragments?.length ?? 0)) {
+      throw new DicomParseError(`DICOM pixel data has fewer fragments than its ${frames} frames`);
+    }
+  } else if (pixelCount * samplesPerPixel * (bitsAllocated / 8) > pixelElement.length) {
+    throw new DicomParseError(`DICOM pixel data is shorter than ${columns}x${rows}x${frames} pixels`);
+  }
+}
+
+function readImageMetadata(
+  dataSet: DataSet,
+  pixelModule: PixelModule,
+  attributes: DicomAttributes,
+): MedicalImageMetadata {
+  // Enhanced multi-frame objects keep geometry in the shared functional groups
+  const pixelMeasures = findNestedDataSet(dataSet, 'x52009229', 'x00289110');
+  const pixelSpacing = readNumberList(dataSet, 'x00280030', 2) ||
+                       (pixelMeasures && readNumberList(pixelMeasures, 'x00280030', 2)) ||
+                       readNumberList(dataSet, 'x00181164', 2) || // Imager Pixel Spacing
+                       [1, 1];
+  const sliceSpacing = dataSet.floatString('x00180088') ??
+                       pixelMeasures?.floatString('x00180088') ??
+                       dataSet.floatString('x00180050') ??
+                       pixelMeasures?.floatString('x00180050') ??
+                       1;
+
+  return {
+    width: pixelModule.columns,
+    height: pixelModule.rows,
+    depth: pixelModule.frames,
+    // Pixel Spacing is (row spacing, column spacing), i.e. (y, x)
+    spacing: [pixelSpacing[1], pixelSpacing[0], Math.abs(sliceSpacing) || 1],
+    origin: attributes.imagePositionPatient || [0, 0, 0],
+    modality: readString(dataSet, 'x00080060') || 'OT',
+    acquisitionDate: formatDicomDateTime(
+      readString(dataSet, 'x00080022') || readString(dataSet, 'x00080023') || attributes.studyDate,
+      readString(dataSet, 'x00080032') || readString(dataSet, 'x00080033') || readString(dataSet, 'x00080030'),
+    ),
+  };
+}
+
+// Convert DICOM DA/TM values (YYYYMMDD, HHMMSS.FFFFFF) to an ISO 8601 local date-time
+export function formatDicomDateTime(date?: string, time?: string): string | undefined {
+  const dateMatch = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!dateMatch) {
+    return undefined;
+  }
+  const [, year, month, day] = dateMatch;
+  const timeMatch = time?.match(/^(\d{2})(\d{2})?(\d{2})?/);
+  const [hours, minutes, seconds] = timeMatch
+    ? [timeMatch[1], timeMatch[2] || '00', timeMatch[3] || '00']
+    : ['00', '00', '00'];
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * Convert a DICOM person name (Family^Given^Middle^Prefix^Suffix) to display order
+ */
+export function formatDicomPersonName(name?: string): string | undefined {
+  if (!name) {
+    return undefined;
+  }
+  // Only the alphabetic representation is used; ideographic and phonetic groups follow '='
+  const [family, given, middle, prefix, suffix] = name.split('=')[0].split('^').map(part => part.trim());
+  const formatted = [prefix, given, middle, family, suffix].filter(Boolean).join(' ');
+  return formatted || undefined;
+}
+
+/**
+ * Decode one frame into rescaled grayscale values
+ */
+function decodeFrame(
+  dataSet: DataSet,
+  pixelElement: Element,
+  pixelModule: PixelModule,
+  transferSyntaxUid: string,
+  frameIndex: number,
+): Float32Array {
+  const { rows, columns, samplesPerPixel, bitsAllocated } = pixelModule;
+  const bytesPerSample = bitsAllocated / 8;
+
+  if (![8, 16, 32].includes(bitsAllocated)) {
+    throw new DicomParseError(`Unsupported Bits Allocated value: ${bitsAllocated}`);
+  }
+
+  let frameBytes: Uint8Array;
+  const layout = {
+    bigEndian: false,
+    planarConfiguration: pixelModule.planarConfiguration,
+    photometricInterpretation: pixelModule.photometricInterpretation,
+  };
+
+  if (!pixelElement.encapsulatedPixelData) {
+    const frameLength = rows * columns * samplesPerPixel * bytesPerSample;
+    const start = pixelElement.dataOffset + frameIndex * frameLength;
+    if (start + frameLength > dataSet.byteArray.length) {
+      throw new DicomParseError('DICOM pixel data is truncated');
+    }
+    frameBytes = dataSet.byteArray.subarray(start, start + frameLength);
+    layout.bigEndian = transferSyntaxUid === BIG_ENDIAN_SYNTAX;
+  } else {
+    const encoded = readEncapsulatedFrame(dataSet, pixelElement, pixelModule, transferSyntaxUid, frameIndex);
+
+    if (transferSyntaxUid === RLE_SYNTAX) {
+      frameBytes = decodeRleFrame(encoded, rows * columns, samplesPerPixel, bytesPerSample);
+      layout.planarConfiguration = 0;
+    } else if (transferSyntaxUid === JPEG_BASELINE_SYNTAX) {
+      if (bitsAllocated !== 8) {
+        throw new DicomParseError('Only 8-bit JPEG baseline pixel data is supported');
+      }
+      const decoded = jpeg.decode(encoded, { useTArray: true, formatAsRGBA: false, tolerantDecoding: true });
+      frameBytes = decoded.data;
+      // jpeg-js applies the YCbCr to RGB color transform itself, and the
+      // component count in the JPEG stream wins over the DICOM header
+      const components = decoded.data.length / (rows * columns);
+      layout.planarConfiguration = 0;
+      if (components === 3) {
+        layout.photometricInterpretation = 'RGB';
+      }
+      return samplesToGrayscale(frameBytes, { ...pixelModule, samplesPerPixel: components }, layout);
+    } else if (JPEG_LOSSLESS_SYNTAXES.includes(transferSyntaxUid)) {
+      const decoded = new JpegLosslessDecoder().decode(
+        encoded.buffer as ArrayBuffer,
+        encoded.byteOffset,
+        encoded.byteLength,
+        bytesPerSample,
+      );
+      frameBytes = new Uint8Array(decoded.buffer, decoded.byteOffset, decoded.byteLength);
+      layout.planarConfiguration = 0;
+    } else {
+      throw new DicomParseError(`Unsupported DICOM transfer syntax: ${transferSyntaxUid}`);
+    }
+  }
+
+  return samplesToGrayscale(frameBytes, pixelModule, layout);
+}
+
+function readEncapsulatedFrame(
+  dataSet: DataSet,
+  pixelElement: Element,
+  pixelModule: PixelModule,
+  transferSyntaxUid: string,
+  frameIndex: number,
+): Uint8Array {
+  const fragments = pixelElement.fragments || [];
+  if (fragments.length === 0) {
+    throw new DicomParseError('Encapsulated pixel data has no fragments');
+  }
+
+  if (pixelModule.frames === 1) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelElement, 0, fragments.length);
+  }
+
+  const basicOffsetTable = pixelElement.basicOffsetTable || [];
+  if (basicOffsetTable.length > 0) {
+    return dicomParser.readEncapsulatedImageFrame(dataSet, pixelElement, frameIndex, basicOffsetTable);
+  }
+
+  // Without an offset table, RLE stores exactly one fragment per frame
+  if (transferSyntaxUid === RLE_SYNTAX) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelElement, frameIndex, 1);
+  }
+
+  const jpegOffsetTable = dicomParser.createJPEGBasicOffsetTable(dataSet, pixelElement);
+  return dicomParser.readEncapsulatedImageFrame(dataSet, pixelElement, frameIndex, jpegOffsetTable);
+}
+
+/**
+ * Decode a PS3.5 Annex G RLE frame into interleaved little-endian samples
+ */
+function decodeRleFrame(
+  encoded: Uint8Array,
+  pixelCount: number,
+  samplesPerPixel: number,
+  bytesPerSample: number,
+): Uint8Array {
+  const view = new DataView(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  const segmentCount = view.getUint32(0, true);
+  if (segmentCount !== samplesPerPixel * bytesPerSample) {
+    throw new DicomParseError(`Unexpected RLE segment count: ${segmentCount}`);
+  }
+
+  const output = new Uint8Array(pixelCount * samplesPerPixel * bytesPerSample);
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const start = view.getUint32(4 + segment * 4, true);
+    const end = segment + 1 < segmentCount ? view.getUint32(8 + segment * 4, true) : encoded.byteLength;
+
+    // Segments are ordered most significant byte first for each sample
+    const sample = Math.floor(segment / bytesPerSample);
+    const byteInSample = bytesPerSample - 1 - (segment % bytesPerSample);
+    const stride = samplesPerPixel * bytesPerSample;
+    let outIndex = sample * bytesPerSample + byteInSample;
+    const outEnd = output.length;
+
+    let position = start;
+    while (position < end && outIndex < outEnd) {
+      const header = (encoded[position++] << 24) >> 24; // signed byte
+      if (header >= 0) {
+        // Literal run of header + 1 bytes
+        for (let i = 0; i <= header && position < end && outIndex < outEnd; i++) {
+          output[outIndex] = encoded[position++];
+          outIndex += stride;
+        }
+      } else if (header !== -128) {
+        // Replicate the next byte 1 - header times
+        const value = encoded[position++];
+        for (let i = 0; i < 1 - header && outIndex < outEnd; i++) {
+          output[outIndex] = value;
+          outIndex += stride;
+        }
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Convert raw samples to rescaled single-channel values
+ */
+function samplesToGrayscale(
+  bytes: Uint8Array,
+  pixelModule: PixelModule,
+  layout: { bigEndian: boolean; planarConfiguration: number; photometricInterpretation: string },
+): Float32Array {
+  const { rows, columns, samplesPerPixel, bitsAllocated, bitsStored, pixelRepresentation } = pixelModule;
+  const pixelCount = rows * columns;
+  const bytesPerSample = bitsAllocated / 8;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = !layout.bigEndian;
+  const masked = bitsStored < bitsAllocated && bitsStored < 32;
+  const mask = masked ? (1 << bitsStored) - 1 : 0;
+  const signBit = bitsStored < 32 ? 1 << (bitsStored - 1) : 0;
+
+  const readSample = (sampleIndex: number): number => {
+    const offset = sampleIndex * bytesPerSample;
+    let value = bytesPerSample === 1 ? view.getUint8(offset) :
+                bytesPerSample === 2 ? view.getUint16(offset, littleEndian) :
+                view.getUint32(offset, littleEndian);
+    if (masked) {
+      value &= mask;
+    }
+    if (pixelRepresentation === 1) {
+      if (bitsStored === 32) {
+        value |= 0; // reinterpret as signed 32-bit
+      } else if (value & signBit) {
+        value -= 1 << bitsStored;
+      }
+    }
+    return value;
+  };
+
+  const output = new Float32Array(pixelCount);
+  const isColor = samplesPerPixel === 3 && !layout.photometricInterpretation.startsWith('YBR');
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (samplesPerPixel === 1) {
+      output[i] = readSample(i);
+    } else if (layout.planarConfiguration === 1) {
+      output[i] = isColor
+        ? 0.299 * readSample(i) + 0.587 * readSample(pixelCount + i) + 0.114 * readSample(2 * pixelCount + i)
+        : readSample(i);
+    } else {
+      const base = i * samplesPerPixel;
+      output[i] = isColor
+        ? 0.299 * readSample(base) + 0.587 * readSample(base + 1) + 0.114 * readSample(base + 2)
+        : readSample(base); // YBR: luminance is the first sample
+    }
+  }
+
+  const { rescaleSlope, rescaleIntercept } = pixelModule;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < pixelCount; i++) {
+    const value = output[i] * rescaleSlope + rescaleIntercept;
+    output[i] = value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  // MONOCHROME1 displays minimum values as white
+  if (layout.photometricInterpretation === 'MONOCHROME1') {
+    for (let i = 0; i < pixelCount; i++) {
+      output[i] = max + min - output[i];
+    }
+  }
+
+  return output;
+}
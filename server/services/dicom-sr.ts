@@ -0,0 +1,429 @@
+import type { AnalysisReport, Detection, MriScan, ScanPatientContext } from '@shared/schema';
+import {
+  element,
+  formatDicomDate,
+  formatDicomTime,
+  uidFromName,
+  uidFromUuid,
+  writeDicomFile,
+  type DicomDataSet,
+  type DicomElement,
+} from './dicom-writer';
+
+/**
+ * DICOM Structured Report export of analysis findings
+ *
+ * Encodes a report version as a Comprehensive SR following TID 1500
+ * (Measurement Report): one measurement group per detection with its finding,
+ * finding site, severity, certainty and size, and an image region on the
+ * source image when the scan was uploaded as DICOM. The impression, once
+ * recorded, is added as a qualitative evaluation.
+ */
+
+export const COMPREHENSIVE_SR_SOP_CLASS = '1.2.840.10008.5.1.4.1.1.88.33';
+
+const MANUFACTURER = 'MRI Analysis Platform';
+
+// Source image a volume slice was read from
+export interface SrSourceImage {
+  sopClassUid: string;
+  sopInstanceUid: string;
+  seriesInstanceUid: string;
+  studyInstanceUid: string;
+  frames: number;
+}
+
+interface Code {
+  value: string;
+  scheme: string;
+  meaning: string;
+}
+
+function code(value: string, scheme: string, meaning: string): Code {
+  return { value, scheme, meaning };
+}
+
+const CODES = {
+  imagingMeasurementReport: code('126000', 'DCM', 'Imaging Measurement Report'),
+  languageOfContent: code('121049', 'DCM', 'Language of Content Item and Descendants'),
+  englishUS: code('en-US', 'RFC5646', 'English (United States)'),
+  observerType: code('121005', 'DCM', 'Observer Type'),
+  device: code('121007', 'DCM', 'Device'),
+  deviceObserverUid: code('121012', 'DCM', 'Device Observer UID'),
+  deviceObserverName: code('121013', 'DCM', 'Device Observer Name'),
+  procedureReported: code('121058', 'DCM', 'Procedure reported'),
+  mrBrain: code('24590-2', 'LN', 'MR Brain'),
+  imageLibrary: code('111028', 'DCM', 'Image Library'),
+  imageLibraryGroup: code('126200', 'DCM', 'Image Library Group'),
+  imagingMeasurements: code('126010', 'DCM', 'Imaging Measurements'),
+  measurementGroup: code('125007', 'DCM', 'Measurement Group'),
+  trackingIdentifier: code('112039', 'DCM', 'Tracking Identifier'),
+  trackingUniqueIdentifier: code('112040', 'DCM', 'Tracking Unique Identifier'),
+  finding: code('121071', 'DCM', 'Finding'),
+  findingSite: code('363698007', 'SCT', 'Finding Site'),
+  laterality: code('272741003', 'SCT', 'Laterality'),
+  left: code('7771000', 'SCT', 'Left'),
+  right: code('24028007', 'SCT', 'Right'),
+  imageRegion: code('111030', 'DCM', 'Image Region'),
+  longAxis: code('103339001', 'SCT', 'Long Axis'),
+  shortAxis: code('103340004', 'SCT', 'Short Axis'),
+  area: code('42798000', 'SCT', 'Area'),
+  certaintyOfFinding: code('111012', 'DCM', 'Certainty of Finding'),
+  severity: code('246112005', 'SCT', 'Severity'),
+  algorithmName: code('111001', 'DCM', 'Algorithm Name'),
+  algorithmVersion: code('111003', 'DCM', 'Algorithm Version'),
+  comment: code('121106', 'DCM', 'Comment'),
+  qualitativeEvaluations: code('C0034375', 'UMLS', 'Qualitative Evaluations'),
+  impression: code('121073', 'DCM', 'Impression'),
+  millimetre: code('mm', 'UCUM', 'mm'),
+  squareMillimetre: code('mm2', 'UCUM', 'mm2'),
+  percent: code('%', 'UCUM', '%'),
+  brain: code('12738006', 'SCT', 'Brain structure'),
+};
+
+// Findings by the clinical type detectors assign
+const FINDING_CODES: Record<string, Code> = {
+  cerebral_aneurysm: code('128609009', 'SCT', 'Intracranial aneurysm'),
+  brain_hemorrhage: code('274100004', 'SCT', 'Cerebral hemorrhage'),
+  brain_tumor: code('126952004', 'SCT', 'Neoplasm of brain'),
+  brain_lesion: code('52988006', 'SCT', 'Lesion'),
+  vascular_anomaly: code('49755003', 'SCT', 'Morphologically abnormal structure'),
+};
+
+const SEVERITY_CODES: Record<Detection['severity'], Code> = {
+  critical: code('24484000', 'SCT', 'Severe'),
+  major: code('6736007', 'SCT', 'Moderate'),
+  minor: code('255604002', 'SCT', 'Mild'),
+};
+
+// Finding sites recognised in detection locations, most specific first
+const FINDING_SITES: [RegExp, Code][] = [
+  [/anterior cerebral artery/i, code('60176003', 'SCT', 'Anterior cerebral artery')],
+  [/middle cerebral artery/i, code('17232002', 'SCT', 'Middle cerebral artery')],
+  [/frontal/i, code('83251001', 'SCT', 'Frontal lobe')],
+  [/temporal/i, code('78277001', 'SCT', 'Temporal lobe')],
+  [/parietal/i, code('16630005', 'SCT', 'Parietal lobe')],
+  [/occipital/i, code('31065004', 'SCT', 'Occipital lobe')],
+  [/cerebell/i, code('113305005', 'SCT', 'Cerebellum')],
+];
+
+type RelationshipType = 'CONTAINS' | 'HAS CONCEPT MOD' | 'HAS OBS CONTEXT' | 'HAS PROPERTIES' | 'SELECTED FROM';
+
+/**
+ * Encode a report version and the detections it was generated from as a
+ * DICOM SR file.
+ * Sources are the scan's DICOM images in volume order; empty for other formats.
+ */
+export function buildMeasurementReportSr(
+  report: AnalysisReport,
+  scan: MriScan,
+  context: ScanPatientContext,
+  sources: SrSourceImage[]
+): Buffer {
+  const { patient, study, series } = context;
+  const generatedAt = new Date(report.generatedAt);
+  const sopInstanceUid = uidFromName(`analysis-report-sr:${report.id}`);
+  const studyInstanceUid = study?.studyInstanceUid ?? sources[0]?.studyInstanceUid ?? uidFromUuid(scan.id);
+  const verified = report.status === 'final' || report.status === 'amended';
+
+  const detections = report.detections;
+  const groups = detections.map(detection => measurementGroup(detection, report, scan, sources));
+  const referenced = uniqueSources(sources, detections, scan);
+
+  const root: DicomDataSet = [
+    ...conceptName(CODES.imagingMeasurementReport),
+    element(0x0040, 0xa040, 'CS', 'CONTAINER'),
+    element(0x0040, 0xa050, 'CS', 'SEPARATE'),
+    element(0x0040, 0xa504, 'SQ', [[
+      element(0x0008, 0x0105, 'CS', 'DCMR'),
+      element(0x0040, 0xdb00, 'CS', '1500'),
+    ]]),
+    element(0x0040, 0xa730, 'SQ', [
+      codeItem('HAS CONCEPT MOD', CODES.languageOfContent, CODES.englishUS),
+      codeItem('HAS OBS CONTEXT', CODES.observerType, CODES.device),
+      uidrefItem('HAS OBS CONTEXT', CODES.deviceObserverUid, uidFromName(`device:${MANUFACTURER}`)),
+      textItem('HAS OBS CONTEXT', CODES.deviceObserverName, MANUFACTURER),
+      codeItem('HAS CONCEPT MOD', CODES.procedureReported, CODES.mrBrain),
+      containerItem('CONTAINS', CODES.imageLibrary, referenced.length > 0
+        ? [containerItem('CONTAINS', CODES.imageLibraryGroup, referenced.map(({ source, frame }) => imageItem('CONTAINS', source, frame)))]
+        : []),
+      containerItem('CONTAINS', CODES.imagingMeasurements, groups),
+      ...(report.impression
+        ? [containerItem('CONTAINS', CODES.qualitativeEvaluations, [textItem('CONTAINS', CODES.impression, report.impression)])]
+        : []),
+    ]),
+  ];
+
+  const dataSet: DicomDataSet = [
+    // SOP Common
+    element(0x0008, 0x0005, 'CS', 'ISO_IR 192'),
+    element(0x0008, 0x0016, 'UI', COMPREHENSIVE_SR_SOP_CLASS),
+    element(0x0008, 0x0018, 'UI', sopInstanceUid),
+    element(0x0008, 0x0201, 'SH', '+0000'),
+    // Patient
+    element(0x0010, 0x0010, 'PN', patient?.name ?? ''),
+    element(0x0010, 0x0020, 'LO', patient?.medicalRecordNumber ?? ''),
+    element(0x0010, 0x0030, 'DA', patient?.birthDate?.replace(/-/g, '') ?? ''),
+    element(0x0010, 0x0040, 'CS', patient?.sex ?? ''),
+    // General Study
+    element(0x0020, 0x000d, 'UI', studyInstanceUid),
+    element(0x0008, 0x0020, 'DA', study?.studyDate ? formatDicomDate(new Date(study.studyDate)) : ''),
+    element(0x0008, 0x0030, 'TM', study?.studyDate ? formatDicomTime(new Date(study.studyDate)) : ''),
+    element(0x0008, 0x0090, 'PN', study?.referringPhysician ?? ''),
+    element(0x0020, 0x0010, 'SH', ''),
+    element(0x0008, 0x0050, 'SH', study?.accessionNumber ?? ''),
+    // SR Document Series
+    element(0x0008, 0x0060, 'CS', 'SR'),
+    element(0x0020, 0x000e, 'UI', uidFromName(`analysis-report-sr-series:${scan.id}`)),
+    element(0x0020, 0x0011, 'IS', (series?.seriesNumber ?? 0) + 1000),
+    element(0x0008, 0x103e, 'LO', 'AI analysis findings'),
+    element(0x0008, 0x1111, 'SQ', []),
+    // General Equipment
+    element(0x0008, 0x0070, 'LO', MANUFACTURER),
+    // SR Document General
+    element(0x0020, 0x0013, 'IS', report.version),
+    element(0x0008, 0x0023, 'DA', formatDicomDate(generatedAt)),
+    element(0x0008, 0x0033, 'TM', formatDicomTime(generatedAt)),
+    element(0x0040, 0xa491, 'CS', verified ? 'COMPLETE' : 'PARTIAL'),
+    element(0x0040, 0xa493, 'CS', verified ? 'VERIFIED' : 'UNVERIFIED'),
+    element(0x0040, 0xa496, 'CS', verified ? 'FINAL' : 'PRELIMINARY'),
+    element(0x0040, 0xa372, 'SQ', []),
+    ...(verified && report.signedBy && report.signedAt
+      ? [element(0x0040, 0xa073, 'SQ', [[
+          element(0x0040, 0xa027, 'LO', MANUFACTURER),
+          element(0x0040, 0xa030, 'DT', `${formatDicomDate(new Date(report.signedAt))}${formatDicomTime(new Date(report.signedAt))}+0000`),
+          element(0x0040, 0xa075, 'PN', report.signedBy),
+          element(0x0040, 0xa088, 'SQ', []),
+        ]])]
+      : []),
+    ...(referenced.length > 0 ? [element(0x0040, 0xa375, 'SQ', evidence(referenced.map(({ source }) => source)))] : []),
+    // SR Document Content
+    ...root,
+  ];
+
+  return writeDicomFile(dataSet, COMPREHENSIVE_SR_SOP_CLASS, sopInstanceUid);
+}
+
+function measurementGroup(
+  detection: Detection,
+  report: AnalysisReport,
+  scan: MriScan,
+  sources: SrSourceImage[]
+): DicomDataSet {
+  const content: DicomDataSet[] = [
+    textItem('HAS OBS CONTEXT', CODES.trackingIdentifier, detection.id),
+    uidrefItem('HAS OBS CONTEXT', CODES.trackingUniqueIdentifier, uidFromName(`detection:${report.scanId}:${detection.id}`)),
+    codeItem('CONTAINS', CODES.finding, FINDING_CODES[detection.clinicalType] ?? FINDING_CODES.vascular_anomaly),
+    findingSiteItem(detection.location),
+  ];
+
+  const reference = sourceForSlice(sources, detectionSlice(detection, scan));
+  if (reference && scan.imageMetadata) {
+    content.push(imageRegionItem(detection, scan.imageMetadata.width, scan.imageMetadata.height, reference));
+  }
+
+  const size = detectionSize(detection, scan);
+  if (size) {
+    content.push(numItem(CODES.longAxis, size.longAxis, CODES.millimetre));
+    content.push(numItem(CODES.shortAxis, size.shortAxis, CODES.millimetre));
+    if (size.area !== undefined) {
+      content.push(numItem(CODES.area, size.area, CODES.squareMillimetre));
+    }
+  }
+
+  content.push(
+    numItem(CODES.certaintyOfFinding, detection.confidence, CODES.percent),
+    codeItem('CONTAINS', CODES.severity, SEVERITY_CODES[detection.severity]),
+    textItem('CONTAINS', CODES.comment, `${detection.location}: ${detection.description}`),
+  );
+
+  // Algorithm Identification (TID 4019)
+  const detector = scan.detectionRun?.detectors.find(entry => entry.name === detection.detector);
+  if (detection.detector) {
+    content.push(textItem('HAS CONCEPT MOD', CODES.algorithmName, detection.detector));
+    if (detector) {
+      content.push(textItem('HAS CONCEPT MOD', CODES.algorithmVersion, detector.version));
+    }
+  }
+
+  return containerItem('CONTAINS', CODES.measurementGroup, content);
+}
+
+// Coded finding site with laterality when the location names a side
+function findingSiteItem(location: string): DicomDataSet {
+  const site = FINDING_SITES.find(([pattern]) => pattern.test(location))?.[1] ?? CODES.brain;
+  const item = codeItem('HAS CONCEPT MOD', CODES.findingSite, site);
+  const side = /\bleft\b/i.test(location) ? CODES.left : /\bright\b/i.test(location) ? CODES.right : null;
+  if (side) {
+    item.push(element(0x0040, 0xa730, 'SQ', [codeItem('HAS CONCEPT MOD', CODES.laterality, side)]));
+  }
+  return item;
+}
+
+// Bounding box outline in pixel coordinates of the source image
+function imageRegionItem(
+  detection: Detection,
+  width: number,
+  height: number,
+  reference: { source: SrSourceImage; frame?: number }
+): DicomDataSet {
+  const { x, y, width: boxWidth, height: boxHeight } = detection.coordinates;
+  const left = (x / 100) * width;
+  const top = (y / 100) * height;
+  const right = ((x + boxWidth) / 100) * width;
+  const bottom = ((y + boxHeight) / 100) * height;
+
+  return [
+    element(0x0040, 0xa010, 'CS', 'CONTAINS'),
+    element(0x0040, 0xa040, 'CS', 'SCOORD'),
+    ...conceptName(CODES.imageRegion),
+    element(0x0070, 0x0022, 'FL', [left, top, right, top, right, bottom, left, bottom, left, top]),
+    element(0x0070, 0x0023, 'CS', 'POLYLINE'),
+    element(0x0040, 0xa730, 'SQ', [imageItem('SELECTED FROM', reference.source, reference.frame)]),
+  ];
+}
+
+// Extent of a detection in millimetres, and its area when it has a mask
+function detectionSize(detection: Detection, scan: MriScan): { longAxis: number; shortAxis: number; area?: number } | null {
+  const metadata = scan.imageMetadata;
+  if (!metadata) {
+    return null;
+  }
+
+  const widthMm = (detection.coordinates.width / 100) * metadata.width * metadata.spacing[0];
+  const heightMm = (detection.coordinates.height / 100) * metadata.height * metadata.spacing[1];
+  const size: { longAxis: number; shortAxis: number; area?: number } = {
+    longAxis: round(Math.max(widthMm, heightMm)),
+    shortAxis: round(Math.min(widthMm, heightMm)),
+  };
+
+  const mask = detection.mask;
+  if (mask && mask.width > 0 && mask.height > 0) {
+    // Runs alternate background and foreground, starting with background
+    const foreground = mask.runs.reduce((sum, run, i) => (i % 2 === 1 ? sum + run : sum), 0);
+    size.area = round(foreground * (widthMm / mask.width) * (heightMm / mask.height));
+  }
+
+  return size;
+}
+
+// Volume slice a detection was found on: the mask's slice, else the middle
+// slice the detection boxes are drawn on
+function detectionSlice(detection: Detection, scan: MriScan): number {
+  return detection.mask?.slice ?? Math.floor((scan.imageMetadata?.depth ?? 1) / 2);
+}
+
+function sourceForSlice(sources: SrSourceImage[], slice: number): { source: SrSourceImage; frame?: number } | null {
+  if (sources.length === 1 && sources[0].frames > 1) {
+    return slice < sources[0].frames ? { source: sources[0], frame: slice + 1 } : null;
+  }
+  return sources[slice] ? { source: sources[slice] } : null;
+}
+
+// Images referenced by the detections, each listed once
+function uniqueSources(
+  sources: SrSourceImage[],
+  detections: Detection[],
+  scan: MriScan
+): { source: SrSourceImage; frame?: number }[] {
+  const seen = new Map<string, { source: SrSourceImage; frame?: number }>();
+  for (const detection of detections) {
+    const reference = sourceForSlice(sources, detectionSlice(detection, scan));
+    if (reference) {
+      seen.set(`${reference.source.sopInstanceUid}:${reference.frame ?? ''}`, reference);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+// Current Requested Procedure Evidence: referenced instances by study and series
+function evidence(sources: SrSourceImage[]): DicomDataSet[] {
+  const studies = new Map<string, Map<string, SrSourceImage[]>>();
+  for (const source of sources) {
+    const seriesMap = studies.get(source.studyInstanceUid) ?? new Map<string, SrSourceImage[]>();
+    studies.set(source.studyInstanceUid, seriesMap);
+    const instances = seriesMap.get(source.seriesInstanceUid) ?? [];
+    if (!instances.some(instance => instance.sopInstanceUid === source.sopInstanceUid)) {
+      instances.push(source);
+    }
+    seriesMap.set(source.seriesInstanceUid, instances);
+  }
+
+  return Array.from(studies.entries()).map(([studyUid, seriesMap]) => [
+    element(0x0020, 0x000d, 'UI', studyUid),
+    element(0x0008, 0x1115, 'SQ', Array.from(seriesMap.entries()).map(([seriesUid, instances]) => [
+      element(0x0020, 0x000e, 'UI', seriesUid),
+      element(0x0008, 0x1199, 'SQ', instances.map(instance => [
+        element(0x0008, 0x1150, 'UI', instance.sopClassUid),
+        element(0x0008, 0x1155, 'UI', instance.sopInstanceUid),
+      ])),
+    ])),
+  ]);
+}
+
+function codeSequenceItem({ value, scheme, meaning }: Code): DicomDataSet {
+  return [
+    element(0x0008, 0x0100, 'SH', value),
+    element(0x0008, 0x0102, 'SH', scheme),
+    element(0x0008, 0x0104, 'LO', meaning),
+  ];
+}
+
+function conceptName(concept: Code): DicomElement[] {
+  return [element(0x0040, 0xa043, 'SQ', [codeSequenceItem(concept)])];
+}
+
+function contentItem(relationship: RelationshipType, valueType: string, concept: Code): DicomDataSet {
+  return [
+    element(0x0040, 0xa010, 'CS', relationship),
+    element(0x0040, 0xa040, 'CS', valueType),
+    ...conceptName(concept),
+  ];
+}
+
+function containerItem(relationship: RelationshipType, concept: Code, children: DicomDataSet[]): DicomDataSet {
+  return [
+    ...contentItem(relationship, 'CONTAINER', concept),
+    element(0x0040, 0xa050, 'CS', 'SEPARATE'),
+    ...(children.length > 0 ? [element(0x0040, 0xa730, 'SQ', children)] : []),
+  ];
+}
+
+function textItem(relationship: RelationshipType, concept: Code, text: string): DicomDataSet {
+  return [...contentItem(relationship, 'TEXT', concept), element(0x0040, 0xa160, 'UT', text)];
+}
+
+function codeItem(relationship: RelationshipType, concept: Code, value: Code): DicomDataSet {
+  return [...contentItem(relationship, 'CODE', concept), element(0x0040, 0xa168, 'SQ', [codeSequenceItem(value)])];
+}
+
+function uidrefItem(relationship: RelationshipType, concept: Code, uid: string): DicomDataSet {
+  return [...contentItem(relationship, 'UIDREF', concept), element(0x0040, 0xa124, 'UI', uid)];
+}
+
+function numItem(concept: Code, value: number, units: Code): DicomDataSet {
+  return [
+    ...contentItem('CONTAINS', 'NUM', concept),
+    element(0x0040, 0xa300, 'SQ', [[
+      element(0x0040, 0x08ea, 'SQ', [codeSequenceItem(units)]),
+      element(0x0040, 0xa30a, 'DS', value),
+    ]]),
+  ];
+}
+
+// IMAGE content item, without a concept name as in the image library
+function imageItem(relationship: RelationshipType, source: SrSourceImage, frame?: number): DicomDataSet {
+  return [
+    element(0x0040, 0xa010, 'CS', relationship),
+    element(0x0040, 0xa040, 'CS', 'IMAGE'),
+    element(0x0008, 0x1199, 'SQ', [[
+      element(0x0008, 0x1150, 'UI', source.sopClassUid),
+      element(0x0008, 0x1155, 'UI', source.sopInstanceUid),
+      ...(frame !== undefined ? [element(0x0008, 0x1160, 'IS', frame)] : []),
+    ]]),
+  ];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,224 @@
+import { createHash } from 'crypto';
+
+/**
+ * DICOM Part 10 writer for the objects the platform creates (structured
+ * reports) and the file meta information of de-identified uploads. Data sets
+ * are encoded in Explicit VR Little Endian with defined lengths throughout,
+ * which every DICOM reader accepts.
+ */
+
+export const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+
+// Identifies files written by this platform in their meta header
+const IMPLEMENTATION_CLASS_UID = '2.25.255746384165935286417011386925476418493';
+const IMPLEMENTATION_VERSION_NAME = 'MRIAP_1';
+
+// VRs with a 2-byte reserved field and a 4-byte length
+const LONG_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OW', 'SQ', 'UC', 'UN', 'UR', 'UT']);
+
+export type DicomVR =
+  | 'AE' | 'AS' | 'CS' | 'DA' | 'DS' | 'DT' | 'FL' | 'FD' | 'IS' | 'LO' | 'LT' | 'OB' | 'PN' | 'SH' | 'SQ'
+  | 'SL' | 'SS' | 'ST' | 'TM' | 'UC' | 'UI' | 'UL' | 'UR' | 'US' | 'UT';
+
+// Element values: strings (multiple values joined with a backslash), numbers
+// for numeric VRs, nested items for SQ and raw bytes for OB
+export type DicomValue = string | number | number[] | DicomDataSet[] | Buffer;
+
+export interface DicomElement {
+  tag: number; // group << 16 | element
+  vr: DicomVR;
+  value: DicomValue;
+}
+
+export type DicomDataSet = DicomElement[];
+
+/**
+ * Data element with the tag given as (group, element), e.g. tag(0x0010, 0x0010)
+ */
+export function tag(group: number, element: number): number {
+  return ((group << 16) | element) >>> 0;
+}
+
+/**
+ * Build a data element; empty strings encode type 2 attributes without a value
+ */
+export function element(group: number, elementNumber: number, vr: DicomVR, value: DicomValue): DicomElement {
+  return { tag: tag(group, elementNumber), vr, value };
+}
+
+/**
+ * Encode a Part 10 file: preamble, file meta information and the data set
+ */
+export function writeDicomFile(dataSet: DicomDataSet, sopClassUid: string, sopInstanceUid: string): Buffer {
+  return Buffer.concat([
+    encodeFileMetaInformation(sopClassUid, sopInstanceUid, EXPLICIT_VR_LITTLE_ENDIAN),
+    encodeDataSet(dataSet),
+  ]);
+}
+
+/**
+ * Preamble, "DICM" prefix and file meta information of a Part 10 file whose
+ * data set is encoded in the given transfer syntax
+ */
+export function encodeFileMetaInformation(sopClassUid: string, sopInstanceUid: string, transferSyntaxUid: string): Buffer {
+  const metaElements = encodeDataSet([
+    element(0x0002, 0x0001, 'OB', Buffer.from([0x00, 0x01])),
+    element(0x0002, 0x0002, 'UI', sopClassUid),
+    element(0x0002, 0x0003, 'UI', sopInstanceUid),
+    element(0x0002, 0x0010, 'UI', transferSyntaxUid),
+    element(0x0002, 0x0012, 'UI', IMPLEMENTATION_CLASS_UID),
+    element(0x0002, 0x0013, 'SH', IMPLEMENTATION_VERSION_NAME),
+  ]);
+  const groupLength = encodeElement(element(0x0002, 0x0000, 'UL', metaElements.length));
+
+  return Buffer.concat([Buffer.alloc(128), Buffer.from('DICM', 'latin1'), groupLength, metaElements]);
+}
+
+/**
+ * Encode the elements of a data set in ascending tag order
+ */
+export function encodeDataSet(dataSet: DicomDataSet): Buffer {
+  const sorted = [...dataSet].sort((a, b) => a.tag - b.tag);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].tag === sorted[i - 1].tag) {
+      throw new Error(`Duplicate DICOM element ${formatTag(sorted[i].tag)}`);
+    }
+  }
+  return Buffer.concat(sorted.map(encodeElement));
+}
+
+function encodeElement({ tag: elementTag, vr, value }: DicomElement): Buffer {
+  const data = encodeValue(vr, value);
+  const long = LONG_VRS.has(vr);
+  const header = Buffer.alloc(long ? 12 : 8);
+  header.writeUInt16LE(elementTag >>> 16, 0);
+  header.writeUInt16LE(elementTag & 0xffff, 2);
+  header.write(vr, 4, 'latin1');
+  if (long) {
+    header.writeUInt32LE(data.length, 8);
+  } else {
+    if (data.length > 0xffff) {
+      throw new Error(`Value of ${formatTag(elementTag)} is too long for VR ${vr}`);
+    }
+    header.writeUInt16LE(data.length, 6);
+  }
+  return Buffer.concat([header, data]);
+}
+
+function encodeValue(vr: DicomVR, value: DicomValue): Buffer {
+  if (vr === 'SQ') {
+    if (!Array.isArray(value) || value.some(item => !Array.isArray(item))) {
+      throw new Error('Sequence values must be lists of items');
+    }
+    return Buffer.concat((value as DicomDataSet[]).map(encodeItem));
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.length % 2 === 0 ? value : Buffer.concat([value, Buffer.alloc(1)]);
+  }
+
+  const numbers = typeof value === 'number' ? [value] : Array.isArray(value) ? (value as number[]) : null;
+  switch (vr) {
+    case 'US':
+    case 'SS':
+    case 'UL':
+    case 'SL':
+    case 'FL':
+    case 'FD':
+      return encodeBinaryNumbers(vr, numbers ?? String(value).split('\\').map(Number));
+    case 'DS':
+      return padString(vr, numbers ? numbers.map(formatDecimalString).join('\\') : String(value));
+    case 'IS':
+      return padString(vr, numbers ? numbers.map(n => String(Math.round(n))).join('\\') : String(value));
+    default:
+      return padString(vr, numbers ? numbers.join('\\') : String(value));
+  }
+}
+
+function encodeItem(item: DicomDataSet): Buffer {
+  const content = encodeDataSet(item);
+  const header = Buffer.alloc(8);
+  header.writeUInt16LE(0xfffe, 0);
+  header.writeUInt16LE(0xe000, 2);
+  header.writeUInt32LE(content.length, 4);
+  return Buffer.concat([header, content]);
+}
+
+function encodeBinaryNumbers(vr: DicomVR, numbers: number[]): Buffer {
+  const size = vr === 'FD' ? 8 : vr === 'US' || vr === 'SS' ? 2 : 4;
+  const buffer = Buffer.alloc(size * numbers.length);
+  numbers.forEach((n, i) => {
+    const offset = i * size;
+    if (vr === 'US') buffer.writeUInt16LE(n, offset);
+    else if (vr === 'SS') buffer.writeInt16LE(n, offset);
+    else if (vr === 'UL') buffer.writeUInt32LE(n, offset);
+    else if (vr === 'SL') buffer.writeInt32LE(n, offset);
+    else if (vr === 'FL') buffer.writeFloatLE(n, offset);
+    else buffer.writeDoubleLE(n, offset);
+  });
+  return buffer;
+}
+
+// Text VRs are padded to even length with a space, UIDs with a NUL
+function padString(vr: DicomVR, text: string): Buffer {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length % 2 === 0) {
+    return bytes;
+  }
+  return Buffer.concat([bytes, Buffer.from(vr === 'UI' ? [0x00] : [0x20])]);
+}
+
+// Decimal strings hold at most 16 characters
+function formatDecimalString(value: number): string {
+  const text = String(value);
+  if (text.length <= 16) {
+    return text;
+  }
+  for (let digits = 15; digits > 0; digits--) {
+    const rounded = String(Number(value.toPrecision(digits)));
+    if (rounded.length <= 16) {
+      return rounded;
+    }
+  }
+  return value.toExponential(8);
+}
+
+function formatTag(elementTag: number): string {
+  const hex = elementTag.toString(16).padStart(8, '0').toUpperCase();
+  return `(${hex.slice(0, 4)},${hex.slice(4)})`;
+}
+
+/**
+ * DICOM UID of a UUID under the 2.25 root (DICOM PS3.5 B.2)
+ */
+export function uidFromUuid(uuid: string): string {
+  return `2.25.${BigInt(`0x${uuid.replace(/-/g, '')}`).toString()}`;
+}
+
+/**
+ * Name-based (version 5) UUID of a name, so that the same name always maps
+ * to the same UUID
+ */
+export function uuidFromName(name: string): string {
+  const hex = createHash('sha1').update(name).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Stable DICOM UID for a name, e.g. the SR of one report version, so that
+ * repeated exports produce the same instance
+ */
+export function uidFromName(name: string): string {
+  return uidFromUuid(uuidFromName(name));
+}
+
+/**
+ * DICOM date (YYYYMMDD) and time (HHMMSS) of a moment, in UTC
+ */
+export function formatDicomDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+export function formatDicomTime(date: Date): string {
+  return date.toISOString().slice(11, 19).replace(/:/g, '');
+}
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFhirReportBundle } from './fhir-export';
+import type { AnalysisReport, Detection, MriScan } from '@shared/schema';
+
+const detection: Detection = {
+  id: 'det-1',
+  type: 'lesion',
+  confidence: 72,
+  location: 'Right frontal lobe',
+  coordinates: { x: 20, y: 30, width: 4, height: 4 },
+  riskLevel: 'low',
+  description: 'Small white matter lesion',
+  severity: 'minor',
+  severityScore: 2,
+  riskCategory: 'low',
+  clinicalType: 'white_matter_lesion',
+};
+
+const scan: MriScan = {
+  id: '5b0f6a4e-8d1c-4f7a-9e2b-3c4d5e6f7a8b',
+  filename: '/objects/uploads/scan',
+  originalName: 'scan.dcm',
+  fileSize: 1024,
+  mimeType: 'application/dicom',
+  uploadedAt: new Date('2026-10-01T09:00:00Z'),
+  processingStatus: 'completed',
+  threeDModelPath: null,
+  // Replaced by a later detection run after the report was generated
+  detections: [{ ...detection, location: 'Left occipital lobe', riskCategory: 'high' }],
+  detectionRun: null,
+  imageMetadata: null,
+  seriesFiles: null,
+  seriesId: null,
+  analysisCompleted: true,
+  aclPolicy: null,
+};
+
+const report: AnalysisReport = {
+  id: '9c1e2d3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f',
+  scanId: scan.id,
+  version: 1,
+  riskScore: 2,
+  detectionAccuracy: 94,
+  imageQuality: 8.9,
+  processingTime: 2.43,
+  criticalFindings: [],
+  secondaryFindings: [{
+    id: detection.id,
+    title: 'White matter lesion',
+    description: 'Small white matter lesion',
+    confidence: 72,
+    significance: 'Likely incidental',
+  }],
+  technicalSummary: {
+    processingTime: 2.43,
+    imagesAnalyzed: 1,
+    modelVersion: 'test',
+    algorithm: 'test',
+    imageResolution: '512x512x1 (MR)',
+    qualityScore: 8.9,
+  },
+  overallRisk: 'low',
+  criticalCount: 0,
+  majorCount: 0,
+  minorCount: 1,
+  status: 'final',
+  impression: 'Incidental lesion.',
+  signedBy: 'Dr. Reader',
+  signedById: null,
+  signedAt: new Date('2026-10-02T10:00:00Z'),
+  addenda: [],
+  options: null,
+  sections: null,
+  detections: [detection],
+  generatedAt: new Date('2026-10-01T10:00:00Z'),
+};
+
+test('secondary findings are described by the detections of their report version', () => {
+  const bundle = buildFhirReportBundle(report, scan, { patient: null, study: null, series: null });
+
+  const observation = bundle.entry
+    .map(entry => entry.resource)
+    .find(resource => resource.resourceType === 'Observation' && resource.code.text === 'White matter lesion');
+  assert.ok(observation && observation.resourceType === 'Observation');
+  assert.deepEqual(observation.bodySite, { text: 'Right frontal lobe' });
+  assert.deepEqual(observation.component?.[0], { code: { text: 'Risk level' }, valueCodeableConcept: { text: 'low' } });
+});
@@ -0,0 +1,240 @@
+import type {
+  AnalysisReport,
+  CriticalFinding,
+  MriScan,
+  ReportStatus,
+  ScanPatientContext,
+  SecondaryFinding,
+} from '@shared/schema';
+import {
+  assertValidFhirBundle,
+  type FhirBundle,
+  type FhirDiagnosticReport,
+  type FhirImagingStudy,
+  type FhirObservation,
+  type FhirPatient,
+  type FhirReference,
+} from './fhir-r4';
+import { uidFromUuid, uuidFromName } from './dicom-writer';
+
+/**
+ * FHIR R4 export of analysis reports: a collection Bundle holding the
+ * DiagnosticReport, one Observation per finding, the ImagingStudy of the scan
+ * and the Patient when the scan is linked to one.
+ */
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const DICOM = 'http://dicom.nema.org/resources/ontology/DCM';
+const UCUM = 'http://unitsofmeasure.org';
+const IDENTIFIER_TYPES = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+const DIAGNOSTIC_SERVICE_SECTIONS = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+const OBSERVATION_CATEGORIES = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+const MR_BRAIN = { system: LOINC, code: '24590-2', display: 'MR Brain' };
+const BRAIN_STRUCTURE = { system: SNOMED, code: '12738006', display: 'Brain structure' };
+
+// Addenda are appended without changing the signed content
+const DIAGNOSTIC_REPORT_STATUSES: Record<ReportStatus, FhirDiagnosticReport['status']> = {
+  draft: 'partial',
+  preliminary: 'preliminary',
+  final: 'final',
+  amended: 'appended',
+};
+
+const OBSERVATION_STATUSES: Record<ReportStatus, FhirObservation['status']> = {
+  draft: 'preliminary',
+  preliminary: 'preliminary',
+  final: 'final',
+  amended: 'final',
+};
+
+const GENDERS: Record<'M' | 'F' | 'O', FhirPatient['gender']> = {
+  M: 'male',
+  F: 'female',
+  O: 'other',
+};
+
+/**
+ * Build the FHIR bundle of a report version, validated against the R4 structure
+ */
+export function buildFhirReportBundle(report: AnalysisReport, scan: MriScan, context: ScanPatientContext): FhirBundle {
+  const { patient, study, series } = context;
+  const issued = new Date(report.generatedAt).toISOString();
+  const effective = (study?.studyDate ? new Date(study.studyDate) : new Date(scan.uploadedAt)).toISOString();
+
+  const patientUrl = patient ? `urn:uuid:${patient.id}` : null;
+  const studyUrl = `urn:uuid:${scan.id}`;
+  const reportUrl = `urn:uuid:${report.id}`;
+  const subject: FhirReference | undefined = patientUrl ? { reference: patientUrl, type: 'Patient' } : undefined;
+  const studyReference: FhirReference = { reference: studyUrl, type: 'ImagingStudy' };
+
+  const observationContext = { report, subject, studyReference, effective, issued };
+  const observations = [
+    ...report.criticalFindings.map(finding => ({
+      fullUrl: findingUrl(report, finding.id),
+      resource: criticalObservation(finding, observationContext),
+    })),
+    ...report.secondaryFindings.map(finding => ({
+      fullUrl: findingUrl(report, finding.id),
+      resource: secondaryObservation(finding, observationContext),
+    })),
+  ];
+
+  const modality = series?.modality ?? scan.imageMetadata?.modality ?? 'MR';
+  const imagingStudy: FhirImagingStudy = {
+    resourceType: 'ImagingStudy',
+    id: scan.id,
+    identifier: compact([
+      study?.studyInstanceUid ? { system: 'urn:dicom:uid', value: `urn:oid:${study.studyInstanceUid}` } : null,
+      study?.accessionNumber
+        ? { type: { coding: [{ system: IDENTIFIER_TYPES, code: 'ACSN' }] }, value: study.accessionNumber }
+        : null,
+    ]),
+    status: 'available',
+    modality: [{ system: DICOM, code: modality }],
+    // ImagingStudy requires a subject; unlinked scans only carry a description
+    subject: subject ?? { display: 'Patient not recorded' },
+    started: effective,
+    numberOfSeries: 1,
+    numberOfInstances: scan.seriesFiles?.length ?? 1,
+    description: study?.description ?? scan.originalName,
+    series: [{
+      uid: series?.seriesInstanceUid ?? uidFromUuid(scan.id),
+      number: series?.seriesNumber ?? undefined,
+      modality: { system: DICOM, code: modality },
+      description: series?.description ?? undefined,
+      numberOfInstances: scan.seriesFiles?.length ?? 1,
+      bodySite: BRAIN_STRUCTURE,
+    }],
+  };
+
+  const diagnosticReport: FhirDiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    id: report.id,
+    identifier: [{ system: 'urn:ietf:rfc:3986', value: reportUrl }],
+    status: DIAGNOSTIC_REPORT_STATUSES[report.status],
+    category: [{ coding: [{ system: DIAGNOSTIC_SERVICE_SECTIONS, code: 'RAD', display: 'Radiology' }] }],
+    code: { coding: [MR_BRAIN], text: `MRI brain analysis, version ${report.version}` },
+    subject,
+    effectiveDateTime: effective,
+    issued,
+    resultsInterpreter: report.signedBy ? [{ display: report.signedBy }] : undefined,
+    result: observations.length > 0 ? observations.map(({ fullUrl }) => ({ reference: fullUrl, type: 'Observation' })) : undefined,
+    imagingStudy: [studyReference],
+    conclusion: conclusion(report),
+  };
+
+  const patientResource: FhirPatient | null = patient && {
+    resourceType: 'Patient',
+    id: patient.id,
+    identifier: [{
+      type: { coding: [{ system: IDENTIFIER_TYPES, code: 'MR' }] },
+      value: patient.medicalRecordNumber,
+    }],
+    name: patient.name ? [{ text: patient.name }] : undefined,
+    gender: patient.sex ? GENDERS[patient.sex] : undefined,
+    birthDate: patient.birthDate ?? undefined,
+  };
+
+  return assertValidFhirBundle(stripUndefined({
+    resourceType: 'Bundle',
+    id: `${report.id}-v${report.version}`.slice(0, 64),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: reportUrl, resource: diagnosticReport },
+      ...observations,
+      { fullUrl: studyUrl, resource: imagingStudy },
+      ...(patientResource && patientUrl ? [{ fullUrl: patientUrl, resource: patientResource }] : []),
+    ],
+  }));
+}
+
+interface ObservationContext {
+  report: AnalysisReport;
+  subject?: FhirReference;
+  studyReference: FhirReference;
+  effective: string;
+  issued: string;
+}
+
+function criticalObservation(finding: CriticalFinding, context: ObservationContext): FhirObservation {
+  return {
+    ...observationBase(finding, context),
+    bodySite: { text: finding.location },
+    note: [{ text: finding.recommendation }],
+    component: [
+      riskComponent(finding.riskLevel),
+      confidenceComponent(finding.confidence),
+      { code: { text: 'Estimated size' }, valueString: finding.size },
+    ],
+  };
+}
+
+function secondaryObservation(finding: SecondaryFinding, context: ObservationContext): FhirObservation {
+  // Secondary findings carry no risk level of their own; take it from the
+  // detection the report version was generated from
+  const detection = context.report.detections.find(d => d.id === finding.id);
+  return {
+    ...observationBase(finding, context),
+    bodySite: detection ? { text: detection.location } : undefined,
+    note: [{ text: finding.description }],
+    component: compact([
+      detection ? riskComponent(detection.riskCategory) : null,
+      confidenceComponent(finding.confidence),
+      { code: { text: 'Clinical significance' }, valueString: finding.significance },
+    ]),
+  };
+}
+
+function observationBase(finding: { id: string; title: string }, context: ObservationContext): FhirObservation {
+  return {
+    resourceType: 'Observation',
+    id: findingUrl(context.report, finding.id).slice('urn:uuid:'.length),
+    status: OBSERVATION_STATUSES[context.report.status],
+    category: [{ coding: [{ system: OBSERVATION_CATEGORIES, code: 'imaging', display: 'Imaging' }] }],
+    code: { text: finding.title },
+    subject: context.subject,
+    effectiveDateTime: context.effective,
+    issued: context.issued,
+    derivedFrom: [context.studyReference],
+  };
+}
+
+function riskComponent(risk: string): NonNullable<FhirObservation['component']>[number] {
+  return { code: { text: 'Risk level' }, valueCodeableConcept: { text: risk } };
+}
+
+function confidenceComponent(confidence: number): NonNullable<FhirObservation['component']>[number] {
+  return {
+    code: { text: 'Detection confidence' },
+    valueQuantity: { value: confidence, unit: '%', system: UCUM, code: '%' },
+  };
+}
+
+// Impression followed by addenda, or the automated risk summary before sign-off
+function conclusion(report: AnalysisReport): string {
+  const parts = [
+    report.impression ??
+      `Automated analysis: ${report.overallRisk} risk (score ${report.riskScore}/10); ` +
+      `${report.criticalCount} critical, ${report.majorCount} major, ${report.minorCount} minor findings.`,
+    ...report.addenda.map((addendum, index) => `Addendum ${index + 1} (${addendum.author}): ${addendum.text}`),
+  ];
+  return parts.join('\n\n');
+}
+
+// Stable UUID of a finding within a report version, so re-exports keep their ids
+function findingUrl(report: AnalysisReport, findingId: string): string {
+  return `urn:uuid:${uuidFromName(`${report.id}:${findingId}`)}`;
+}
+
+function compact<T>(values: (T | null)[]): T[] | undefined {
+  const present = values.filter((value): value is T => value !== null);
+  return present.length > 0 ? present : undefined;
+}
+
+// FHIR JSON has no null or undefined elements
+function stripUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
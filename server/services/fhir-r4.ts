@@ -0,0 +1,243 @@
+import { z } from 'zod';
+
+/**
+ * Structure of the FHIR R4 resources the platform exports, following the
+ * element names, cardinalities, required codes and primitive formats of
+ * https://hl7.org/fhir/R4/. Only the elements the exports use are modelled;
+ * any other element is rejected so typos cannot reach an integration partner.
+ */
+
+// Primitive formats from the R4 datatypes page
+const ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+const DATE_PATTERN = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1]))?)?$/;
+const DATE_TIME_PATTERN = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00)))?)?)?$/;
+const INSTANT_PATTERN = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)-(0[1-9]|1[0-2])-(0[1-9]|[1-2][0-9]|3[0-1])T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00))$/;
+const CODE_PATTERN = /^[^\s]+(\s[^\s]+)*$/;
+const URI_PATTERN = /^\S+$/;
+// DICOM UIDs as used by ImagingStudy.series.uid
+const DICOM_UID_PATTERN = /^[0-2](\.(0|[1-9][0-9]*))+$/;
+
+const string = z.string().min(1);
+const id = z.string().regex(ID_PATTERN, 'Invalid id');
+const code = z.string().regex(CODE_PATTERN, 'Invalid code');
+const uri = z.string().regex(URI_PATTERN, 'Invalid uri');
+const date = z.string().regex(DATE_PATTERN, 'Invalid date');
+const dateTime = z.string().regex(DATE_TIME_PATTERN, 'Invalid dateTime');
+const instant = z.string().regex(INSTANT_PATTERN, 'Invalid instant');
+const unsignedInt = z.number().int().min(0);
+
+// Present repeating elements must hold at least one value (ele-1)
+function list<T extends z.ZodTypeAny>(item: T) {
+  return z.array(item).min(1);
+}
+
+const coding = z.object({
+  system: uri.optional(),
+  code: code.optional(),
+  display: string.optional(),
+}).strict();
+
+const codeableConcept = z.object({
+  coding: list(coding).optional(),
+  text: string.optional(),
+}).strict().refine(concept => concept.coding || concept.text, 'A CodeableConcept needs a coding or text');
+
+const identifier = z.object({
+  use: z.enum(['usual', 'official', 'temp', 'secondary', 'old']).optional(),
+  type: codeableConcept.optional(),
+  system: uri.optional(),
+  value: string.optional(),
+}).strict();
+
+const reference = z.object({
+  reference: string.optional(),
+  type: uri.optional(),
+  display: string.optional(),
+}).strict().refine(ref => ref.reference || ref.display, 'A Reference needs a reference or display');
+
+const quantity = z.object({
+  value: z.number().optional(),
+  unit: string.optional(),
+  system: uri.optional(),
+  code: code.optional(),
+}).strict();
+
+const annotation = z.object({
+  authorString: string.optional(),
+  time: dateTime.optional(),
+  text: string,
+}).strict();
+
+const humanName = z.object({
+  text: string.optional(),
+}).strict();
+
+const patient = z.object({
+  resourceType: z.literal('Patient'),
+  id: id.optional(),
+  identifier: list(identifier).optional(),
+  name: list(humanName).optional(),
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+  birthDate: date.optional(),
+}).strict();
+
+const imagingStudy = z.object({
+  resourceType: z.literal('ImagingStudy'),
+  id: id.optional(),
+  identifier: list(identifier).optional(),
+  status: z.enum(['registered', 'available', 'cancelled', 'entered-in-error', 'unknown']),
+  modality: list(coding).optional(),
+  subject: reference,
+  started: dateTime.optional(),
+  numberOfSeries: unsignedInt.optional(),
+  numberOfInstances: unsignedInt.optional(),
+  description: string.optional(),
+  series: list(z.object({
+    uid: z.string().regex(DICOM_UID_PATTERN, 'Invalid DICOM UID'),
+    number: unsignedInt.optional(),
+    modality: coding,
+    description: string.optional(),
+    numberOfInstances: unsignedInt.optional(),
+    bodySite: coding.optional(),
+    started: dateTime.optional(),
+  }).strict()).optional(),
+}).strict();
+
+const observationComponent = z.object({
+  code: codeableConcept,
+  valueQuantity: quantity.optional(),
+  valueCodeableConcept: codeableConcept.optional(),
+  valueString: string.optional(),
+}).strict().refine(
+  component => [component.valueQuantity, component.valueCodeableConcept, component.valueString].filter(Boolean).length <= 1,
+  'A component has at most one value[x]'
+);
+
+const observation = z.object({
+  resourceType: z.literal('Observation'),
+  id: id.optional(),
+  identifier: list(identifier).optional(),
+  status: z.enum(['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown']),
+  category: list(codeableConcept).optional(),
+  code: codeableConcept,
+  subject: reference.optional(),
+  effectiveDateTime: dateTime.optional(),
+  issued: instant.optional(),
+  bodySite: codeableConcept.optional(),
+  note: list(annotation).optional(),
+  derivedFrom: list(reference).optional(),
+  component: list(observationComponent).optional(),
+}).strict();
+
+const diagnosticReport = z.object({
+  resourceType: z.literal('DiagnosticReport'),
+  id: id.optional(),
+  identifier: list(identifier).optional(),
+  status: z.enum([
+    'registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled', 'entered-in-error', 'unknown',
+  ]),
+  category: list(codeableConcept).optional(),
+  code: codeableConcept,
+  subject: reference.optional(),
+  effectiveDateTime: dateTime.optional(),
+  issued: instant.optional(),
+  resultsInterpreter: list(reference).optional(),
+  result: list(reference).optional(),
+  imagingStudy: list(reference).optional(),
+  conclusion: string.optional(),
+}).strict();
+
+const resource = z.discriminatedUnion('resourceType', [patient, imagingStudy, observation, diagnosticReport]);
+
+export const fhirBundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  id: id.optional(),
+  identifier: identifier.optional(),
+  type: z.enum([
+    'document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history', 'searchset', 'collection',
+  ]),
+  timestamp: instant.optional(),
+  entry: list(z.object({
+    fullUrl: uri.optional(),
+    resource,
+  }).strict()).optional(),
+}).strict();
+
+export type FhirBundle = z.infer<typeof fhirBundleSchema>;
+export type FhirResource = z.infer<typeof resource>;
+export type FhirPatient = z.infer<typeof patient>;
+export type FhirImagingStudy = z.infer<typeof imagingStudy>;
+export type FhirObservation = z.infer<typeof observation>;
+export type FhirDiagnosticReport = z.infer<typeof diagnosticReport>;
+export type FhirReference = z.infer<typeof reference>;
+
+export class FhirValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid FHIR bundle: ${issues.join('; ')}`);
+    this.name = 'FhirValidationError';
+    Object.setPrototypeOf(this, FhirValidationError.prototype);
+  }
+}
+
+/**
+ * Problems that keep a bundle from being valid R4: structural errors, plus
+ * duplicate fullUrls (bdl-7) and references to entries the bundle does not
+ * contain. An empty list means the bundle is valid.
+ */
+export function validateFhirBundle(bundle: unknown): string[] {
+  const parsed = fhirBundleSchema.safeParse(bundle);
+  if (!parsed.success) {
+    return parsed.error.issues.map(issue => `${issue.path.join('.') || 'Bundle'}: ${issue.message}`);
+  }
+
+  const issues: string[] = [];
+  const entries = parsed.data.entry ?? [];
+  const fullUrls = new Set<string>();
+  entries.forEach((entry, index) => {
+    if (entry.fullUrl && fullUrls.has(entry.fullUrl)) {
+      issues.push(`entry.${index}.fullUrl: Duplicate fullUrl ${entry.fullUrl}`);
+    }
+    if (entry.fullUrl) {
+      fullUrls.add(entry.fullUrl);
+    }
+  });
+
+  entries.forEach((entry, index) => {
+    collectReferences(entry.resource).forEach(({ path, target }) => {
+      if (target.startsWith('urn:uuid:') && !fullUrls.has(target)) {
+        issues.push(`entry.${index}.resource.${path}: Reference ${target} is not in the bundle`);
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Validate a bundle, throwing FhirValidationError when it is not valid R4
+ */
+export function assertValidFhirBundle(bundle: FhirBundle): FhirBundle {
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) {
+    throw new FhirValidationError(issues);
+  }
+  return bundle;
+}
+
+// Literal references of a resource with their element paths
+function collectReferences(value: unknown, path = ''): { path: string; target: string }[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectReferences(item, `${path}.${index}`));
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, child]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    if (key === 'reference' && typeof child === 'string') {
+      return [{ path: childPath, target: child }];
+    }
+    return collectReferences(child, childPath);
+  });
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import type { MllpEndpoint } from './mllp';
+import type { OruMessageOptions } from './hl7-oru';
+
+/**
+ * Outbound HL7 destinations, configured as JSON in HL7_DESTINATIONS, e.g.
+ * {"ris": {"host": "ris.example.org", "port": 2575, "receivingApplication": "RIS"}}
+ * HL7_SENDING_APPLICATION and HL7_SENDING_FACILITY name this system in MSH.
+ */
+
+const destinationSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535),
+  receivingApplication: z.string().optional(),
+  receivingFacility: z.string().optional(),
+  processingId: z.enum(['P', 'T', 'D']).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+}).strict();
+
+const destinationsSchema = z.record(z.string().regex(/^[\w.-]+$/, 'Destination names may only contain letters, digits, _ . and -'), destinationSchema);
+
+export type Hl7DestinationConfig = z.infer<typeof destinationSchema>;
+
+export interface Hl7Destination extends MllpEndpoint {
+  name: string;
+  message: OruMessageOptions;
+}
+
+export class UnknownHl7DestinationError extends Error {
+  constructor(name: string) {
+    super(`Unknown HL7 destination: ${name}`);
+    this.name = 'UnknownHl7DestinationError';
+    Object.setPrototypeOf(this, UnknownHl7DestinationError.prototype);
+  }
+}
+
+export class Hl7DestinationRegistry {
+  private destinations: Map<string, Hl7Destination> | null = null;
+
+  /**
+   * All configured destinations
+   */
+  list(): Hl7Destination[] {
+    return Array.from(this.load().values());
+  }
+
+  /**
+   * Destination by name; throws UnknownHl7DestinationError if not configured
+   */
+  get(name: string): Hl7Destination {
+    const destination = this.load().get(name);
+    if (!destination) {
+      throw new UnknownHl7DestinationError(name);
+    }
+    return destination;
+  }
+
+  // Parsed once; an invalid setting is reported and leaves no destinations
+  private load(): Map<string, Hl7Destination> {
+    if (!this.destinations) {
+      this.destinations = new Map();
+      const configured = process.env.HL7_DESTINATIONS?.trim();
+      if (configured) {
+        try {
+          const parsed = destinationsSchema.safeParse(JSON.parse(configured));
+          if (!parsed.success) {
+            throw new Error(fromZodError(parsed.error).toString());
+          }
+          for (const [name, config] of Object.entries(parsed.data)) {
+            this.destinations.set(name, toDestination(name, config));
+          }
+        } catch (error) {
+          console.error('Ignoring invalid HL7_DESTINATIONS:', error instanceof Error ? error.message : error);
+        }
+      }
+    }
+    return this.destinations;
+  }
+}
+
+function toDestination(name: string, config: Hl7DestinationConfig): Hl7Destination {
+  return {
+    name,
+    host: config.host,
+    port: config.port,
+    timeoutMs: config.timeoutMs,
+    message: {
+      sendingApplication: process.env.HL7_SENDING_APPLICATION || undefined,
+      sendingFacility: process.env.HL7_SENDING_FACILITY || undefined,
+      receivingApplication: config.receivingApplication,
+      receivingFacility: config.receivingFacility,
+      processingId: config.processingId,
+    },
+  };
+}
+
+// Singleton instance for the application
+export const hl7Destinations = new Hl7DestinationRegistry();
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildOruR01, escape, Hl7ExportError } from './hl7-oru';
+import type { AnalysisReport, Detection, MriScan } from '@shared/schema';
+
+const detection: Detection = {
+  id: 'det-1',
+  type: 'lesion',
+  confidence: 72,
+  location: 'Right frontal lobe',
+  coordinates: { x: 20, y: 30, width: 4, height: 4 },
+  riskLevel: 'low',
+  description: 'Small white matter lesion',
+  severity: 'minor',
+  severityScore: 2,
+  riskCategory: 'low',
+  clinicalType: 'white_matter_lesion',
+};
+
+const scan: MriScan = {
+  id: '5b0f6a4e-8d1c-4f7a-9e2b-3c4d5e6f7a8b',
+  filename: '/objects/uploads/scan',
+  originalName: 'scan.dcm',
+  fileSize: 1024,
+  mimeType: 'application/dicom',
+  uploadedAt: new Date('2026-10-01T09:00:00Z'),
+  processingStatus: 'completed',
+  threeDModelPath: null,
+  // Replaced by a later detection run after the report was generated
+  detections: [{ ...detection, location: 'Left occipital lobe', riskCategory: 'high' }],
+  detectionRun: null,
+  imageMetadata: null,
+  seriesFiles: null,
+  seriesId: null,
+  analysisCompleted: true,
+  aclPolicy: null,
+};
+
+const report: AnalysisReport = {
+  id: '9c1e2d3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f',
+  scanId: scan.id,
+  version: 1,
+  riskScore: 2,
+  detectionAccuracy: 94,
+  imageQuality: 8.9,
+  processingTime: 2.43,
+  criticalFindings: [],
+  secondaryFindings: [{
+    id: detection.id,
+    title: 'White matter lesion',
+    description: 'Small white matter lesion',
+    confidence: 72,
+    significance: 'Likely incidental',
+  }],
+  technicalSummary: {
+    processingTime: 2.43,
+    imagesAnalyzed: 1,
+    modelVersion: 'test',
+    algorithm: 'test',
+    imageResolution: '512x512x1 (MR)',
+    qualityScore: 8.9,
+  },
+  overallRisk: 'low',
+  criticalCount: 0,
+  majorCount: 0,
+  minorCount: 1,
+  status: 'final',
+  impression: 'Incidental lesion.',
+  signedBy: 'Dr. Reader',
+  signedById: null,
+  signedAt: new Date('2026-10-02T10:00:00Z'),
+  addenda: [],
+  options: null,
+  sections: null,
+  detections: [detection],
+  generatedAt: new Date('2026-10-01T10:00:00Z'),
+};
+
+const context = { patient: null, study: null, series: null };
+
+function observations(text: string): string[][] {
+  return text.split('\r').filter(segment => segment.startsWith('OBX|')).map(segment => segment.split('|'));
+}
+
+test('final reports render as ORU^R01 with an OBX group per finding', () => {
+  const message = buildOruR01(report, scan, context, { receivingApplication: 'RIS' });
+  const segments = message.text.split('\r');
+
+  const msh = segments[0].split('|');
+  assert.deepEqual([msh[2], msh[4], msh[8], msh[9], msh[11]], ['MRIAP', 'RIS', 'ORU^R01^ORU_R01', message.controlId, '2.5.1']);
+  assert.equal(segments.find(segment => segment.startsWith('OBR|'))?.split('|')[25], 'F');
+
+  const finding = observations(message.text).filter(fields => fields[4] === '1');
+  assert.deepEqual(finding.map(fields => [fields[3].split('^')[0], fields[5]]), [
+    ['FINDING', 'White matter lesion'],
+    ['SEVERITY', 'minor'],
+    ['LOCATION', 'Right frontal lobe'],
+    ['CONFIDENCE', '72'],
+    ['RISK_LEVEL', 'low'],
+    ['SIGNIFICANCE', 'Likely incidental'],
+  ]);
+  assert.ok(finding.every(fields => fields[11] === 'F'));
+});
+
+test('draft reports are not sent as results', () => {
+  assert.throws(() => buildOruR01({ ...report, status: 'draft' }, scan, context), Hl7ExportError);
+});
+
+test('delimiters in values are escaped', () => {
+  assert.equal(escape('a|b^c&d~e\\f\ng'), 'a\\F\\b\\S\\c\\T\\d\\R\\e\\E\\f g');
+});
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import type { AnalysisReport, MriScan, ScanPatientContext } from '@shared/schema';
+
+/**
+ * HL7 v2.5.1 ORU^R01 rendering of finalised analysis reports
+ *
+ * One OBR describes the MR brain analysis; OBX segments carry the risk score,
+ * overall risk, impression and addenda, followed by a group of OBX segments
+ * per finding sharing an observation sub-ID.
+ */
+
+export const HL7_VERSION = '2.5.1';
+
+// Encoding characters of MSH-2: component, repetition, escape, subcomponent
+const ENCODING_CHARACTERS = '^~\\&';
+
+export interface OruMessageOptions {
+  sendingApplication?: string;
+  sendingFacility?: string;
+  receivingApplication?: string;
+  receivingFacility?: string;
+  // Processing ID (MSH-11): P production, T training, D debugging
+  processingId?: 'P' | 'T' | 'D';
+}
+
+export interface OruMessage {
+  controlId: string;
+  text: string; // segments separated by carriage returns
+}
+
+export class Hl7ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Hl7ExportError';
+    Object.setPrototypeOf(this, Hl7ExportError.prototype);
+  }
+}
+
+const LOCAL = 'L';
+
+/**
+ * Render a final or amended report as an ORU^R01 message
+ */
+export function buildOruR01(
+  report: AnalysisReport,
+  scan: MriScan,
+  context: ScanPatientContext,
+  options: OruMessageOptions = {}
+): OruMessage {
+  if (report.status !== 'final' && report.status !== 'amended') {
+    throw new Hl7ExportError(`Only final reports can be sent as HL7 results; version ${report.version} is ${report.status}`);
+  }
+
+  const { patient, study } = context;
+  const controlId = randomUUID().replace(/-/g, '').slice(0, 20);
+  // Amended reports are sent as corrections of the final result
+  const resultStatus = report.status === 'amended' ? 'C' : 'F';
+  const observedAt = formatHl7DateTime(new Date(study?.studyDate ?? scan.uploadedAt));
+  const reportedAt = formatHl7DateTime(new Date(report.signedAt ?? report.generatedAt));
+
+  const segments: string[] = [
+    'MSH|' + ENCODING_CHARACTERS + '|' + fields([
+      escape(options.sendingApplication ?? 'MRIAP'),
+      escape(options.sendingFacility ?? ''),
+      escape(options.receivingApplication ?? ''),
+      escape(options.receivingFacility ?? ''),
+      formatHl7DateTime(new Date()),
+      '',
+      'ORU^R01^ORU_R01',
+      controlId,
+      options.processingId ?? 'P',
+      HL7_VERSION,
+    ]),
+  ];
+
+  if (patient) {
+    segments.push(segment('PID', [
+      '1',
+      '',
+      `${escape(patient.medicalRecordNumber)}^^^^MR`,
+      '',
+      escape(patient.name ?? ''),
+      '',
+      patient.birthDate?.replace(/-/g, '') ?? '',
+      patient.sex ?? '',
+    ]));
+  }
+
+  const fillerOrder = `${escape(report.id)}^MRIAP`;
+  segments.push(segment('ORC', ['RE', escape(study?.accessionNumber ?? ''), fillerOrder, '', 'CM']));
+  segments.push(segment('OBR', [
+    '1',
+    escape(study?.accessionNumber ?? ''),
+    fillerOrder,
+    '24590-2^MR Brain^LN',
+    '',
+    '',
+    observedAt,
+    ...blank(14),
+    reportedAt, // OBR-22 results report/status change
+    '',
+    'RAD',
+    resultStatus,
+    ...blank(6),
+    report.signedBy ? `&${escape(report.signedBy)}` : '', // OBR-32 principal result interpreter
+  ]));
+
+  const observations = new ObservationWriter(resultStatus, reportedAt);
+  observations.add('NM', `RISK_SCORE^Risk score^${LOCAL}`, '', String(report.riskScore), {
+    units: `{score}^score (0-10)^UCUM`,
+    range: '0-10',
+    abnormal: report.overallRisk === 'high' ? 'H' : '',
+  });
+  observations.add('ST', `OVERALL_RISK^Overall risk^${LOCAL}`, '', escape(report.overallRisk));
+  if (report.impression) {
+    observations.add('TX', '19005-8^Radiology Imaging study [Impression] (narrative)^LN', '', text(report.impression));
+  }
+  report.addenda.forEach((addendum, index) => {
+    observations.add('TX', `ADDENDUM^Addendum^${LOCAL}`, String(index + 1), text(`${addendum.author}: ${addendum.text}`));
+  });
+
+  // Findings are numbered through critical then secondary, one sub-ID each
+  report.criticalFindings.forEach((finding, index) => {
+    const subId = String(index + 1);
+    observations.add('ST', `FINDING^Finding^${LOCAL}`, subId, escape(finding.title), { abnormal: 'AA' });
+    observations.add('ST', `SEVERITY^Severity^${LOCAL}`, subId, 'critical');
+    observations.add('ST', `LOCATION^Location^${LOCAL}`, subId, escape(finding.location));
+    observations.add('ST', `SIZE^Estimated size^${LOCAL}`, subId, escape(finding.size));
+    observations.add('NM', `CONFIDENCE^Detection confidence^${LOCAL}`, subId, String(finding.confidence), { units: '%^percent^UCUM' });
+    observations.add('ST', `RISK_LEVEL^Risk level^${LOCAL}`, subId, finding.riskLevel);
+    observations.add('ST', `RECOMMENDATION^Recommendation^${LOCAL}`, subId, escape(finding.recommendation));
+  });
+  report.secondaryFindings.forEach((finding, index) => {
+    const subId = String(report.criticalFindings.length + index + 1);
+    // Severity and risk come from the detections this report version was generated from
+    const detection = report.detections.find(d => d.id === finding.id);
+    observations.add('ST', `FINDING^Finding^${LOCAL}`, subId, escape(finding.title), { abnormal: 'A' });
+    if (detection) {
+      observations.add('ST', `SEVERITY^Severity^${LOCAL}`, subId, detection.severity);
+      observations.add('ST', `LOCATION^Location^${LOCAL}`, subId, escape(detection.location));
+    }
+    observations.add('NM', `CONFIDENCE^Detection confidence^${LOCAL}`, subId, String(finding.confidence), { units: '%^percent^UCUM' });
+    if (detection) {
+      observations.add('ST', `RISK_LEVEL^Risk level^${LOCAL}`, subId, detection.riskCategory);
+    }
+    observations.add('ST', `SIGNIFICANCE^Clinical significance^${LOCAL}`, subId, escape(finding.significance));
+  });
+
+  segments.push(...observations.segments);
+  return { controlId, text: segments.join('\r') };
+}
+
+// OBX segments numbered in order of addition
+class ObservationWriter {
+  readonly segments: string[] = [];
+
+  constructor(private readonly status: string, private readonly observedAt: string) {}
+
+  add(
+    valueType: 'NM' | 'ST' | 'TX',
+    identifier: string,
+    subId: string,
+    value: string,
+    extra: { units?: string; range?: string; abnormal?: string } = {}
+  ): void {
+    this.segments.push(segment('OBX', [
+      String(this.segments.length + 1),
+      valueType,
+      identifier,
+      subId,
+      value,
+      extra.units ?? '',
+      extra.range ?? '',
+      extra.abnormal ?? '',
+      '',
+      '',
+      this.status,
+      '',
+      '',
+      this.observedAt,
+    ]));
+  }
+}
+
+function segment(name: string, values: string[]): string {
+  return `${name}|${fields(values)}`;
+}
+
+// Fields joined with the field separator, without trailing empty fields
+function fields(values: string[]): string {
+  const last = values.reduce((end, value, index) => (value ? index + 1 : end), 0);
+  return values.slice(0, last).join('|');
+}
+
+function blank(count: number): string[] {
+  return Array.from({ length: count }, () => '');
+}
+
+/**
+ * Escape HL7 delimiters in a value; line breaks become spaces
+ */
+export function escape(value: string): string {
+  return value
+    .replace(/\\/g, '\\E\\')
+    .replace(/\|/g, '\\F\\')
+    .replace(/\^/g, '\\S\\')
+    .replace(/&/g, '\\T\\')
+    .replace(/~/g, '\\R\\')
+    .replace(/\r\n|\r|\n/g, ' ');
+}
+
+// Multi-line text as TX repetitions, one per line
+function text(value: string): string {
+  return value.split(/\r\n|\r|\n/).map(escape).join('~');
+}
+
+/**
+ * HL7 date/time (YYYYMMDDHHMMSS+0000) of a moment, in UTC
+ */
+export function formatHl7DateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/[-T:]/g, '') + '+0000';
+}
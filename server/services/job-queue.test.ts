@@ -0,0 +1,55 @@
+import '../testDatabase';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobQueue } from './job-queue';
+import { storage } from '../storage';
+import type { ProcessingJob } from '@shared/schema';
+
+function staleJob(overrides: Partial<ProcessingJob>): ProcessingJob {
+  const now = new Date();
+  return {
+    id: 'job',
+    scanId: 'scan',
+    type: 'conversion',
+    status: 'queued',
+    payload: {},
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: now,
+    lockedAt: null,
+    lockedBy: null,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+test('abandoned jobs that used up their attempts run the failure handler', async (t) => {
+  const failedJob = staleJob({ id: 'failed', status: 'failed', attempts: 3 });
+  const requeuedJob = staleJob({ id: 'requeued' });
+  const requeueStaleJobs = mock.method(storage, 'requeueStaleJobs', async () => [failedJob, requeuedJob]);
+  mock.method(storage, 'claimNextJob', async () => undefined);
+  t.after(() => mock.restoreAll());
+
+  const queue = new JobQueue({ pollIntervalMs: 10 });
+  const failures: { job: ProcessingJob; error: Error }[] = [];
+  const failureHandled = new Promise<void>(resolve => {
+    queue.registerHandler('conversion', {
+      run: async () => {},
+      onFailed: async (job, error) => {
+        failures.push({ job, error });
+        resolve();
+      },
+    });
+  });
+
+  queue.start();
+  await failureHandled;
+  await queue.stop();
+
+  assert.equal(requeueStaleJobs.mock.callCount(), 1);
+  assert.deepEqual(failures.map(({ job }) => job.id), ['failed']);
+  assert.match(failures[0].error.message, /stopped responding/);
+});
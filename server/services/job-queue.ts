@@ -0,0 +1,201 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import type { InsertProcessingJob, ProcessingJob, ProcessingJobType } from '@shared/schema';
+
+/**
+ * Postgres-backed job queue for scan processing
+ *
+ * Jobs live in the processing_jobs table, so queued and interrupted work
+ * survives restarts. A single worker loop per process claims one job at a
+ * time, refreshes its lock while running, and retries failures with
+ * exponential backoff until maxAttempts is reached.
+ */
+
+export interface JobHandler {
+  // Returned jobs are enqueued in the same transaction that completes this one
+  run(job: ProcessingJob): Promise<InsertProcessingJob[] | void>;
+  // Called once when a job has used up all of its attempts
+  onFailed?(job: ProcessingJob, error: Error): Promise<void>;
+}
+
+export interface JobQueueOptions {
+  pollIntervalMs: number;
+  heartbeatIntervalMs: number;
+  // Running jobs without a heartbeat for this long are considered abandoned
+  staleAfterMs: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+const ABANDONED_JOB_ERROR = 'Worker stopped responding while running the job';
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  pollIntervalMs: 1000,
+  heartbeatIntervalMs: 15_000,
+  staleAfterMs: 60_000,
+  retryBaseDelayMs: 5_000,
+  retryMaxDelayMs: 5 * 60_000,
+};
+
+export class JobQueue {
+  private handlers: Map<ProcessingJobType, JobHandler> = new Map();
+  private options: JobQueueOptions;
+  private workerId: string;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private activeTick: Promise<void> | null = null;
+  private started = false;
+  private lastStaleSweep = 0;
+
+  constructor(options: Partial<JobQueueOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Register the handler that runs jobs of the given type
+   */
+  public registerHandler(type: ProcessingJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue, optionally delaying its first run
+   */
+  async enqueue(
+    type: ProcessingJobType,
+    scanId: string,
+    payload: Record<string, unknown> = {},
+    options: { maxAttempts?: number; delayMs?: number } = {}
+  ): Promise<ProcessingJob> {
+    return storage.enqueueJob({
+      type,
+      scanId,
+      payload,
+      maxAttempts: options.maxAttempts,
+      runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+    });
+  }
+
+  /**
+   * Start the worker loop. Jobs left running by a previous process are
+   * picked up again once their heartbeat goes stale.
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    console.log(`Job worker ${this.workerId} started`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop claiming new jobs and wait for the current one to finish
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await this.activeTick;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.started) {
+      return;
+    }
+    this.pollTimer = setTimeout(() => {
+      this.activeTick = this.tick().finally(() => {
+        this.activeTick = null;
+      });
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    let claimedJob = false;
+    try {
+      await this.requeueStaleJobs();
+      const job = await storage.claimNextJob(this.workerId);
+      if (job) {
+        claimedJob = true;
+        await this.runJob(job);
+      }
+    } catch (error) {
+      console.error('Job worker poll failed:', error);
+    }
+    // Drain the queue without waiting while there is work
+    this.schedule(claimedJob ? 0 : this.options.pollIntervalMs);
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastStaleSweep < this.options.heartbeatIntervalMs) {
+      return;
+    }
+    this.lastStaleSweep = now;
+
+    const staleJobs = await storage.requeueStaleJobs(new Date(now - this.options.staleAfterMs), ABANDONED_JOB_ERROR);
+    for (const job of staleJobs) {
+      if (job.status === 'queued') {
+        console.warn(`Requeued abandoned ${job.type} job ${job.id} for scan ${job.scanId}`);
+        continue;
+      }
+      console.error(`Abandoned ${job.type} job ${job.id} for scan ${job.scanId} failed after ${job.attempts} attempts`);
+      const handler = this.handlers.get(job.type);
+      if (handler) {
+        await this.notifyFailed(handler, job, new Error(ABANDONED_JOB_ERROR));
+      }
+    }
+  }
+
+  private async runJob(job: ProcessingJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.failJob(job.id, `No handler registered for job type "${job.type}"`, null);
+      return;
+    }
+
+    console.log(`Running ${job.type} job ${job.id} for scan ${job.scanId} (attempt ${job.attempts}/${job.maxAttempts})`);
+    const heartbeat = setInterval(() => {
+      storage.heartbeatJob(job.id, this.workerId).catch(error => {
+        console.warn(`Heartbeat failed for job ${job.id}:`, error);
+      });
+    }, this.options.heartbeatIntervalMs);
+
+    try {
+      const followUpJobs = (await handler.run(job)) || [];
+      await storage.completeJob(job.id, followUpJobs);
+      console.log(`Completed ${job.type} job ${job.id} for scan ${job.scanId}`);
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      const canRetry = job.attempts < job.maxAttempts;
+      const retryAt = canRetry ? new Date(Date.now() + this.retryDelay(job.attempts)) : null;
+      await storage.failJob(job.id, error.message, retryAt);
+
+      if (retryAt) {
+        console.warn(`${job.type} job ${job.id} failed, retrying at ${retryAt.toISOString()}:`, error.message);
+      } else {
+        console.error(`${job.type} job ${job.id} failed after ${job.attempts} attempts:`, error);
+        await this.notifyFailed(handler, job, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async notifyFailed(handler: JobHandler, job: ProcessingJob, error: Error): Promise<void> {
+    await handler.onFailed?.(job, error).catch(failureError => {
+      console.error(`Failure handler for job ${job.id} threw:`, failureError);
+    });
+  }
+
+  // Exponential backoff: base, 2x base, 4x base, ... capped at the max delay
+  private retryDelay(attempts: number): number {
+    return Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** Math.max(0, attempts - 1));
+  }
+}
+
+// Singleton instance for the application
+export const jobQueue = new JobQueue();
@@ -0,0 +1,322 @@
+import fs from 'fs';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import type { MedicalImageMetadata } from '@shared/schema';
+import { type DicomAttributes, isDicomFile, parseDicomImage } from './dicom-service';
+import { isNiftiFile, parseNiftiVolume } from './nifti-service';
+
+/**
+ * Volumetric image data shared by the conversion pipeline stages
+ */
+
+export interface MedicalVolume {
+  metadata: MedicalImageMetadata;
+  // Voxel intensities, x varies fastest, then y, then z
+  data: Float32Array;
+}
+
+// Header stored alongside voxel data in the intermediate pipeline files
+export interface VolumeFileHeader {
+  metadata: MedicalImageMetadata;
+  volumeId: string;
+  processingStage: string;
+  timestamp: string;
+  [key: string]: unknown;
+}
+
+const VOLUME_FILE_MAGIC = 'MVOL';
+
+/**
+ * Decode a medical image file (DICOM, NIfTI, PNG or JPEG) into a volume
+ */
+export function loadMedicalImage(filePath: string): MedicalVolume {
+  return decodeMedicalImage(fs.readFileSync(filePath));
+}
+
+/**
+ * Decode medical image file contents (DICOM, NIfTI, PNG or JPEG) into a volume
+ */
+export function decodeMedicalImage(buffer: Buffer): MedicalVolume {
+  if (isDicomFile(buffer)) {
+    const { metadata, pixelData } = parseDicomImage(buffer);
+    return { metadata, data: pixelData };
+  }
+
+  if (isNiftiFile(buffer)) {
+    const { metadata, data } = parseNiftiVolume(buffer);
+    return { metadata, data };
+  }
+
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    const png = PNG.sync.read(buffer);
+    return rasterToVolume(png.width, png.height, png.data);
+  }
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    const image = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 1024 });
+    return rasterToVolume(image.width, image.height, image.data);
+  }
+
+  throw new Error('Unsupported medical image format');
+}
+
+/**
+ * Assemble single-slice files into one volume. DICOM slices are ordered by
+ * their position along the slice normal, falling back to instance number and
+ * slice location; other slices keep the order they were given in.
+ */
+export function loadMedicalSeries(filePaths: string[]): MedicalVolume {
+  return decodeMedicalSeries(filePaths.map(filePath => fs.readFileSync(filePath)), filePaths);
+}
+
+/**
+ * Assemble the contents of single-slice files into one volume, ordered as
+ * described for loadMedicalSeries. Labels name the slices in error messages.
+ */
+export function decodeMedicalSeries(
+  buffers: Buffer[],
+  labels: string[] = buffers.map((_, index) => `#${index + 1}`)
+): MedicalVolume {
+  if (buffers.length === 0) {
+    throw new Error('Series contains no slices');
+  }
+  if (buffers.length === 1) {
+    return decodeMedicalImage(buffers[0]);
+  }
+
+  const slices = buffers.map((buffer, index) => {
+    if (isDicomFile(buffer)) {
+      const { metadata, attributes, pixelData } = parseDicomImage(buffer);
+      return { index, volume: { metadata, data: pixelData }, attributes: attributes as DicomAttributes | null };
+    }
+    return { index, volume: decodeMedicalImage(buffer), attributes: null };
+  });
+
+  const first = slices[0].volume.metadata;
+  for (const slice of slices) {
+    const { width, height, depth } = slice.volume.metadata;
+    if (depth !== 1) {
+      throw new Error(`Series slice ${labels[slice.index]} is already a volume`);
+    }
+    if (width !== first.width || height !== first.height) {
+      throw new Error(`Series slices differ in size (${first.width}x${first.height} vs ${width}x${height})`);
+    }
+  }
+
+  const dicomSlices = slices.filter(slice => slice.attributes);
+  if (dicomSlices.length > 0 && dicomSlices.length !== slices.length) {
+    throw new Error('Series mixes DICOM and non-DICOM slices');
+  }
+  const seriesUids = new Set(dicomSlices.map(slice => slice.attributes!.seriesInstanceUid).filter(Boolean));
+  if (seriesUids.size > 1) {
+    throw new Error('Slices belong to more than one DICOM series');
+  }
+
+  let sliceSpacing = first.spacing[2];
+  if (dicomSlices.length > 0) {
+    const ordered = orderDicomSlices(slices.map(slice => slice.attributes!));
+    const byIndex = slices.slice();
+    ordered.order.forEach((index, z) => { slices[z] = byIndex[index]; });
+    sliceSpacing = ordered.sliceSpacing || sliceSpacing;
+  }
+
+  const sliceSize = first.width * first.height;
+  const data = new Float32Array(sliceSize * slices.length);
+  slices.forEach((slice, z) => data.set(slice.volume.data, z * sliceSize));
+
+  const base = slices[0].volume.metadata;
+  return {
+    metadata: {
+      ...base,
+      depth: slices.length,
+      spacing: [base.spacing[0], base.spacing[1], sliceSpacing],
+    },
+    data,
+  };
+}
+
+/**
+ * Volume order of the slices of a DICOM series, as indices into the given
+ * attributes: along the slice normal when the geometry allows, else by
+ * instance number or slice location, else as given. The slice gap is
+ * returned when the positions allow measuring it.
+ */
+export function orderDicomSlices(attributes: DicomAttributes[]): { order: number[]; sliceSpacing?: number } {
+  const order = attributes.map((_, index) => index);
+  const positions = sliceNormalPositions(attributes);
+  if (positions) {
+    order.sort((a, b) => positions[a] - positions[b]);
+    return { order, sliceSpacing: medianSliceGap(order.map(index => positions[index])) || undefined };
+  }
+  if (attributes.every(a => a.instanceNumber !== undefined)) {
+    order.sort((a, b) => attributes[a].instanceNumber! - attributes[b].instanceNumber!);
+  } else if (attributes.every(a => a.sliceLocation !== undefined)) {
+    order.sort((a, b) => attributes[a].sliceLocation! - attributes[b].sliceLocation!);
+    return { order, sliceSpacing: medianSliceGap(order.map(index => attributes[index].sliceLocation!)) || undefined };
+  }
+  return { order };
+}
+
+// Project each slice position onto the shared slice normal, or null when the
+// slices lack geometry or are not parallel
+function sliceNormalPositions(attributes: DicomAttributes[]): number[] | null {
+  const orientation = attributes[0].imageOrientationPatient;
+  if (!orientation || attributes.some(a => !a.imagePositionPatient || !a.imageOrientationPatient)) {
+    return null;
+  }
+  if (attributes.some(a => a.imageOrientationPatient!.some((v, i) => Math.abs(v - orientation[i]) > 1e-3))) {
+    return null;
+  }
+
+  const [rx, ry, rz, cx, cy, cz] = orientation;
+  const normal = [ry * cz - rz * cy, rz * cx - rx * cz, rx * cy - ry * cx];
+  return attributes.map(a => {
+    const [x, y, z] = a.imagePositionPatient!;
+    return x * normal[0] + y * normal[1] + z * normal[2];
+  });
+}
+
+function medianSliceGap(sortedPositions: number[]): number {
+  const gaps = sortedPositions
+    .slice(1)
+    .map((position, i) => Math.abs(position - sortedPositions[i]))
+    .filter(gap => gap > 1e-6)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+// Convert RGBA raster pixels to a single-slice luminance volume
+function rasterToVolume(width: number, height: number, rgba: Uint8Array): MedicalVolume {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const offset = i * 4;
+    data[i] = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+  }
+
+  return {
+    // Raster exports carry no acquisition geometry, so assume unit spacing
+    metadata: {
+      width,
+      height,
+      depth: 1,
+      spacing: [1, 1, 1],
+      origin: [0, 0, 0],
+      modality: 'MR',
+    },
+    data,
+  };
+}
+
+/**
+ * Downsample each slice so neither in-plane dimension exceeds maxSize,
+ * averaging the source pixels covered by each output pixel
+ */
+export function resampleInPlane(volume: MedicalVolume, maxSize: number): MedicalVolume {
+  const { width, height, depth, spacing } = volume.metadata;
+  const factor = Math.max(width, height) / maxSize;
+  if (factor <= 1) {
+    return volume;
+  }
+
+  const outWidth = Math.max(1, Math.round(width / factor));
+  const outHeight = Math.max(1, Math.round(height / factor));
+  const scaleX = width / outWidth;
+  const scaleY = height / outHeight;
+  const data = new Float32Array(outWidth * outHeight * depth);
+
+  for (let z = 0; z < depth; z++) {
+    const sliceOffset = z * width * height;
+    for (let y = 0; y < outHeight; y++) {
+      const y0 = Math.floor(y * scaleY);
+      const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+      for (let x = 0; x < outWidth; x++) {
+        const x0 = Math.floor(x * scaleX);
+        const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) {
+            sum += volume.data[sliceOffset + sy * width + sx];
+          }
+        }
+        data[(z * outHeight + y) * outWidth + x] = sum / ((y1 - y0) * (x1 - x0));
+      }
+    }
+  }
+
+  return {
+    metadata: {
+      ...volume.metadata,
+      width: outWidth,
+      height: outHeight,
+      spacing: [spacing[0] * scaleX, spacing[1] * scaleY, spacing[2]],
+    },
+    data,
+  };
+}
+
+/**
+ * Render one slice of a volume as an 8-bit grayscale PNG, windowed to the
+ * slice's 1st-99th percentile intensities. Defaults to the middle slice.
+ */
+export function renderSlicePreview(volume: MedicalVolume, slice = Math.floor(volume.metadata.depth / 2)): Buffer {
+  const { width, height, depth } = volume.metadata;
+  if (slice < 0 || slice >= depth) {
+    throw new Error(`Slice ${slice} is outside the volume (0-${depth - 1})`);
+  }
+
+  const sliceSize = width * height;
+  const pixels = volume.data.subarray(slice * sliceSize, (slice + 1) * sliceSize);
+  const sorted = Float32Array.from(pixels).sort();
+  const low = sorted[Math.floor(0.01 * (sorted.length - 1))];
+  const high = sorted[Math.floor(0.99 * (sorted.length - 1))];
+  const range = high - low || 1;
+
+  const png = new PNG({ width, height, colorType: 0 });
+  for (let i = 0; i < sliceSize; i++) {
+    const value = Math.round(255 * Math.min(1, Math.max(0, (pixels[i] - low) / range)));
+    png.data[i * 4] = value;
+    png.data[i * 4 + 1] = value;
+    png.data[i * 4 + 2] = value;
+    png.data[i * 4 + 3] = 255;
+  }
+  return PNG.sync.write(png, { colorType: 0 });
+}
+
+/**
+ * Write an intermediate volume file: magic, header length, JSON header, padding, float32 voxels
+ */
+export function writeVolumeFile(filePath: string, header: VolumeFileHeader, data: Float32Array): void {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const dataOffset = Math.ceil((8 + headerBytes.length) / 4) * 4;
+  const output = Buffer.alloc(dataOffset + data.byteLength);
+
+  output.write(VOLUME_FILE_MAGIC, 0, 'ascii');
+  output.writeUInt32LE(headerBytes.length, 4);
+  headerBytes.copy(output, 8);
+  Buffer.from(data.buffer, data.byteOffset, data.byteLength).copy(output, dataOffset);
+
+  fs.writeFileSync(filePath, output);
+}
+
+export function readVolumeFile(filePath: string): { header: VolumeFileHeader; data: Float32Array } {
+  const input = fs.readFileSync(filePath);
+  const { header, dataOffset } = parseVolumeHeader(input, filePath);
+
+  // Copy into an aligned buffer for the typed array view
+  const data = new Float32Array((input.length - dataOffset) / 4);
+  Buffer.from(data.buffer).set(input.subarray(dataOffset));
+  return { header, data };
+}
+
+export function readVolumeHeader(filePath: string): VolumeFileHeader {
+  return parseVolumeHeader(fs.readFileSync(filePath), filePath).header;
+}
+
+function parseVolumeHeader(input: Buffer, filePath: string): { header: VolumeFileHeader; dataOffset: number } {
+  if (input.length < 8 || input.toString('ascii', 0, 4) !== VOLUME_FILE_MAGIC) {
+    throw new Error(`Invalid volume file: ${filePath}`);
+  }
+  const headerLength = input.readUInt32LE(4);
+  const header = JSON.parse(input.toString('utf8', 8, 8 + headerLength)) as VolumeFileHeader;
+  return { header, dataOffset: Math.ceil((8 + headerLength) / 4) * 4 };
+}
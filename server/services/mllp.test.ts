@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { createMllpListener, frameMllpMessage, sendMllpMessage, MllpError } from './mllp';
+
+const MESSAGE = [
+  'MSH|^~\\&|MRIAP||RIS||20261019120000+0000||ORU^R01^ORU_R01|CTRL1|P|2.5.1',
+  'OBX|1|NM|RISK_SCORE^Risk score^L||3||||||F',
+].join('\r');
+
+async function listen(onMessage: (message: string) => void | Promise<void>): Promise<{ server: net.Server; port: number }> {
+  const server = createMllpListener(onMessage);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  return { server, port: (server.address() as AddressInfo).port };
+}
+
+// Sends raw frames on one connection and collects the ACKs that come back
+function exchange(port: number, frames: string[]): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const acks: string[] = [];
+    let received = Buffer.alloc(0);
+    const socket = net.connect({ host: '127.0.0.1', port }, () => {
+      socket.write(Buffer.concat(frames.map(frameMllpMessage)));
+    });
+    socket.setTimeout(5000, () => socket.destroy(new Error('Timed out waiting for acknowledgements')));
+    socket.on('error', reject);
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk]);
+      let end = received.indexOf(0x1c);
+      while (end !== -1) {
+        acks.push(received.subarray(1, end).toString('utf8'));
+        received = received.subarray(end + 2);
+        end = received.indexOf(0x1c);
+      }
+      if (acks.length === frames.length) {
+        socket.end();
+        resolve(acks);
+      }
+    });
+  });
+}
+
+test('messages are delivered and acknowledged with AA', async (t) => {
+  const received: string[] = [];
+  const { server, port } = await listen(message => {
+    received.push(message);
+  });
+  t.after(() => server.close());
+
+  const acknowledgement = await sendMllpMessage({ host: '127.0.0.1', port }, MESSAGE);
+
+  assert.equal(acknowledgement.code, 'AA');
+  assert.equal(acknowledgement.controlId, 'CTRL1');
+  assert.match(acknowledgement.message, /^MSH\|\^~\\&\|RIS\|\|MRIAP\|\|\d{14}\+0000\|\|ACK\^R01\^ACK\|/);
+  assert.deepEqual(received, [MESSAGE]);
+});
+
+test('a handler error is sent back as AE', async (t) => {
+  const { server, port } = await listen(() => {
+    throw new Error('Unknown patient');
+  });
+  t.after(() => server.close());
+
+  await assert.rejects(sendMllpMessage({ host: '127.0.0.1', port }, MESSAGE), (error: unknown) => {
+    assert.ok(error instanceof MllpError);
+    assert.equal(error.acknowledgement?.code, 'AE');
+    assert.equal(error.acknowledgement?.text, 'Unknown patient');
+    return true;
+  });
+});
+
+test('a frame without MSH is rejected and later messages are still acknowledged', async (t) => {
+  const received: string[] = [];
+  const { server, port } = await listen(message => {
+    received.push(message);
+  });
+  t.after(() => server.close());
+
+  const [rejection, acknowledgement] = await exchange(port, ['PID|1||12345', MESSAGE]);
+
+  assert.match(rejection, /\rMSA\|AR\|\|Message has no MSH segment$/);
+  assert.match(acknowledgement, /\rMSA\|AA\|CTRL1$/);
+  assert.deepEqual(received, [MESSAGE]);
+});
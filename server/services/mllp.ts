@@ -0,0 +1,241 @@
+import net from 'net';
+import { randomUUID } from 'crypto';
+import { HL7_VERSION, escape, formatHl7DateTime } from './hl7-oru';
+
+/**
+ * Minimal Lower Layer Protocol (MLLP) transport for HL7 v2 messages: each
+ * message travels as <VT> message <FS><CR> over TCP and the receiver answers
+ * with an ACK framed the same way.
+ */
+
+const START_BLOCK = 0x0b;
+const END_BLOCK = 0x1c;
+const CARRIAGE_RETURN = 0x0d;
+
+export const DEFAULT_MLLP_TIMEOUT_MS = 10000;
+
+export interface MllpEndpoint {
+  host: string;
+  port: number;
+  timeoutMs?: number;
+}
+
+export interface MllpAcknowledgement {
+  code: string; // MSA-1, e.g. AA or CA
+  controlId: string; // MSA-2, the control ID of the acknowledged message
+  text?: string; // MSA-3
+  message: string;
+}
+
+export class MllpError extends Error {
+  constructor(message: string, public readonly acknowledgement?: MllpAcknowledgement) {
+    super(message);
+    this.name = 'MllpError';
+    Object.setPrototypeOf(this, MllpError.prototype);
+  }
+}
+
+/**
+ * Wrap a message in the MLLP start and end blocks
+ */
+export function frameMllpMessage(message: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([START_BLOCK]),
+    Buffer.from(message, 'utf8'),
+    Buffer.from([END_BLOCK, CARRIAGE_RETURN]),
+  ]);
+}
+
+// Splits a TCP stream into MLLP frames, keeping incomplete data for the next chunk
+class MllpFrameReader {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): string[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const messages: string[] = [];
+    let end = this.buffer.indexOf(END_BLOCK);
+    while (end !== -1 && end + 1 < this.buffer.length) {
+      const start = this.buffer.indexOf(START_BLOCK);
+      if (start !== -1 && start < end) {
+        messages.push(this.buffer.subarray(start + 1, end).toString('utf8'));
+      }
+      // Skip the trailing carriage return of the frame
+      this.buffer = this.buffer.subarray(end + 2);
+      end = this.buffer.indexOf(END_BLOCK);
+    }
+    return messages;
+  }
+}
+
+/**
+ * Send a message and wait for its acknowledgement. Resolves on an accept
+ * (AA/CA) ACK and rejects with MllpError on rejection, timeout or a dropped
+ * connection.
+ */
+export function sendMllpMessage(endpoint: MllpEndpoint, message: string): Promise<MllpAcknowledgement> {
+  const controlId = readMessageHeader(message).controlId;
+
+  return new Promise((resolve, reject) => {
+    const reader = new MllpFrameReader();
+    let settled = false;
+    const socket = net.connect({ host: endpoint.host, port: endpoint.port });
+
+    const finish = (error: Error | null, acknowledgement?: MllpAcknowledgement) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(acknowledgement!);
+    };
+
+    socket.setTimeout(endpoint.timeoutMs ?? DEFAULT_MLLP_TIMEOUT_MS);
+    socket.on('connect', () => socket.write(frameMllpMessage(message)));
+    socket.on('timeout', () => finish(new MllpError(`No acknowledgement from ${endpoint.host}:${endpoint.port} in time`)));
+    socket.on('error', error => finish(new MllpError(`Cannot reach ${endpoint.host}:${endpoint.port}: ${error.message}`)));
+    socket.on('close', () => finish(new MllpError(`${endpoint.host}:${endpoint.port} closed the connection without acknowledging`)));
+    socket.on('data', chunk => {
+      const [response] = reader.push(chunk);
+      if (response === undefined) return;
+
+      const acknowledgement = parseAcknowledgement(response);
+      if (!acknowledgement) {
+        finish(new MllpError('The response has no MSA segment'));
+      } else if (acknowledgement.controlId !== controlId) {
+        finish(new MllpError(`Acknowledgement is for message ${acknowledgement.controlId}, not ${controlId}`, acknowledgement));
+      } else if (acknowledgement.code !== 'AA' && acknowledgement.code !== 'CA') {
+        const reason = acknowledgement.text ? `: ${acknowledgement.text}` : '';
+        finish(new MllpError(`Message rejected with ${acknowledgement.code}${reason}`, acknowledgement));
+      } else {
+        finish(null, acknowledgement);
+      }
+    });
+  });
+}
+
+/**
+ * TCP server that accepts MLLP messages, hands each to the handler and
+ * acknowledges it with AA, AE when the handler throws, or AR when the frame
+ * has no MSH segment. Call listen() on the returned server.
+ */
+export function createMllpListener(onMessage: (message: string) => void | Promise<void>): net.Server {
+  return net.createServer(socket => {
+    const reader = new MllpFrameReader();
+    // Answer in arrival order even when handlers finish out of order
+    let pending = Promise.resolve();
+
+    socket.on('error', error => console.error('MLLP connection error:', error.message));
+    socket.on('data', chunk => {
+      for (const message of reader.push(chunk)) {
+        pending = pending
+          .then(() => acknowledge(message, onMessage))
+          .then(ack => {
+            if (!socket.destroyed) {
+              socket.write(frameMllpMessage(ack));
+            }
+          })
+          // Keep the chain going so one bad frame cannot stall the connection
+          .catch(error => console.error('MLLP acknowledgement failed:', error instanceof Error ? error.message : error));
+      }
+    });
+  });
+}
+
+// AA once the handler accepts the message, AE when it throws, and AR without
+// calling it when the frame has no MSH segment to acknowledge
+async function acknowledge(message: string, onMessage: (message: string) => void | Promise<void>): Promise<string> {
+  let header: MessageHeader;
+  try {
+    header = readMessageHeader(message);
+  } catch (error) {
+    return formatAcknowledgement(UNKNOWN_HEADER, 'AR', error instanceof Error ? error.message : String(error));
+  }
+  try {
+    await onMessage(message);
+    return formatAcknowledgement(header, 'AA');
+  } catch (error) {
+    return formatAcknowledgement(header, 'AE', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Original-mode ACK for a received message
+ */
+export function buildAcknowledgement(message: string, code: 'AA' | 'AE' | 'AR', text?: string): string {
+  return formatAcknowledgement(readMessageHeader(message), code, text);
+}
+
+function formatAcknowledgement(header: MessageHeader, code: 'AA' | 'AE' | 'AR', text?: string): string {
+  const msh = [
+    'MSH',
+    '^~\\&',
+    header.receivingApplication,
+    header.receivingFacility,
+    header.sendingApplication,
+    header.sendingFacility,
+    formatHl7DateTime(new Date()),
+    '',
+    `ACK^${header.triggerEvent}^ACK`,
+    randomUUID().replace(/-/g, '').slice(0, 20),
+    header.processingId || 'P',
+    header.version || HL7_VERSION,
+  ].join('|');
+  const msa = ['MSA', code, header.controlId, ...(text ? [escape(text)] : [])].join('|');
+  return `${msh}\r${msa}`;
+}
+
+interface MessageHeader {
+  sendingApplication: string;
+  sendingFacility: string;
+  receivingApplication: string;
+  receivingFacility: string;
+  triggerEvent: string;
+  controlId: string;
+  processingId: string;
+  version: string;
+}
+
+// Stands in for the header of a frame that has none
+const UNKNOWN_HEADER: MessageHeader = {
+  sendingApplication: '',
+  sendingFacility: '',
+  receivingApplication: '',
+  receivingFacility: '',
+  triggerEvent: '',
+  controlId: '',
+  processingId: '',
+  version: '',
+};
+
+// MSH fields of a message; MSH-1 is the field separator itself, so MSH-n is
+// at index n - 1 of the split segment
+function readMessageHeader(message: string): MessageHeader {
+  const msh = message.split(/\r\n|\r|\n/).find(segment => segment.startsWith('MSH|'));
+  if (!msh) {
+    throw new MllpError('Message has no MSH segment');
+  }
+  const fields = msh.split('|');
+  return {
+    sendingApplication: fields[2] ?? '',
+    sendingFacility: fields[3] ?? '',
+    receivingApplication: fields[4] ?? '',
+    receivingFacility: fields[5] ?? '',
+    triggerEvent: (fields[8] ?? '').split('^')[1] ?? '',
+    controlId: fields[9] ?? '',
+    processingId: fields[10] ?? '',
+    version: fields[11] ?? '',
+  };
+}
+
+function parseAcknowledgement(message: string): MllpAcknowledgement | null {
+  const msa = message.split(/\r\n|\r|\n/).find(segment => segment.startsWith('MSA|'));
+  if (!msa) {
+    return null;
+  }
+  const fields = msa.split('|');
+  return {
+    code: fields[1] ?? '',
+    controlId: fields[2] ?? '',
+    text: fields[3] || undefined,
+    message,
+  };
+}
@@ -0,0 +1,343 @@
+import zlib from 'zlib';
+import type { MedicalImageMetadata } from '@shared/schema';
+
+/**
+ * NIfTI-1 / NIfTI-2 ingestion for research volumes
+ *
+ * Reads single-file (.nii / .nii.gz) volumes: header, voxel-to-world affine
+ * and voxel data of the first 3D volume, scaled by scl_slope / scl_inter.
+ */
+
+export interface NiftiHeader {
+  version: 1 | 2;
+  littleEndian: boolean;
+  dims: number[]; // dim[0..7]
+  pixdim: number[]; // pixdim[0..7]
+  datatype: number;
+  bitpix: number;
+  voxOffset: number;
+  sclSlope: number;
+  sclInter: number;
+  qformCode: number;
+  sformCode: number;
+  xyztUnits: number;
+  description: string;
+  // Voxel (i, j, k) to world (RAS+, mm) transform, row-major 4x4
+  affine: number[][];
+}
+
+export interface NiftiVolume {
+  header: NiftiHeader;
+  metadata: MedicalImageMetadata;
+  // Voxel values of the first volume, i varies fastest, then j, then k
+  data: Float32Array;
+}
+
+export class NiftiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NiftiParseError";
+    Object.setPrototypeOf(this, NiftiParseError.prototype);
+  }
+}
+
+const NIFTI1_HEADER_SIZE = 348;
+const NIFTI2_HEADER_SIZE = 540;
+
+// Deflate expands data at most about 1032:1, so inflating this much of a
+// .nii.gz yields the header while bounding the work a crafted file can cause
+const GZIP_HEADER_INPUT_BYTES = 4096;
+
+// Largest decompressed file accepted, voxel data of every volume included
+const MAX_NIFTI_FILE_BYTES = 1024 * 1024 * 1024;
+
+// NIfTI datatype codes and their sizes in bytes
+const DATATYPES: Record<number, { name: string; bytes: number }> = {
+  2: { name: 'uint8', bytes: 1 },
+  4: { name: 'int16', bytes: 2 },
+  8: { name: 'int32', bytes: 4 },
+  16: { name: 'float32', bytes: 4 },
+  64: { name: 'float64', bytes: 8 },
+  128: { name: 'rgb24', bytes: 3 },
+  256: { name: 'int8', bytes: 1 },
+  512: { name: 'uint16', bytes: 2 },
+  768: { name: 'uint32', bytes: 4 },
+  1024: { name: 'int64', bytes: 8 },
+  1280: { name: 'uint64', bytes: 8 },
+  2304: { name: 'rgba32', bytes: 4 },
+};
+
+/**
+ * Check whether a (possibly gzipped) buffer starts with a NIfTI header
+ */
+export function isNiftiFile(buffer: Buffer): boolean {
+  try {
+    const raw = isGzip(buffer) ? gunzipHeader(buffer) : buffer;
+    return detectHeader(raw) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the header without decoding voxel data
+ */
+export function readNiftiHeader(buffer: Buffer): { header: NiftiHeader; metadata: MedicalImageMetadata } {
+  const raw = isGzip(buffer) ? gunzipHeader(buffer) : buffer;
+  const header = parseHeader(raw);
+  return { header, metadata: toImageMetadata(header) };
+}
+
+/**
+ * Parse a .nii or .nii.gz file into a 3D volume
+ */
+export function parseNiftiVolume(buffer: Buffer): NiftiVolume {
+  // Inflate no further than the size the header declares
+  const raw = isGzip(buffer) ? gunzip(buffer, niftiFileSize(parseHeader(gunzipHeader(buffer)))) : buffer;
+  const header = parseHeader(raw);
+  const [, nx, ny, nz] = header.dims;
+  const voxelCount = nx * ny * nz;
+  const { bytes } = DATATYPES[header.datatype];
+
+  const start = header.voxOffset;
+  if (start + voxelCount * bytes > raw.length) {
+    throw new NiftiParseError('NIfTI voxel data is truncated');
+  }
+
+  const view = new DataView(raw.buffer, raw.byteOffset + start, voxelCount * bytes);
+  const data = new Float32Array(voxelCount);
+  const readVoxel = voxelReader(view, header.datatype, header.littleEndian);
+  for (let i = 0; i < voxelCount; i++) {
+    data[i] = readVoxel(i);
+  }
+
+  // scl_slope of 0 means no scaling
+  if (header.sclSlope !== 0 && Number.isFinite(header.sclSlope) &&
+      (header.sclSlope !== 1 || header.sclInter !== 0)) {
+    const inter = Number.isFinite(header.sclInter) ? header.sclInter : 0;
+    for (let i = 0; i < voxelCount; i++) {
+      data[i] = data[i] * header.sclSlope + inter;
+    }
+  }
+
+  return { header, metadata: toImageMetadata(header), data };
+}
+
+function isGzip(buffer: Buffer): boolean {
+  return buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+function gunzip(buffer: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return zlib.gunzipSync(buffer, { maxOutputLength });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new NiftiParseError('NIfTI file holds more data than its header declares');
+    }
+    throw new NiftiParseError(`Failed to decompress NIfTI file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Only inflate the start of the file, which holds the largest header
+function gunzipHeader(buffer: Buffer): Buffer {
+  try {
+    return zlib
+      .gunzipSync(buffer.subarray(0, GZIP_HEADER_INPUT_BYTES), { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+      .subarray(0, NIFTI2_HEADER_SIZE);
+  } catch (error) {
+    throw new NiftiParseError(`Failed to decompress NIfTI file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Size of the uncompressed file from its header: the voxel offset plus the
+// voxel data of every volume
+function niftiFileSize(header: NiftiHeader): number {
+  const [ndim, ...dims] = header.dims;
+  const voxelCount = dims.slice(0, ndim).reduce((count, size) => count * Math.max(1, size), 1);
+  const size = header.voxOffset + voxelCount * DATATYPES[header.datatype].bytes;
+  if (!Number.isSafeInteger(size) || size > MAX_NIFTI_FILE_BYTES) {
+    throw new NiftiParseError(`NIfTI volume of ${header.dims.slice(1, ndim + 1).join('x')} voxels is too large`);
+  }
+  return size;
+}
+
+// Identify the NIfTI version and byte order from sizeof_hdr
+function detectHeader(raw: Buffer): { version: 1 | 2; littleEndian: boolean } | null {
+  if (raw.length < NIFTI1_HEADER_SIZE) {
+    return null;
+  }
+  for (const littleEndian of [true, false]) {
+    const size = littleEndian ? raw.readInt32LE(0) : raw.readInt32BE(0);
+    if (size === NIFTI1_HEADER_SIZE && raw.toString('latin1', 344, 347) === 'n+1') {
+      return { version: 1, littleEndian };
+    }
+    if (size === NIFTI2_HEADER_SIZE && raw.length >= NIFTI2_HEADER_SIZE && raw.toString('latin1', 4, 7) === 'n+2') {
+      return { version: 2, littleEndian };
+    }
+  }
+  return null;
+}
+
+function parseHeader(raw: Buffer): NiftiHeader {
+  const detected = detectHeader(raw);
+  if (!detected) {
+    throw new NiftiParseError('Not a single-file NIfTI-1 or NIfTI-2 volume');
+  }
+
+  const { version, littleEndian } = detected;
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+  const int16 = (offset: number) => view.getInt16(offset, littleEndian);
+  const int32 = (offset: number) => view.getInt32(offset, littleEndian);
+  const int64 = (offset: number) => Number(view.getBigInt64(offset, littleEndian));
+  const float32 = (offset: number) => view.getFloat32(offset, littleEndian);
+  const float64 = (offset: number) => view.getFloat64(offset, littleEndian);
+  const text = (offset: number, length: number) => raw.toString('latin1', offset, offset + length).split('\0')[0].trim();
+  const range = (count: number, read: (i: number) => number) => Array.from({ length: count }, (_, i) => read(i));
+
+  const fields = version === 1
+    ? {
+        dims: range(8, i => int16(40 + i * 2)),
+        datatype: int16(70),
+        bitpix: int16(72),
+        pixdim: range(8, i => float32(76 + i * 4)),
+        voxOffset: float32(108),
+        sclSlope: float32(112),
+        sclInter: float32(116),
+        xyztUnits: raw[123],
+        description: text(148, 80),
+        qformCode: int16(252),
+        sformCode: int16(254),
+        quatern: range(6, i => float32(256 + i * 4)),
+        srow: range(12, i => float32(280 + i * 4)),
+      }
+    : {
+        dims: range(8, i => int64(16 + i * 8)),
+        datatype: int16(12),
+        bitpix: int16(14),
+        pixdim: range(8, i => float64(104 + i * 8)),
+        voxOffset: int64(168),
+        sclSlope: float64(176),
+        sclInter: float64(184),
+        xyztUnits: int32(500),
+        description: text(240, 80),
+        qformCode: int32(344),
+        sformCode: int32(348),
+        quatern: range(6, i => float64(352 + i * 8)),
+        srow: range(12, i => float64(400 + i * 8)),
+      };
+
+  const [ndim, nx, ny, nz] = fields.dims;
+  if (ndim < 2 || ndim > 7 || nx < 1 || ny < 1) {
+    throw new NiftiParseError(`Invalid NIfTI dimensions: ${fields.dims.join(', ')}`);
+  }
+  if (!DATATYPES[fields.datatype]) {
+    throw new NiftiParseError(`Unsupported NIfTI datatype: ${fields.datatype}`);
+  }
+
+  // Dimensions beyond the third (e.g. time) are ignored; only the first volume is read
+  const dims = [ndim, nx, ny, ndim >= 3 ? Math.max(1, nz) : 1, ...fields.dims.slice(4)];
+  const voxOffset = Math.max(fields.voxOffset, version === 1 ? NIFTI1_HEADER_SIZE + 4 : NIFTI2_HEADER_SIZE + 4);
+
+  return {
+    version,
+    littleEndian,
+    dims,
+    pixdim: fields.pixdim,
+    datatype: fields.datatype,
+    bitpix: fields.bitpix,
+    voxOffset: Math.floor(voxOffset),
+    sclSlope: fields.sclSlope,
+    sclInter: fields.sclInter,
+    qformCode: fields.qformCode,
+    sformCode: fields.sformCode,
+    xyztUnits: fields.xyztUnits,
+    description: fields.description,
+    affine: computeAffine(fields.sformCode, fields.qformCode, fields.srow, fields.quatern, fields.pixdim),
+  };
+}
+
+/**
+ * Voxel-to-world transform, preferring sform, then qform, then plain pixdim scaling
+ */
+function computeAffine(
+  sformCode: number,
+  qformCode: number,
+  srow: number[],
+  quatern: number[],
+  pixdim: number[],
+): number[][] {
+  if (sformCode > 0) {
+    return [srow.slice(0, 4), srow.slice(4, 8), srow.slice(8, 12), [0, 0, 0, 1]];
+  }
+
+  const [dx, dy, dz] = [pixdim[1] || 1, pixdim[2] || 1, pixdim[3] || 1];
+
+  if (qformCode > 0) {
+    const [b, c, d, qx, qy, qz] = quatern;
+    const a = Math.sqrt(Math.max(0, 1 - (b * b + c * c + d * d)));
+    // pixdim[0] holds the qfac sign for the third axis
+    const qfac = pixdim[0] < 0 ? -1 : 1;
+    const rotation = [
+      [a * a + b * b - c * c - d * d, 2 * (b * c - a * d), 2 * (b * d + a * c)],
+      [2 * (b * c + a * d), a * a + c * c - b * b - d * d, 2 * (c * d - a * b)],
+      [2 * (b * d - a * c), 2 * (c * d + a * b), a * a + d * d - c * c - b * b],
+    ];
+    return [
+      [rotation[0][0] * dx, rotation[0][1] * dy, rotation[0][2] * dz * qfac, qx],
+      [rotation[1][0] * dx, rotation[1][1] * dy, rotation[1][2] * dz * qfac, qy],
+      [rotation[2][0] * dx, rotation[2][1] * dy, rotation[2][2] * dz * qfac, qz],
+      [0, 0, 0, 1],
+    ];
+  }
+
+  return [
+    [dx, 0, 0, 0],
+    [0, dy, 0, 0],
+    [0, 0, dz, 0],
+    [0, 0, 0, 1],
+  ];
+}
+
+// Scale factor from the header's spatial unit to millimetres
+function spatialUnitToMillimetres(xyztUnits: number): number {
+  switch (xyztUnits & 0x07) {
+    case 1: return 1000; // metre
+    case 3: return 0.001; // micron
+    default: return 1; // millimetre or unknown
+  }
+}
+
+function toImageMetadata(header: NiftiHeader): MedicalImageMetadata {
+  const unitScale = spatialUnitToMillimetres(header.xyztUnits);
+  const spacing = [1, 2, 3].map(i => (Math.abs(header.pixdim[i]) || 1) * unitScale) as [number, number, number];
+  const affine = header.affine.map((row, i) => i < 3 ? row.map(value => value * unitScale) : row);
+
+  return {
+    width: header.dims[1],
+    height: header.dims[2],
+    depth: header.dims[3],
+    spacing,
+    origin: [affine[0][3], affine[1][3], affine[2][3]],
+    // NIfTI does not record modality; research volumes are MR unless stated otherwise
+    modality: 'MR',
+    affine,
+  };
+}
+
+function voxelReader(view: DataView, datatype: number, littleEndian: boolean): (index: number) => number {
+  switch (datatype) {
+    case 2: return i => view.getUint8(i);
+    case 256: return i => view.getInt8(i);
+    case 4: return i => view.getInt16(i * 2, littleEndian);
+    case 512: return i => view.getUint16(i * 2, littleEndian);
+    case 8: return i => view.getInt32(i * 4, littleEndian);
+    case 768: return i => view.getUint32(i * 4, littleEndian);
+    case 16: return i => view.getFloat32(i * 4, littleEndian);
+    case 64: return i => view.getFloat64(i * 8, littleEndian);
+    case 1024: return i => Number(view.getBigInt64(i * 8, littleEndian));
+    case 1280: return i => Number(view.getBigUint64(i * 8, littleEndian));
+    case 128: return i => 0.299 * view.getUint8(i * 3) + 0.587 * view.getUint8(i * 3 + 1) + 0.114 * view.getUint8(i * 3 + 2);
+    case 2304: return i => 0.299 * view.getUint8(i * 4) + 0.587 * view.getUint8(i * 4 + 1) + 0.114 * view.getUint8(i * 4 + 2);
+    default: throw new NiftiParseError(`Unsupported NIfTI datatype: ${datatype}`);
+  }
+}
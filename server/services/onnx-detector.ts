@@ -0,0 +1,443 @@
+import fs from 'fs';
+import path from 'path';
+import * as ort from 'onnxruntime-node';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { DEFAULT_DETECTION_PARAMETERS, type Detection, type DetectionMask } from '@shared/schema';
+import type { Detector, DetectorInput } from './detector-registry';
+import type { MedicalVolume } from './medical-volume';
+import { assignClinicalSeverity } from './clinical-severity';
+
+/**
+ * ONNX segmentation models run on the CPU with ONNX Runtime
+ *
+ * Each model is described by a JSON manifest next to the .onnx file. The model
+ * takes a single-channel image of a fixed size, [1, 1, H, W] for slice models
+ * or [1, 1, D, H, W] for volume models, and returns one probability (or logit)
+ * map per class with the same spatial size. Thresholded maps are split into
+ * connected regions, and each region becomes one finding.
+ */
+
+const onnxClassSchema = z.object({
+  channel: z.number().int().min(0),
+  type: z.enum(['aneurysm', 'tumor', 'lesion', 'anomaly', 'hemorrhage']),
+  // Probability a voxel needs to count as part of a finding at the default sensitivity
+  threshold: z.number().gt(0).lt(1).default(0.5),
+  // Smaller regions are discarded as noise
+  minVoxels: z.number().int().min(1).default(10),
+});
+
+const onnxManifestSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  // Model file, relative to the manifest
+  model: z.string().min(1),
+  dimensions: z.union([z.literal(2), z.literal(3)]),
+  // [height, width] for slice models, [depth, height, width] for volume models
+  inputSize: z.array(z.number().int().positive()).min(2).max(3),
+  normalization: z.enum(['zscore', 'minmax']).default('zscore'),
+  activation: z.enum(['sigmoid', 'softmax', 'none']).default('sigmoid'),
+  classes: z.array(onnxClassSchema).min(1),
+  inputName: z.string().optional(),
+  outputName: z.string().optional(),
+}).refine(manifest => manifest.inputSize.length === manifest.dimensions, {
+  message: 'inputSize must list one size per model dimension',
+  path: ['inputSize'],
+});
+
+export type OnnxDetectorManifest = z.infer<typeof onnxManifestSchema>;
+
+// Effective thresholds stay within this range whatever the sensitivity
+const MIN_THRESHOLD = 0.05;
+const MAX_THRESHOLD = 0.99;
+
+/**
+ * Load every detector manifest (*.json) in a directory. Invalid manifests are
+ * logged and skipped so one broken model cannot disable detection.
+ */
+export async function loadOnnxDetectors(dir: string): Promise<OnnxDetector[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const detectors: OnnxDetector[] = [];
+  for (const file of files.filter(name => name.toLowerCase().endsWith('.json')).sort()) {
+    const manifestPath = path.join(dir, file);
+    try {
+      const parsed = onnxManifestSchema.safeParse(JSON.parse(await fs.promises.readFile(manifestPath, 'utf8')));
+      if (!parsed.success) {
+        throw new Error(fromZodError(parsed.error).toString());
+      }
+      const modelPath = path.resolve(dir, parsed.data.model);
+      await fs.promises.access(modelPath, fs.constants.R_OK);
+      detectors.push(new OnnxDetector(parsed.data, modelPath));
+    } catch (error) {
+      console.error(`Skipping detector manifest ${manifestPath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return detectors;
+}
+
+export class OnnxDetector implements Detector {
+  public readonly name: string;
+  public readonly version: string;
+  public readonly detectionTypes: Detection['type'][];
+  private session: Promise<ort.InferenceSession> | null = null;
+
+  constructor(private manifest: OnnxDetectorManifest, private modelPath: string) {
+    this.name = manifest.name;
+    this.version = manifest.version;
+    this.detectionTypes = Array.from(new Set(manifest.classes.map(cls => cls.type)));
+  }
+
+  /**
+   * Segment the volume and report each connected region above the class
+   * threshold as a finding
+   */
+  async detect({ scanId, volume, parameters }: DetectorInput): Promise<Detection[]> {
+    const session = await this.getSession();
+    const { width, height, depth } = volume.metadata;
+    const voxels = width * height * depth;
+
+    const probabilities = await this.predict(session, volume);
+    const sensitivityScale = DEFAULT_DETECTION_PARAMETERS.sensitivity / Math.max(1, parameters.sensitivity);
+
+    const detections: Detection[] = [];
+    for (const cls of this.manifest.classes) {
+      const map = probabilities[cls.channel];
+      if (!map) {
+        throw new Error(`Detector ${this.name} has no output channel ${cls.channel}`);
+      }
+
+      const threshold = Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, cls.threshold * sensitivityScale));
+      const mask = new Uint8Array(voxels);
+      for (let i = 0; i < voxels; i++) {
+        mask[i] = map[i] >= threshold ? 1 : 0;
+      }
+
+      for (const region of connectedRegions(mask, width, height, depth)) {
+        if (region.length < cls.minVoxels) {
+          continue;
+        }
+        detections.push(this.describeRegion(region, map, volume, cls.type, `${this.name}_${cls.channel}_${detections.length + 1}`));
+      }
+    }
+
+    console.log(`Detector ${this.name} found ${detections.length} regions for scan ${scanId}`);
+    return detections;
+  }
+
+  private getSession(): Promise<ort.InferenceSession> {
+    if (!this.session) {
+      this.session = ort.InferenceSession.create(this.modelPath, { executionProviders: ['cpu'] });
+      // Allow a later request to retry a model that failed to load
+      this.session.catch(() => { this.session = null; });
+    }
+    return this.session;
+  }
+
+  // Per-class probability maps at the volume's resolution
+  private async predict(session: ort.InferenceSession, volume: MedicalVolume): Promise<Float32Array[]> {
+    const { width, height, depth } = volume.metadata;
+    const { dimensions, inputSize } = this.manifest;
+    const input = normalize(volume.data, this.manifest.normalization);
+
+    if (dimensions === 3) {
+      const [inputDepth, inputHeight, inputWidth] = inputSize;
+      const resampled = resample(input, [width, height, depth], [inputWidth, inputHeight, inputDepth]);
+      const outputs = await this.run(session, resampled, [1, 1, inputDepth, inputHeight, inputWidth]);
+      return outputs.map(map => resample(map, [inputWidth, inputHeight, inputDepth], [width, height, depth]));
+    }
+
+    // Slice models run once per slice; the slice maps are stacked back into a volume
+    const [inputHeight, inputWidth] = inputSize;
+    const sliceSize = width * height;
+    let stacked: Float32Array[] = [];
+    for (let z = 0; z < depth; z++) {
+      const slice = input.subarray(z * sliceSize, (z + 1) * sliceSize);
+      const resampled = resample(slice, [width, height, 1], [inputWidth, inputHeight, 1]);
+      const outputs = await this.run(session, resampled, [1, 1, inputHeight, inputWidth]);
+      if (z === 0) {
+        stacked = outputs.map(() => new Float32Array(sliceSize * depth));
+      }
+      outputs.forEach((map, channel) => {
+        stacked[channel].set(resample(map, [inputWidth, inputHeight, 1], [width, height, 1]), z * sliceSize);
+      });
+    }
+    return stacked;
+  }
+
+  // Run the model on one input and split its output into activated class maps
+  private async run(session: ort.InferenceSession, data: Float32Array, dims: number[]): Promise<Float32Array[]> {
+    const inputName = this.manifest.inputName ?? session.inputNames[0];
+    const outputName = this.manifest.outputName ?? session.outputNames[0];
+    const results = await session.run({ [inputName]: new ort.Tensor('float32', data, dims) });
+    const output = results[outputName];
+    if (!output || output.type !== 'float32') {
+      throw new Error(`Detector ${this.name} did not produce a float32 output named ${outputName}`);
+    }
+
+    const values = output.data as Float32Array;
+    const mapSize = dims.slice(2).reduce((product, size) => product * size, 1);
+    const channels = Math.floor(values.length / mapSize);
+    if (channels < 1 || channels * mapSize !== values.length) {
+      throw new Error(`Detector ${this.name} output shape [${output.dims.join(', ')}] does not match its input size`);
+    }
+
+    const maps = Array.from({ length: channels }, (_, channel) =>
+      Float32Array.from(values.subarray(channel * mapSize, (channel + 1) * mapSize))
+    );
+    activate(maps, this.manifest.activation);
+    return maps;
+  }
+
+  private describeRegion(
+    region: Int32Array,
+    probabilities: Float32Array,
+    volume: MedicalVolume,
+    type: Detection['type'],
+    id: string
+  ): Detection {
+    const { width, height, depth, spacing } = volume.metadata;
+    const sliceSize = width * height;
+
+    // Report the region on the slice where it is largest
+    const sliceCounts = new Map<number, number>();
+    let probabilitySum = 0;
+    for (let i = 0; i < region.length; i++) {
+      const index = region[i];
+      const z = Math.floor(index / sliceSize);
+      sliceCounts.set(z, (sliceCounts.get(z) ?? 0) + 1);
+      probabilitySum += probabilities[index];
+    }
+    let slice = 0;
+    let sliceVoxels = 0;
+    sliceCounts.forEach((count, z) => {
+      if (count > sliceVoxels) {
+        slice = z;
+        sliceVoxels = count;
+      }
+    });
+
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    const inSlice: number[] = [];
+    for (let i = 0; i < region.length; i++) {
+      const index = region[i];
+      if (Math.floor(index / sliceSize) !== slice) {
+        continue;
+      }
+      const x = index % width;
+      const y = Math.floor((index % sliceSize) / width);
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      inSlice.push(index);
+    }
+
+    const confidence = Math.round((probabilitySum / region.length) * 100);
+    const classification = assignClinicalSeverity(type, confidence);
+    const volumeMm3 = region.length * spacing[0] * spacing[1] * spacing[2];
+    const centreX = (minX + maxX + 1) / 2 / width;
+    const centreY = (minY + maxY + 1) / 2 / height;
+
+    return {
+      id,
+      type,
+      confidence,
+      location: `Slice ${slice + 1}/${depth}, ${centreY < 0.5 ? 'upper' : 'lower'} ${centreX < 0.5 ? 'left' : 'right'} region`,
+      coordinates: {
+        x: percent(minX, width),
+        y: percent(minY, height),
+        width: percent(maxX - minX + 1, width),
+        height: percent(maxY - minY + 1, height),
+      },
+      riskLevel: classification.riskCategory,
+      description: `Segmented ${type} region of ${region.length} voxels (${volumeMm3.toFixed(1)} mm³) across ${sliceCounts.size} slice${sliceCounts.size === 1 ? '' : 's'}`,
+      ...classification,
+      mask: encodeMask(inSlice, slice, width, sliceSize, minX, minY, maxX, maxY),
+    };
+  }
+}
+
+// Rescale intensities to the range the model was trained on
+function normalize(data: Float32Array, method: OnnxDetectorManifest['normalization']): Float32Array {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    min = Math.min(min, data[i]);
+    max = Math.max(max, data[i]);
+    sum += data[i];
+  }
+
+  const output = new Float32Array(data.length);
+  if (method === 'minmax') {
+    const range = max - min || 1;
+    for (let i = 0; i < data.length; i++) {
+      output[i] = (data[i] - min) / range;
+    }
+    return output;
+  }
+
+  const mean = sum / data.length;
+  let variance = 0;
+  for (let i = 0; i < data.length; i++) {
+    variance += (data[i] - mean) ** 2;
+  }
+  const std = Math.sqrt(variance / data.length) || 1;
+  for (let i = 0; i < data.length; i++) {
+    output[i] = (data[i] - mean) / std;
+  }
+  return output;
+}
+
+// Trilinear resampling between grids that cover the same extent (pixel centres aligned)
+function resample(data: Float32Array, [sw, sh, sd]: number[], [dw, dh, dd]: number[]): Float32Array {
+  if (sw === dw && sh === dh && sd === dd) {
+    return data;
+  }
+
+  const axis = (size: number, target: number) => Array.from({ length: target }, (_, i) => {
+    const position = Math.min(size - 1, Math.max(0, (i + 0.5) * size / target - 0.5));
+    const lower = Math.floor(position);
+    return { lower, upper: Math.min(size - 1, lower + 1), weight: position - lower };
+  });
+  const xs = axis(sw, dw);
+  const ys = axis(sh, dh);
+  const zs = axis(sd, dd);
+
+  const output = new Float32Array(dw * dh * dd);
+  for (let z = 0; z < dd; z++) {
+    const { lower: z0, upper: z1, weight: wz } = zs[z];
+    for (let y = 0; y < dh; y++) {
+      const { lower: y0, upper: y1, weight: wy } = ys[y];
+      const row00 = (z0 * sh + y0) * sw;
+      const row01 = (z0 * sh + y1) * sw;
+      const row10 = (z1 * sh + y0) * sw;
+      const row11 = (z1 * sh + y1) * sw;
+      for (let x = 0; x < dw; x++) {
+        const { lower: x0, upper: x1, weight: wx } = xs[x];
+        const a = data[row00 + x0] * (1 - wx) + data[row00 + x1] * wx;
+        const b = data[row01 + x0] * (1 - wx) + data[row01 + x1] * wx;
+        const c = data[row10 + x0] * (1 - wx) + data[row10 + x1] * wx;
+        const d = data[row11 + x0] * (1 - wx) + data[row11 + x1] * wx;
+        output[(z * dh + y) * dw + x] = (a * (1 - wy) + b * wy) * (1 - wz) + (c * (1 - wy) + d * wy) * wz;
+      }
+    }
+  }
+  return output;
+}
+
+// Turn raw model outputs into probabilities, in place
+function activate(maps: Float32Array[], activation: OnnxDetectorManifest['activation']): void {
+  if (activation === 'sigmoid') {
+    for (const map of maps) {
+      for (let i = 0; i < map.length; i++) {
+        map[i] = 1 / (1 + Math.exp(-map[i]));
+      }
+    }
+  } else if (activation === 'softmax') {
+    for (let i = 0; i < maps[0].length; i++) {
+      let max = -Infinity;
+      for (const map of maps) {
+        max = Math.max(max, map[i]);
+      }
+      let sum = 0;
+      for (const map of maps) {
+        map[i] = Math.exp(map[i] - max);
+        sum += map[i];
+      }
+      for (const map of maps) {
+        map[i] /= sum;
+      }
+    }
+  }
+}
+
+// Voxel indices of each 26-connected region of set voxels
+function connectedRegions(mask: Uint8Array, width: number, height: number, depth: number): Int32Array[] {
+  const sliceSize = width * height;
+  const visited = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  const regions: Int32Array[] = [];
+
+  for (let seed = 0; seed < mask.length; seed++) {
+    if (!mask[seed] || visited[seed]) {
+      continue;
+    }
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = seed;
+    visited[seed] = 1;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const y = Math.floor((index % sliceSize) / width);
+      const z = Math.floor(index / sliceSize);
+      for (let dz = -1; dz <= 1; dz++) {
+        const nz = z + dz;
+        if (nz < 0 || nz >= depth) continue;
+        for (let dy = -1; dy <= 1; dy++) {
+          const ny = y + dy;
+          if (ny < 0 || ny >= height) continue;
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            if (nx < 0 || nx >= width) continue;
+            const neighbour = nz * sliceSize + ny * width + nx;
+            if (mask[neighbour] && !visited[neighbour]) {
+              visited[neighbour] = 1;
+              queue[tail++] = neighbour;
+            }
+          }
+        }
+      }
+    }
+    regions.push(queue.slice(0, tail));
+  }
+  return regions;
+}
+
+// Run-length encode a region's pixels within its bounding box on one slice
+function encodeMask(
+  indices: number[],
+  slice: number,
+  width: number,
+  sliceSize: number,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): DetectionMask {
+  const boxWidth = maxX - minX + 1;
+  const boxHeight = maxY - minY + 1;
+  const pixels = new Uint8Array(boxWidth * boxHeight);
+  for (const index of indices) {
+    const x = index % width - minX;
+    const y = Math.floor((index % sliceSize) / width) - minY;
+    pixels[y * boxWidth + x] = 1;
+  }
+
+  const runs: number[] = [];
+  let current = 0;
+  let length = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] !== current) {
+      runs.push(length);
+      current = pixels[i];
+      length = 0;
+    }
+    length++;
+  }
+  runs.push(length);
+
+  return { slice, width: boxWidth, height: boxHeight, runs };
+}
+
+function percent(value: number, size: number): number {
+  return Math.round((value / size) * 10000) / 100;
+}
@@ -0,0 +1,46 @@
+import { EventEmitter } from 'events';
+import { type ConversionProgress, isTerminalConversionStage } from '@shared/conversion-progress';
+
+/**
+ * In-process fan-out of conversion progress to SSE subscribers
+ *
+ * The job worker publishes events as the pipeline advances; each open
+ * /api/scans/:id/progress stream subscribes to its scan. The latest event of
+ * a running conversion is kept so late subscribers start from the current
+ * stage instead of waiting for the next one.
+ */
+export class ConversionProgressEvents {
+  private emitter = new EventEmitter();
+  private latest: Map<string, ConversionProgress> = new Map();
+
+  constructor() {
+    // One listener per open browser stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  public publish(progress: ConversionProgress): void {
+    if (isTerminalConversionStage(progress.stage)) {
+      this.latest.delete(progress.scanId);
+    } else {
+      this.latest.set(progress.scanId, progress);
+    }
+    this.emitter.emit(progress.scanId, progress);
+  }
+
+  public getLatest(scanId: string): ConversionProgress | undefined {
+    return this.latest.get(scanId);
+  }
+
+  /**
+   * Listen for a scan's progress; returns the unsubscribe function
+   */
+  public subscribe(scanId: string, listener: (progress: ConversionProgress) => void): () => void {
+    this.emitter.on(scanId, listener);
+    return () => {
+      this.emitter.off(scanId, listener);
+    };
+  }
+}
+
+// Singleton instance for the application
+export const conversionProgressEvents = new ConversionProgressEvents();
@@ -0,0 +1,456 @@
+import type {
+  AnalysisReport,
+  CriticalFinding,
+  Detection,
+  MriScan,
+  ReportChart,
+  ReportFormat,
+  ReportOptions,
+  ReportSection,
+  ReportSectionKey,
+  SecondaryFinding,
+} from '@shared/schema';
+
+/**
+ * Report templates. A template picks the sections of a report, their headings
+ * and wording, and the default detail level, risk threshold and chart level
+ * used when a request leaves them out.
+ */
+
+export interface ReportTemplate {
+  format: ReportFormat;
+  title: string;
+  subtitle: string;
+  defaults: Omit<ReportOptions, 'reportFormat'>;
+  // Sections in report order; each appears from its detail level upwards
+  sections: { key: ReportSectionKey; heading: string; minDetailLevel: number }[];
+  impressionHeading: string;
+  disclaimer: string;
+  // Lay wording for findings instead of clinical terms
+  plainLanguage: boolean;
+  criticalRecommendation: string;
+  significance: Record<'major' | 'minor', string>;
+  recommendations: Record<AnalysisReport['overallRisk'], string[]>;
+}
+
+// Report values the sections are worded from
+export type ReportContent = Pick<AnalysisReport,
+  'riskScore' | 'overallRisk' | 'criticalCount' | 'majorCount' | 'minorCount' | 'detectionAccuracy' | 'imageQuality' |
+  'criticalFindings' | 'secondaryFindings' | 'technicalSummary'>;
+
+const CLINICAL_TITLES: Record<Detection['type'], string> = {
+  aneurysm: 'Cerebral Aneurysm',
+  hemorrhage: 'Brain Hemorrhage',
+  tumor: 'Brain Tumor',
+  lesion: 'Brain Lesion',
+  anomaly: 'Vascular Anomaly',
+};
+
+const PLAIN_TITLES: Record<Detection['type'], string> = {
+  aneurysm: 'Possible bulge in a blood vessel of the brain (aneurysm)',
+  hemorrhage: 'Possible bleeding in the brain (hemorrhage)',
+  tumor: 'Possible abnormal growth (tumor)',
+  lesion: 'Area of tissue that looks different (lesion)',
+  anomaly: 'Unusual blood vessel pattern',
+};
+
+const ESTIMATED_SIZES: Partial<Record<Detection['type'], string>> = {
+  aneurysm: '~4.2mm diameter',
+  hemorrhage: '~8.1mm region',
+};
+
+const SURGICAL_CONSIDERATIONS: Record<Detection['type'], string> = {
+  aneurysm: 'Obtain CTA or DSA to measure neck and dome before choosing between clipping and endovascular treatment.',
+  hemorrhage: 'Assess mass effect and midline shift; consider urgent neurosurgical review for evacuation.',
+  tumor: 'Contrast-enhanced MRI and functional mapping recommended to define margins relative to eloquent cortex.',
+  lesion: 'Characterise with dedicated sequences before deciding on biopsy or resection.',
+  anomaly: 'Angiographic assessment advised if the approach crosses the affected vessels.',
+};
+
+const GLOSSARY: Record<Detection['type'], string> = {
+  aneurysm: 'Aneurysm: a weak spot in a blood vessel wall that bulges outwards.',
+  hemorrhage: 'Hemorrhage: bleeding, here inside or around the brain.',
+  tumor: 'Tumor: a growth of cells, which may or may not be cancerous.',
+  lesion: 'Lesion: any area of tissue that looks different from the tissue around it.',
+  anomaly: 'Vascular anomaly: blood vessels that are shaped or arranged unusually.',
+};
+
+const DETAILED_SECTIONS: ReportTemplate['sections'] = [
+  { key: 'riskAssessment', heading: 'Risk Assessment', minDetailLevel: 1 },
+  { key: 'criticalFindings', heading: 'Critical Findings', minDetailLevel: 1 },
+  { key: 'secondaryFindings', heading: 'Secondary Findings', minDetailLevel: 2 },
+];
+
+export const REPORT_TEMPLATES: Record<ReportFormat, ReportTemplate> = {
+  'Clinical Summary': {
+    format: 'Clinical Summary',
+    title: 'MRI Analysis Report',
+    subtitle: 'Comprehensive Medical Imaging Analysis',
+    defaults: { detailLevel: 4, riskThreshold: 7, vizComplexity: 2 },
+    sections: [
+      ...DETAILED_SECTIONS,
+      { key: 'recommendations', heading: 'Recommendations', minDetailLevel: 1 },
+      { key: 'technicalSummary', heading: 'Technical Summary', minDetailLevel: 4 },
+      { key: 'detectionDetails', heading: 'Detection Details', minDetailLevel: 5 },
+    ],
+    impressionHeading: 'Impression',
+    disclaimer: 'This report was generated by the MRI Analysis Platform for research purposes.',
+    plainLanguage: false,
+    criticalRecommendation: 'Immediate consultation required',
+    significance: { major: 'Follow-up recommended', minor: 'Within normal variation' },
+    recommendations: {
+      high: ['Urgent specialist review of the critical findings is recommended.'],
+      moderate: ['Follow-up imaging is recommended to monitor the reported findings.'],
+      low: ['No follow-up is indicated by the automated analysis.'],
+    },
+  },
+  'Research Detailed': {
+    format: 'Research Detailed',
+    title: 'MRI Analysis Research Report',
+    subtitle: 'Detailed Detection Output and Methods',
+    defaults: { detailLevel: 5, riskThreshold: 7, vizComplexity: 3 },
+    sections: [
+      ...DETAILED_SECTIONS,
+      { key: 'methodology', heading: 'Methods', minDetailLevel: 1 },
+      { key: 'detectionDetails', heading: 'Detection Details', minDetailLevel: 3 },
+      { key: 'technicalSummary', heading: 'Technical Summary', minDetailLevel: 1 },
+    ],
+    impressionHeading: 'Reviewer Notes',
+    disclaimer: 'Research output of the MRI Analysis Platform. Not for diagnostic use.',
+    plainLanguage: false,
+    criticalRecommendation: 'Flagged for expert review',
+    significance: { major: 'Major severity; flagged for review', minor: 'Minor severity' },
+    recommendations: { high: [], moderate: [], low: [] },
+  },
+  'Surgical Planning': {
+    format: 'Surgical Planning',
+    title: 'MRI Surgical Planning Report',
+    subtitle: 'Target Findings and Imaging Geometry',
+    defaults: { detailLevel: 4, riskThreshold: 6, vizComplexity: 2 },
+    sections: [
+      { key: 'riskAssessment', heading: 'Risk Overview', minDetailLevel: 1 },
+      { key: 'criticalFindings', heading: 'Target Findings', minDetailLevel: 1 },
+      { key: 'surgicalConsiderations', heading: 'Surgical Considerations', minDetailLevel: 1 },
+      { key: 'secondaryFindings', heading: 'Other Findings', minDetailLevel: 2 },
+      { key: 'imagingGeometry', heading: 'Imaging Geometry', minDetailLevel: 3 },
+      { key: 'technicalSummary', heading: 'Technical Summary', minDetailLevel: 4 },
+      { key: 'detectionDetails', heading: 'Detection Details', minDetailLevel: 5 },
+    ],
+    impressionHeading: 'Impression',
+    disclaimer: 'Automated findings must be confirmed on diagnostic imaging before any intervention.',
+    plainLanguage: false,
+    criticalRecommendation: 'Neurosurgical review before planning',
+    significance: { major: 'Assess relation to the planned approach', minor: 'Not expected to affect planning' },
+    recommendations: { high: [], moderate: [], low: [] },
+  },
+  'Patient-Friendly': {
+    format: 'Patient-Friendly',
+    title: 'Your MRI Results',
+    subtitle: 'A plain-language summary of your brain scan',
+    defaults: { detailLevel: 2, riskThreshold: 7, vizComplexity: 1 },
+    sections: [
+      { key: 'riskAssessment', heading: 'Your Results at a Glance', minDetailLevel: 1 },
+      { key: 'criticalFindings', heading: 'Findings That Need Attention', minDetailLevel: 1 },
+      { key: 'secondaryFindings', heading: 'Other Things We Noticed', minDetailLevel: 2 },
+      { key: 'recommendations', heading: 'What Happens Next', minDetailLevel: 1 },
+      { key: 'glossary', heading: 'Words Used in This Report', minDetailLevel: 1 },
+    ],
+    impressionHeading: "Your Radiologist's Comments",
+    disclaimer: 'This summary does not replace a conversation with your doctor. Please discuss any questions with them.',
+    plainLanguage: true,
+    criticalRecommendation: 'Please contact your doctor promptly to talk about this result.',
+    significance: {
+      major: 'Your doctor may suggest a follow-up scan.',
+      minor: 'Usually not a cause for concern.',
+    },
+    recommendations: {
+      high: ['Your doctor will contact you to talk about the results and next steps, which may include seeing a specialist.'],
+      moderate: ['Your doctor may suggest a follow-up scan to check on the findings.'],
+      low: ['The automated analysis did not find anything that needs follow-up. Your doctor will confirm this with you.'],
+    },
+  },
+};
+
+/**
+ * Fill in the options a request left out from its template's defaults
+ */
+export function resolveReportOptions(options: Partial<ReportOptions> & Pick<ReportOptions, 'reportFormat'>): ReportOptions {
+  const { defaults } = REPORT_TEMPLATES[options.reportFormat];
+  return {
+    reportFormat: options.reportFormat,
+    detailLevel: options.detailLevel ?? defaults.detailLevel,
+    riskThreshold: options.riskThreshold ?? defaults.riskThreshold,
+    vizComplexity: options.vizComplexity ?? defaults.vizComplexity,
+  };
+}
+
+/**
+ * Risk score and overall risk of a scan's detections. The score weighs
+ * critical findings 7, major 3 and minor 1, capped at 10; any critical
+ * finding makes it at least 7.
+ */
+export function assessReportRisk(detections: Detection[], riskThreshold: number) {
+  const criticalCount = detections.filter(d => d.severity === 'critical').length;
+  const majorCount = detections.filter(d => d.severity === 'major').length;
+  const minorCount = detections.filter(d => d.severity === 'minor').length;
+
+  let riskScore = Math.min(10, criticalCount * 7 + majorCount * 3 + minorCount);
+  if (criticalCount > 0) {
+    riskScore = Math.max(riskScore, 7);
+  }
+
+  let overallRisk: AnalysisReport['overallRisk'];
+  if (criticalCount > 0 || riskScore >= riskThreshold) {
+    overallRisk = 'high';
+  } else if (majorCount > 0 || riskScore >= Math.max(0, riskThreshold - 3)) {
+    overallRisk = 'moderate';
+  } else {
+    overallRisk = 'low';
+  }
+
+  return { riskScore, overallRisk, criticalCount, majorCount, minorCount };
+}
+
+/**
+ * Critical and secondary findings worded by the template. Major findings are
+ * listed from detail level 2, minor ones from level 3.
+ */
+export function buildReportFindings(detections: Detection[], options: ReportOptions): {
+  criticalFindings: CriticalFinding[];
+  secondaryFindings: SecondaryFinding[];
+} {
+  const template = REPORT_TEMPLATES[options.reportFormat];
+  const titles = template.plainLanguage ? PLAIN_TITLES : CLINICAL_TITLES;
+
+  const criticalFindings: CriticalFinding[] = detections
+    .filter(d => d.severity === 'critical')
+    .map(d => ({
+      id: d.id,
+      title: titles[d.type] ?? 'Critical Anomaly',
+      location: d.location,
+      confidence: d.confidence,
+      riskLevel: 'high' as const,
+      size: ESTIMATED_SIZES[d.type] ?? '~2.8mm',
+      recommendation: template.criticalRecommendation,
+    }));
+
+  const listed = detections.filter(d =>
+    (d.severity === 'major' && options.detailLevel >= 2) || (d.severity === 'minor' && options.detailLevel >= 3));
+  // Major findings first, as before templates existed
+  listed.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'major' ? -1 : 1));
+
+  const secondaryFindings: SecondaryFinding[] = listed.map(d => ({
+    id: d.id,
+    title: template.plainLanguage ? titles[d.type] ?? d.description : d.description,
+    description: template.plainLanguage ? `Found in the ${d.location}` : `${d.location} - ${d.confidence}% confidence`,
+    confidence: d.confidence,
+    significance: template.significance[d.severity === 'major' ? 'major' : 'minor'],
+  }));
+
+  return { criticalFindings, secondaryFindings };
+}
+
+/**
+ * Sections of a report in template order, filtered by detail level. Sections
+ * that describe the scan itself are left out when no scan is given.
+ */
+export function buildReportSections(report: ReportContent, options: ReportOptions, scan: MriScan | null): ReportSection[] {
+  const template = REPORT_TEMPLATES[options.reportFormat];
+  const sections: ReportSection[] = [];
+
+  for (const { key, heading, minDetailLevel } of template.sections) {
+    if (options.detailLevel < minDetailLevel) {
+      continue;
+    }
+    const section: ReportSection = { key, heading, paragraphs: [], items: [], charts: [] };
+    if (fillSection(section, report, options, template, scan)) {
+      sections.push(section);
+    }
+  }
+
+  return sections;
+}
+
+// Word one section; false when it cannot be filled
+function fillSection(
+  section: ReportSection,
+  report: ReportContent,
+  options: ReportOptions,
+  template: ReportTemplate,
+  scan: MriScan | null
+): boolean {
+  const detections = scan?.detections ?? [];
+  const plain = template.plainLanguage;
+
+  switch (section.key) {
+    case 'riskAssessment':
+      if (plain) {
+        section.paragraphs.push(`The automated analysis rated the overall level of concern as ${report.overallRisk}.`);
+        section.paragraphs.push(report.criticalCount > 0
+          ? `It found ${report.criticalCount} ${report.criticalCount === 1 ? 'finding' : 'findings'} that your doctor should look at soon.`
+          : 'It found nothing that needs urgent attention.');
+      } else {
+        section.paragraphs.push(`Overall Risk Score: ${report.riskScore}/10 (${report.overallRisk}; high from ${options.riskThreshold})`);
+        section.paragraphs.push(`Detection Accuracy: ${report.detectionAccuracy}% | Image Quality: ${report.imageQuality}/10`);
+        section.paragraphs.push(`Findings by severity: ${report.criticalCount} critical, ${report.majorCount} major, ${report.minorCount} minor`);
+      }
+      if (options.vizComplexity >= 2) {
+        section.charts.push({
+          title: plain ? 'What the analysis found' : 'Findings by severity',
+          max: Math.max(1, report.criticalCount, report.majorCount, report.minorCount),
+          bars: [
+            { label: plain ? 'Needs attention' : 'Critical', value: report.criticalCount, tone: 'critical' },
+            { label: plain ? 'Worth checking' : 'Major', value: report.majorCount, tone: 'major' },
+            { label: 'Minor', value: report.minorCount, tone: 'minor' },
+          ],
+        });
+      }
+      return true;
+
+    case 'criticalFindings':
+      if (report.criticalFindings.length === 0) {
+        section.paragraphs.push(plain ? 'There are no findings in this group.' : 'No critical findings detected.');
+      }
+      section.items = report.criticalFindings.map(finding => ({
+        title: finding.title,
+        details: plain
+          ? [`Where: ${finding.location}`, `What to do: ${finding.recommendation}`]
+          : [
+              `Location: ${finding.location} | Size: ${finding.size}`,
+              `Confidence: ${finding.confidence}%`,
+              `Recommendation: ${finding.recommendation}`,
+            ],
+        tone: 'critical',
+      }));
+      if (options.vizComplexity >= 3 && report.criticalFindings.length > 0) {
+        section.charts.push(confidenceChart(report.criticalFindings));
+      }
+      return true;
+
+    case 'secondaryFindings': {
+      if (report.secondaryFindings.length === 0) {
+        section.paragraphs.push(plain ? 'Nothing else of note was found.' : 'No secondary findings detected.');
+      }
+      const unlisted = report.majorCount + report.minorCount - report.secondaryFindings.length;
+      if (unlisted > 0 && !plain) {
+        section.paragraphs.push(`${unlisted} further ${unlisted === 1 ? 'finding is' : 'findings are'} not listed at detail level ${options.detailLevel}.`);
+      }
+      section.items = report.secondaryFindings.map(finding => ({
+        title: finding.title,
+        details: plain
+          ? [finding.description, finding.significance]
+          : [finding.description, `Confidence: ${finding.confidence}%`, finding.significance],
+      }));
+      if (options.vizComplexity >= 3 && report.secondaryFindings.length > 0) {
+        section.charts.push(confidenceChart(report.secondaryFindings));
+      }
+      return true;
+    }
+
+    case 'surgicalConsiderations': {
+      if (!scan) {
+        return false;
+      }
+      const targets = detections.filter(d => d.severity !== 'minor');
+      if (targets.length === 0) {
+        section.paragraphs.push('No findings requiring surgical consideration.');
+      }
+      section.items = targets.map(d => ({
+        title: `${CLINICAL_TITLES[d.type]} (${d.location})`,
+        details: [
+          SURGICAL_CONSIDERATIONS[d.type],
+          `Position on the analysed slice: ${d.coordinates.x.toFixed(1)}%, ${d.coordinates.y.toFixed(1)}% ` +
+            `(extent ${d.coordinates.width.toFixed(1)}% x ${d.coordinates.height.toFixed(1)}%)`,
+        ],
+        tone: d.severity,
+      }));
+      return true;
+    }
+
+    case 'recommendations':
+      section.paragraphs.push(...template.recommendations[report.overallRisk]);
+      return section.paragraphs.length > 0;
+
+    case 'imagingGeometry': {
+      const metadata = scan?.imageMetadata;
+      if (!scan || !metadata) {
+        return false;
+      }
+      section.paragraphs.push(
+        `Dimensions: ${metadata.width} x ${metadata.height} x ${metadata.depth} voxels (${metadata.modality})`,
+        `Voxel spacing: ${metadata.spacing.map(value => value.toFixed(2)).join(' x ')} mm`,
+        `Origin: ${metadata.origin.map(value => value.toFixed(1)).join(', ')}`,
+        metadata.affine
+          ? 'Voxel-to-world transform recorded; positions can be registered to navigation systems.'
+          : 'No voxel-to-world transform recorded; register positions manually.',
+        scan.threeDModelPath ? '3D model available for planning.' : 'No 3D model has been generated for this scan.',
+      );
+      return true;
+    }
+
+    case 'methodology': {
+      const run = scan?.detectionRun;
+      if (!run) {
+        return false;
+      }
+      section.paragraphs.push(
+        `Detectors: ${run.detectors.map(detector => `${detector.name} ${detector.version}`).join(', ')}`,
+        `Sensitivity: ${run.parameters.sensitivity}% | Confidence threshold: ${run.parameters.confidence}% | ` +
+          `Focus: ${run.parameters.detectionType}`,
+        `Detection run: ${new Date(run.ranAt).toLocaleString()}`,
+        'Severity follows the medical condition of each finding; confidence adjusts the severity score by at most one point.',
+      );
+      return true;
+    }
+
+    case 'technicalSummary': {
+      const summary = report.technicalSummary;
+      section.paragraphs.push(
+        `Processing Time: ${summary.processingTime} seconds`,
+        `Images Analyzed: ${summary.imagesAnalyzed}`,
+        `Model Version: ${summary.modelVersion}`,
+        `Algorithm: ${summary.algorithm}`,
+        `Image Resolution: ${summary.imageResolution}`,
+        `Quality Score: ${summary.qualityScore}/10`,
+      );
+      return true;
+    }
+
+    case 'detectionDetails':
+      if (!scan) {
+        return false;
+      }
+      if (detections.length === 0) {
+        section.paragraphs.push('No detections.');
+      }
+      section.items = detections.map(d => ({
+        title: `${d.id} (${d.type})`,
+        details: [
+          `Detector: ${d.detector ?? 'unknown'} | Confidence: ${d.confidence}% | ` +
+            `Severity: ${d.severity} (${d.severityScore}/10, ${d.clinicalType})`,
+          `Bounding box: x ${d.coordinates.x.toFixed(1)}%, y ${d.coordinates.y.toFixed(1)}%, ` +
+            `${d.coordinates.width.toFixed(1)}% x ${d.coordinates.height.toFixed(1)}%`,
+          ...(d.mask ? [`Mask: slice ${d.mask.slice}, ${d.mask.width} x ${d.mask.height} px grid`] : []),
+        ],
+        tone: d.severity,
+      }));
+      return true;
+
+    case 'glossary': {
+      const types = new Set(detections.map(d => d.type));
+      section.paragraphs.push('MRI: a scan that uses magnets and radio waves to take detailed pictures of the brain.');
+      (Object.keys(GLOSSARY) as Detection['type'][])
+        .filter(type => !scan || types.has(type))
+        .forEach(type => section.paragraphs.push(GLOSSARY[type]));
+      return true;
+    }
+  }
+}
+
+function confidenceChart(findings: { title: string; confidence: number }[]): ReportChart {
+  return {
+    title: 'Confidence by finding',
+    max: 100,
+    bars: findings.map(finding => ({ label: finding.title, value: finding.confidence })),
+  };
+}
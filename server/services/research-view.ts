@@ -0,0 +1,71 @@
+import { createHmac } from 'crypto';
+import path from 'path';
+import type { MriScan, ScanPatientContext } from '@shared/schema';
+
+/**
+ * De-identified views of scans and their patient context, served to users
+ * without the phi:read permission. Names and free-text identifiers are
+ * dropped, record numbers and UIDs replaced by stable keyed pseudonyms, and
+ * dates reduced to their year.
+ */
+
+// Keyed so pseudonyms cannot be reversed by hashing candidate record numbers
+function pseudonymKey(): string {
+  return process.env.PSEUDONYM_KEY || process.env.SESSION_SECRET || '';
+}
+
+/**
+ * Stable pseudonym of an identifier, e.g. "PT-3f9a0c12d4"
+ */
+export function pseudonymize(prefix: string, value: string): string {
+  return `${prefix}-${createHmac('sha256', pseudonymKey()).update(value).digest('hex').slice(0, 10)}`;
+}
+
+/**
+ * Scan without its original file names or acquisition date
+ */
+export function deidentifyScan(scan: MriScan): MriScan {
+  return {
+    ...scan,
+    originalName: `scan-${scan.id.slice(0, 8)}${path.extname(scan.originalName).toLowerCase()}`,
+    imageMetadata: scan.imageMetadata && {
+      ...scan.imageMetadata,
+      acquisitionDate: yearOnly(scan.imageMetadata.acquisitionDate),
+    },
+    seriesFiles: scan.seriesFiles?.map((file, index) => ({
+      ...file,
+      originalName: `slice-${String(index + 1).padStart(4, '0')}${path.extname(file.originalName).toLowerCase()}`,
+    })) ?? null,
+  };
+}
+
+/**
+ * Patient, study and series with identifiers removed; sex and the year of
+ * birth and of the study are kept for research use
+ */
+export function deidentifyScanPatientContext(context: ScanPatientContext): ScanPatientContext {
+  const { patient, study, series } = context;
+  return {
+    patient: patient && {
+      ...patient,
+      medicalRecordNumber: pseudonymize('PT', patient.medicalRecordNumber),
+      name: null,
+      birthDate: patient.birthDate ? `${patient.birthDate.slice(0, 4)}-01-01` : null,
+    },
+    study: study && {
+      ...study,
+      studyInstanceUid: null,
+      accessionNumber: null,
+      studyDate: study.studyDate ? new Date(Date.UTC(study.studyDate.getUTCFullYear(), 0, 1)) : null,
+      referringPhysician: null,
+    },
+    series: series && {
+      ...series,
+      seriesInstanceUid: null,
+    },
+  };
+}
+
+function yearOnly(date?: string): string | undefined {
+  return date ? `${date.slice(0, 4)}-01-01` : undefined;
+}
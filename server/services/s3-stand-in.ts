@@ -0,0 +1,297 @@
+import http from 'http';
+import { createHash, randomUUID } from 'crypto';
+
+/**
+ * In-memory stand-in for the part of the S3 API that the s3 storage driver
+ * uses: object PUT/GET/HEAD, copy with metadata replacement and multipart
+ * uploads, addressed path-style as /<bucket>/<key>. Requests must be signed
+ * (Authorization header or presigned query) and presigned URLs expire, but
+ * signatures are not verified and any bucket name is accepted.
+ */
+
+interface StoredS3Object {
+  body: Buffer;
+  etag: string;
+  contentType?: string;
+  metadata: Record<string, string>; // x-amz-meta-* headers, prefix included
+}
+
+interface PendingUpload {
+  bucket: string;
+  key: string;
+  contentType?: string;
+  metadata: Record<string, string>;
+  parts: Map<number, StoredS3Object>;
+}
+
+export interface S3StandIn {
+  server: http.Server;
+  objects: Map<string, StoredS3Object>; // keyed by /<bucket>/<key>
+  uploads: Map<string, PendingUpload>;
+}
+
+class S3Error extends Error {
+  constructor(public readonly status: number, public readonly code: string, message: string) {
+    super(message);
+    this.name = 'S3Error';
+    Object.setPrototypeOf(this, S3Error.prototype);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function md5(data: Buffer): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Streaming uploads are framed as "<hex size>[;chunk-signature=...]\r\n<data>\r\n"
+// up to a zero-size chunk followed by the trailing checksum headers
+function decodeAwsChunked(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    if (lineEnd < 0) {
+      break;
+    }
+    const size = parseInt(body.subarray(offset, lineEnd).toString('latin1').split(';')[0], 16);
+    if (!size) {
+      break;
+    }
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseAmzDate(value: string): number {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  if (!match) {
+    return NaN;
+  }
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+}
+
+function checkSigned(req: http.IncomingMessage, query: URLSearchParams): void {
+  if (query.has('X-Amz-Signature')) {
+    const expiresAt = parseAmzDate(query.get('X-Amz-Date') ?? '') + Number(query.get('X-Amz-Expires')) * 1000;
+    if (!(Date.now() <= expiresAt)) {
+      throw new S3Error(403, 'AccessDenied', 'Request has expired');
+    }
+    return;
+  }
+  if (!req.headers.authorization?.startsWith('AWS4-HMAC-SHA256 ')) {
+    throw new S3Error(403, 'AccessDenied', 'Request is not signed');
+  }
+}
+
+function userMetadata(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.startsWith('x-amz-meta-') && typeof value === 'string') {
+      metadata[name] = value;
+    }
+  }
+  return metadata;
+}
+
+function sendXml(res: http.ServerResponse, status: number, xml: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>\n${xml}`);
+}
+
+function parseCompletedParts(xml: string): Array<{ partNumber: number; etag: string }> {
+  return Array.from(xml.matchAll(/<Part>([\s\S]*?)<\/Part>/g), ([, part]) => ({
+    partNumber: Number(/<PartNumber>(\d+)<\/PartNumber>/.exec(part)?.[1]),
+    etag: (/<ETag>([\s\S]*?)<\/ETag>/.exec(part)?.[1] ?? '').replace(/&quot;|"/g, ''),
+  }));
+}
+
+export function createS3StandIn(): S3StandIn {
+  const objects = new Map<string, StoredS3Object>();
+  const uploads = new Map<string, PendingUpload>();
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [bucket, ...keySegments] = url.pathname.slice(1).split('/').map(decodeURIComponent);
+    const key = keySegments.join('/');
+    const query = url.searchParams;
+    if (!bucket || !key) {
+      throw new S3Error(400, 'InvalidRequest', 'Only object requests are supported');
+    }
+    checkSigned(req, query);
+
+    const objectPath = `/${bucket}/${key}`;
+    const uploadId = query.get('uploadId');
+    const readUpload = (): PendingUpload => {
+      const upload = uploadId ? uploads.get(uploadId) : undefined;
+      if (!upload || upload.bucket !== bucket || upload.key !== key) {
+        throw new S3Error(404, 'NoSuchUpload', 'The specified upload does not exist');
+      }
+      return upload;
+    };
+    const readRequestBody = async (): Promise<Buffer> => {
+      const body = await readBody(req);
+      return req.headers['x-amz-decoded-content-length'] !== undefined ? decodeAwsChunked(body) : body;
+    };
+
+    if (req.method === 'POST' && query.has('uploads')) {
+      const id = randomUUID();
+      uploads.set(id, {
+        bucket,
+        key,
+        contentType: req.headers['content-type'],
+        metadata: userMetadata(req.headers),
+        parts: new Map(),
+      });
+      sendXml(res, 200, `<InitiateMultipartUploadResult><Bucket>${escapeXml(bucket)}</Bucket><Key>${escapeXml(key)}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`);
+      return;
+    }
+
+    if (req.method === 'PUT' && uploadId) {
+      const upload = readUpload();
+      const partNumber = Number(query.get('partNumber'));
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+        throw new S3Error(400, 'InvalidArgument', 'Part number must be an integer between 1 and 10000');
+      }
+      const body = await readRequestBody();
+      const etag = md5(body);
+      upload.parts.set(partNumber, { body, etag, metadata: {} });
+      res.writeHead(200, { ETag: `"${etag}"` });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && uploadId) {
+      const upload = readUpload();
+      const completed = parseCompletedParts((await readBody(req)).toString('utf8'));
+      if (completed.length === 0) {
+        throw new S3Error(400, 'MalformedXML', 'No parts were listed');
+      }
+      const bodies: Buffer[] = [];
+      const digests: Buffer[] = [];
+      completed.forEach(({ partNumber, etag }, index) => {
+        if (index > 0 && partNumber <= completed[index - 1].partNumber) {
+          throw new S3Error(400, 'InvalidPartOrder', 'The list of parts was not in ascending order');
+        }
+        const part = upload.parts.get(partNumber);
+        if (!part || part.etag !== etag) {
+          throw new S3Error(400, 'InvalidPart', `Part ${partNumber} was not uploaded or its ETag does not match`);
+        }
+        bodies.push(part.body);
+        digests.push(Buffer.from(part.etag, 'hex'));
+      });
+      const etag = `${md5(Buffer.concat(digests))}-${completed.length}`;
+      objects.set(objectPath, {
+        body: Buffer.concat(bodies),
+        etag,
+        contentType: upload.contentType,
+        metadata: upload.metadata,
+      });
+      uploads.delete(uploadId);
+      sendXml(res, 200, `<CompleteMultipartUploadResult><Bucket>${escapeXml(bucket)}</Bucket><Key>${escapeXml(key)}</Key><ETag>"${etag}"</ETag></CompleteMultipartUploadResult>`);
+      return;
+    }
+
+    if (req.method === 'DELETE' && uploadId) {
+      readUpload();
+      uploads.delete(uploadId);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const copySource = req.headers['x-amz-copy-source'];
+    if (req.method === 'PUT' && typeof copySource === 'string') {
+      const source = objects.get(`/${decodeURIComponent(copySource).replace(/^\//, '')}`);
+      if (!source) {
+        throw new S3Error(404, 'NoSuchKey', 'The specified key does not exist');
+      }
+      const replace = req.headers['x-amz-metadata-directive'] === 'REPLACE';
+      const copy: StoredS3Object = {
+        body: source.body,
+        etag: source.etag,
+        contentType: replace ? req.headers['content-type'] : source.contentType,
+        metadata: replace ? userMetadata(req.headers) : source.metadata,
+      };
+      objects.set(objectPath, copy);
+      sendXml(res, 200, `<CopyObjectResult><ETag>"${copy.etag}"</ETag><LastModified>${new Date().toISOString()}</LastModified></CopyObjectResult>`);
+      return;
+    }
+
+    if (req.method === 'PUT') {
+      const body = await readRequestBody();
+      const etag = md5(body);
+      objects.set(objectPath, {
+        body,
+        etag,
+        contentType: req.headers['content-type'],
+        metadata: userMetadata(req.headers),
+      });
+      res.writeHead(200, { ETag: `"${etag}"` });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      const object = objects.get(objectPath);
+      if (!object) {
+        throw new S3Error(404, 'NoSuchKey', 'The specified key does not exist');
+      }
+      res.writeHead(200, {
+        'Content-Type': object.contentType ?? 'binary/octet-stream',
+        'Content-Length': object.body.length,
+        ETag: `"${object.etag}"`,
+        ...object.metadata,
+      });
+      res.end(req.method === 'GET' ? object.body : undefined);
+      return;
+    }
+
+    throw new S3Error(405, 'MethodNotAllowed', `${req.method} is not supported`);
+  }
+
+  const server = http.createServer((req, res) => {
+    // Let browser uploads from the app reach the stand-in directly
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+    res.setHeader('Access-Control-Expose-Headers', 'ETag');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, HEAD, PUT',
+        'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] ?? '*',
+      });
+      res.end();
+      return;
+    }
+
+    handle(req, res).catch(error => {
+      const s3Error = error instanceof S3Error
+        ? error
+        : new S3Error(500, 'InternalError', error instanceof Error ? error.message : String(error));
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      if (req.method === 'HEAD') {
+        res.writeHead(s3Error.status);
+        res.end();
+        return;
+      }
+      sendXml(res, s3Error.status, `<Error><Code>${s3Error.code}</Code><Message>${escapeXml(s3Error.message)}</Message></Error>`);
+    });
+  });
+
+  return { server, objects, uploads };
+}
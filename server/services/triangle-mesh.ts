@@ -0,0 +1,361 @@
+import fs from 'fs';
+
+/**
+ * Indexed triangle meshes produced by the conversion pipeline, and the
+ * writers for the exported model formats
+ */
+
+export interface TriangleMesh {
+  // x, y, z per vertex
+  positions: Float32Array;
+  // Three vertex indices per triangle, counter-clockwise seen from outside
+  indices: Uint32Array;
+}
+
+// Header stored alongside geometry in the intermediate pipeline files
+export interface MeshFileHeader {
+  meshId: string;
+  processingStage: string;
+  timestamp: string;
+  [key: string]: unknown;
+}
+
+const MESH_FILE_MAGIC = 'MMSH';
+
+/**
+ * Write an intermediate mesh file: magic, header length, JSON header,
+ * padding, vertex and triangle counts, float32 positions, uint32 indices
+ */
+export function writeMeshFile(filePath: string, header: MeshFileHeader, mesh: TriangleMesh): void {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const countsOffset = Math.ceil((8 + headerBytes.length) / 4) * 4;
+  const positionsOffset = countsOffset + 8;
+  const indicesOffset = positionsOffset + mesh.positions.byteLength;
+  const output = Buffer.alloc(indicesOffset + mesh.indices.byteLength);
+
+  output.write(MESH_FILE_MAGIC, 0, 'ascii');
+  output.writeUInt32LE(headerBytes.length, 4);
+  headerBytes.copy(output, 8);
+  output.writeUInt32LE(mesh.positions.length / 3, countsOffset);
+  output.writeUInt32LE(mesh.indices.length / 3, countsOffset + 4);
+  Buffer.from(mesh.positions.buffer, mesh.positions.byteOffset, mesh.positions.byteLength).copy(output, positionsOffset);
+  Buffer.from(mesh.indices.buffer, mesh.indices.byteOffset, mesh.indices.byteLength).copy(output, indicesOffset);
+
+  fs.writeFileSync(filePath, output);
+}
+
+export function readMeshFile(filePath: string): { header: MeshFileHeader; mesh: TriangleMesh } {
+  const input = fs.readFileSync(filePath);
+  if (input.length < 8 || input.toString('ascii', 0, 4) !== MESH_FILE_MAGIC) {
+    throw new Error(`Invalid mesh file: ${filePath}`);
+  }
+
+  const headerLength = input.readUInt32LE(4);
+  const header = JSON.parse(input.toString('utf8', 8, 8 + headerLength)) as MeshFileHeader;
+  const countsOffset = Math.ceil((8 + headerLength) / 4) * 4;
+  const vertexCount = input.readUInt32LE(countsOffset);
+  const triangleCount = input.readUInt32LE(countsOffset + 4);
+
+  // Copy into aligned buffers for the typed array views
+  const positionsOffset = countsOffset + 8;
+  const indicesOffset = positionsOffset + vertexCount * 12;
+  const positions = new Float32Array(vertexCount * 3);
+  const indices = new Uint32Array(triangleCount * 3);
+  Buffer.from(positions.buffer).set(input.subarray(positionsOffset, indicesOffset));
+  Buffer.from(indices.buffer).set(input.subarray(indicesOffset, indicesOffset + triangleCount * 12));
+
+  return { header, mesh: { positions, indices } };
+}
+
+/**
+ * Drop connected pieces with fewer than minTriangles triangles, such as the
+ * specks that noise and small bright artefacts leave behind. Unused
+ * vertices are removed and the remaining ones renumbered.
+ */
+export function removeSmallComponents(mesh: TriangleMesh, minTriangles: number): TriangleMesh {
+  const vertexCount = mesh.positions.length / 3;
+  const triangleCount = mesh.indices.length / 3;
+
+  // Union-find over vertices joined by triangle edges
+  const parent = new Int32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) parent[i] = i;
+  const find = (vertex: number): number => {
+    while (parent[vertex] !== vertex) {
+      parent[vertex] = parent[parent[vertex]];
+      vertex = parent[vertex];
+    }
+    return vertex;
+  };
+  for (let t = 0; t < triangleCount; t++) {
+    const a = find(mesh.indices[t * 3]);
+    for (let corner = 1; corner < 3; corner++) {
+      const b = find(mesh.indices[t * 3 + corner]);
+      if (a !== b) parent[b] = a;
+    }
+  }
+
+  const componentTriangles = new Int32Array(vertexCount);
+  for (let t = 0; t < triangleCount; t++) {
+    componentTriangles[find(mesh.indices[t * 3])]++;
+  }
+
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const positions: number[] = [];
+  const indices: number[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    if (componentTriangles[find(mesh.indices[t * 3])] < minTriangles) continue;
+    for (let corner = 0; corner < 3; corner++) {
+      const vertex = mesh.indices[t * 3 + corner];
+      if (remap[vertex] < 0) {
+        remap[vertex] = positions.length / 3;
+        positions.push(mesh.positions[vertex * 3], mesh.positions[vertex * 3 + 1], mesh.positions[vertex * 3 + 2]);
+      }
+      indices.push(remap[vertex]);
+    }
+  }
+
+  return { positions: Float32Array.from(positions), indices: Uint32Array.from(indices) };
+}
+
+/**
+ * Taubin smoothing: alternating shrink (lambda) and inflate (mu) Laplacian
+ * passes remove the voxel staircase without shrinking the surface the way
+ * plain Laplacian smoothing does
+ */
+export function smoothMesh(mesh: TriangleMesh, iterations: number, lambda = 0.5, mu = -0.53): TriangleMesh {
+  const vertexCount = mesh.positions.length / 3;
+  const { offsets, neighbours } = vertexNeighbours(mesh);
+
+  let current = mesh.positions.slice();
+  let next = new Float32Array(current.length);
+  for (let pass = 0; pass < iterations * 2; pass++) {
+    const factor = pass % 2 === 0 ? lambda : mu;
+    for (let v = 0; v < vertexCount; v++) {
+      const start = offsets[v];
+      const end = offsets[v + 1];
+      for (let axis = 0; axis < 3; axis++) {
+        const value = current[v * 3 + axis];
+        if (end === start) {
+          next[v * 3 + axis] = value;
+          continue;
+        }
+        let sum = 0;
+        for (let n = start; n < end; n++) {
+          sum += current[neighbours[n] * 3 + axis];
+        }
+        next[v * 3 + axis] = value + factor * (sum / (end - start) - value);
+      }
+    }
+    [current, next] = [next, current];
+  }
+
+  return { positions: current, indices: mesh.indices };
+}
+
+/**
+ * Area-weighted vertex normals
+ */
+export function computeVertexNormals(mesh: TriangleMesh): Float32Array {
+  const { positions, indices } = mesh;
+  const normals = new Float32Array(positions.length);
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const [nx, ny, nz] = triangleNormal(positions, indices[t], indices[t + 1], indices[t + 2]);
+    for (let corner = 0; corner < 3; corner++) {
+      const v = indices[t + corner] * 3;
+      normals[v] += nx;
+      normals[v + 1] += ny;
+      normals[v + 2] += nz;
+    }
+  }
+
+  for (let v = 0; v < normals.length; v += 3) {
+    const length = Math.hypot(normals[v], normals[v + 1], normals[v + 2]) || 1;
+    normals[v] /= length;
+    normals[v + 1] /= length;
+    normals[v + 2] /= length;
+  }
+  return normals;
+}
+
+/**
+ * Write a Wavefront OBJ file with vertex normals
+ */
+export function writeOBJFile(filePath: string, mesh: TriangleMesh, comments: string[] = []): void {
+  const normals = computeVertexNormals(mesh);
+  const output = new ChunkedFileWriter(filePath);
+  try {
+    for (const comment of comments) {
+      output.write(`# ${comment}\n`);
+    }
+    output.write(`# Vertices: ${mesh.positions.length / 3}, Triangles: ${mesh.indices.length / 3}\n`);
+
+    for (let v = 0; v < mesh.positions.length; v += 3) {
+      output.write(`v ${formatCoordinate(mesh.positions[v])} ${formatCoordinate(mesh.positions[v + 1])} ${formatCoordinate(mesh.positions[v + 2])}\n`);
+    }
+    for (let v = 0; v < normals.length; v += 3) {
+      output.write(`vn ${normals[v].toFixed(4)} ${normals[v + 1].toFixed(4)} ${normals[v + 2].toFixed(4)}\n`);
+    }
+    // OBJ indices are 1-based; each vertex uses the normal with its index
+    for (let t = 0; t < mesh.indices.length; t += 3) {
+      const a = mesh.indices[t] + 1;
+      const b = mesh.indices[t + 1] + 1;
+      const c = mesh.indices[t + 2] + 1;
+      output.write(`f ${a}//${a} ${b}//${b} ${c}//${c}\n`);
+    }
+  } finally {
+    output.close();
+  }
+}
+
+/**
+ * Write a binary STL file. The 80-byte header holds the (truncated) title.
+ */
+export function writeSTLFile(filePath: string, mesh: TriangleMesh, title: string): void {
+  const { positions, indices } = mesh;
+  const triangleCount = indices.length / 3;
+  const output = Buffer.alloc(84 + triangleCount * 50);
+
+  output.write(title.slice(0, 80), 0, 'ascii');
+  output.writeUInt32LE(triangleCount, 80);
+
+  let offset = 84;
+  for (let t = 0; t < indices.length; t += 3) {
+    const normal = triangleNormal(positions, indices[t], indices[t + 1], indices[t + 2]);
+    const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+    for (let axis = 0; axis < 3; axis++) {
+      output.writeFloatLE(normal[axis] / length, offset);
+      offset += 4;
+    }
+    for (let corner = 0; corner < 3; corner++) {
+      const v = indices[t + corner] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        output.writeFloatLE(positions[v + axis], offset);
+        offset += 4;
+      }
+    }
+    // Attribute byte count, unused
+    offset += 2;
+  }
+
+  fs.writeFileSync(filePath, output);
+}
+
+/**
+ * Write a binary little-endian PLY file with vertex normals
+ */
+export function writePLYFile(filePath: string, mesh: TriangleMesh, comments: string[] = []): void {
+  const { positions, indices } = mesh;
+  const normals = computeVertexNormals(mesh);
+  const vertexCount = positions.length / 3;
+  const triangleCount = indices.length / 3;
+
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    ...comments.map(comment => `comment ${comment}`),
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float nx',
+    'property float ny',
+    'property float nz',
+    `element face ${triangleCount}`,
+    'property list uchar uint vertex_indices',
+    'end_header',
+    '',
+  ].join('\n');
+  const headerBytes = Buffer.from(header, 'ascii');
+  const output = Buffer.alloc(headerBytes.length + vertexCount * 24 + triangleCount * 13);
+  headerBytes.copy(output, 0);
+
+  let offset = headerBytes.length;
+  for (let v = 0; v < positions.length; v += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      output.writeFloatLE(positions[v + axis], offset + axis * 4);
+      output.writeFloatLE(normals[v + axis], offset + 12 + axis * 4);
+    }
+    offset += 24;
+  }
+  for (let t = 0; t < indices.length; t += 3) {
+    output.writeUInt8(3, offset);
+    output.writeUInt32LE(indices[t], offset + 1);
+    output.writeUInt32LE(indices[t + 1], offset + 5);
+    output.writeUInt32LE(indices[t + 2], offset + 9);
+    offset += 13;
+  }
+
+  fs.writeFileSync(filePath, output);
+}
+
+// Cross product of two triangle edges; its length is twice the triangle area
+function triangleNormal(positions: Float32Array, a: number, b: number, c: number): [number, number, number] {
+  const ax = positions[a * 3], ay = positions[a * 3 + 1], az = positions[a * 3 + 2];
+  const ux = positions[b * 3] - ax, uy = positions[b * 3 + 1] - ay, uz = positions[b * 3 + 2] - az;
+  const vx = positions[c * 3] - ax, vy = positions[c * 3 + 1] - ay, vz = positions[c * 3 + 2] - az;
+  return [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+}
+
+// Distinct neighbours of each vertex in compressed sparse row form
+function vertexNeighbours(mesh: TriangleMesh): { offsets: Uint32Array; neighbours: Uint32Array } {
+  const vertexCount = mesh.positions.length / 3;
+  const sets: Array<Set<number>> = Array.from({ length: vertexCount }, () => new Set<number>());
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    for (let corner = 0; corner < 3; corner++) {
+      const a = mesh.indices[t + corner];
+      const b = mesh.indices[t + (corner + 1) % 3];
+      sets[a].add(b);
+      sets[b].add(a);
+    }
+  }
+
+  const offsets = new Uint32Array(vertexCount + 1);
+  for (let v = 0; v < vertexCount; v++) {
+    offsets[v + 1] = offsets[v] + sets[v].size;
+  }
+  const neighbours = new Uint32Array(offsets[vertexCount]);
+  for (let v = 0; v < vertexCount; v++) {
+    let n = offsets[v];
+    sets[v].forEach(neighbour => {
+      neighbours[n++] = neighbour;
+    });
+  }
+  return { offsets, neighbours };
+}
+
+function formatCoordinate(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+// Buffers text output so large OBJ files are not built as one string
+class ChunkedFileWriter {
+  private fd: number;
+  private pending: string[] = [];
+  private pendingLength = 0;
+
+  constructor(filePath: string) {
+    this.fd = fs.openSync(filePath, 'w');
+  }
+
+  write(text: string): void {
+    this.pending.push(text);
+    this.pendingLength += text.length;
+    if (this.pendingLength >= 1 << 20) {
+      this.flush();
+    }
+  }
+
+  close(): void {
+    this.flush();
+    fs.closeSync(this.fd);
+  }
+
+  private flush(): void {
+    if (this.pending.length > 0) {
+      fs.writeSync(this.fd, this.pending.join(''));
+      this.pending = [];
+      this.pendingLength = 0;
+    }
+  }
+}
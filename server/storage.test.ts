@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createTestDatabase } from "./testDatabase";
+import { DatabaseStorage } from "./storage";
+import { buildReportSections, resolveReportOptions } from "./services/report-templates";
+
+test("reports keep the template and sections they were generated with", async () => {
+  const storage = new DatabaseStorage(await createTestDatabase());
+  const scan = await storage.createMriScan({
+    filename: "/objects/uploads/scan",
+    originalName: "scan.dcm",
+    fileSize: 1024,
+    mimeType: "application/dicom",
+  });
+
+  const options = resolveReportOptions({ reportFormat: "Surgical Planning" });
+  const content = {
+    riskScore: 3,
+    overallRisk: "moderate" as const,
+    criticalCount: 0,
+    majorCount: 1,
+    minorCount: 0,
+    detectionAccuracy: 94,
+    imageQuality: 8.9,
+    criticalFindings: [],
+    secondaryFindings: [],
+    technicalSummary: {
+      processingTime: 2.43,
+      imagesAnalyzed: 1,
+      modelVersion: "test",
+      algorithm: "test",
+      imageResolution: "512x512x1 (MR)",
+      qualityScore: 8.9,
+    },
+  };
+  const sections = buildReportSections(content, options, scan);
+  await storage.createAnalysisReport({ scanId: scan.id, ...content, processingTime: 2.43, options, sections });
+
+  const [report, history] = await Promise.all([storage.getAnalysisReport(scan.id), storage.getAnalysisReportHistory(scan.id)]);
+  assert.equal(report?.options?.reportFormat, "Surgical Planning");
+  assert.deepEqual(report?.options, options);
+  assert.deepEqual(report?.sections, sections);
+  assert.ok(sections.length > 0);
+  assert.equal(history[0].options?.reportFormat, "Surgical Planning");
+});
+
+test("reports keep the detections they were generated from", async () => {
+  const storage = new DatabaseStorage(await createTestDatabase());
+  const detection = {
+    id: "det-1",
+    type: "aneurysm" as const,
+    confidence: 91,
+    location: "Left middle cerebral artery",
+    coordinates: { x: 40, y: 30, width: 5, height: 5 },
+    riskLevel: "high" as const,
+    description: "Saccular aneurysm",
+    severity: "critical" as const,
+    severityScore: 9,
+    riskCategory: "high" as const,
+    clinicalType: "cerebral_aneurysm",
+  };
+  const scan = await storage.createMriScan({
+    filename: "/objects/uploads/scan",
+    originalName: "scan.dcm",
+    fileSize: 1024,
+    mimeType: "application/dicom",
+  });
+  await storage.createAnalysisReport({
+    scanId: scan.id,
+    riskScore: 8,
+    detectionAccuracy: 94,
+    imageQuality: 8.9,
+    processingTime: 2.43,
+    technicalSummary: {
+      processingTime: 2.43,
+      imagesAnalyzed: 1,
+      modelVersion: "test",
+      algorithm: "test",
+      imageResolution: "512x512x1 (MR)",
+      qualityScore: 8.9,
+    },
+    detections: [detection],
+  });
+
+  // A later detection run replaces the scan's detections
+  await storage.updateMriScan(scan.id, { detections: [] });
+
+  const report = await storage.getAnalysisReport(scan.id);
+  assert.deepEqual(report?.detections, [detection]);
+});
+
+test("stale jobs with attempts left are requeued and exhausted ones fail", async () => {
+  const storage = new DatabaseStorage(await createTestDatabase());
+  const scan = await storage.createMriScan({
+    filename: "/objects/uploads/scan",
+    originalName: "scan.dcm",
+    fileSize: 1024,
+    mimeType: "application/dicom",
+  });
+  const retried = await storage.enqueueJob({ type: "conversion", scanId: scan.id, maxAttempts: 3 });
+  const exhausted = await storage.enqueueJob({ type: "detection", scanId: scan.id, maxAttempts: 1 });
+  await storage.claimNextJob("worker");
+  await storage.claimNextJob("worker");
+
+  const staleJobs = await storage.requeueStaleJobs(new Date(Date.now() + 1000), "Worker stopped");
+  const byId = new Map(staleJobs.map(job => [job.id, job]));
+  assert.equal(byId.size, 2);
+  assert.equal(byId.get(retried.id)?.status, "queued");
+  assert.equal(byId.get(exhausted.id)?.status, "failed");
+  assert.equal(byId.get(exhausted.id)?.lastError, "Worker stopped");
+  assert.equal(await storage.claimNextJob("worker").then(job => job?.id), retried.id);
+});
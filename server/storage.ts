@@ -1,7 +1,9 @@
-import { type MriScan, type InsertMriScan, type AnalysisReport, type InsertAnalysisReport, Detection, CriticalFinding, SecondaryFinding, TechnicalSummary, mriScans, analysisReports } from "@shared/schema";
+import { type MriScan, type InsertMriScan, type AnalysisReport, type InsertAnalysisReport, type AnalysisReportSummary, type ReportStatus, type ReportAddendum, type Patient, type InsertPatient, type Study, type InsertStudy, type Series, type InsertSeries, type ScanPatientContext, type ProcessingJob, type InsertProcessingJob, type User, type AccessGroupWithMembers, type InsertAccessGroup, type AuditEvent, type NewAuditEvent, type DeidentifiedPatient, type NewDeidentifiedPatient, type DeidentifiedIdentifier, type NewDeidentifiedIdentifier, Detection, CriticalFinding, SecondaryFinding, TechnicalSummary, mriScans, analysisReports, users, patients, studies, series, processingJobs, accessGroups, accessGroupMembers, auditEvents, deidentifiedPatients, deidentifiedIdentifiers } from "@shared/schema";
+import { ObjectAccessGroupType } from "@shared/object-acl";
+import type { AuditEventQuery } from "@shared/audit";
 import { randomUUID } from "crypto";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { db as defaultDb } from "./db";
+import { eq, desc, asc, and, lte, lt, gt, gte, inArray, sql } from "drizzle-orm";
 
 export interface IStorage {
   // MRI Scans
@@ -11,23 +13,102 @@ export interface IStorage {
   updateMriScan(id: string, updates: Partial<MriScan>): Promise<MriScan | undefined>;
   deleteMriScan(id: string): Promise<boolean>;
   
+  getScansForSeries(seriesId: string): Promise<MriScan[]>;
+  getScanPatientContext(scanId: string): Promise<ScanPatientContext | undefined>;
+  
   // Analysis Reports
   getAnalysisReport(scanId: string): Promise<AnalysisReport | undefined>;
+  getAnalysisReportVersion(scanId: string, version: number): Promise<AnalysisReport | undefined>;
+  getAnalysisReportHistory(scanId: string): Promise<AnalysisReportSummary[]>;
   createAnalysisReport(report: InsertAnalysisReport): Promise<AnalysisReport>;
+  updateAnalysisReport(id: string, expectedStatuses: ReportStatus[], updates: Partial<AnalysisReport>): Promise<AnalysisReport | undefined>;
+  addReportAddendum(id: string, expectedStatuses: ReportStatus[], addendum: ReportAddendum): Promise<AnalysisReport | undefined>;
+
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  createUser(user: Omit<typeof users.$inferInsert, "id" | "createdAt">): Promise<User>;
+  updateUser(id: string, updates: Partial<Pick<User, "displayName" | "role" | "passwordHash">>): Promise<User | undefined>;
+
+  // Access groups
+  getAllAccessGroups(): Promise<AccessGroupWithMembers[]>;
+  getAccessGroup(id: string): Promise<AccessGroupWithMembers | undefined>;
+  createAccessGroup(group: InsertAccessGroup): Promise<AccessGroupWithMembers>;
+  setAccessGroupMembers(id: string, userIds: string[]): Promise<AccessGroupWithMembers | undefined>;
+  deleteAccessGroup(id: string): Promise<boolean>;
+  isAccessGroupMember(groupId: string, userId: string): Promise<boolean>;
+  isCareTeamMember(patientId: string, userId: string): Promise<boolean>;
+
+  // Patients
+  getPatient(id: string): Promise<Patient | undefined>;
+  getAllPatients(): Promise<Patient[]>;
+  createPatient(patient: InsertPatient): Promise<Patient>;
+  updatePatient(id: string, updates: Partial<InsertPatient>): Promise<Patient | undefined>;
+  deletePatient(id: string): Promise<boolean>;
+
+  // Studies
+  getStudy(id: string): Promise<Study | undefined>;
+  getStudiesForPatient(patientId: string): Promise<Study[]>;
+  createStudy(study: InsertStudy): Promise<Study>;
+  updateStudy(id: string, updates: Partial<InsertStudy>): Promise<Study | undefined>;
+  deleteStudy(id: string): Promise<boolean>;
+
+  // Series
+  getSeries(id: string): Promise<Series | undefined>;
+  getSeriesForStudy(studyId: string): Promise<Series[]>;
+  createSeries(newSeries: InsertSeries): Promise<Series>;
+  updateSeries(id: string, updates: Partial<InsertSeries>): Promise<Series | undefined>;
+  deleteSeries(id: string): Promise<boolean>;
+  findOrCreateSeriesHierarchy(hierarchy: SeriesHierarchyInput): Promise<Series>;
+
+  // Processing jobs
+  getJobsForScan(scanId: string): Promise<ProcessingJob[]>;
+  enqueueJob(job: InsertProcessingJob): Promise<ProcessingJob>;
+  claimNextJob(workerId: string): Promise<ProcessingJob | undefined>;
+  heartbeatJob(id: string, workerId: string): Promise<void>;
+  completeJob(id: string, followUpJobs: InsertProcessingJob[]): Promise<ProcessingJob[]>;
+  failJob(id: string, error: string, retryAt: Date | null): Promise<ProcessingJob | undefined>;
+  requeueStaleJobs(lockedBefore: Date, abandonedError: string): Promise<ProcessingJob[]>;
+
+  // Audit trail
+  appendAuditEvent(event: NewAuditEvent, hashEvent: (prevHash: string | null) => { prevHash: string; hash: string }): Promise<AuditEvent>;
+  getAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]>;
+  getAuditEventsAfter(sequence: number, limit: number): Promise<AuditEvent[]>;
+
+  // De-identification keys
+  findOrCreateDeidentifiedPatient(patient: NewDeidentifiedPatient): Promise<DeidentifiedPatient>;
+  getDeidentifiedPatient(pseudonym: string): Promise<DeidentifiedPatient | undefined>;
+  recordDeidentifiedIdentifiers(identifiers: NewDeidentifiedIdentifier[]): Promise<void>;
+  getDeidentifiedIdentifiers(replacements: string[]): Promise<DeidentifiedIdentifier[]>;
 }
 
+// Patient, study and series as read from an image header, matched on
+// medical record number and instance UIDs
+export interface SeriesHierarchyInput {
+  patient: InsertPatient;
+  study: Omit<InsertStudy, "patientId">;
+  series: Omit<InsertSeries, "studyId">;
+}
+
+// pg_advisory_xact_lock key held while appending to the audit chain
+const AUDIT_CHAIN_LOCK_KEY = 7_412_001;
+
 export class DatabaseStorage implements IStorage {
+  // Tests pass an in-memory database
+  constructor(private readonly db: typeof defaultDb = defaultDb) {}
+
   async getMriScan(id: string): Promise<MriScan | undefined> {
-    const [scan] = await db.select().from(mriScans).where(eq(mriScans.id, id));
+    const [scan] = await this.db.select().from(mriScans).where(eq(mriScans.id, id));
     return scan || undefined;
   }
 
   async getAllMriScans(): Promise<MriScan[]> {
-    return await db.select().from(mriScans).orderBy(desc(mriScans.uploadedAt));
+    return await this.db.select().from(mriScans).orderBy(desc(mriScans.uploadedAt));
   }
 
   async createMriScan(insertScan: InsertMriScan): Promise<MriScan> {
-    const [scan] = await db
+    const [scan] = await this.db
       .insert(mriScans)
       .values({
         filename: insertScan.filename,
@@ -37,6 +118,9 @@ export class DatabaseStorage implements IStorage {
         processingStatus: insertScan.processingStatus || "pending",
         threeDModelPath: insertScan.threeDModelPath || null,
         detections: (insertScan.detections || []) as any,
+        imageMetadata: (insertScan.imageMetadata || null) as any,
+        seriesFiles: (insertScan.seriesFiles || null) as any,
+        seriesId: insertScan.seriesId || null,
         analysisCompleted: insertScan.analysisCompleted || false
       })
       .returning();
@@ -44,7 +128,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateMriScan(id: string, updates: Partial<MriScan>): Promise<MriScan | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(mriScans)
       .set(updates)
       .where(eq(mriScans.id, id))
@@ -54,33 +138,500 @@ export class DatabaseStorage implements IStorage {
 
   async deleteMriScan(id: string): Promise<boolean> {
     // Cascade deletion is now handled at database level
-    const result = await db.delete(mriScans).where(eq(mriScans.id, id));
+    const result = await this.db.delete(mriScans).where(eq(mriScans.id, id));
     return (result.rowCount || 0) > 0;
   }
 
+  async getScansForSeries(seriesId: string): Promise<MriScan[]> {
+    return await this.db.select().from(mriScans).where(eq(mriScans.seriesId, seriesId)).orderBy(desc(mriScans.uploadedAt));
+  }
+
+  async getScanPatientContext(scanId: string): Promise<ScanPatientContext | undefined> {
+    const scan = await this.db.query.mriScans.findFirst({
+      where: eq(mriScans.id, scanId),
+      with: { series: { with: { study: { with: { patient: true } } } } },
+    });
+    if (!scan) {
+      return undefined;
+    }
+
+    if (!scan.series) {
+      return { patient: null, study: null, series: null };
+    }
+    const { study: { patient, ...study }, ...linkedSeries } = scan.series;
+    return { patient, study, series: linkedSeries };
+  }
+
+  // Latest version of the scan's report
   async getAnalysisReport(scanId: string): Promise<AnalysisReport | undefined> {
-    const [report] = await db
+    const [report] = await this.db
       .select()
       .from(analysisReports)
-      .where(eq(analysisReports.scanId, scanId));
+      .where(eq(analysisReports.scanId, scanId))
+      .orderBy(desc(analysisReports.version))
+      .limit(1);
     return report || undefined;
   }
 
+  async getAnalysisReportVersion(scanId: string, version: number): Promise<AnalysisReport | undefined> {
+    const [report] = await this.db
+      .select()
+      .from(analysisReports)
+      .where(and(eq(analysisReports.scanId, scanId), eq(analysisReports.version, version)));
+    return report || undefined;
+  }
+
+  async getAnalysisReportHistory(scanId: string): Promise<AnalysisReportSummary[]> {
+    return await this.db
+      .select({
+        id: analysisReports.id,
+        scanId: analysisReports.scanId,
+        version: analysisReports.version,
+        generatedAt: analysisReports.generatedAt,
+        riskScore: analysisReports.riskScore,
+        overallRisk: analysisReports.overallRisk,
+        criticalCount: analysisReports.criticalCount,
+        majorCount: analysisReports.majorCount,
+        minorCount: analysisReports.minorCount,
+        status: analysisReports.status,
+        signedBy: analysisReports.signedBy,
+        signedAt: analysisReports.signedAt,
+        options: analysisReports.options,
+      })
+      .from(analysisReports)
+      .where(eq(analysisReports.scanId, scanId))
+      .orderBy(desc(analysisReports.version));
+  }
+
   async createAnalysisReport(insertReport: InsertAnalysisReport): Promise<AnalysisReport> {
-    const [report] = await db
-      .insert(analysisReports)
-      .values({
-        scanId: insertReport.scanId,
-        riskScore: insertReport.riskScore,
-        detectionAccuracy: insertReport.detectionAccuracy,
-        imageQuality: insertReport.imageQuality,
-        processingTime: insertReport.processingTime,
-        criticalFindings: (insertReport.criticalFindings || []) as any,
-        secondaryFindings: (insertReport.secondaryFindings || []) as any,
-        technicalSummary: insertReport.technicalSummary as any
+    return await this.db.transaction(async (tx) => {
+      // Locking the scan row serialises report creation per scan, so
+      // concurrent regenerations get consecutive versions
+      await tx.select({ id: mriScans.id }).from(mriScans).where(eq(mriScans.id, insertReport.scanId)).for("update");
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${analysisReports.version}), 0)` })
+        .from(analysisReports)
+        .where(eq(analysisReports.scanId, insertReport.scanId));
+
+      const [report] = await tx
+        .insert(analysisReports)
+        .values({
+          scanId: insertReport.scanId,
+          version: Number(latest) + 1,
+          riskScore: insertReport.riskScore,
+          detectionAccuracy: insertReport.detectionAccuracy,
+          imageQuality: insertReport.imageQuality,
+          processingTime: insertReport.processingTime,
+          criticalFindings: (insertReport.criticalFindings || []) as any,
+          secondaryFindings: (insertReport.secondaryFindings || []) as any,
+          technicalSummary: insertReport.technicalSummary as any,
+          overallRisk: insertReport.overallRisk,
+          criticalCount: insertReport.criticalCount,
+          majorCount: insertReport.majorCount,
+          minorCount: insertReport.minorCount,
+          options: insertReport.options as any,
+          sections: insertReport.sections as any,
+          detections: (insertReport.detections || []) as any
+        })
+        .returning();
+      return report;
+    });
+  }
+
+  // Updates only apply while the report is in one of the expected statuses, so
+  // a concurrent sign-off cannot be overwritten; undefined when it was not
+  async updateAnalysisReport(id: string, expectedStatuses: ReportStatus[], updates: Partial<AnalysisReport>): Promise<AnalysisReport | undefined> {
+    const [updated] = await this.db
+      .update(analysisReports)
+      .set(updates)
+      .where(and(eq(analysisReports.id, id), inArray(analysisReports.status, expectedStatuses)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async addReportAddendum(id: string, expectedStatuses: ReportStatus[], addendum: ReportAddendum): Promise<AnalysisReport | undefined> {
+    const [updated] = await this.db
+      .update(analysisReports)
+      .set({
+        status: "amended",
+        addenda: sql`${analysisReports.addenda} || ${JSON.stringify([addendum])}::jsonb`,
       })
+      .where(and(eq(analysisReports.id, id), inArray(analysisReports.status, expectedStatuses)))
       .returning();
-    return report;
+    return updated || undefined;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async createUser(user: Omit<typeof users.$inferInsert, "id" | "createdAt">): Promise<User> {
+    const [created] = await this.db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async updateUser(id: string, updates: Partial<Pick<User, "displayName" | "role" | "passwordHash">>): Promise<User | undefined> {
+    const [updated] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async getAllAccessGroups(): Promise<AccessGroupWithMembers[]> {
+    const groups = await this.db.select().from(accessGroups).orderBy(asc(accessGroups.name));
+    const members = await this.db.select().from(accessGroupMembers);
+    return groups.map(group => ({
+      ...group,
+      memberIds: members.filter(member => member.groupId === group.id).map(member => member.userId),
+    }));
+  }
+
+  async getAccessGroup(id: string): Promise<AccessGroupWithMembers | undefined> {
+    const [group] = await this.db.select().from(accessGroups).where(eq(accessGroups.id, id));
+    if (!group) {
+      return undefined;
+    }
+    const members = await this.db.select().from(accessGroupMembers).where(eq(accessGroupMembers.groupId, id));
+    return { ...group, memberIds: members.map(member => member.userId) };
+  }
+
+  async createAccessGroup({ memberIds, ...group }: InsertAccessGroup): Promise<AccessGroupWithMembers> {
+    return await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(accessGroups).values(group).returning();
+      const uniqueIds = Array.from(new Set(memberIds));
+      if (uniqueIds.length > 0) {
+        await tx.insert(accessGroupMembers).values(uniqueIds.map(userId => ({ groupId: created.id, userId })));
+      }
+      return { ...created, memberIds: uniqueIds };
+    });
+  }
+
+  // Replace the group's members
+  async setAccessGroupMembers(id: string, userIds: string[]): Promise<AccessGroupWithMembers | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [group] = await tx.select().from(accessGroups).where(eq(accessGroups.id, id)).for("update");
+      if (!group) {
+        return undefined;
+      }
+      const uniqueIds = Array.from(new Set(userIds));
+      await tx.delete(accessGroupMembers).where(eq(accessGroupMembers.groupId, id));
+      if (uniqueIds.length > 0) {
+        await tx.insert(accessGroupMembers).values(uniqueIds.map(userId => ({ groupId: id, userId })));
+      }
+      return { ...group, memberIds: uniqueIds };
+    });
+  }
+
+  async deleteAccessGroup(id: string): Promise<boolean> {
+    const result = await this.db.delete(accessGroups).where(eq(accessGroups.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async isAccessGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const [member] = await this.db
+      .select({ userId: accessGroupMembers.userId })
+      .from(accessGroupMembers)
+      .innerJoin(accessGroups, eq(accessGroups.id, accessGroupMembers.groupId))
+      .where(and(
+        eq(accessGroupMembers.groupId, groupId),
+        eq(accessGroupMembers.userId, userId),
+        eq(accessGroups.type, ObjectAccessGroupType.USER_LIST),
+      ))
+      .limit(1);
+    return !!member;
+  }
+
+  // Member of any of the patient's care teams
+  async isCareTeamMember(patientId: string, userId: string): Promise<boolean> {
+    const [member] = await this.db
+      .select({ userId: accessGroupMembers.userId })
+      .from(accessGroupMembers)
+      .innerJoin(accessGroups, eq(accessGroups.id, accessGroupMembers.groupId))
+      .where(and(
+        eq(accessGroups.patientId, patientId),
+        eq(accessGroups.type, ObjectAccessGroupType.CARE_TEAM),
+        eq(accessGroupMembers.userId, userId),
+      ))
+      .limit(1);
+    return !!member;
+  }
+
+  async getPatient(id: string): Promise<Patient | undefined> {
+    const [patient] = await this.db.select().from(patients).where(eq(patients.id, id));
+    return patient || undefined;
+  }
+
+  async getAllPatients(): Promise<Patient[]> {
+    return await this.db.select().from(patients).orderBy(desc(patients.createdAt));
+  }
+
+  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
+    const [patient] = await this.db.insert(patients).values(insertPatient).returning();
+    return patient;
+  }
+
+  async updatePatient(id: string, updates: Partial<InsertPatient>): Promise<Patient | undefined> {
+    const [updated] = await this.db.update(patients).set(updates).where(eq(patients.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deletePatient(id: string): Promise<boolean> {
+    const result = await this.db.delete(patients).where(eq(patients.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getStudy(id: string): Promise<Study | undefined> {
+    const [study] = await this.db.select().from(studies).where(eq(studies.id, id));
+    return study || undefined;
+  }
+
+  async getStudiesForPatient(patientId: string): Promise<Study[]> {
+    return await this.db.select().from(studies).where(eq(studies.patientId, patientId)).orderBy(desc(studies.studyDate));
+  }
+
+  async createStudy(insertStudy: InsertStudy): Promise<Study> {
+    const [study] = await this.db.insert(studies).values(insertStudy).returning();
+    return study;
+  }
+
+  async updateStudy(id: string, updates: Partial<InsertStudy>): Promise<Study | undefined> {
+    const [updated] = await this.db.update(studies).set(updates).where(eq(studies.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteStudy(id: string): Promise<boolean> {
+    const result = await this.db.delete(studies).where(eq(studies.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getSeries(id: string): Promise<Series | undefined> {
+    const [found] = await this.db.select().from(series).where(eq(series.id, id));
+    return found || undefined;
+  }
+
+  async getSeriesForStudy(studyId: string): Promise<Series[]> {
+    return await this.db.select().from(series).where(eq(series.studyId, studyId)).orderBy(asc(series.seriesNumber));
+  }
+
+  async createSeries(insertSeries: InsertSeries): Promise<Series> {
+    const [created] = await this.db.insert(series).values(insertSeries).returning();
+    return created;
+  }
+
+  async updateSeries(id: string, updates: Partial<InsertSeries>): Promise<Series | undefined> {
+    const [updated] = await this.db.update(series).set(updates).where(eq(series.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteSeries(id: string): Promise<boolean> {
+    const result = await this.db.delete(series).where(eq(series.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async findOrCreateSeriesHierarchy(hierarchy: SeriesHierarchyInput): Promise<Series> {
+    // Existing rows are reused as-is so manual corrections are not overwritten
+    return await this.db.transaction(async (tx) => {
+      const [patient] = await tx
+        .insert(patients)
+        .values(hierarchy.patient)
+        .onConflictDoUpdate({ target: patients.medicalRecordNumber, set: { medicalRecordNumber: hierarchy.patient.medicalRecordNumber } })
+        .returning();
+
+      let [study] = hierarchy.study.studyInstanceUid
+        ? await tx.select().from(studies).where(eq(studies.studyInstanceUid, hierarchy.study.studyInstanceUid))
+        : [];
+      if (!study) {
+        [study] = await tx.insert(studies).values({ ...hierarchy.study, patientId: patient.id }).returning();
+      }
+
+      let [existingSeries] = hierarchy.series.seriesInstanceUid
+        ? await tx.select().from(series).where(eq(series.seriesInstanceUid, hierarchy.series.seriesInstanceUid))
+        : [];
+      if (!existingSeries) {
+        [existingSeries] = await tx.insert(series).values({ ...hierarchy.series, studyId: study.id }).returning();
+      }
+      return existingSeries;
+    });
+  }
+
+  async getJobsForScan(scanId: string): Promise<ProcessingJob[]> {
+    return await this.db.select().from(processingJobs).where(eq(processingJobs.scanId, scanId)).orderBy(asc(processingJobs.createdAt));
+  }
+
+  async enqueueJob(job: InsertProcessingJob): Promise<ProcessingJob> {
+    const [created] = await this.db.insert(processingJobs).values(job).returning();
+    return created;
+  }
+
+  async claimNextJob(workerId: string): Promise<ProcessingJob | undefined> {
+    // SKIP LOCKED lets several workers poll the table without claiming the same job
+    const nextJob = this.db
+      .select({ id: processingJobs.id })
+      .from(processingJobs)
+      .where(and(eq(processingJobs.status, "queued"), lte(processingJobs.runAt, new Date())))
+      .orderBy(asc(processingJobs.runAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const now = new Date();
+    const [claimed] = await this.db
+      .update(processingJobs)
+      .set({
+        status: "running",
+        attempts: sql`${processingJobs.attempts} + 1`,
+        lockedAt: now,
+        lockedBy: workerId,
+        updatedAt: now,
+      })
+      .where(inArray(processingJobs.id, nextJob))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async heartbeatJob(id: string, workerId: string): Promise<void> {
+    await this.db
+      .update(processingJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(processingJobs.id, id), eq(processingJobs.lockedBy, workerId)));
+  }
+
+  async completeJob(id: string, followUpJobs: InsertProcessingJob[]): Promise<ProcessingJob[]> {
+    // Follow-up jobs are enqueued atomically so a crash cannot drop the next pipeline step
+    return await this.db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .update(processingJobs)
+        .set({ status: "succeeded", lockedAt: null, lockedBy: null, lastError: null, updatedAt: now, completedAt: now })
+        .where(eq(processingJobs.id, id));
+      return followUpJobs.length > 0
+        ? await tx.insert(processingJobs).values(followUpJobs).returning()
+        : [];
+    });
+  }
+
+  async failJob(id: string, error: string, retryAt: Date | null): Promise<ProcessingJob | undefined> {
+    const now = new Date();
+    const [updated] = await this.db
+      .update(processingJobs)
+      .set(retryAt
+        ? { status: "queued", runAt: retryAt, lockedAt: null, lockedBy: null, lastError: error, updatedAt: now }
+        : { status: "failed", lockedAt: null, lockedBy: null, lastError: error, updatedAt: now, completedAt: now })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date, abandonedError: string): Promise<ProcessingJob[]> {
+    // A running job whose heartbeat stopped belongs to a worker that died
+    // mid-job. Jobs that have used up their attempts fail instead of being
+    // requeued, so a job that keeps killing its worker does not run forever.
+    return await this.db.transaction(async (tx) => {
+      const now = new Date();
+      const stale = and(eq(processingJobs.status, "running"), lt(processingJobs.lockedAt, lockedBefore));
+      const failed = await tx
+        .update(processingJobs)
+        .set({ status: "failed", lockedAt: null, lockedBy: null, lastError: abandonedError, updatedAt: now, completedAt: now })
+        .where(and(stale, gte(processingJobs.attempts, processingJobs.maxAttempts)))
+        .returning();
+      const requeued = await tx
+        .update(processingJobs)
+        .set({ status: "queued", runAt: now, lockedAt: null, lockedBy: null, updatedAt: now })
+        .where(stale)
+        .returning();
+      return [...failed, ...requeued];
+    });
+  }
+
+  // Append an event to the hash chain. The advisory lock serialises writers
+  // so every event links to the one committed before it.
+  async appendAuditEvent(event: NewAuditEvent, hashEvent: (prevHash: string | null) => { prevHash: string; hash: string }): Promise<AuditEvent> {
+    return await this.db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+      const [head] = await tx
+        .select({ hash: auditEvents.hash })
+        .from(auditEvents)
+        .orderBy(desc(auditEvents.sequence))
+        .limit(1);
+      const [appended] = await tx
+        .insert(auditEvents)
+        .values({ ...event, ...hashEvent(head?.hash ?? null) })
+        .returning();
+      return appended;
+    });
+  }
+
+  // Newest first
+  async getAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]> {
+    // and() skips the undefined entries of unset filters
+    const conditions = [
+      query.actorId ? eq(auditEvents.actorId, query.actorId) : undefined,
+      query.action ? eq(auditEvents.action, query.action) : undefined,
+      query.resourceType ? eq(auditEvents.resourceType, query.resourceType) : undefined,
+      query.resourceId ? eq(auditEvents.resourceId, query.resourceId) : undefined,
+      query.outcome ? eq(auditEvents.outcome, query.outcome) : undefined,
+      query.from ? gte(auditEvents.occurredAt, query.from) : undefined,
+      query.to ? lte(auditEvents.occurredAt, query.to) : undefined,
+      query.before ? lt(auditEvents.sequence, query.before) : undefined,
+    ];
+
+    return await this.db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.sequence))
+      .limit(query.limit);
+  }
+
+  // Oldest first, for walking the hash chain
+  async getAuditEventsAfter(sequence: number, limit: number): Promise<AuditEvent[]> {
+    return await this.db
+      .select()
+      .from(auditEvents)
+      .where(gt(auditEvents.sequence, sequence))
+      .orderBy(asc(auditEvents.sequence))
+      .limit(limit);
+  }
+
+  async findOrCreateDeidentifiedPatient(patient: NewDeidentifiedPatient): Promise<DeidentifiedPatient> {
+    // A patient seen before keeps the pseudonym and date shift it was given
+    const [existing] = await this.db
+      .insert(deidentifiedPatients)
+      .values(patient)
+      .onConflictDoUpdate({ target: deidentifiedPatients.patientKey, set: { patientKey: patient.patientKey } })
+      .returning();
+    return existing;
+  }
+
+  async getDeidentifiedPatient(pseudonym: string): Promise<DeidentifiedPatient | undefined> {
+    const [patient] = await this.db.select().from(deidentifiedPatients).where(eq(deidentifiedPatients.pseudonym, pseudonym));
+    return patient || undefined;
+  }
+
+  async recordDeidentifiedIdentifiers(identifiers: NewDeidentifiedIdentifier[]): Promise<void> {
+    if (identifiers.length === 0) {
+      return;
+    }
+    // Replacement UIDs are derived from the originals, so repeats are no-ops
+    await this.db.insert(deidentifiedIdentifiers).values(identifiers).onConflictDoNothing();
+  }
+
+  async getDeidentifiedIdentifiers(replacements: string[]): Promise<DeidentifiedIdentifier[]> {
+    if (replacements.length === 0) {
+      return [];
+    }
+    return await this.db
+      .select()
+      .from(deidentifiedIdentifiers)
+      .where(inArray(deidentifiedIdentifiers.replacement, replacements))
+      .orderBy(asc(deidentifiedIdentifiers.kind), asc(deidentifiedIdentifiers.createdAt));
   }
 }
 
@@ -0,0 +1,24 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import type { db } from "./db";
+
+// The ESM build of drizzle-kit's API cannot load its own dependencies
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// server/db.ts refuses to load without a connection string; tests never
+// connect to it, so import this module before anything that imports db.ts
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+// In-memory Postgres with the current schema, for tests of DatabaseStorage
+export async function createTestDatabase(): Promise<typeof db> {
+  const testDb = drizzle({ client: new PGlite(), schema });
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await testDb.execute(sql.raw(statement));
+  }
+  return testDb as unknown as typeof db;
+}
@@ -0,0 +1,13 @@
+// The package ships TypeScript sources but its published release has no
+// declaration file, so declare the small part of the API we use.
+declare module "jpeg-lossless-decoder-js" {
+  export class Decoder {
+    constructor(buffer?: ArrayBuffer | null, numBytes?: number);
+    decode(
+      buffer?: ArrayBuffer,
+      offset?: number,
+      length?: number,
+      numBytes?: number,
+    ): Uint8Array | Uint16Array;
+  }
+}
@@ -0,0 +1,55 @@
+// Audit trail of access to scans, reports and stored objects, written by the
+// auditTrail middleware (server/services/audit-log.ts) and read by admins
+// through /api/audit-events.
+
+import { z } from "zod";
+
+export const AUDIT_ACTIONS = ["list", "view", "create", "update", "delete", "export", "download"] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  list: "Listed",
+  view: "Viewed",
+  create: "Created",
+  update: "Changed",
+  delete: "Deleted",
+  export: "Exported",
+  download: "Downloaded",
+};
+
+export const AUDIT_RESOURCE_TYPES = ["scan", "report", "object"] as const;
+
+export type AuditResourceType = typeof AUDIT_RESOURCE_TYPES[number];
+
+// denied: refused for a missing sign-in, permission or scan ACL (401/403);
+// failure: any other error response
+export const AUDIT_OUTCOMES = ["success", "denied", "failure"] as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[number];
+
+// Filters of GET /api/audit-events; events come newest first, and `before`
+// pages back from the sequence number of the last event received
+export const auditEventQuerySchema = z.object({
+  actorId: z.string().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  resourceType: z.enum(AUDIT_RESOURCE_TYPES).optional(),
+  resourceId: z.string().min(1).optional(),
+  outcome: z.enum(AUDIT_OUTCOMES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type AuditEventQuery = z.infer<typeof auditEventQuerySchema>;
+
+// Result of re-computing the hash chain from the first event
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  // Sequence number of the first event whose hash or link does not match
+  brokenAt: number | null;
+  // Hash of the newest event; keep a copy elsewhere to detect truncation
+  headHash: string | null;
+}
@@ -0,0 +1,52 @@
+// Progress events emitted by the server-side 3D conversion pipeline and
+// streamed to the client over /api/scans/:id/progress (Server-Sent Events).
+
+export type ConversionStage =
+  | "pending"
+  | "queued"
+  | "initialization"
+  | "validation"
+  | "download"
+  | "metadata"
+  | "preprocessing"
+  | "volumeGeneration"
+  | "filtering"
+  | "segmentation"
+  | "meshGeneration"
+  | "postProcessing"
+  | "export"
+  | "completed"
+  | "error"
+  | "failed";
+
+export interface ConversionProgress {
+  stage: ConversionStage;
+  progress: number; // 0-100, or -1 when the stage reports an error
+  message: string;
+  scanId: string;
+}
+
+export const CONVERSION_STAGE_LABELS: Record<ConversionStage, string> = {
+  pending: "Ready to Process",
+  queued: "Waiting for Worker",
+  initialization: "Initializing Pipeline",
+  validation: "Validating Image",
+  download: "Downloading Image",
+  metadata: "Reading Metadata",
+  preprocessing: "Preprocessing",
+  volumeGeneration: "Volume Generation",
+  filtering: "Enhancement Filtering",
+  segmentation: "Segmentation",
+  meshGeneration: "Mesh Generation",
+  postProcessing: "Mesh Optimization",
+  export: "Exporting Model",
+  completed: "Processing Complete",
+  // A failed attempt that the job queue will retry
+  error: "Retrying After Error",
+  failed: "Processing Failed",
+};
+
+// Stages after which no further events are sent for the conversion
+export function isTerminalConversionStage(stage: ConversionStage): boolean {
+  return stage === "completed" || stage === "failed";
+}
@@ -0,0 +1,117 @@
+// Detection evaluation against labelled ground truth, produced by the
+// `npm run evaluate` command and the /api/evaluations endpoints.
+
+import { z } from "zod";
+import type { Detection } from "./schema";
+
+export const evaluationRequestSchema = z.object({
+  // Dataset directory, relative to the evaluation datasets root
+  dataset: z.string().min(1).default("test-images"),
+  detectors: z.array(z.string().min(1)).min(1).optional(),
+  sensitivity: z.number().min(0).max(100).default(75),
+  // Operating point for precision/recall; FROC curves use every confidence
+  confidence: z.number().min(0).max(100).default(50),
+  // Minimum overlap for a detection to match a ground-truth finding
+  iouThreshold: z.number().gt(0).max(1).default(0.5),
+});
+
+export type EvaluationRequest = z.infer<typeof evaluationRequestSchema>;
+
+// One labelled finding in a dataset's annotations.json
+export const groundTruthFindingSchema = z.object({
+  type: z.enum(["aneurysm", "tumor", "lesion", "anomaly", "hemorrhage"]),
+  // Percent of the image size, like detection coordinates
+  box: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }),
+  // 0-based slice; defaults to the middle slice
+  slice: z.number().int().min(0).optional(),
+  // Segmentation inside the box, encoded like detection masks
+  mask: z.object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    runs: z.array(z.number().int().min(0)),
+  }).optional(),
+});
+
+// Keys are image files or series directories relative to the dataset;
+// an empty list marks an image without findings
+export const evaluationAnnotationsSchema = z.object({
+  images: z.record(z.array(groundTruthFindingSchema)),
+});
+
+export type GroundTruthFinding = z.infer<typeof groundTruthFindingSchema>;
+
+// Sensitivity reached at a given number of false positives per image
+export interface FrocPoint {
+  confidence: number;
+  sensitivity: number;
+  falsePositivesPerImage: number;
+}
+
+export interface EvaluationMetrics {
+  groundTruth: number;
+  // Counts at the operating confidence
+  detections: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  // Mean overlap of true positives with their ground truth
+  meanIoU: number;
+  froc: FrocPoint[];
+  // Mean sensitivity at 1/8, 1/4, 1/2, 1, 2, 4 and 8 false positives per image
+  frocScore: number;
+}
+
+export interface ClassEvaluation extends EvaluationMetrics {
+  type: Detection["type"];
+}
+
+export interface EvaluatedDetection {
+  id: string;
+  type: Detection["type"];
+  confidence: number;
+  detector?: string;
+  slice: number;
+  coordinates: Detection["coordinates"];
+  // Overlap with the matched ground truth, 0 when unmatched
+  iou: number;
+  matched: boolean;
+}
+
+export interface EvaluationCase {
+  image: string;
+  groundTruth: (GroundTruthFinding & { matched: boolean })[];
+  detections: EvaluatedDetection[];
+  error?: string;
+}
+
+export interface EvaluationReport {
+  id: string;
+  generatedAt: string;
+  dataset: string;
+  detectors: { name: string; version: string }[];
+  parameters: Omit<EvaluationRequest, "dataset">;
+  imageCount: number;
+  overall: EvaluationMetrics;
+  classes: ClassEvaluation[];
+  cases: EvaluationCase[];
+}
+
+// Listing entry for stored reports
+export interface EvaluationSummary {
+  id: string;
+  generatedAt: string;
+  dataset: string;
+  detectors: { name: string; version: string }[];
+  imageCount: number;
+  precision: number;
+  recall: number;
+  frocScore: number;
+}
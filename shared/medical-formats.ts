@@ -0,0 +1,102 @@
+// Medical file formats accepted by the upload endpoints.
+//
+// Shared between the client dropzones and the server validators so both sides
+// agree on what can be ingested. Browsers often report an empty or generic
+// MIME type for medical formats, so the extension is the source of truth and
+// the reported type is only used when it matches.
+
+export interface MedicalFileFormat {
+  id: "jpeg" | "png" | "dicom" | "nifti";
+  label: string;
+  mimeType: string;
+  extensions: string[];
+  // Other MIME types browsers are known to report for this format
+  aliases: string[];
+}
+
+export const MEDICAL_FILE_FORMATS: MedicalFileFormat[] = [
+  {
+    id: "jpeg",
+    label: "JPG",
+    mimeType: "image/jpeg",
+    extensions: [".jpg", ".jpeg"],
+    aliases: [],
+  },
+  {
+    id: "png",
+    label: "PNG",
+    mimeType: "image/png",
+    extensions: [".png"],
+    aliases: [],
+  },
+  {
+    id: "dicom",
+    label: "DICOM",
+    mimeType: "application/dicom",
+    extensions: [".dcm", ".dicom"],
+    aliases: ["", "application/octet-stream", "image/dicom", "application/x-dicom"],
+  },
+  {
+    id: "nifti",
+    label: "NIfTI",
+    // No registered MIME type exists; this is the de facto one used by viewers
+    mimeType: "application/x-nifti",
+    extensions: [".nii", ".nii.gz"],
+    aliases: ["", "application/octet-stream", "application/gzip", "application/x-gzip"],
+  },
+];
+
+export const MAX_UPLOAD_SIZE = 50 * 1024 * 1024; // 50MB
+
+export const SUPPORTED_FORMATS_LABEL = MEDICAL_FILE_FORMATS.map(f => f.label).join(", ");
+
+// Accept map in the shape react-dropzone expects
+export const MEDICAL_UPLOAD_ACCEPT: Record<string, string[]> = Object.fromEntries(
+  MEDICAL_FILE_FORMATS.map(f => [f.mimeType, f.extensions])
+);
+
+export const ALLOWED_MIME_TYPES = MEDICAL_FILE_FORMATS.map(f => f.mimeType);
+
+// Series uploads stack 2D slices; NIfTI files are already volumes
+export const SERIES_SLICE_MIME_TYPES = MEDICAL_FILE_FORMATS
+  .filter(f => f.id !== "nifti")
+  .map(f => f.mimeType);
+
+export const MAX_SERIES_SLICES = 512;
+
+// Natural filename order, so slice-2.png sorts before slice-10.png
+export function compareSliceNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+// Extensions made of more than one dot-separated part
+const COMPOUND_EXTENSIONS = [".nii.gz"];
+
+// Returns the lowercase extension of a filename, including the leading dot
+export function getMedicalFileExtension(filename: string): string {
+  const lower = filename.toLowerCase();
+  const compound = COMPOUND_EXTENSIONS.find(ext => lower.endsWith(ext));
+  if (compound) {
+    return compound;
+  }
+  const dot = lower.lastIndexOf(".");
+  return dot >= 0 ? lower.slice(dot) : "";
+}
+
+export function findMedicalFileFormat(filename: string): MedicalFileFormat | undefined {
+  const ext = getMedicalFileExtension(filename);
+  return MEDICAL_FILE_FORMATS.find(f => f.extensions.includes(ext));
+}
+
+// Resolve the canonical MIME type for an upload, or null if the combination of
+// extension and reported type is not an accepted medical format.
+export function resolveMedicalMimeType(filename: string, reportedMimeType = ""): string | null {
+  const format = findMedicalFileFormat(filename);
+  if (!format) {
+    return null;
+  }
+  if (reportedMimeType === format.mimeType || format.aliases.includes(reportedMimeType)) {
+    return format.mimeType;
+  }
+  return null;
+}
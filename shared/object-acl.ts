@@ -0,0 +1,61 @@
+// Object ACL types shared by object storage (server/objectAcl.ts), the
+// per-scan policies stored in mri_scans.acl_policy and the client.
+
+// The type of the access group.
+//
+// Can be flexibly defined according to the use case.
+//
+// Examples:
+// - USER_LIST: the users from a list stored in the database;
+// - EMAIL_DOMAIN: the users whose email is in a specific domain;
+// - GROUP_MEMBER: the users who are members of a specific group;
+// - SUBSCRIBER: the users who are subscribers of a specific service / content
+//   creator.
+export enum ObjectAccessGroupType {
+  // Users listed in an access group (access_groups / access_group_members);
+  // the id is the access group id.
+  USER_LIST = "USER_LIST",
+  // Users on any care team of a patient; the id is the patient id.
+  CARE_TEAM = "CARE_TEAM",
+}
+
+// The logic user group that can access the object.
+export interface ObjectAccessGroup {
+  // The type of the access group.
+  type: ObjectAccessGroupType;
+  // The logic id that is enough to identify the qualified group members.
+  //
+  // It may have different format for different types. For example:
+  // - for USER_LIST, the id could be the user list db entity id, and the
+  //   user list db entity could contain a bunch of user ids. User needs
+  //   to be a member of the user list to be able to access the object.
+  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
+  //   to have an email with the domain to be able to access the object.
+  // - for GROUP_MEMBER, the id could be the group db entity id, and the
+  //   group db entity could contain a bunch of user ids. User needs to be
+  //   a member of the group to be able to access the object.
+  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
+  //   subscriber db entity could contain a bunch of user ids. User needs to
+  //   be a subscriber to be able to access the object.
+  id: string;
+}
+
+export enum ObjectPermission {
+  READ = "read",
+  WRITE = "write",
+}
+
+export interface ObjectAclRule {
+  group: ObjectAccessGroup;
+  permission: ObjectPermission;
+}
+
+// The ACL policy of the object.
+// This would be set as part of the object custom metadata:
+// - key: "custom:aclPolicy"
+// - value: JSON string of the ObjectAclPolicy object.
+export interface ObjectAclPolicy {
+  owner: string;
+  visibility: "public" | "private";
+  aclRules?: Array<ObjectAclRule>;
+}
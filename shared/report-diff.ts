@@ -0,0 +1,87 @@
+// Differences between two versions of a scan's analysis report, served by
+// /api/scans/:id/reports/:version/diff and shown in the report history view.
+
+import type { AnalysisReport, CriticalFinding, SecondaryFinding } from "./schema";
+
+export interface FindingChange<T> {
+  before: T;
+  after: T;
+  // Fields whose values differ
+  fields: (keyof T)[];
+}
+
+// Findings are matched between versions by id, which follows the detection
+// they were generated from
+export interface FindingsDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: FindingChange<T>[];
+  unchanged: number;
+}
+
+export interface ReportValueChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface ReportDiff {
+  scanId: string;
+  from: { version: number; generatedAt: Date | string };
+  to: { version: number; generatedAt: Date | string };
+  // Summary values that differ; absent when equal
+  summary: {
+    riskScore?: ReportValueChange<number>;
+    overallRisk?: ReportValueChange<AnalysisReport["overallRisk"]>;
+    criticalCount?: ReportValueChange<number>;
+    majorCount?: ReportValueChange<number>;
+    minorCount?: ReportValueChange<number>;
+  };
+  criticalFindings: FindingsDiff<CriticalFinding>;
+  secondaryFindings: FindingsDiff<SecondaryFinding>;
+}
+
+const SUMMARY_FIELDS = ["riskScore", "overallRisk", "criticalCount", "majorCount", "minorCount"] as const;
+
+// Findings and summary values that changed from one report version to another
+export function diffReports(from: AnalysisReport, to: AnalysisReport): ReportDiff {
+  const summary: ReportDiff["summary"] = {};
+  for (const field of SUMMARY_FIELDS) {
+    if (from[field] !== to[field]) {
+      (summary as Record<string, ReportValueChange<unknown>>)[field] = { from: from[field], to: to[field] };
+    }
+  }
+
+  return {
+    scanId: to.scanId,
+    from: { version: from.version, generatedAt: from.generatedAt },
+    to: { version: to.version, generatedAt: to.generatedAt },
+    summary,
+    criticalFindings: diffFindings(from.criticalFindings, to.criticalFindings),
+    secondaryFindings: diffFindings(from.secondaryFindings, to.secondaryFindings),
+  };
+}
+
+function diffFindings<T extends { id: string }>(before: T[], after: T[]): FindingsDiff<T> {
+  const previous = new Map(before.map(finding => [finding.id, finding]));
+  const diff: FindingsDiff<T> = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const finding of after) {
+    const match = previous.get(finding.id);
+    previous.delete(finding.id);
+    if (!match) {
+      diff.added.push(finding);
+      continue;
+    }
+
+    const keys = Array.from(new Set([...Object.keys(match), ...Object.keys(finding)])) as (keyof T)[];
+    const fields = keys.filter(key => JSON.stringify(match[key]) !== JSON.stringify(finding[key]));
+    if (fields.length > 0) {
+      diff.changed.push({ before: match, after: finding, fields });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed = Array.from(previous.values());
+  return diff;
+}
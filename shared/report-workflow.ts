@@ -0,0 +1,24 @@
+// Sign-off rules for analysis reports. Generated reports start as drafts; a
+// radiologist edits the impression and signs them as preliminary or final.
+// Final reports are locked and can only gain addenda, which mark them amended.
+
+import type { ReportStatus } from "./schema";
+
+// Statuses in which the impression may still be edited
+export const EDITABLE_REPORT_STATUSES: ReportStatus[] = ["draft", "preliminary"];
+
+// Statuses a report may be signed from, by target status
+export const SIGNABLE_REPORT_STATUSES: Record<"preliminary" | "final", ReportStatus[]> = {
+  preliminary: ["draft"],
+  final: ["draft", "preliminary"],
+};
+
+// Statuses in which addenda may be issued
+export const AMENDABLE_REPORT_STATUSES: ReportStatus[] = ["final", "amended"];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: "Draft",
+  preliminary: "Preliminary",
+  final: "Final",
+  amended: "Amended",
+};
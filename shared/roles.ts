@@ -0,0 +1,44 @@
+// Roles of platform users and what each may do. The server enforces these
+// with requirePermission (server/auth.ts); the client hides actions a role
+// lacks.
+
+export const USER_ROLES = ["technician", "radiologist", "researcher", "admin"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  "scans:read", // scans, images, models, progress and reports
+  "scans:upload",
+  "scans:convert",
+  "scans:delete",
+  "scans:detect", // also the detector list and stored evaluation reports
+  "detectors:evaluate", // run detector evaluations over a labelled dataset
+  "reports:generate",
+  "reports:sign", // impressions, signatures and addenda
+  "reports:send", // HL7 delivery
+  "phi:read", // patient identity; without it scans are shown de-identified
+  "phi:reidentify", // original identifiers of uploads de-identified on upload
+  "patients:write", // patient, study and series records and scan links
+  "users:manage",
+  "audit:read", // the audit trail of scan, report and object access
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  technician: ["scans:read", "scans:upload", "scans:convert", "phi:read", "patients:write"],
+  radiologist: ["scans:read", "scans:detect", "reports:generate", "reports:sign", "reports:send", "phi:read"],
+  researcher: ["scans:read"],
+  admin: PERMISSIONS,
+};
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  technician: "Technician",
+  radiologist: "Radiologist",
+  researcher: "Researcher",
+  admin: "Administrator",
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
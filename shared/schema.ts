@@ -1,7 +1,60 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp, real, integer, boolean } from "drizzle-orm/pg-core";
+import { sql, relations } from "drizzle-orm";
+import { pgTable, text, varchar, jsonb, timestamp, real, integer, boolean, date, index, uniqueIndex, primaryKey, serial } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { USER_ROLES, type UserRole } from "./roles";
+import { ObjectAccessGroupType, ObjectPermission, type ObjectAclPolicy } from "./object-acl";
+import type { AuditAction, AuditOutcome, AuditResourceType } from "./audit";
+
+// Accounts that sign in to the platform; see server/auth.ts
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt hash and salt, "<hash>.<salt>" in hex
+  displayName: text("display_name").notNull(),
+  // Least privileged role until an admin assigns another; see shared/roles.ts
+  role: text("role").$type<UserRole>().notNull().default("researcher"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Login sessions, written by connect-pg-simple (layout of its table.sql)
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+export const patients = pgTable("patients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  medicalRecordNumber: text("medical_record_number").notNull().unique(), // DICOM Patient ID
+  name: text("name"),
+  birthDate: date("birth_date"),
+  sex: text("sex").$type<"M" | "F" | "O">(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const studies = pgTable("studies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").references(() => patients.id, { onDelete: 'cascade' }).notNull(),
+  studyInstanceUid: text("study_instance_uid").unique(),
+  accessionNumber: text("accession_number"),
+  studyDate: timestamp("study_date"),
+  description: text("description"),
+  referringPhysician: text("referring_physician"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const series = pgTable("series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studyId: varchar("study_id").references(() => studies.id, { onDelete: 'cascade' }).notNull(),
+  seriesInstanceUid: text("series_instance_uid").unique(),
+  seriesNumber: integer("series_number"),
+  modality: text("modality"),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
 
 export const mriScans = pgTable("mri_scans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -13,12 +66,45 @@ export const mriScans = pgTable("mri_scans", {
   processingStatus: text("processing_status").notNull().default("pending"), // pending, processing, completed, failed
   threeDModelPath: text("three_d_model_path"),
   detections: jsonb("detections").$type<Detection[]>().default([]),
+  detectionRun: jsonb("detection_run").$type<DetectionRun>(), // parameters the stored detections were produced with
+  imageMetadata: jsonb("image_metadata").$type<MedicalImageMetadata>(),
+  seriesFiles: jsonb("series_files").$type<SeriesSliceFile[]>(), // set when the scan was assembled from a stack of slices
+  seriesId: varchar("series_id").references(() => series.id, { onDelete: 'set null' }),
   analysisCompleted: boolean("analysis_completed").default(false).notNull(),
+  // Who may read and change the scan; null on scans uploaded before
+  // per-scan policies, which only get role checks. See server/objectAcl.ts
+  aclPolicy: jsonb("acl_policy").$type<ObjectAclPolicy>(),
 });
 
+// Named groups of users that scans and objects can be shared with. A
+// CARE_TEAM group belongs to one patient and grants its members access to all
+// of the patient's scans; a USER_LIST group is granted access scan by scan.
+export const accessGroups = pgTable("access_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").$type<ObjectAccessGroupType>().notNull(),
+  name: text("name").notNull(),
+  patientId: varchar("patient_id").references(() => patients.id, { onDelete: 'cascade' }), // set for CARE_TEAM groups only
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("access_groups_patient_id_idx").on(table.patientId),
+]);
+
+export const accessGroupMembers = pgTable("access_group_members", {
+  groupId: varchar("group_id").references(() => accessGroups.id, { onDelete: 'cascade' }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.groupId, table.userId] }),
+  index("access_group_members_user_id_idx").on(table.userId),
+]);
+
+// draft -> preliminary -> final -> amended; see shared/report-workflow.ts
+export const REPORT_STATUSES = ["draft", "preliminary", "final", "amended"] as const;
+
 export const analysisReports = pgTable("analysis_reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   scanId: varchar("scan_id").references(() => mriScans.id, { onDelete: 'cascade' }).notNull(),
+  // 1 for a scan's first report, increased by one for every regeneration
+  version: integer("version").notNull().default(1),
   riskScore: real("risk_score").notNull(),
   detectionAccuracy: real("detection_accuracy").notNull(),
   imageQuality: real("image_quality").notNull(),
@@ -31,31 +117,361 @@ export const analysisReports = pgTable("analysis_reports", {
   criticalCount: integer("critical_count").notNull().default(0),
   majorCount: integer("major_count").notNull().default(0),
   minorCount: integer("minor_count").notNull().default(0),
+  // Clinician sign-off
+  status: text("status").$type<ReportStatus>().notNull().default("draft"),
+  impression: text("impression"),
+  // Display name of the signing user at the time of signing
+  signedBy: text("signed_by"),
+  signedById: varchar("signed_by_id").references(() => users.id, { onDelete: 'set null' }),
+  signedAt: timestamp("signed_at"),
+  // Additions made after the report was finalised, oldest first
+  addenda: jsonb("addenda").$type<ReportAddendum[]>().default([]).notNull(),
+  // Template the report was generated with and the sections it rendered;
+  // null for reports generated before templates existed
+  options: jsonb("options").$type<ReportOptions>(),
+  sections: jsonb("sections").$type<ReportSection[]>(),
+  // Detections the findings were built from, so exports of this version do
+  // not pick up later detection runs
+  detections: jsonb("detections").$type<Detection[]>().default([]).notNull(),
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("analysis_reports_scan_id_version_idx").on(table.scanId, table.version),
+]);
+
+// conversion -> detection -> report, each enqueued when the previous one succeeds
+export const PROCESSING_JOB_TYPES = ["conversion", "detection", "report"] as const;
+
+// Background processing jobs, claimed by the worker loop in server/services/job-queue.ts
+export const processingJobs = pgTable("processing_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scanId: varchar("scan_id").references(() => mriScans.id, { onDelete: 'cascade' }).notNull(),
+  type: text("type").$type<ProcessingJobType>().notNull(),
+  status: text("status").$type<ProcessingJobStatus>().notNull().default("queued"),
+  payload: jsonb("payload").$type<Record<string, unknown>>().default({}).notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").defaultNow().notNull(), // earliest time the job may be claimed
+  lockedAt: timestamp("locked_at"), // refreshed by the running worker as a heartbeat
+  lockedBy: text("locked_by"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("processing_jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("processing_jobs_scan_id_idx").on(table.scanId),
+]);
+
+// Append-only record of who read, exported or changed scans, reports and
+// stored objects. Each event's hash covers its fields and the previous
+// event's hash, so editing or removing a row breaks the chain; see
+// server/services/audit-log.ts
+export const auditEvents = pgTable("audit_events", {
+  sequence: serial("sequence").primaryKey(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  actorId: varchar("actor_id"), // no foreign key: events outlive the accounts they name
+  actorUsername: text("actor_username"),
+  action: text("action").$type<AuditAction>().notNull(),
+  resourceType: text("resource_type").$type<AuditResourceType>().notNull(),
+  resourceId: text("resource_id"),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  ip: text("ip"),
+  outcome: text("outcome").$type<AuditOutcome>().notNull(),
+  statusCode: integer("status_code").notNull(),
+  details: jsonb("details").$type<Record<string, string>>(),
+  prevHash: text("prev_hash").notNull(),
+  hash: text("hash").notNull().unique(),
+}, (table) => [
+  index("audit_events_occurred_at_idx").on(table.occurredAt),
+  index("audit_events_actor_id_idx").on(table.actorId),
+  index("audit_events_resource_idx").on(table.resourceType, table.resourceId),
+]);
+
+// Re-identification keys of uploads de-identified under the DICOM Basic
+// Profile (server/services/dicom-deidentifier.ts). Only read by admins with
+// phi:reidentify; nothing else joins to these tables.
+export const deidentifiedPatients = pgTable("deidentified_patients", {
+  pseudonym: text("pseudonym").primaryKey(), // Patient ID written into the de-identified files
+  patientKey: text("patient_key").notNull().unique(), // original Patient ID, or name and birth date
+  originalName: text("original_name"),
+  originalBirthDate: text("original_birth_date"), // DICOM DA
+  dateShiftDays: integer("date_shift_days").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const deidentifiedIdentifiers = pgTable("deidentified_identifiers", {
+  replacement: text("replacement").primaryKey(),
+  original: text("original").notNull(),
+  kind: text("kind").$type<"uid" | "file_name">().notNull(),
+  patientPseudonym: text("patient_pseudonym").references(() => deidentifiedPatients.pseudonym, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("deidentified_identifiers_patient_idx").on(table.patientPseudonym),
+]);
+
+// Relations
+export const patientsRelations = relations(patients, ({ many }) => ({
+  studies: many(studies),
+}));
+
+export const studiesRelations = relations(studies, ({ one, many }) => ({
+  patient: one(patients, { fields: [studies.patientId], references: [patients.id] }),
+  series: many(series),
+}));
+
+export const seriesRelations = relations(series, ({ one, many }) => ({
+  study: one(studies, { fields: [series.studyId], references: [studies.id] }),
+  scans: many(mriScans),
+}));
+
+export const mriScansRelations = relations(mriScans, ({ one, many }) => ({
+  series: one(series, { fields: [mriScans.seriesId], references: [series.id] }),
+  reports: many(analysisReports),
+  jobs: many(processingJobs),
+}));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  scan: one(mriScans, { fields: [processingJobs.scanId], references: [mriScans.id] }),
+}));
+
+export const analysisReportsRelations = relations(analysisReports, ({ one }) => ({
+  scan: one(mriScans, { fields: [analysisReports.scanId], references: [mriScans.id] }),
+}));
+
 // Zod schemas
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3).max(64).regex(/^[\w.@-]+$/, "Usernames may only contain letters, digits and _ . @ -"),
+  displayName: (schema) => schema.trim().min(1).max(200),
+  role: z.enum(USER_ROLES).optional(),
+}).omit({
+  id: true,
+  passwordHash: true,
+  createdAt: true,
+}).extend({
+  password: z.string().min(10, "Passwords need at least 10 characters").max(200),
+});
+
+// Changes an admin can make to an account
+export const updateUserSchema = z.object({
+  displayName: z.string().trim().min(1).max(200),
+  role: z.enum(USER_ROLES),
+  password: z.string().min(10, "Passwords need at least 10 characters").max(200),
+}).partial().strict();
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const insertPatientSchema = createInsertSchema(patients, {
+  medicalRecordNumber: (schema) => schema.min(1),
+  birthDate: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  sex: z.enum(["M", "F", "O"]).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStudySchema = createInsertSchema(studies, {
+  studyDate: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSeriesSchema = createInsertSchema(series).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProcessingJobSchema = createInsertSchema(processingJobs, {
+  type: z.enum(PROCESSING_JOB_TYPES),
+}).pick({
+  scanId: true,
+  type: true,
+  payload: true,
+  maxAttempts: true,
+  runAt: true,
+});
+
+// Findings the analysis controls can focus on
+export const DETECTION_FOCUS_TYPES = ["aneurysms", "lesions", "all"] as const;
+
+// Body of POST /api/scans/:id/detect; the defaults are what the automatic
+// pipeline uses after conversion
+export const detectionParametersSchema = z.object({
+  // 0-100; higher values surface weaker candidate findings
+  sensitivity: z.number().min(0).max(100).default(75),
+  // Findings below this confidence (percent) are discarded
+  confidence: z.number().min(0).max(100).default(50),
+  detectionType: z.enum(DETECTION_FOCUS_TYPES).default("all"),
+  // Registered detectors to run; omitted runs the configured defaults
+  detectors: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export const DEFAULT_DETECTION_PARAMETERS = detectionParametersSchema.parse({});
+
 export const insertMriScanSchema = createInsertSchema(mriScans).omit({
   id: true,
   uploadedAt: true,
+  aclPolicy: true,
 });
 
-export const insertAnalysisReportSchema = createInsertSchema(analysisReports).omit({
+export const insertAccessGroupSchema = createInsertSchema(accessGroups, {
+  type: z.nativeEnum(ObjectAccessGroupType),
+  name: (schema) => schema.trim().min(1).max(200),
+}).omit({
   id: true,
+  createdAt: true,
+}).extend({
+  memberIds: z.array(z.string()).default([]),
+}).refine(group => (group.type === ObjectAccessGroupType.CARE_TEAM) === !!group.patientId, {
+  message: "Care teams need a patientId; user lists must not have one",
+  path: ["patientId"],
+});
+
+export const accessGroupMembersSchema = z.object({
+  userIds: z.array(z.string()),
+});
+
+// User lists a scan is shared with, beyond its owner and the patient's care teams
+export const scanSharingSchema = z.object({
+  sharedWith: z.array(z.object({
+    groupId: z.string(),
+    permission: z.nativeEnum(ObjectPermission),
+  })).max(50),
+});
+
+// Report templates; see server/services/report-templates.ts
+export const REPORT_FORMATS = ["Clinical Summary", "Research Detailed", "Surgical Planning", "Patient-Friendly"] as const;
+
+// Options for POST /api/scans/:id/report. Values left out fall back to the
+// defaults of the chosen template.
+export const reportOptionsSchema = z.object({
+  reportFormat: z.enum(REPORT_FORMATS).default("Clinical Summary"),
+  // 1 summary and critical findings, 2 adds major findings, 3 minor findings,
+  // 4 the technical summary, 5 per-detection technical detail
+  detailLevel: z.number().int().min(1).max(5).optional(),
+  // Risk score (0-10) from which the overall risk is high; moderate starts 3 points below
+  riskThreshold: z.number().min(0).max(10).optional(),
+  // 1 text only, 2 adds the severity chart, 3 adds finding confidence charts
+  vizComplexity: z.number().int().min(1).max(3).optional(),
+});
+
+export const insertAnalysisReportSchema = createInsertSchema(analysisReports, {
+  overallRisk: z.enum(["high", "moderate", "low"]).optional(),
+}).omit({
+  id: true,
+  version: true,
+  status: true,
+  impression: true,
+  signedBy: true,
+  signedById: true,
+  signedAt: true,
+  addenda: true,
   generatedAt: true,
 });
 
+export const reportImpressionSchema = z.object({
+  impression: z.string().trim().min(1).max(10000),
+});
+
+// The signer and addendum author are the signed-in user
+export const reportSignatureSchema = z.object({
+  // Preliminary reads can still be edited and signed again as final
+  status: z.enum(["preliminary", "final"]).default("final"),
+});
+
+export const reportAddendumSchema = z.object({
+  text: z.string().trim().min(1).max(10000),
+});
+
+// Delivery of a final report to a configured HL7 destination
+export const reportHl7DeliverySchema = z.object({
+  destination: z.string().trim().min(1),
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+// Users as returned by the API, without the password hash
+export type PublicUser = Omit<User, "passwordHash">;
+export type AccessGroup = typeof accessGroups.$inferSelect;
+export type InsertAccessGroup = z.infer<typeof insertAccessGroupSchema>;
+// Access groups as returned by the API
+export type AccessGroupWithMembers = AccessGroup & { memberIds: string[] };
+export type AuditEvent = typeof auditEvents.$inferSelect;
+// An event as recorded, before it is linked into the hash chain
+export type NewAuditEvent = Omit<AuditEvent, "sequence" | "prevHash" | "hash">;
+export type DeidentifiedPatient = typeof deidentifiedPatients.$inferSelect;
+export type NewDeidentifiedPatient = Omit<DeidentifiedPatient, "createdAt">;
+export type DeidentifiedIdentifier = typeof deidentifiedIdentifiers.$inferSelect;
+export type NewDeidentifiedIdentifier = Omit<DeidentifiedIdentifier, "createdAt">;
+
+// Original identity of a scan de-identified on upload
+export type ScanReidentification = {
+  patient: DeidentifiedPatient | null;
+  identifiers: DeidentifiedIdentifier[];
+};
+export type Patient = typeof patients.$inferSelect;
+export type InsertPatient = z.infer<typeof insertPatientSchema>;
+export type Study = typeof studies.$inferSelect;
+export type InsertStudy = z.infer<typeof insertStudySchema>;
+export type Series = typeof series.$inferSelect;
+export type InsertSeries = z.infer<typeof insertSeriesSchema>;
 export type MriScan = typeof mriScans.$inferSelect;
 export type InsertMriScan = z.infer<typeof insertMriScanSchema>;
 export type AnalysisReport = typeof analysisReports.$inferSelect;
 export type InsertAnalysisReport = z.infer<typeof insertAnalysisReportSchema>;
+// Entry of a scan's report history
+export type AnalysisReportSummary = Pick<AnalysisReport,
+  "id" | "scanId" | "version" | "generatedAt" | "riskScore" | "overallRisk" | "criticalCount" | "majorCount" | "minorCount" |
+  "status" | "signedBy" | "signedAt" | "options">;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+
+export type DetectionParameters = z.infer<typeof detectionParametersSchema>;
+export type ReportOptionsInput = z.input<typeof reportOptionsSchema>;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+// Report options with every template default filled in
+export type ReportOptions = Required<z.infer<typeof reportOptionsSchema>>;
+export type DetectionFocus = typeof DETECTION_FOCUS_TYPES[number];
+export type ProcessingJobType = typeof PROCESSING_JOB_TYPES[number];
+export type ReportStatus = typeof REPORT_STATUSES[number];
+export type ProcessingJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface MedicalImageMetadata {
+  width: number;
+  height: number;
+  depth: number;
+  spacing: [number, number, number]; // mm per voxel (x, y, z)
+  origin: [number, number, number]; // patient position of the first voxel
+  modality: string;
+  acquisitionDate?: string;
+  affine?: number[][]; // voxel-to-world transform (4x4, row-major) when the format records one
+}
+
+// Patient, study and series a scan belongs to, each null when not linked
+export interface ScanPatientContext {
+  patient: Patient | null;
+  study: Study | null;
+  series: Series | null;
+}
+
+export interface SeriesSliceFile {
+  filename: string;
+  originalName: string;
+  fileSize: number;
+}
 
 export interface Detection {
   id: string;
   type: "aneurysm" | "tumor" | "lesion" | "anomaly" | "hemorrhage";
   confidence: number;
   location: string;
+  // Bounding box on the analysed slice, all in percent of the image size:
+  // x/y locate the top-left corner, width/height the extent
   coordinates: {
     x: number;
     y: number;
@@ -69,6 +485,27 @@ export interface Detection {
   severityScore: number; // 0-10 scale
   riskCategory: "high" | "moderate" | "low";
   clinicalType: string; // e.g., "cerebral_aneurysm", "brain_hemorrhage", etc.
+  // Name of the detector that produced the finding
+  detector?: string;
+  // Segmentation of the finding inside its bounding box, when the detector provides one
+  mask?: DetectionMask;
+}
+
+// Binary mask covering a detection's bounding box on one slice of the volume.
+// Pixels are listed row by row as alternating run lengths, starting with a
+// (possibly empty) run of background.
+export interface DetectionMask {
+  slice: number; // 0-based slice index in the scan volume
+  width: number; // mask grid size in pixels
+  height: number;
+  runs: number[];
+}
+
+// Recorded with a scan's detections so the run can be reproduced
+export interface DetectionRun {
+  parameters: DetectionParameters;
+  detectors: { name: string; version: string }[];
+  ranAt: string; // ISO timestamp
 }
 
 export interface CriticalFinding {
@@ -89,6 +526,48 @@ export interface SecondaryFinding {
   significance: string;
 }
 
+export type ReportSectionKey =
+  | "riskAssessment"
+  | "criticalFindings"
+  | "secondaryFindings"
+  | "surgicalConsiderations"
+  | "recommendations"
+  | "imagingGeometry"
+  | "methodology"
+  | "technicalSummary"
+  | "detectionDetails"
+  | "glossary";
+
+// Section of a generated report, worded by its template and rendered as is in the PDF
+export interface ReportSection {
+  key: ReportSectionKey;
+  heading: string;
+  paragraphs: string[];
+  items: ReportSectionItem[];
+  charts: ReportChart[];
+}
+
+export interface ReportSectionItem {
+  title: string;
+  details: string[];
+  tone?: "critical" | "major" | "minor";
+}
+
+// Horizontal bar chart, bars scaled against max
+export interface ReportChart {
+  title: string;
+  max: number;
+  bars: { label: string; value: number; tone?: "critical" | "major" | "minor" }[];
+}
+
+export interface ReportAddendum {
+  id: string;
+  text: string;
+  author: string; // display name of the author at the time
+  authorId?: string; // user id; missing on addenda written before accounts
+  createdAt: string; // ISO timestamp
+}
+
 export interface TechnicalSummary {
   processingTime: number;
   imagesAnalyzed: number;